@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "MatchStatus" AS ENUM ('QUEUED', 'PAIRED', 'ESCROW_FUNDED', 'ACTIVE', 'FINISHED', 'SETTLED', 'ABORTED', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "status" "MatchStatus" NOT NULL DEFAULT 'PAIRED',
+ADD COLUMN     "finishedAt" TIMESTAMP(3),
+ALTER COLUMN "result" DROP NOT NULL;
+
+-- Backfill: rows that went through /api/match/result have a duration; the rest never finished
+UPDATE "Match" SET "status" = 'SETTLED', "finishedAt" = "createdAt" WHERE "durationSec" > 0 OR "winnerId" IS NOT NULL;
+UPDATE "Match" SET "status" = 'ABORTED', "result" = NULL WHERE "status" = 'PAIRED';
+
+-- CreateIndex
+CREATE INDEX "Match_status_idx" ON "Match"("status");
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "SettlementJobKind" AS ENUM ('ESCROW_SETTLE', 'XP_MIRROR', 'BADGE_MINT');
+
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('PENDING', 'RUNNING', 'CONFIRMED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "SettlementJob" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "kind" "SettlementJobKind" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "txHash" TEXT,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SettlementJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SettlementJob_status_runAt_idx" ON "SettlementJob"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "SettlementJob_matchId_idx" ON "SettlementJob"("matchId");
+
+-- AddForeignKey
+ALTER TABLE "SettlementJob" ADD CONSTRAINT "SettlementJob_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
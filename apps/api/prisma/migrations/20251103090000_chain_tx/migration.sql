@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "TxStatus" AS ENUM ('PENDING', 'CONFIRMED', 'FAILED', 'REPLACED', 'DROPPED');
+
+-- CreateTable
+CREATE TABLE "ChainTx" (
+    "id" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "from" TEXT NOT NULL,
+    "nonce" INTEGER NOT NULL,
+    "to" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "gas" BIGINT NOT NULL,
+    "maxFeePerGas" BIGINT NOT NULL,
+    "maxPriorityFeePerGas" BIGINT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "matchId" TEXT,
+    "status" "TxStatus" NOT NULL DEFAULT 'PENDING',
+    "replacedById" TEXT,
+    "blockNumber" BIGINT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChainTx_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainTx_hash_key" ON "ChainTx"("hash");
+
+-- CreateIndex
+CREATE INDEX "ChainTx_status_idx" ON "ChainTx"("status");
+
+-- CreateIndex
+CREATE INDEX "ChainTx_from_nonce_idx" ON "ChainTx"("from", "nonce");
+
+-- CreateIndex
+CREATE INDEX "ChainTx_matchId_idx" ON "ChainTx"("matchId");
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "ChainEvent" (
+    "id" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "contract" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "escrowId" BIGINT,
+    "matchId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChainEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EscrowMatch" (
+    "escrowId" BIGINT NOT NULL,
+    "p1" TEXT NOT NULL,
+    "p2" TEXT,
+    "stake" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "winner" TEXT,
+    "payout" TEXT,
+    "matchId" TEXT,
+    "createdBlock" BIGINT NOT NULL,
+    "updatedBlock" BIGINT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EscrowMatch_pkey" PRIMARY KEY ("escrowId")
+);
+
+-- CreateTable
+CREATE TABLE "ChainXP" (
+    "wallet" TEXT NOT NULL,
+    "xp" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChainXP_pkey" PRIMARY KEY ("wallet")
+);
+
+-- CreateTable
+CREATE TABLE "IndexedBlock" (
+    "number" BIGINT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IndexedBlock_pkey" PRIMARY KEY ("number")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainEvent_txHash_logIndex_key" ON "ChainEvent"("txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_blockNumber_idx" ON "ChainEvent"("blockNumber");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_escrowId_idx" ON "ChainEvent"("escrowId");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_name_idx" ON "ChainEvent"("name");
+
+-- CreateIndex
+CREATE INDEX "EscrowMatch_matchId_idx" ON "EscrowMatch"("matchId");
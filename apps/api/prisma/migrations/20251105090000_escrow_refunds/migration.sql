@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "SettlementJobKind" ADD VALUE 'ESCROW_REFUND';
+
+-- AlterTable
+ALTER TABLE "SettlementJob" ALTER COLUMN "matchId" DROP NOT NULL,
+ADD COLUMN     "escrowId" BIGINT;
+
+-- CreateIndex
+CREATE INDEX "SettlementJob_escrowId_idx" ON "SettlementJob"("escrowId");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "BotLevel" AS ENUM ('EASY', 'MEDIUM', 'HARD');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "isBot" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "botLevel" "BotLevel";
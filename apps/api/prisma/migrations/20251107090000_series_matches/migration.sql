@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "bestOf" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "games" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "variant" TEXT,
+ADD COLUMN     "targetScore" INTEGER;
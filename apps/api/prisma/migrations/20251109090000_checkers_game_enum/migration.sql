@@ -0,0 +1,2 @@
+-- Add Checkers to the Game enum
+ALTER TYPE "Game" ADD VALUE 'CHECKERS';
@@ -0,0 +1,2 @@
+-- Add Battleship to the Game enum
+ALTER TYPE "Game" ADD VALUE 'BATTLESHIP';
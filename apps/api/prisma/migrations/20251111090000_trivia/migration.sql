@@ -0,0 +1,39 @@
+-- Add Trivia to the Game enum
+ALTER TYPE "Game" ADD VALUE 'TRIVIA';
+
+-- CreateTable
+CREATE TABLE "TriviaQuestion" (
+    "id" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "difficulty" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "choices" JSONB NOT NULL,
+    "answer" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TriviaQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TriviaSeen" (
+    "userId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "seenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TriviaSeen_pkey" PRIMARY KEY ("userId","questionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TriviaQuestion_prompt_key" ON "TriviaQuestion"("prompt");
+
+-- CreateIndex
+CREATE INDEX "TriviaQuestion_category_difficulty_idx" ON "TriviaQuestion"("category", "difficulty");
+
+-- CreateIndex
+CREATE INDEX "TriviaSeen_questionId_idx" ON "TriviaSeen"("questionId");
+
+-- AddForeignKey
+ALTER TABLE "TriviaSeen" ADD CONSTRAINT "TriviaSeen_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TriviaSeen" ADD CONSTRAINT "TriviaSeen_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "TriviaQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
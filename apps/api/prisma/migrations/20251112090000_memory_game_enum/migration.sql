@@ -0,0 +1,2 @@
+-- Add Memory to the Game enum
+ALTER TYPE "Game" ADD VALUE 'MEMORY';
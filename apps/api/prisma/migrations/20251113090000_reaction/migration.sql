@@ -0,0 +1,25 @@
+-- Add Reaction to the Game enum
+ALTER TYPE "Game" ADD VALUE 'REACTION';
+
+-- CreateTable
+CREATE TABLE "ReactionTiming" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "game" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "seat" TEXT NOT NULL,
+    "goAt" TIMESTAMP(3),
+    "tapAt" TIMESTAMP(3) NOT NULL,
+    "rttMs" INTEGER,
+    "compMs" INTEGER NOT NULL,
+    "reactionMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReactionTiming_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReactionTiming_matchId_idx" ON "ReactionTiming"("matchId");
+
+-- AddForeignKey
+ALTER TABLE "ReactionTiming" ADD CONSTRAINT "ReactionTiming_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PuzzleRun" (
+    "userId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "solvedAt" TIMESTAMP(3),
+    "solveMs" INTEGER,
+
+    CONSTRAINT "PuzzleRun_pkey" PRIMARY KEY ("userId","date")
+);
+
+-- CreateIndex
+CREATE INDEX "PuzzleRun_date_solvedAt_idx" ON "PuzzleRun"("date", "solvedAt");
+
+-- AddForeignKey
+ALTER TABLE "PuzzleRun" ADD CONSTRAINT "PuzzleRun_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Older start requests could record one escrow on several matches. Keep it on the match the
+-- indexer linked it to, else on the one that got furthest with it (earliest on a tie), and
+-- unlink it from the others so the unique index can be built
+UPDATE "Match" SET "escrowId" = NULL
+WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT m."id", ROW_NUMBER() OVER (
+      PARTITION BY m."escrowId"
+      ORDER BY (em."matchId" = m."id") IS TRUE DESC,
+               m."status" IN ('ESCROW_FUNDED', 'ACTIVE', 'FINISHED', 'SETTLED', 'REFUNDED') DESC,
+               m."createdAt", m."id"
+    ) AS "rank"
+    FROM "Match" m LEFT JOIN "EscrowMatch" em ON em."escrowId" = m."escrowId"
+    WHERE m."escrowId" IS NOT NULL
+  ) ranked
+  WHERE "rank" > 1
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Match_escrowId_key" ON "Match"("escrowId");
@@ -11,3 +11,9 @@ export async function requireAuth(req: FastifyRequest, reply: FastifyReply) {
     return reply.code(401).send({ error: "invalid token" });
   }
 }
+
+// Operator-only endpoints: `x-admin-key` must match ADMIN_API_KEY (always refused when it is unset)
+export async function requireAdmin(req: FastifyRequest, reply: FastifyReply) {
+  const key = process.env.ADMIN_API_KEY;
+  if (!key || req.headers["x-admin-key"] !== key) return reply.code(403).send({ error: "forbidden" });
+}
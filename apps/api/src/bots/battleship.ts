@@ -0,0 +1,57 @@
+import { type BSMove, type BSState, type Side, BS_FLEET, BS_SIZE, battleshipView, bsRandomFleet, bsShipCells } from "@spark/shared";
+import { type BotLevel, pickRandom } from "./types.js";
+
+// Battleship: the bot only looks at its own view of the game, like a player. The easy bot fires
+// at random; the medium one fires around hits until the ship sinks and otherwise at random; the
+// hard one counts, for every open cell, the ways the ships still afloat could cover it (placements
+// through unexplained hits count extra) and fires at the likeliest cell.
+const HIT_WEIGHT = 20;
+
+const neighbours = (c: number) => {
+  const row = Math.floor(c / BS_SIZE), col = c % BS_SIZE;
+  return [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]]
+    .filter(([r, k]) => r >= 0 && r < BS_SIZE && k >= 0 && k < BS_SIZE)
+    .map(([r, k]) => r * BS_SIZE + k);
+};
+
+function densityShot(open: number[], misses: Set<number>, hits: Set<number>, afloat: number[]) {
+  const score = new Map<number, number>();
+  for (const length of afloat) {
+    for (let cell = 0; cell < BS_SIZE * BS_SIZE; cell++) {
+      for (const vertical of [false, true]) {
+        const cells = bsShipCells({ cell, vertical }, length);
+        if (!cells || cells.some((c) => misses.has(c))) continue;
+        const weight = 1 + cells.filter((c) => hits.has(c)).length * HIT_WEIGHT;
+        for (const c of cells) if (!hits.has(c)) score.set(c, (score.get(c) ?? 0) + weight);
+      }
+    }
+  }
+  const best = Math.max(...open.map((c) => score.get(c) ?? 0));
+  return pickRandom(open.filter((c) => (score.get(c) ?? 0) === best));
+}
+
+export function battleshipBotMove(state: BSState, side: Side, level: BotLevel): BSMove | undefined {
+  const view = battleshipView(state, side);
+  if (view.phase === "setup") return view.placed ? undefined : { fleet: bsRandomFleet(Math.random) };
+  if (state.turn !== side) return undefined;
+
+  const fired = new Set(view.shots.map((s) => s.cell));
+  const open = Array.from({ length: BS_SIZE * BS_SIZE }, (_, c) => c).filter((c) => !fired.has(c));
+  if (level === "EASY") return { shot: pickRandom(open)! };
+
+  // Hits that do not belong to a ship already sunk still point at a ship afloat
+  const sunkCells = new Set(view.sunk.flatMap((s) => s.cells));
+  const hits = new Set(view.shots.filter((s) => s.hit && !sunkCells.has(s.cell)).map((s) => s.cell));
+  if (level === "MEDIUM") {
+    const around = [...hits].flatMap(neighbours).filter((c) => !fired.has(c));
+    return { shot: pickRandom(around.length ? around : open)! };
+  }
+  const misses = new Set(view.shots.filter((s) => !s.hit).map((s) => s.cell));
+  const sunkNames = view.sunk.map((s) => s.name);
+  const afloat = BS_FLEET.filter((ship) => {
+    const i = sunkNames.indexOf(ship.name);
+    if (i >= 0) sunkNames.splice(i, 1);
+    return i < 0;
+  }).map((ship) => ship.length);
+  return { shot: densityShot(open, misses, hits, afloat)! };
+}
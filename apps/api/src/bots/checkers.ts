@@ -0,0 +1,50 @@
+import { type CheckersState, type Side, checkers, checkersColorOf, checkersPieceColor, isKing } from "@spark/shared";
+import { type BotLevel, pickRandom, searchBest } from "./types.js";
+
+// Checkers: material search. Kings are worth more than men and men gain a little as they
+// advance, so the bot pushes towards the crown row when nothing can be taken.
+const DEPTH: Record<BotLevel, number> = { EASY: 0, MEDIUM: 2, HARD: 5 };
+const WIN = 100_000;
+const MAN = 100;
+const KING = 160;
+
+// Material for the side to move
+function evaluate(state: CheckersState) {
+  const me = checkersColorOf(state, state.turn);
+  let score = 0;
+  state.board.forEach((p, i) => {
+    if (!p) return;
+    const row = i >> 3;
+    const advance = checkersPieceColor(p) === "d" ? 7 - row : row;
+    const v = isKing(p) ? KING : MAN + advance * 3;
+    score += checkersPieceColor(p) === me ? v : -v;
+  });
+  return score;
+}
+
+// Score for the side to move in `state`
+function negamax(state: CheckersState, depth: number, alpha: number, beta: number, tick: () => void): number {
+  tick();
+  if (state.outcome) return state.outcome.winner === null ? 0 : -(WIN + depth);
+  if (depth === 0) return evaluate(state);
+  let best = -Infinity;
+  for (const path of checkers.legalMoves(state, state.turn)) {
+    const res = checkers.applyMove(state, state.turn, path);
+    if (!res.ok) continue;
+    const v = -negamax(res.state, depth - 1, -beta, -alpha, tick);
+    if (v > best) best = v;
+    if (v > alpha) alpha = v;
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+export function checkersBotMove(state: CheckersState, side: Side, level: BotLevel): number[] | undefined {
+  const moves = checkers.legalMoves(state, side);
+  const depth = DEPTH[level];
+  if (depth === 0 || moves.length <= 1) return pickRandom(moves);
+  return pickRandom(searchBest(moves, depth, (path, d, tick) => {
+    const res = checkers.applyMove(state, side, path);
+    return res.ok ? -negamax(res.state, d - 1, -Infinity, Infinity, tick) : -Infinity;
+  }));
+}
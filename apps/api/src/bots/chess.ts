@@ -0,0 +1,50 @@
+import { type ChessState, type Side, chess, chessColorOf, pieceColor } from "@spark/shared";
+import { type BotLevel, pickRandom, searchBest } from "./types.js";
+
+// Chess: material-counting search. The shared engine is written for clarity rather than speed,
+// so the search stays shallow (the hard bot looks at its move and the best reply, as far as
+// the think time allows).
+const DEPTH: Record<BotLevel, number> = { EASY: 0, MEDIUM: 1, HARD: 2 };
+const MATE = 100_000;
+const VALUE: Record<string, number> = { p: 100, n: 300, b: 320, r: 500, q: 900, k: 0 };
+
+// Material for the side to move, with a small bonus for pieces near the center
+function evaluate(state: ChessState) {
+  const me = chessColorOf(state, state.turn);
+  let score = 0;
+  state.board.forEach((p, i) => {
+    if (!p) return;
+    const r = i >> 3, f = i % 8;
+    const central = 6 - (Math.abs(3.5 - r) + Math.abs(3.5 - f));
+    const v = VALUE[p.toLowerCase()] + (p.toLowerCase() === "k" ? 0 : central * 2);
+    score += pieceColor(p) === me ? v : -v;
+  });
+  return score;
+}
+
+// Score for the side to move in `state`
+function negamax(state: ChessState, depth: number, alpha: number, beta: number, tick: () => void): number {
+  tick();
+  if (state.outcome) return state.outcome.winner === null ? 0 : -(MATE + depth);
+  if (depth === 0) return evaluate(state);
+  let best = -Infinity;
+  for (const move of chess.legalMoves(state, state.turn)) {
+    const res = chess.applyMove(state, state.turn, move);
+    if (!res.ok) continue;
+    const v = -negamax(res.state, depth - 1, -beta, -alpha, tick);
+    if (v > best) best = v;
+    if (v > alpha) alpha = v;
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+export function chessBotMove(state: ChessState, side: Side, level: BotLevel): string | undefined {
+  const moves = chess.legalMoves(state, side);
+  const depth = DEPTH[level];
+  if (depth === 0 || moves.length <= 1) return pickRandom(moves);
+  return pickRandom(searchBest(moves, depth, (move, d, tick) => {
+    const res = chess.applyMove(state, side, move);
+    return res.ok ? -negamax(res.state, d - 1, -Infinity, Infinity, tick) : -Infinity;
+  }));
+}
@@ -0,0 +1,99 @@
+import { type C4Color, type C4Move, type C4State, type GameRules, type Side, colorOf, otherSide } from "@spark/shared";
+import { type BotLevel, pickRandom, searchBest } from "./types.js";
+
+// Connect Four: negamax with alpha-beta and a window-counting heuristic at the horizon, over the
+// room's rules (any board size; in Pop Out pops are searched after the drops).
+const DEPTH: Record<BotLevel, number> = { EASY: 0, MEDIUM: 3, HARD: 6 };
+// Wider boards branch more: one ply less keeps the hard bot's think time similar
+const DEPTH_WIDE: Record<BotLevel, number> = { EASY: 0, MEDIUM: 3, HARD: 5 };
+const WIN = 1_000_000;
+
+type Geometry = { windows: number[][]; centerFirst: number[]; center: number };
+const geometries = new Map<string, Geometry>();
+
+// Every run of four cells on a cols x rows grid (as board indices) and the columns center-first
+function geometry(cols: number, rows: number): Geometry {
+  const key = `${cols}x${rows}`;
+  const cached = geometries.get(key);
+  if (cached) return cached;
+  const windows: number[][] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      for (const [dr, dc] of [[0, 1], [1, 0], [1, 1], [1, -1]]) {
+        const cells = [0, 1, 2, 3].map((k) => [r + dr * k, c + dc * k]);
+        if (cells.every(([rr, cc]) => rr >= 0 && rr < rows && cc >= 0 && cc < cols)) {
+          windows.push(cells.map(([rr, cc]) => rr * cols + cc));
+        }
+      }
+    }
+  }
+  const center = Math.floor(cols / 2);
+  const centerFirst = Array.from({ length: cols }, (_, c) => c).sort((x, y) => Math.abs(x - center) - Math.abs(y - center));
+  const g = { windows, centerFirst, center };
+  geometries.set(key, g);
+  return g;
+}
+
+// Static value of the position for `me`: open windows with 2 or 3 own tokens, minus the
+// opponent's, plus a bonus for holding the center column
+function heuristic(state: C4State, me: C4Color) {
+  const { board, cols, rows } = state;
+  const { windows, center } = geometry(cols, rows);
+  let score = 0;
+  for (const w of windows) {
+    let mine = 0, theirs = 0;
+    for (const i of w) {
+      if (board[i] === me) mine++;
+      else if (board[i] !== null) theirs++;
+    }
+    if (mine && theirs) continue;
+    if (mine === 3) score += 50;
+    else if (mine === 2) score += 5;
+    if (theirs === 3) score -= 60;
+    else if (theirs === 2) score -= 5;
+  }
+  for (let r = 0; r < rows; r++) if (board[r * cols + center] === me) score += 3;
+  return score;
+}
+
+// Drops center-first, then pops
+function ordered(rules: GameRules<C4State, C4Move>, state: C4State, side: Side) {
+  const legal = rules.legalMoves(state, side);
+  const drops = geometry(state.cols, state.rows).centerFirst.filter((c) => legal.includes(c));
+  return [...drops, ...legal.filter((m) => typeof m !== "number")];
+}
+
+// Value of a finished or reset position for `me`; a pop can hand the win to either side
+function terminal(state: C4State, prev: C4State, me: Side, depth: number) {
+  if (state.outcome) return state.outcome.winner === null ? 0 : (state.outcome.winner === me ? WIN + depth : -(WIN + depth));
+  // A full board starts a new round: a draw for the search
+  if (state.round !== prev.round) return 0;
+  return undefined;
+}
+
+// Score for `me`, the side to move in `state`
+function negamax(rules: GameRules<C4State, C4Move>, state: C4State, me: Side, depth: number, alpha: number, beta: number, tick: () => void): number {
+  tick();
+  if (depth === 0) return heuristic(state, colorOf(me));
+  let best = -Infinity;
+  for (const move of ordered(rules, state, me)) {
+    const res = rules.applyMove(state, me, move);
+    if (!res.ok) continue;
+    const v = terminal(res.state, state, me, depth) ?? -negamax(rules, res.state, otherSide(me), depth - 1, -beta, -alpha, tick);
+    if (v > best) best = v;
+    if (v > alpha) alpha = v;
+    if (alpha >= beta) break;
+  }
+  return best === -Infinity ? 0 : best;
+}
+
+export function c4BotMove(rules: GameRules<C4State, C4Move>, state: C4State, side: Side, level: BotLevel): C4Move | undefined {
+  const moves = ordered(rules, state, side);
+  const depth = (state.cols > 7 ? DEPTH_WIDE : DEPTH)[level];
+  if (depth === 0 || moves.length <= 1) return pickRandom(moves);
+  return pickRandom(searchBest(moves, depth, (move, d, tick) => {
+    const res = rules.applyMove(state, side, move);
+    if (!res.ok) return -Infinity;
+    return terminal(res.state, state, side, d) ?? -negamax(rules, res.state, otherSide(side), d - 1, -Infinity, Infinity, tick);
+  }));
+}
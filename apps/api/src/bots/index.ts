@@ -0,0 +1,41 @@
+import type { BSState, C4State, CheckersState, ChessState, GameRules, RPSState, Side, TTTState, TriviaState, MemoryState, ReactionState } from "@spark/shared";
+import type { GameType } from "../ws/game.js";
+import { type BotLevel, type BotMemory } from "./types.js";
+import { tttBotMove } from "./tictactoe.js";
+import { c4BotMove } from "./connectfour.js";
+import { rpsBotMove } from "./rps.js";
+import { chessBotMove } from "./chess.js";
+import { checkersBotMove } from "./checkers.js";
+import { battleshipBotMove } from "./battleship.js";
+import { triviaBotMove } from "./trivia.js";
+import { memoryBotMove } from "./memory.js";
+import { reactionBotMove } from "./reaction.js";
+
+export { type BotLevel, type BotMemory, BOT_LEVELS } from "./types.js";
+export { triviaThinkMs } from "./trivia.js";
+export { memoryBotSee } from "./memory.js";
+export { reactionBotMs } from "./reaction.js";
+
+// Bots play from fixed, keyless addresses so they can sit in Match rows like any user
+export const BOT_WALLETS: Record<BotLevel, string> = {
+  EASY: "0x000000000000000000000000000000000000b071",
+  MEDIUM: "0x000000000000000000000000000000000000b072",
+  HARD: "0x000000000000000000000000000000000000b073",
+};
+
+export const BOT_NAMES: Record<BotLevel, string> = { EASY: "Spark Bot (Easy)", MEDIUM: "Spark Bot (Medium)", HARD: "Spark Bot (Hard)" };
+
+/** The move a bot seated at `side` plays in `state` under the room's `rules` (its variant), in the shape they expect */
+export function botMove(type: GameType, rules: GameRules<any, any>, state: unknown, side: Side, level: BotLevel, memory: BotMemory) {
+  switch (type) {
+    case "TTT": return tttBotMove(rules, state as TTTState, side, level);
+    case "C4": return c4BotMove(rules, state as C4State, side, level);
+    case "RPS": return (state as RPSState).outcome ? undefined : rpsBotMove(level, memory, rules.legalMoves(state, side));
+    case "CHESS": return chessBotMove(state as ChessState, side, level);
+    case "CHECKERS": return checkersBotMove(state as CheckersState, side, level);
+    case "BATTLESHIP": return battleshipBotMove(state as BSState, side, level);
+    case "TRIVIA": return triviaBotMove(state as TriviaState, side, level);
+    case "MEMORY": return memoryBotMove(state as MemoryState, side, memory);
+    case "REACTION": return reactionBotMove(state as ReactionState, side, memory);
+  }
+}
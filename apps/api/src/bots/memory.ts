@@ -0,0 +1,29 @@
+import type { MemoryMove, MemoryState, Side } from "@spark/shared";
+import { type BotLevel, type BotMemory, pickRandom } from "./types.js";
+
+// Memory: the bot only knows the cards it has seen face up (its own flips and the opponent's),
+// and weaker bots keep fewer of them in mind. It takes a pair it knows both cards of, completes
+// a first flip whose mate it remembers, and otherwise explores cards it has not seen.
+const RECALL: Record<BotLevel, number> = { EASY: 0.2, MEDIUM: 0.6, HARD: 1 };
+
+/** Let the bot look at the cards face up in `state` */
+export function memoryBotSee(state: MemoryState, level: BotLevel, memory: BotMemory) {
+  const cards = (memory.cards = memory.cards ?? {});
+  for (const c of state.flipped) if (!(c in cards) && Math.random() < RECALL[level]) cards[c] = state.deck[c];
+}
+
+export function memoryBotMove(state: MemoryState, side: Side, memory: BotMemory): MemoryMove | undefined {
+  if (state.outcome || state.phase !== "flip" || state.turn !== side) return undefined;
+  const cards = memory.cards ?? {};
+  const open = state.deck.map((_, i) => i).filter((i) => !state.taken[i] && !state.flipped.includes(i));
+  const known = open.filter((i) => i in cards);
+  const unseen = open.filter((i) => !(i in cards));
+  const explore = () => pickRandom(unseen.length ? unseen : open)!;
+  const [first] = state.flipped;
+  if (first === undefined) {
+    const pair = known.find((i) => known.some((j) => j !== i && cards[j] === cards[i]));
+    return { flip: pair ?? explore() };
+  }
+  const mate = known.find((i) => cards[i] === state.deck[first]);
+  return { flip: mate ?? explore() };
+}
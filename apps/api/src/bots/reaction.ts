@@ -0,0 +1,17 @@
+import type { ReactionMove, ReactionState, Side } from "@spark/shared";
+import type { BotLevel, BotMemory } from "./types.js";
+
+// Reaction duel: the bot never jumps the gun. It taps a reaction time drawn once per round after
+// GO, so a quick player beats even the hard bot some of the time.
+const REACTION_MS: Record<BotLevel, [number, number]> = { EASY: [420, 700], MEDIUM: [300, 480], HARD: [210, 330] };
+
+/** How long after GO the bot taps */
+export function reactionBotMs(level: BotLevel) {
+  const [min, max] = REACTION_MS[level];
+  return Math.round(min + Math.random() * (max - min));
+}
+
+export function reactionBotMove(state: ReactionState, side: Side, memory: BotMemory): ReactionMove | undefined {
+  if (state.outcome || state.phase !== "go" || state.taps[side] || memory.reaction?.round !== state.round) return undefined;
+  return { ms: memory.reaction.ms };
+}
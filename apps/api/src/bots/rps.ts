@@ -0,0 +1,64 @@
+import { type RPSChoice, RPS_BEATS } from "@spark/shared";
+import { type BotLevel, type BotMemory, pickRandom } from "./types.js";
+
+// Rock Paper Scissors: nobody beats uniform random in the long run, so the stronger bots bet on
+// the opponent having habits. Medium counters their favourite pick; hard keeps transition counts
+// keyed on the previous round (their pick, and their pick plus ours, which also catches
+// win-stay/lose-shift players) and counters the most likely next pick. Works for any pick set
+// (classic or Lizard-Spock): `choices` are the variant's picks.
+// Share of rounds the hard bot plays randomly so it cannot be farmed by a counter-strategy
+const HARD_NOISE = 0.1;
+
+function mostLikely(counts: Map<RPSChoice, number>): RPSChoice | undefined {
+  let best: RPSChoice[] = [];
+  let top = 0;
+  for (const [c, n] of counts) {
+    if (n > top) { top = n; best = [c]; } else if (n === top) best.push(c);
+  }
+  return pickRandom(best);
+}
+
+function frequency(history: BotMemory["rps"]) {
+  const counts = new Map<RPSChoice, number>();
+  for (const h of history) if (h.theirs) counts.set(h.theirs, (counts.get(h.theirs) ?? 0) + 1);
+  return counts;
+}
+
+// What the opponent played after earlier rounds matching `key`
+function afterContext(history: BotMemory["rps"], key: (h: BotMemory["rps"][number]) => string) {
+  const counts = new Map<RPSChoice, number>();
+  const last = history[history.length - 1];
+  if (!last) return counts;
+  const want = key(last);
+  for (let i = 0; i + 1 < history.length; i++) {
+    const next = history[i + 1].theirs;
+    if (next && key(history[i]) === want) counts.set(next, (counts.get(next) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// A pick that beats `guess` (one at random when several do)
+function counter(guess: RPSChoice, choices: RPSChoice[]) {
+  return pickRandom(choices.filter((c) => RPS_BEATS[c].includes(guess)))!;
+}
+
+export function rpsBotMove(level: BotLevel, memory: BotMemory, choices: RPSChoice[]): RPSChoice {
+  const random = pickRandom(choices)!;
+  const history = memory.rps;
+  if (level === "EASY" || history.length === 0) return random;
+  if (level === "MEDIUM") {
+    const guess = mostLikely(frequency(history));
+    return guess ? counter(guess, choices) : random;
+  }
+  if (Math.random() < HARD_NOISE) return random;
+  // Most specific context with data wins; plain frequency is the fallback
+  for (const counts of [
+    afterContext(history, (h) => `${h.theirs}|${h.mine}`),
+    afterContext(history, (h) => `${h.theirs}`),
+    frequency(history),
+  ]) {
+    const guess = mostLikely(counts);
+    if (guess) return counter(guess, choices);
+  }
+  return random;
+}
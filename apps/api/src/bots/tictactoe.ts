@@ -0,0 +1,46 @@
+import type { GameRules, Side, TTTState } from "@spark/shared";
+import { type BotLevel, pickRandom, searchBest } from "./types.js";
+
+// Tic-Tac-Toe: negamax with alpha-beta over the room's rules. In Infinity marks vanish after
+// three per side, so the game never fills up and the search is depth-limited instead of
+// exhaustive; the 4x4 board is too big to search to the end, so it is searched shallower.
+const DEPTH: Record<BotLevel, number> = { EASY: 0, MEDIUM: 2, HARD: 9 };
+const DEPTH_4X4: Record<BotLevel, number> = { EASY: 0, MEDIUM: 2, HARD: 5 };
+const WIN = 100;
+
+// Center cells first, then by distance from the center: good moves first make alpha-beta cut more
+function moveOrder(size: number) {
+  const mid = (size - 1) / 2;
+  const dist = (i: number) => Math.abs(Math.floor(i / size) - mid) + Math.abs((i % size) - mid);
+  return Array.from({ length: size * size }, (_, i) => i).sort((x, y) => dist(x) - dist(y));
+}
+
+// Score for the side to move in `state`; quicker wins (more depth left) score higher
+function negamax(rules: GameRules<TTTState, number>, order: number[], state: TTTState, depth: number, alpha: number, beta: number, tick: () => void): number {
+  tick();
+  if (state.outcome) return state.outcome.winner ? -(WIN + depth) : 0; // the previous mover just won, or a full board
+  if (depth === 0) return 0;
+  let best = -Infinity;
+  for (const cell of order) {
+    if (state.board[cell] !== null) continue;
+    const res = rules.applyMove(state, state.turn, cell);
+    if (!res.ok) continue;
+    const v = -negamax(rules, order, res.state, depth - 1, -beta, -alpha, tick);
+    if (v > best) best = v;
+    if (v > alpha) alpha = v;
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+export function tttBotMove(rules: GameRules<TTTState, number>, state: TTTState, side: Side, level: BotLevel): number | undefined {
+  const moves = rules.legalMoves(state, side);
+  const size = Math.round(Math.sqrt(state.board.length));
+  const depth = (size > 3 ? DEPTH_4X4 : DEPTH)[level];
+  if (depth === 0 || moves.length <= 1) return pickRandom(moves);
+  const order = moveOrder(size);
+  return pickRandom(searchBest(moves, depth, (cell, d, tick) => {
+    const res = rules.applyMove(state, side, cell);
+    return res.ok ? -negamax(rules, order, res.state, d - 1, -Infinity, Infinity, tick) : -Infinity;
+  }));
+}
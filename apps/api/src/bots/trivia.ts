@@ -0,0 +1,22 @@
+import type { Side, TriviaMove, TriviaState } from "@spark/shared";
+import { type BotLevel, pickRandom } from "./types.js";
+
+// Trivia: the bot "knows" the right answer with a probability per level and otherwise guesses
+// among the wrong ones. It answers after a think time drawn per question, so faster players
+// still beat it to the speed bonus. `ms` is stamped by the room like a player's answer.
+const ACCURACY: Record<BotLevel, number> = { EASY: 0.45, MEDIUM: 0.65, HARD: 0.85 };
+const THINK_MS: Record<BotLevel, [number, number]> = { EASY: [5_000, 12_000], MEDIUM: [3_500, 9_000], HARD: [2_000, 6_000] };
+
+/** How long the bot takes to answer a question */
+export function triviaThinkMs(level: BotLevel) {
+  const [min, max] = THINK_MS[level];
+  return min + Math.random() * (max - min);
+}
+
+export function triviaBotMove(state: TriviaState, side: Side, level: BotLevel): TriviaMove | undefined {
+  if (state.outcome || state.phase !== "question" || state.answers[side]) return undefined;
+  const q = state.questions[state.index];
+  if (Math.random() < ACCURACY[level]) return { choice: q.answer, ms: 0 };
+  const wrong = q.choices.map((_, i) => i).filter((i) => i !== q.answer);
+  return { choice: pickRandom(wrong)!, ms: 0 };
+}
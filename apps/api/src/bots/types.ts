@@ -0,0 +1,52 @@
+import type { RPSChoice } from "@spark/shared";
+
+export type BotLevel = "EASY" | "MEDIUM" | "HARD";
+
+export const BOT_LEVELS: BotLevel[] = ["EASY", "MEDIUM", "HARD"];
+
+// What a bot remembers over one game: the opponent's RPS picks, when it will answer the current
+// trivia question, the memory cards it has seen (card -> pair id) and its reaction time this round
+export type BotMemory = {
+  rps: Array<{ mine: RPSChoice | null; theirs: RPSChoice | null }>;
+  trivia?: { index: number; answerAt: number };
+  cards?: Record<number, number>;
+  reaction?: { round: number; ms: number };
+};
+
+export function pickRandom<T>(items: T[]): T | undefined {
+  return items.length ? items[Math.floor(Math.random() * items.length)] : undefined;
+}
+
+// Searches run on the game server's event loop, so a bot thinks this long at most and plays the
+// best move of the deepest search it finished (or of the part of the first one it got through)
+export const BOT_THINK_MS = 30;
+
+class SearchTimeout extends Error {}
+
+/**
+ * Iterative deepening over `moves` within BOT_THINK_MS. `score(move, depth, tick)` rates a root
+ * move searched `depth` plies deep (-Infinity to skip it) and calls `tick` at every node, which
+ * aborts the search once time is up. Returns the best-scoring moves.
+ */
+export function searchBest<M>(moves: M[], maxDepth: number, score: (move: M, depth: number, tick: () => void) => number): M[] {
+  const deadline = Date.now() + BOT_THINK_MS;
+  const tick = () => { if (Date.now() > deadline) throw new SearchTimeout(); };
+  let found: M[] = [];
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    let best = -Infinity;
+    let bestMoves: M[] = [];
+    try {
+      for (const move of moves) {
+        const v = score(move, depth, tick);
+        if (v === -Infinity) continue;
+        if (v > best) { best = v; bestMoves = [move]; } else if (v === best) bestMoves.push(move);
+      }
+    } catch (err) {
+      if (!(err instanceof SearchTimeout)) throw err;
+      if (!found.length) found = bestMoves;
+      break;
+    }
+    found = bestMoves;
+  }
+  return found.length ? found : moves;
+}
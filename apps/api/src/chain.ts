@@ -9,6 +9,7 @@ import ESCROW from "../../../packages/shared/abi/GameEscrow.json" with { type: "
 const chain = { id: env.BASE_CHAIN_ID, name: "base-sepolia", nativeCurrency:{name:"ETH",symbol:"ETH",decimals:18}, rpcUrls:{default:{ http:[env.BASE_RPC_URL] } } };
 
 export const publicClient = createPublicClient({ chain, transport: http() });
+// Send through txsender.ts (nonce management, gas bumps, ChainTx records), not directly
 export const walletClient = createWalletClient({
   account: privateKeyToAccount(process.env.SERVER_PRIVATE_KEY as `0x${string}`),
   chain,
@@ -0,0 +1,40 @@
+import { parseUnits } from "viem";
+import { publicClient, escrow } from "./chain.js";
+
+// Reads of GameEscrow.matches(id); clients' escrow claims are checked against these, never trusted
+export type EscrowState = { p1: string; p2: string; stake: bigint; state: number; winner: string; createdAt: number; joinedAt: number };
+
+const ZERO = "0x0000000000000000000000000000000000000000";
+const ARK_DECIMALS = 18;
+
+export async function readEscrow(escrowId: bigint): Promise<EscrowState> {
+  const [p1, p2, stake, state, winner, createdAt, joinedAt] = await publicClient.readContract({ ...escrow, functionName: "matches", args: [escrowId] }) as [string, string, bigint, number, string, bigint, bigint];
+  return { p1: p1.toLowerCase(), p2: p2.toLowerCase(), stake, state: Number(state), winner: winner.toLowerCase(), createdAt: Number(createdAt), joinedAt: Number(joinedAt) };
+}
+
+/** P1's deposit: `wallet` created escrow `escrowId` with exactly `stakeArk` ARK and nobody joined yet. */
+export async function verifyDeposit(escrowId: bigint, wallet: string, stakeArk: number):
+  Promise<{ ok: true } | { ok: false; reason: "escrow_not_found" | "escrow_wrong_owner" | "escrow_wrong_stake" | "escrow_not_open" | "escrow_unreadable" }> {
+  let m: EscrowState;
+  try { m = await readEscrow(escrowId); } catch { return { ok: false, reason: "escrow_unreadable" }; }
+  if (m.p1 === ZERO) return { ok: false, reason: "escrow_not_found" };
+  if (m.p1 !== wallet.toLowerCase()) return { ok: false, reason: "escrow_wrong_owner" };
+  if (m.stake !== parseUnits(String(stakeArk), ARK_DECIMALS)) return { ok: false, reason: "escrow_wrong_stake" };
+  if (m.state !== 0) return { ok: false, reason: "escrow_not_open" };
+  return { ok: true };
+}
+
+/**
+ * Resolve once `p2` has joined escrow `escrowId` on-chain (state 1), false after `timeoutMs`
+ * or when the escrow left the joinable state another way. `cancelled()` stops polling early.
+ */
+export async function waitForJoin(escrowId: bigint, p2: string, timeoutMs: number, cancelled: () => boolean = () => false) {
+  const until = Date.now() + timeoutMs;
+  while (Date.now() < until && !cancelled()) {
+    const m = await readEscrow(escrowId).catch(() => null);
+    if (m && m.state === 1) return m.p2 === p2.toLowerCase();
+    if (m && m.state > 1) return false;
+    await new Promise((r) => setTimeout(r, 3_000));
+  }
+  return false;
+}
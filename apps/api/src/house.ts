@@ -0,0 +1,88 @@
+import { formatUnits, maxUint256, parseUnits } from "viem";
+import { prisma } from "./client.js";
+import { publicClient, walletClient, ark, escrow, addr } from "./chain.js";
+import { sendTx, waitForTx } from "./txsender.js";
+import { readEscrow } from "./escrow.js";
+import type { BotLevel } from "./bots/index.js";
+
+// The house: the server wallet taking the other side of staked games against a bot. It joins
+// the player's escrow with its own ARK and is paid out (or not) by the normal settle job.
+// Exposure = ARK the house has in play, i.e. stakes of house matches that have not settled or
+// been refunded yet; new games are refused once limits would be exceeded.
+
+const ARK_DECIMALS = 18;
+const ENABLED = process.env.HOUSE_ENABLED !== "false";
+// Largest stake the house accepts per bot difficulty (ARK); weaker bots lose more often
+const MAX_STAKE: Record<BotLevel, number> = {
+  EASY: Number(process.env.HOUSE_MAX_STAKE_EASY ?? "2"),
+  MEDIUM: Number(process.env.HOUSE_MAX_STAKE_MEDIUM ?? "10"),
+  HARD: Number(process.env.HOUSE_MAX_STAKE_HARD ?? "25"),
+};
+// Total ARK the house may have locked in escrows at once
+const MAX_EXPOSURE = Number(process.env.HOUSE_MAX_EXPOSURE ?? "200");
+// ARK the house wallet keeps free after joining, whatever the exposure
+const MIN_BANKROLL = Number(process.env.HOUSE_MIN_BANKROLL ?? "50");
+// Until a house game settles or is refunded, its stake counts against the house
+const OPEN_STATUSES = ["PAIRED", "ESCROW_FUNDED", "ACTIVE", "FINISHED"];
+
+// Stakes accepted but not yet visible as a Match row (single API process, like txsender.ts)
+let reserved = 0;
+
+export const houseWallet = () => walletClient.account.address.toLowerCase();
+
+export const houseUser = () => prisma.user.upsert({
+  where: { walletAddress: houseWallet() },
+  update: {},
+  create: { walletAddress: houseWallet(), nickname: "Spark House", isBot: true }
+});
+
+async function exposure() {
+  const agg = await prisma.match.aggregate({
+    _sum: { arkStaked: true },
+    where: { p2: { walletAddress: houseWallet() }, escrowId: { not: null }, status: { in: OPEN_STATUSES } }
+  });
+  return Number(agg._sum.arkStaked ?? 0) + reserved;
+}
+
+async function bankroll() {
+  const wei = await publicClient.readContract({ ...ark, functionName: "balanceOf", args: [walletClient.account.address] }) as bigint;
+  return Number(formatUnits(wei, ARK_DECIMALS));
+}
+
+export async function houseStatus() {
+  const [exp, bank] = await Promise.all([exposure(), bankroll().catch(() => null)]);
+  return { enabled: ENABLED, wallet: houseWallet(), bankroll: bank, exposure: exp, maxExposure: MAX_EXPOSURE, minBankroll: MIN_BANKROLL, maxStake: MAX_STAKE };
+}
+
+export type HouseReservation = { ok: true; release: () => void } | { ok: false; reason: "house_disabled" | "stake_above_max" | "house_exposure_limit" | "house_bankroll_low" | "house_unavailable" };
+
+/**
+ * Hold `stake` ARK of house capacity for a game against a `level` bot. Call `release()` once the
+ * Match row exists (it is counted from the DB from then on) or the game was not created.
+ */
+export async function reserveHouseStake(level: BotLevel, stake: number): Promise<HouseReservation> {
+  if (!ENABLED) return { ok: false, reason: "house_disabled" };
+  if (stake > MAX_STAKE[level]) return { ok: false, reason: "stake_above_max" };
+  let exp: number, bank: number;
+  try { [exp, bank] = await Promise.all([exposure(), bankroll()]); }
+  catch { return { ok: false, reason: "house_unavailable" }; }
+  if (exp + stake > MAX_EXPOSURE) return { ok: false, reason: "house_exposure_limit" };
+  if (bank - stake < MIN_BANKROLL) return { ok: false, reason: "house_bankroll_low" };
+  reserved += stake;
+  let held = true;
+  return { ok: true, release: () => { if (held) { held = false; reserved -= stake; } } };
+}
+
+/** Join escrow `escrowId` as P2 with the house wallet; resolves once the join is confirmed on-chain, throws otherwise */
+export async function joinAsHouse(escrowId: bigint, stake: number, matchId: string) {
+  const stakeWei = parseUnits(String(stake), ARK_DECIMALS);
+  const house = walletClient.account.address;
+  const allowance = await publicClient.readContract({ ...ark, functionName: "allowance", args: [house, addr.ESCROW] }) as bigint;
+  if (allowance < stakeWei) {
+    // Approve once for good; joinMatch's gas estimate needs the approval mined first
+    await waitForTx(await sendTx({ ...ark, functionName: "approve", args: [addr.ESCROW, maxUint256], purpose: "ark.approve" }));
+  }
+  await waitForTx(await sendTx({ ...escrow, functionName: "joinMatch", args: [escrowId], purpose: "escrow.joinMatch", matchId }));
+  const m = await readEscrow(escrowId);
+  if (m.state !== 1 || m.p2 !== houseWallet()) throw new Error("house join not visible");
+}
@@ -8,8 +8,17 @@ import { registerLeaderboardRoutes } from "./routes/leaderboard.js";
 import { registerMatchRoutes } from "./routes/match.js";
 import { registerMetricsRoutes } from "./routes/metrics.js";
 import { registerFaucetRoutes } from "./routes/faucet.js";
+import { registerSettlementRoutes } from "./routes/settlement.js";
+import { registerIndexerRoutes } from "./routes/indexer.js";
+import { registerBotRoutes } from "./routes/bots.js";
+import { registerTriviaRoutes } from "./routes/trivia.js";
+import { registerPuzzleRoutes } from "./routes/puzzles.js";
 import { registerMatchmakingWs } from "./ws/matchmaking.js";
 import { registerGameWs } from "./ws/game.js";
+import { startSettlementWorker } from "./queue.js";
+import { startTxMonitor } from "./txsender.js";
+import { startIndexer } from "./indexer.js";
+import { startEscrowSweeper } from "./sweeper.js";
 
 const app = Fastify({ logger: true });
 await app.register(cors, { origin: true });
@@ -23,8 +32,19 @@ await registerLeaderboardRoutes(app);
 await registerMatchRoutes(app);
 await registerMetricsRoutes(app);
 await registerFaucetRoutes(app);
+await registerSettlementRoutes(app);
+await registerIndexerRoutes(app);
+await registerBotRoutes(app);
+await registerTriviaRoutes(app);
+await registerPuzzleRoutes(app);
 await registerMatchmakingWs(app);
 await registerGameWs(app);
+startTxMonitor(app);
+startSettlementWorker(app);
+if (process.env.INDEXER_ENABLED !== "false") {
+  startIndexer(app);
+  startEscrowSweeper(app); // works off the indexed escrows
+}
 
 const port = env.PORT;
 app.listen({ port, host: "0.0.0.0" }).catch((err) => {
@@ -0,0 +1,189 @@
+import type { FastifyInstance } from "fastify";
+import type { AbiEvent } from "viem";
+import { prisma } from "./client.js";
+import { env } from "./env.js";
+import { publicClient, addr, escrow, xp as xpC, badge as badgeC } from "./chain.js";
+
+// Follows GameEscrow, XPRegistry and BadgeNFT events from INDEXER_START_BLOCK into ChainEvent and
+// folds them into EscrowMatch / ChainXP / Badge. Progress is checkpointed in IndexedBlock; when the
+// stored hash of the checkpoint no longer matches the chain, everything above the last block that
+// still matches is rolled back and re-indexed. Works against anvil (chain id 31337, no confirmations).
+
+const START_BLOCK = BigInt(process.env.INDEXER_START_BLOCK ?? "0");
+const BATCH = BigInt(process.env.INDEXER_BATCH_BLOCKS ?? "2000");
+const CONFIRMATIONS = BigInt(process.env.INDEXER_CONFIRMATIONS ?? (env.BASE_CHAIN_ID === 31337 ? "0" : "3"));
+const POLL_MS = Number(process.env.INDEXER_POLL_MS ?? "4000");
+const KEEP_BLOCKS = 64; // newest IndexedBlock rows kept for reorg detection
+const ZERO = "0x0000000000000000000000000000000000000000";
+const TIERS = ["BRONZE", "SILVER", "GOLD", "DIAMOND"] as const;
+
+type Source = { key: "ESCROW" | "XP" | "BADGE"; address?: string; abi: any[]; events: string[] };
+const SOURCES: Source[] = [
+  { key: "ESCROW", address: addr.ESCROW, abi: escrow.abi, events: ["MatchCreated", "MatchJoined", "MatchSettled", "MatchRefunded"] },
+  { key: "XP", address: addr.XP, abi: xpC.abi, events: ["XPUpdated"] },
+  { key: "BADGE", address: addr.BADGE, abi: badgeC.abi, events: ["Transfer"] }
+];
+
+// Stored event shape; projections are applied from this so they can be replayed after a rollback
+type EventRow = { blockNumber: bigint; blockHash: string; txHash: string; logIndex: number; contract: string; name: string; args: Record<string, string>; escrowId: bigint | null; matchId: string | null };
+
+const active = () => SOURCES.filter((s) => s.address);
+const stringify = (args: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(args).map(([k, v]) => [k, typeof v === "string" ? v.toLowerCase() : String(v)]));
+
+async function fetchRange(fromBlock: bigint, toBlock: bigint): Promise<EventRow[]> {
+  const rows: EventRow[] = [];
+  for (const s of active()) {
+    const events = s.abi.filter((i: any) => i.type === "event" && s.events.includes(i.name)) as AbiEvent[];
+    const logs = await publicClient.getLogs({ address: s.address as `0x${string}`, events, fromBlock, toBlock });
+    for (const l of logs as any[]) {
+      if (!l.eventName || !l.args) continue;
+      const args = stringify(l.args);
+      rows.push({
+        blockNumber: l.blockNumber, blockHash: l.blockHash, txHash: l.transactionHash, logIndex: l.logIndex,
+        contract: s.key, name: l.eventName, args,
+        escrowId: s.key === "ESCROW" ? BigInt(args.id) : null, matchId: null
+      });
+    }
+  }
+  return rows.sort((a, b) => (a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : (a.blockNumber < b.blockNumber ? -1 : 1)));
+}
+
+// Fold one event into the projections
+async function apply(tx: any, e: EventRow) {
+  if (e.contract === "ESCROW" && e.escrowId !== null) {
+    const escrowId = e.escrowId;
+    if (e.name === "MatchCreated") {
+      const data = { p1: e.args.p1, stake: e.args.stake, status: "CREATED", matchId: e.matchId, createdBlock: e.blockNumber, updatedBlock: e.blockNumber };
+      await tx.escrowMatch.upsert({ where: { escrowId }, create: { escrowId, ...data }, update: data });
+    } else if (e.name === "MatchJoined") {
+      await tx.escrowMatch.updateMany({ where: { escrowId }, data: { p2: e.args.p2, status: "JOINED", updatedBlock: e.blockNumber } });
+    } else if (e.name === "MatchSettled") {
+      await tx.escrowMatch.updateMany({ where: { escrowId }, data: { winner: e.args.winner, payout: e.args.payout, status: "SETTLED", updatedBlock: e.blockNumber } });
+    } else if (e.name === "MatchRefunded") {
+      await tx.escrowMatch.updateMany({ where: { escrowId }, data: { status: "REFUNDED", updatedBlock: e.blockNumber } });
+    }
+  } else if (e.name === "XPUpdated") {
+    const data = { xp: Number(e.args.newXP), blockNumber: e.blockNumber };
+    await tx.chainXP.upsert({ where: { wallet: e.args.player }, create: { wallet: e.args.player, ...data }, update: data });
+  } else if (e.name === "Transfer" && e.args.from === ZERO) {
+    // Mint: the low 8 bits of the token id are the tier
+    const tier = TIERS[Number(BigInt(e.args.tokenId) & 0xffn)];
+    const user = await tx.user.findFirst({ where: { walletAddress: { equals: e.args.to, mode: "insensitive" } } });
+    if (tier && user) await tx.badge.upsert({ where: { userId_tier: { userId: user.id, tier } }, create: { userId: user.id, tier }, update: {} });
+  }
+}
+
+// Recompute projections touched by rolled-back events from the events that remain
+async function rebuild(tx: any, gone: EventRow[]) {
+  const escrowIds = [...new Set(gone.filter((e) => e.escrowId !== null).map((e) => e.escrowId as bigint))];
+  if (escrowIds.length) {
+    await tx.escrowMatch.deleteMany({ where: { escrowId: { in: escrowIds } } });
+    const keep = await tx.chainEvent.findMany({ where: { escrowId: { in: escrowIds } }, orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }] });
+    for (const e of keep) await apply(tx, e);
+  }
+  for (const wallet of new Set(gone.filter((e) => e.name === "XPUpdated").map((e) => e.args.player))) {
+    const last = await tx.chainEvent.findFirst({ where: { name: "XPUpdated", args: { path: ["player"], equals: wallet } }, orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }] });
+    if (last) await apply(tx, last);
+    else await tx.chainXP.deleteMany({ where: { wallet } });
+  }
+  for (const e of gone.filter((e) => e.name === "Transfer" && e.args.from === ZERO)) {
+    const tier = TIERS[Number(BigInt(e.args.tokenId) & 0xffn)];
+    const user = await tx.user.findFirst({ where: { walletAddress: { equals: e.args.to, mode: "insensitive" } } });
+    if (tier && user) await tx.badge.deleteMany({ where: { userId: user.id, tier } });
+  }
+}
+
+async function rollback(log: FastifyInstance["log"]) {
+  const rows = await prisma.indexedBlock.findMany({ orderBy: { number: "desc" } });
+  let ancestor = START_BLOCK - 1n;
+  for (const r of rows) {
+    const b = await publicClient.getBlock({ blockNumber: r.number }).catch(() => null);
+    if (b?.hash === r.hash) { ancestor = r.number; break; }
+  }
+  log.warn({ from: rows[0]?.number?.toString(), to: ancestor.toString() }, "chain reorg detected, rolling back indexer");
+  await prisma.$transaction(async (tx: any) => {
+    const gone = await tx.chainEvent.findMany({ where: { blockNumber: { gt: ancestor } } });
+    await tx.chainEvent.deleteMany({ where: { blockNumber: { gt: ancestor } } });
+    await tx.indexedBlock.deleteMany({ where: { number: { gt: ancestor } } });
+    await rebuild(tx, gone);
+  }, { timeout: 60_000 });
+}
+
+// Escrow events can arrive before matchmaking records the escrowId on its match: link them later
+async function linkMatches() {
+  const open = await prisma.escrowMatch.findMany({ where: { matchId: null }, orderBy: { createdBlock: "desc" }, take: 100 });
+  for (const em of open) {
+    const m = await prisma.match.findFirst({ where: { escrowId: em.escrowId }, select: { id: true } });
+    if (!m) continue;
+    await prisma.escrowMatch.update({ where: { escrowId: em.escrowId }, data: { matchId: m.id } });
+    await prisma.chainEvent.updateMany({ where: { escrowId: em.escrowId }, data: { matchId: m.id } });
+  }
+}
+
+/** Index up to the current safe head. Returns false when a reorg was handled (caller retries). */
+async function step(log: FastifyInstance["log"]) {
+  const checkpoint = await prisma.indexedBlock.findFirst({ orderBy: { number: "desc" } });
+  if (checkpoint) {
+    const b = await publicClient.getBlock({ blockNumber: checkpoint.number });
+    if (b.hash !== checkpoint.hash) { await rollback(log); return false; }
+  }
+  const target = (await publicClient.getBlockNumber()) - CONFIRMATIONS;
+  let from = checkpoint ? checkpoint.number + 1n : START_BLOCK;
+  while (from <= target) {
+    const to = from + BATCH - 1n < target ? from + BATCH - 1n : target;
+    const before = await publicClient.getBlock({ blockNumber: to });
+    const events = await fetchRange(from, to);
+    const after = await publicClient.getBlock({ blockNumber: to });
+    if (before.hash !== after.hash) return false; // chain moved under us, retry on next pass
+
+    await prisma.$transaction(async (tx: any) => {
+      for (const e of events) {
+        if (e.escrowId !== null) e.matchId = (await tx.match.findFirst({ where: { escrowId: e.escrowId }, select: { id: true } }))?.id ?? null;
+        const res = await tx.chainEvent.createMany({ data: [e], skipDuplicates: true });
+        if (res.count) await apply(tx, e);
+      }
+      await tx.indexedBlock.create({ data: { number: to, hash: after.hash! } });
+      const [oldest] = await tx.indexedBlock.findMany({ orderBy: { number: "desc" }, skip: KEEP_BLOCKS, take: 1 });
+      if (oldest) await tx.indexedBlock.deleteMany({ where: { number: { lte: oldest.number } } });
+    }, { timeout: 60_000 });
+    if (events.length) log.info({ from: from.toString(), to: to.toString(), events: events.length }, "indexed chain events");
+    from = to + 1n;
+  }
+  return true;
+}
+
+export function startIndexer(app: FastifyInstance) {
+  if (!active().length) { app.log.warn("indexer: no contract addresses configured, not starting"); return; }
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const tick = async () => {
+    try {
+      await step(app.log);
+      await linkMatches();
+    } catch (err) {
+      app.log.error({ err }, "indexer tick failed");
+    }
+    if (!stopped) timer = setTimeout(tick, POLL_MS);
+  };
+  timer = setTimeout(tick, 0);
+  app.addHook("onClose", async () => { stopped = true; clearTimeout(timer); });
+}
+
+/** Indexer progress plus wallets whose XPRegistry value differs from Postgres. */
+export async function getIndexerStatus() {
+  const checkpoint = await prisma.indexedBlock.findFirst({ orderBy: { number: "desc" } });
+  const head = await publicClient.getBlockNumber().catch(() => null);
+  const chainXp = await prisma.chainXP.findMany({ orderBy: { updatedAt: "desc" }, take: 500 });
+  const users = await prisma.user.findMany({ where: { OR: chainXp.map((c: any) => ({ walletAddress: { equals: c.wallet, mode: "insensitive" } })) } });
+  const dbXp = new Map<string, number>(users.map((u: any) => [u.walletAddress.toLowerCase(), u.xp]));
+  const xpDrift = chainXp
+    .filter((c: any) => dbXp.has(c.wallet) && dbXp.get(c.wallet) !== c.xp)
+    .map((c: any) => ({ wallet: c.wallet, chainXp: c.xp, dbXp: dbXp.get(c.wallet) }));
+  return {
+    checkpoint: checkpoint ? { block: checkpoint.number.toString(), hash: checkpoint.hash } : null,
+    head: head?.toString() ?? null,
+    lag: head !== null && checkpoint ? (head - checkpoint.number).toString() : null,
+    xpDrift
+  };
+}
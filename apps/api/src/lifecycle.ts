@@ -0,0 +1,37 @@
+import { prisma } from "./client.js";
+
+export type MatchStatus =
+  | "QUEUED" | "PAIRED" | "ESCROW_FUNDED" | "ACTIVE"
+  | "FINISHED" | "SETTLED" | "ABORTED" | "REFUNDED";
+
+// Allowed transitions. FINISHED = result + XP recorded, SETTLED = on-chain side effects done.
+// SETTLED and REFUNDED are terminal.
+const NEXT: Record<MatchStatus, MatchStatus[]> = {
+  QUEUED: ["PAIRED", "ABORTED"],
+  PAIRED: ["ESCROW_FUNDED", "ACTIVE", "ABORTED", "REFUNDED"],
+  ESCROW_FUNDED: ["ACTIVE", "REFUNDED"],
+  ACTIVE: ["FINISHED", "REFUNDED"],
+  FINISHED: ["SETTLED"],
+  SETTLED: [],
+  ABORTED: ["REFUNDED"], // P1's deposit of an aborted match comes back later
+  REFUNDED: []
+};
+
+// Matches that count towards profile stats, history and leaderboards
+export const COMPLETED_STATUSES: MatchStatus[] = ["FINISHED", "SETTLED"];
+
+export function canTransition(from: MatchStatus, to: MatchStatus) {
+  return NEXT[from].includes(to);
+}
+
+/**
+ * Move a match to `to` if its current status allows it, applying `data` in the same write.
+ * The status check is part of the UPDATE (compare-and-set), so a transition applies at most
+ * once no matter how often or how concurrently it is requested. Returns whether this call applied it.
+ * Pass `tx` to run inside an interactive transaction.
+ */
+export async function transitionMatch(matchId: string, to: MatchStatus, data: Record<string, unknown> = {}, tx: any = prisma) {
+  const from = (Object.keys(NEXT) as MatchStatus[]).filter((s) => canTransition(s, to));
+  const res = await tx.match.updateMany({ where: { id: matchId, status: { in: from } }, data: { ...data, status: to } });
+  return res.count > 0;
+}
@@ -0,0 +1,86 @@
+import { type Puzzle, checkPuzzleLine, dailyPuzzle, puzzleDate } from "@spark/shared";
+import { prisma } from "./client.js";
+
+// Daily puzzles: the puzzle itself is generated from the date (dailyPuzzle in @spark/shared), so
+// only each player's run of the day is stored, in PuzzleRun: when they opened it, how many lines
+// they submitted and how long the solving one took. Only today's puzzle (UTC) is played for the
+// record; the daily leaderboard ranks its solvers by attempts, then solve time.
+
+const cache = new Map<string, Puzzle>(); // date -> puzzle, the last few days
+
+/** The puzzle of `date`; generating one takes a moment, so it is kept */
+export function puzzleOf(date: string): Puzzle {
+  let puzzle = cache.get(date);
+  if (!puzzle) {
+    puzzle = dailyPuzzle(date);
+    cache.set(date, puzzle);
+    if (cache.size > 7) cache.delete(cache.keys().next().value!);
+  }
+  return puzzle;
+}
+
+function runData(run: any) {
+  return { date: run.date, startedAt: run.startedAt, attempts: run.attempts, solved: !!run.solvedAt, solveMs: run.solveMs ?? null };
+}
+
+async function userFor(wallet: string) {
+  return prisma.user.upsert({ where: { walletAddress: wallet }, update: {}, create: { walletAddress: wallet } });
+}
+
+/** Open today's puzzle for `wallet`: its solve time runs from the first time it is opened */
+export async function startPuzzle(wallet: string) {
+  const date = puzzleDate();
+  const user = await userFor(wallet);
+  const run = await prisma.puzzleRun.upsert({
+    where: { userId_date: { userId: user.id, date } },
+    update: {},
+    create: { userId: user.id, date }
+  });
+  return { puzzle: puzzleOf(date), run: runData(run) };
+}
+
+export type AttemptResult =
+  | { ok: true; solved: boolean; reason: string; replies: number[]; run: ReturnType<typeof runData> }
+  | { ok: false; reason: "puzzle_closed" | "puzzle_not_started" };
+
+/** Check `wallet`'s line for the puzzle of `date`; every line counts as an attempt until one solves it */
+export async function attemptPuzzle(wallet: string, date: string, line: number[]): Promise<AttemptResult> {
+  if (date !== puzzleDate()) return { ok: false, reason: "puzzle_closed" };
+  const user = await userFor(wallet);
+  const key = { userId_date: { userId: user.id, date } };
+  const run: any = await prisma.puzzleRun.findUnique({ where: key });
+  if (!run) return { ok: false, reason: "puzzle_not_started" };
+  const result = checkPuzzleLine(puzzleOf(date), line);
+  // A solved puzzle stays solved: later lines are checked but not recorded
+  if (run.solvedAt) return { ok: true, ...result, run: runData(run) };
+  const now = new Date();
+  const updated = await prisma.puzzleRun.update({
+    where: key,
+    data: { attempts: { increment: 1 }, ...(result.solved ? { solvedAt: now, solveMs: now.getTime() - run.startedAt.getTime() } : {}) }
+  });
+  return { ok: true, ...result, run: runData(updated) };
+}
+
+/** Solvers of the puzzle of `date`: fewest attempts first, then fastest */
+export async function puzzleLeaderboard(date: string, limit: number) {
+  const runs: any[] = await prisma.puzzleRun.findMany({
+    where: { date, solvedAt: { not: null }, user: { isBot: false } },
+    orderBy: [{ attempts: "asc" }, { solveMs: "asc" }, { solvedAt: "asc" }],
+    take: limit,
+    include: { user: true }
+  });
+  const tried = await prisma.puzzleRun.count({ where: { date } });
+  return {
+    date,
+    players: tried,
+    entries: runs.map((r, i) => ({
+      rank: i + 1,
+      id: r.user.id,
+      name: r.user.nickname || r.user.walletAddress.slice(0, 6),
+      avatar: r.user.avatar || "",
+      tier: r.user.tier,
+      attempts: r.attempts,
+      solveMs: r.solveMs
+    }))
+  };
+}
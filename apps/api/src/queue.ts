@@ -0,0 +1,183 @@
+import type { FastifyInstance } from "fastify";
+import { prisma } from "./client.js";
+import { publicClient, escrow, xp as xpC, badge as badgeC } from "./chain.js";
+import { sendTx, txStatus, waitForTx } from "./txsender.js";
+import { transitionMatch } from "./lifecycle.js";
+import { readEscrow } from "./escrow.js";
+import { releasePair } from "./ws/matchmaking.js";
+
+// Durable queue for the on-chain side effects of finished matches (SettlementJob table).
+// Jobs are written in the same transaction that finishes the match and are worked off here
+// with retries, exponential backoff and receipt confirmation; exhausted jobs become DEAD.
+// ESCROW_REFUND jobs return stakes of escrows that were never joined or never finished; they
+// may have no match (the deposit was made but pairing never happened).
+
+export type JobKind = "ESCROW_SETTLE" | "XP_MIRROR" | "BADGE_MINT" | "ESCROW_REFUND";
+export type JobPayload =
+  | { escrowId: string; winner: string } // zero address = draw refund
+  | { userId: string }                   // mirrors the user's DB XP at run time
+  | { wallet: string; tier: number }
+  | { escrowId: string; reason: string };
+
+const MAX_ATTEMPTS = Number(process.env.SETTLEMENT_MAX_ATTEMPTS ?? "8");
+const BACKOFF_BASE_MS = Number(process.env.SETTLEMENT_BACKOFF_MS ?? "5000");
+const BACKOFF_MAX_MS = 10 * 60_000;
+const POLL_MS = 2_000;
+const RECEIPT_TIMEOUT_MS = 120_000;
+// A RUNNING job not touched for this long belongs to a crashed worker and is picked up again
+const STALE_RUNNING_MS = 5 * 60_000;
+
+function backoff(attempts: number) {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/** Queue jobs for a match; pass `tx` to enqueue atomically with the match update. */
+export async function enqueueJobs(matchId: string, jobs: Array<{ kind: JobKind; payload: JobPayload }>, tx: any = prisma) {
+  if (!jobs.length) return;
+  await tx.settlementJob.createMany({ data: jobs.map((j) => ({ matchId, kind: j.kind, payload: j.payload })) });
+}
+
+/**
+ * Queue a refund of escrow `escrowId` unless one is already queued or done. `matchId` (if any) is
+ * moved to REFUNDED once the refund confirms. Returns whether a job was created.
+ */
+export async function enqueueEscrowRefund(escrowId: bigint, reason: string, matchId: string | null = null) {
+  const existing = await prisma.settlementJob.findFirst({ where: { escrowId, kind: "ESCROW_REFUND", status: { not: "DEAD" } } });
+  if (existing) return false;
+  await prisma.settlementJob.create({ data: { matchId, escrowId, kind: "ESCROW_REFUND", payload: { escrowId: escrowId.toString(), reason } } });
+  return true;
+}
+
+// Send the job's transaction (or follow the one already in flight) and wait for it to be mined
+async function run(job: any) {
+  if (job.txHash) {
+    const prev = await txStatus(job.txHash);
+    if (prev?.status === "CONFIRMED") return;
+    // Still pending (possibly replaced with a gas bump): keep waiting instead of sending a duplicate
+    if (prev?.status === "PENDING") { await waitForTx(job.txHash, RECEIPT_TIMEOUT_MS); return; }
+    // Reverted or dropped: forget it, this attempt sends a fresh transaction
+    await prisma.settlementJob.update({ where: { id: job.id }, data: { txHash: null } });
+  }
+
+  const meta = { matchId: job.matchId ?? undefined };
+  let hash: `0x${string}` | null = null;
+  if (job.kind === "ESCROW_SETTLE") {
+    const p = job.payload as { escrowId: string; winner: string };
+    hash = await sendTx({ ...escrow, functionName: "settle", args: [BigInt(p.escrowId), p.winner as `0x${string}`], purpose: "escrow.settle", ...meta });
+  } else if (job.kind === "XP_MIRROR") {
+    const p = job.payload as { userId: string };
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: p.userId } });
+    hash = await sendTx({ ...xpC, functionName: "setXP", args: [user.walletAddress as `0x${string}`, Math.max(0, user.xp)], purpose: "xp.setXP", ...meta });
+  } else if (job.kind === "BADGE_MINT") {
+    const p = job.payload as { wallet: string; tier: number };
+    const owned = await publicClient.readContract({ ...badgeC, functionName: "hasTier", args: [p.wallet as `0x${string}`, p.tier] });
+    if (owned) return; // already minted
+    hash = await sendTx({ ...badgeC, functionName: "mintBadge", args: [p.wallet as `0x${string}`, p.tier], purpose: "badge.mintBadge", ...meta });
+  } else if (job.kind === "ESCROW_REFUND") {
+    const id = BigInt((job.payload as { escrowId: string }).escrowId);
+    const m = await readEscrow(id);
+    if (m.state >= 2) return; // settled or refunded already (possibly by the player)
+    hash = m.state === 0
+      ? await sendTx({ ...escrow, functionName: "cancel", args: [id], purpose: "escrow.cancel", ...meta })
+      : await sendTx({ ...escrow, functionName: "refund", args: [id], purpose: "escrow.refund", ...meta });
+  }
+  if (!hash) throw new Error(`unknown job kind ${job.kind}`);
+  await prisma.settlementJob.update({ where: { id: job.id }, data: { txHash: hash } });
+  await waitForTx(hash, RECEIPT_TIMEOUT_MS);
+}
+
+// A match is SETTLED once every one of its jobs is confirmed; a refund ends it as REFUNDED
+async function settleIfDone(job: any) {
+  const matchId = job.matchId as string | null;
+  if (!matchId) return;
+  if (job.kind === "ESCROW_REFUND") {
+    await transitionMatch(matchId, "REFUNDED");
+    releasePair(matchId);
+    return;
+  }
+  const open = await prisma.settlementJob.count({ where: { matchId, status: { not: "CONFIRMED" } } });
+  if (open === 0) await transitionMatch(matchId, "SETTLED");
+}
+
+async function work(job: any, log: FastifyInstance["log"]) {
+  // Claim: compare-and-set so two workers never run the same job
+  const claimed = await prisma.settlementJob.updateMany({
+    where: { id: job.id, status: job.status, updatedAt: job.updatedAt },
+    data: { status: "RUNNING", attempts: { increment: 1 } }
+  });
+  if (!claimed.count) return;
+  const attempts = job.attempts + 1;
+  try {
+    await run(job);
+    await prisma.settlementJob.update({ where: { id: job.id }, data: { status: "CONFIRMED", lastError: null } });
+    await settleIfDone(job);
+  } catch (err: any) {
+    const dead = attempts >= MAX_ATTEMPTS;
+    const lastError = String(err?.shortMessage ?? err?.message ?? err).slice(0, 500);
+    await prisma.settlementJob.update({
+      where: { id: job.id },
+      data: { status: dead ? "DEAD" : "PENDING", lastError, runAt: new Date(Date.now() + backoff(attempts)) }
+    });
+    if (dead) log.error({ jobId: job.id, matchId: job.matchId, kind: job.kind, err: lastError }, "settlement job dead-lettered");
+    else log.warn({ jobId: job.id, matchId: job.matchId, kind: job.kind, attempts, err: lastError }, "settlement job failed, retrying");
+  }
+}
+
+/** Poll for due jobs and run them one at a time (a single signer, so no parallel sends). */
+export function startSettlementWorker(app: FastifyInstance) {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const tick = async () => {
+    try {
+      const now = new Date();
+      const due = await prisma.settlementJob.findMany({
+        where: {
+          OR: [
+            { status: "PENDING", runAt: { lte: now } },
+            { status: "RUNNING", updatedAt: { lt: new Date(now.getTime() - STALE_RUNNING_MS) } }
+          ]
+        },
+        orderBy: { runAt: "asc" },
+        take: 20
+      });
+      for (const job of due) {
+        if (stopped) break;
+        await work(job, app.log);
+      }
+    } catch (err) {
+      app.log.error({ err }, "settlement worker tick failed");
+    }
+    if (!stopped) timer = setTimeout(tick, POLL_MS);
+  };
+  timer = setTimeout(tick, POLL_MS);
+  app.addHook("onClose", async () => { stopped = true; clearTimeout(timer); });
+}
+
+/** Settlement progress of a match: its lifecycle status plus every job. */
+export async function getSettlementStatus(matchId: string) {
+  const m = await prisma.match.findUnique({ where: { id: matchId }, select: { id: true, status: true } });
+  if (!m) return null;
+  const jobs = await prisma.settlementJob.findMany({ where: { matchId }, orderBy: { createdAt: "asc" } });
+  return {
+    matchId,
+    status: m.status,
+    settled: m.status === "SETTLED",
+    jobs: jobs.map((j: any) => ({
+      id: j.id, kind: j.kind, status: j.status, attempts: j.attempts,
+      txHash: j.txHash, lastError: j.lastError, nextRunAt: j.status === "PENDING" ? j.runAt : null
+    }))
+  };
+}
+
+export async function listDeadJobs(limit = 100) {
+  return prisma.settlementJob.findMany({ where: { status: "DEAD" }, orderBy: { updatedAt: "desc" }, take: limit });
+}
+
+/** Put a dead job back in the queue with a fresh attempt budget (and a fresh transaction). */
+export async function retryDeadJob(jobId: string) {
+  const res = await prisma.settlementJob.updateMany({
+    where: { id: jobId, status: "DEAD" },
+    data: { status: "PENDING", attempts: 0, runAt: new Date(), txHash: null }
+  });
+  return res.count > 0;
+}
@@ -0,0 +1,119 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { prisma } from "../client.js";
+import { issueTicket } from "../tickets.js";
+import { requireAdmin } from "../auth.js";
+import { BOT_LEVELS, BOT_NAMES, BOT_WALLETS, type BotLevel } from "../bots/index.js";
+import { verifyDeposit } from "../escrow.js";
+import { escrowInPlay } from "../ws/matchmaking.js";
+import { BestOf, hasSeries, resolveVariant, validVariant, variantFields } from "../ws/types.js";
+import { transitionMatch } from "../lifecycle.js";
+import { enqueueEscrowRefund } from "../queue.js";
+import { houseStatus, houseUser, houseWallet, joinAsHouse, reserveHouseStake } from "../house.js";
+
+const Level = z.enum(["easy", "medium", "hard"]).transform((l) => l.toUpperCase() as BotLevel);
+
+export async function registerBotRoutes(app: FastifyInstance) {
+  app.get("/api/bots", async () => {
+    const house = await houseStatus();
+    return BOT_LEVELS.map((level) => ({
+      difficulty: level.toLowerCase(),
+      name: BOT_NAMES[level],
+      wallet: BOT_WALLETS[level],
+      maxStake: house.enabled ? house.maxStake[level] : 0
+    }));
+  });
+
+  app.get("/api/admin/house", { preHandler: requireAdmin }, async () => houseStatus());
+
+  // Start a match against a server-hosted bot. The player takes seat a with the returned
+  // ticket; the bot sits at seat b inside the game room (see ws/game.ts). Without a stake this
+  // is free practice. With `stakeAmount` + `escrowId` (an escrow the player created for that
+  // stake) the house wallet joins the escrow as P2 before the ticket is issued, and the result
+  // settles on-chain like any staked match.
+  app.post("/api/bots/match", async (req, reply) => {
+    const body = z.object({
+      wallet: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+      gameId: z.enum(["chess","tictactoe","connectfour","rockpaperscissors","checkers","battleship","trivia","memory","reaction"]),
+      difficulty: Level,
+      stakeAmount: z.number().int().min(1).optional(),
+      escrowId: z.string().regex(/^\d+$/).transform((s) => BigInt(s)).optional(),
+      bestOf: BestOf.default(1),
+      ...variantFields
+    }).refine((b) => (b.stakeAmount === undefined) === (b.escrowId === undefined), { message: "stakeAmount and escrowId go together" })
+      .refine((b) => hasSeries(b.gameId) || b.bestOf === 1, { message: "no series for this game" })
+      .refine(validVariant, { message: "unknown variant" })
+      .parse(req.body);
+    const { wallet, gameId, difficulty, stakeAmount, escrowId, bestOf } = body;
+    const { variant, target } = resolveVariant(body);
+
+    const game = (gameId === "chess" ? "CHESS" : gameId === "checkers" ? "CHECKERS" : gameId === "battleship" ? "BATTLESHIP" : gameId === "trivia" ? "TRIVIA" : gameId === "memory" ? "MEMORY" : gameId === "reaction" ? "REACTION" : (gameId === "connectfour" ? "C4" : (gameId === "rockpaperscissors" ? "RPS" : "TTT")));
+    const user = await prisma.user.upsert({ where: { walletAddress: wallet }, update: {}, create: { walletAddress: wallet } });
+
+    if (stakeAmount === undefined || escrowId === undefined) {
+      const botWallet = BOT_WALLETS[difficulty];
+      const bot = await prisma.user.upsert({
+        where: { walletAddress: botWallet },
+        update: {},
+        create: { walletAddress: botWallet, nickname: BOT_NAMES[difficulty], isBot: true }
+      });
+      // A player has at most one practice match waiting to be played: older unstarted ones are dropped
+      await prisma.match.updateMany({ where: { p1Id: user.id, botLevel: { not: null }, escrowId: null, status: "PAIRED" }, data: { status: "ABORTED" } });
+      const m: any = await prisma.match.create({
+        data: { game: game as any, p1Id: user.id, p2Id: bot.id, botLevel: difficulty, bestOf, variant, targetScore: target, status: "PAIRED" } as any
+      });
+      return {
+        matchId: m.id,
+        role: "p1",
+        ticket: issueTicket(m.id, "a", wallet),
+        opponentWallet: botWallet,
+        opponentName: BOT_NAMES[difficulty],
+        difficulty: difficulty.toLowerCase()
+      };
+    }
+
+    const hold = await reserveHouseStake(difficulty, stakeAmount);
+    if (!hold.ok) { reply.code(409); return { error: hold.reason }; }
+    let m: any;
+    try {
+      if (escrowInPlay(escrowId) || await prisma.match.findFirst({ where: { escrowId }, select: { id: true } })) {
+        reply.code(409); return { error: "escrow_already_used" };
+      }
+      const check = await verifyDeposit(escrowId, wallet, stakeAmount);
+      if (!check.ok) { reply.code(409); return { error: check.reason }; }
+      const house = await houseUser();
+      try {
+        m = await prisma.match.create({
+          data: { game: game as any, p1Id: user.id, p2Id: house.id, botLevel: difficulty, escrowId, arkStaked: stakeAmount, bestOf, variant, targetScore: target, status: "PAIRED" } as any
+        });
+      } catch (err: any) {
+        // Match.escrowId is unique: a concurrent request already took this escrow
+        if (err?.code === "P2002") { reply.code(409); return { error: "escrow_already_used" }; }
+        throw err;
+      }
+    } finally {
+      hold.release();
+    }
+
+    try {
+      await joinAsHouse(escrowId, stakeAmount, m.id);
+    } catch (err) {
+      req.log.error({ err, matchId: m.id }, "house join failed");
+      // P1's deposit is tied to a match that will never start: give it back
+      await transitionMatch(m.id, "ABORTED");
+      await enqueueEscrowRefund(escrowId, "house_join_failed", m.id).catch((e) => req.log.error({ err: e, matchId: m.id }, "queue refund failed"));
+      reply.code(503); return { error: "house_join_failed" };
+    }
+    await transitionMatch(m.id, "ESCROW_FUNDED");
+    return {
+      matchId: m.id,
+      role: "p1",
+      ticket: issueTicket(m.id, "a", wallet),
+      opponentWallet: houseWallet(),
+      opponentName: BOT_NAMES[difficulty],
+      difficulty: difficulty.toLowerCase(),
+      stakeAmount,
+      escrowId: escrowId.toString()
+    };
+  });
+}
@@ -1,6 +1,7 @@
 import type { FastifyInstance } from "fastify";
 import { z } from "zod";
-import { walletClient, ark } from "../chain.js";
+import { ark } from "../chain.js";
+import { sendTx } from "../txsender.js";
 import { oncePer } from "../ratelimit.js";
 import { requireAuth } from "../auth.js";
 
@@ -18,10 +19,11 @@ export async function registerFaucetRoutes(app: FastifyInstance) {
     }
     if (AMOUNT === 0n) { reply.code(501); return { success: false, reason: "not configured" }; }
 
-    const hash = await walletClient.writeContract({
+    const hash = await sendTx({
       ...ark,
       functionName: "faucetMint",
-      args: [walletAddress as `0x${string}`, AMOUNT]
+      args: [walletAddress as `0x${string}`, AMOUNT],
+      purpose: "faucet"
     });
     return { success: true, txHash: hash };
   });
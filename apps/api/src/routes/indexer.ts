@@ -0,0 +1,22 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { prisma } from "../client.js";
+import { requireAdmin } from "../auth.js";
+import { getIndexerStatus } from "../indexer.js";
+
+export async function registerIndexerRoutes(app: FastifyInstance) {
+  // Indexed on-chain state of an escrow match (see indexer.ts)
+  app.get("/api/escrow/:escrowId", async (req, reply) => {
+    const { escrowId } = z.object({ escrowId: z.coerce.bigint() }).parse(req.params);
+    const em = await prisma.escrowMatch.findUnique({ where: { escrowId } });
+    if (!em) { reply.code(404); return { error: "escrow_not_indexed" }; }
+    const events = await prisma.chainEvent.findMany({ where: { escrowId }, orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }] });
+    return {
+      escrowId: em.escrowId.toString(), p1: em.p1, p2: em.p2, stake: em.stake, status: em.status,
+      winner: em.winner, payout: em.payout, matchId: em.matchId,
+      events: events.map((e: any) => ({ name: e.name, args: e.args, blockNumber: e.blockNumber.toString(), txHash: e.txHash }))
+    };
+  });
+
+  app.get("/api/admin/indexer", { preHandler: requireAdmin }, async () => getIndexerStatus());
+}
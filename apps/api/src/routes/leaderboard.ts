@@ -1,6 +1,10 @@
 import type { FastifyInstance } from "fastify";
 import { prisma } from "../client.js";
+import { COMPLETED_STATUSES } from "../lifecycle.js";
 import { z } from "zod";
+import { puzzleDate } from "@spark/shared";
+import { puzzleLeaderboard } from "../puzzles.js";
+import { PuzzleDay } from "./puzzles.js";
 
 export async function registerLeaderboardRoutes(app: FastifyInstance) {
   app.get("/api/leaderboard", async (req) => {
@@ -10,7 +14,14 @@ export async function registerLeaderboardRoutes(app: FastifyInstance) {
     }).parse(req.query);
 
     // For now, alltime by xp. You can extend with time windows later.
-    const users = await prisma.user.findMany({ orderBy: { xp: "desc" }, take: limit });
+    const users = await prisma.user.findMany({ where: { isBot: false }, orderBy: { xp: "desc" }, take: limit });
+    // Wins counted from finished matches only
+    const wins = await prisma.match.groupBy({
+      by: ["winnerId"],
+      where: { winnerId: { in: users.map((u: { id: string }) => u.id) }, status: { in: COMPLETED_STATUSES } },
+      _count: { _all: true }
+    });
+    const winsBy = new Map<string, number>(wins.map((w: any) => [w.winnerId, w._count._all]));
     return users.map((u: { id: string; nickname: string | null; walletAddress: string; avatar: string | null; xp: number; tier: string }, i: number) => ({
       rank: i + 1,
       id: u.id,
@@ -18,7 +29,16 @@ export async function registerLeaderboardRoutes(app: FastifyInstance) {
       avatar: u.avatar || "",
       xp: u.xp,
       tier: u.tier,
-      gamesWon: 0
+      gamesWon: winsBy.get(u.id) ?? 0
     })); // shape per spec. :contentReference[oaicite:3]{index=3}
   });
+
+  // Daily puzzle board: the day's solvers (today by default), fewest attempts first, then fastest
+  app.get("/api/leaderboard/puzzles", async (req) => {
+    const { date, limit } = z.object({
+      date: PuzzleDay.optional(),
+      limit: z.coerce.number().min(1).max(100).default(100)
+    }).parse(req.query);
+    return puzzleLeaderboard(date ?? puzzleDate(), limit);
+  });
 }
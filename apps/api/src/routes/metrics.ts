@@ -8,7 +8,13 @@ export async function registerMetricsRoutes(app: FastifyInstance) {
     return {
       tictactoe: c.TTT || 0,
       connectfour: c.C4 || 0,
-      rockpaperscissors: c.RPS || 0
+      rockpaperscissors: c.RPS || 0,
+      chess: c.CHESS || 0,
+      checkers: c.CHECKERS || 0,
+      battleship: c.BATTLESHIP || 0,
+      trivia: c.TRIVIA || 0,
+      memory: c.MEMORY || 0,
+      reaction: c.REACTION || 0
     };
   });
 }
@@ -0,0 +1,35 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { isPuzzleDate, puzzleDate } from "@spark/shared";
+import { attemptPuzzle, puzzleOf, startPuzzle } from "../puzzles.js";
+
+const Wallet = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
+// A puzzle day, never one still to come
+export const PuzzleDay = z.string().refine(isPuzzleDate, { message: "invalid date" })
+  .refine((d) => d <= puzzleDate(), { message: "puzzle_not_available" });
+
+export async function registerPuzzleRoutes(app: FastifyInstance) {
+  // The puzzle of a day (today by default), the same for everyone
+  app.get("/api/puzzles/daily", async (req) => {
+    const { date } = z.object({ date: PuzzleDay.optional() }).parse(req.query);
+    return { today: puzzleDate(), puzzle: puzzleOf(date ?? puzzleDate()) };
+  });
+
+  // Open today's puzzle: starts the player's solve time (once) and returns their run so far
+  app.post("/api/puzzles/daily/start", async (req) => {
+    const { wallet } = z.object({ wallet: Wallet }).parse(req.body);
+    return startPuzzle(wallet);
+  });
+
+  // Submit a line: the solver's moves (C4 columns or TTT cells), checked against the server's defence
+  app.post("/api/puzzles/daily/attempt", async (req, reply) => {
+    const { wallet, date, moves } = z.object({
+      wallet: Wallet,
+      date: PuzzleDay,
+      moves: z.array(z.number().int().min(0).max(99)).min(1).max(10)
+    }).parse(req.body);
+    const res = await attemptPuzzle(wallet, date, moves);
+    if (!res.ok) { reply.code(409); return res; }
+    return res;
+  });
+}
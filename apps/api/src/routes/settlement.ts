@@ -0,0 +1,49 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { prisma } from "../client.js";
+import { requireAdmin } from "../auth.js";
+import { getSettlementStatus, listDeadJobs, retryDeadJob } from "../queue.js";
+
+export async function registerSettlementRoutes(app: FastifyInstance) {
+  app.get("/api/match/:matchId/settlement", async (req, reply) => {
+    const { matchId } = z.object({ matchId: z.string() }).parse(req.params);
+    const status = await getSettlementStatus(matchId);
+    if (!status) { reply.code(404); return { error: "match_not_found" }; }
+    return status;
+  });
+
+  // Dead-letter list: jobs that exhausted their retries and need an operator
+  app.get("/api/admin/settlement/dead", { preHandler: requireAdmin }, async (req) => {
+    const { limit } = z.object({ limit: z.coerce.number().min(1).max(500).default(100) }).parse(req.query);
+    const jobs = await listDeadJobs(limit);
+    return jobs.map((j: any) => ({
+      id: j.id, matchId: j.matchId, kind: j.kind, payload: j.payload,
+      attempts: j.attempts, txHash: j.txHash, lastError: j.lastError, updatedAt: j.updatedAt
+    }));
+  });
+
+  app.post("/api/admin/settlement/jobs/:jobId/retry", { preHandler: requireAdmin }, async (req, reply) => {
+    const { jobId } = z.object({ jobId: z.string() }).parse(req.params);
+    if (!(await retryDeadJob(jobId))) { reply.code(409); return { ok: false, reason: "not_dead" }; }
+    return { ok: true };
+  });
+
+  // Server-wallet transaction log (txsender.ts), newest first
+  app.get("/api/admin/transactions", { preHandler: requireAdmin }, async (req) => {
+    const q = z.object({
+      status: z.enum(["PENDING","CONFIRMED","FAILED","REPLACED","DROPPED"]).optional(),
+      matchId: z.string().optional(),
+      limit: z.coerce.number().min(1).max(500).default(100)
+    }).parse(req.query);
+    const txs = await prisma.chainTx.findMany({
+      where: { ...(q.status ? { status: q.status } : {}), ...(q.matchId ? { matchId: q.matchId } : {}) },
+      orderBy: { createdAt: "desc" },
+      take: q.limit
+    });
+    return txs.map((t: any) => ({
+      hash: t.hash, nonce: t.nonce, to: t.to, purpose: t.purpose, matchId: t.matchId, status: t.status,
+      replacedById: t.replacedById, blockNumber: t.blockNumber?.toString() ?? null,
+      maxFeePerGas: t.maxFeePerGas.toString(), createdAt: t.createdAt
+    }));
+  });
+}
@@ -0,0 +1,15 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { requireAdmin } from "../auth.js";
+import { TriviaImport, importTriviaQuestions, triviaBankStats } from "../trivia.js";
+
+export async function registerTriviaRoutes(app: FastifyInstance) {
+  // Size of the question bank per category and difficulty
+  app.get("/api/trivia/bank", async () => triviaBankStats());
+
+  // Add or update questions (same JSON shape as the files `pnpm trivia:import` reads)
+  app.post("/api/admin/trivia/import", { preHandler: requireAdmin }, async (req) => {
+    const { questions } = z.object({ questions: TriviaImport }).parse(req.body);
+    return importTriviaQuestions(questions);
+  });
+}
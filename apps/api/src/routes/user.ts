@@ -1,6 +1,7 @@
 import { z } from "zod";
 import type { FastifyInstance } from "fastify";
 import { prisma } from "../client.js";
+import { COMPLETED_STATUSES } from "../lifecycle.js";
 
 const Wallet = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
 const Nick = z.string().min(3).max(20).regex(/^[\w ]+$/);
@@ -25,8 +26,8 @@ export async function registerUserRoutes(app: FastifyInstance) {
       const { wallet } = z.object({ wallet: Wallet }).parse(req.query);
       let user = await prisma.user.findUnique({ where: { walletAddress: wallet } });
       if (!user) user = await prisma.user.create({ data: { walletAddress: wallet } });
-      // Aggregate stats and earnings
-      const matches = await prisma.match.findMany({ where: { OR: [{ p1Id: user.id }, { p2Id: user.id }] } });
+      // Aggregate stats and earnings over finished matches only
+      const matches = await prisma.match.findMany({ where: { OR: [{ p1Id: user.id }, { p2Id: user.id }], status: { in: COMPLETED_STATUSES } } });
       const gamesPlayed = matches.length;
       const gamesWon = matches.filter((m: any) => m.winnerId === user.id).length;
       const winRate = gamesPlayed > 0 ? Math.round((gamesWon / gamesPlayed) * 100) : 0;
@@ -96,7 +97,7 @@ export async function registerUserRoutes(app: FastifyInstance) {
     const { wallet, limit } = z.object({ wallet: Wallet, limit: z.coerce.number().min(1).max(50).default(10) }).parse(req.query);
     const user = await prisma.user.findUniqueOrThrow({ where: { walletAddress: wallet } });
     const matches = await prisma.match.findMany({
-      where: { OR: [{ p1Id: user.id }, { p2Id: user.id }] },
+      where: { OR: [{ p1Id: user.id }, { p2Id: user.id }], status: { in: COMPLETED_STATUSES } },
       orderBy: { createdAt: "desc" },
       take: limit
     });
@@ -112,7 +113,7 @@ export async function registerUserRoutes(app: FastifyInstance) {
       const outcome = m.result === "DRAW" ? "Draw" : m.winnerId === user.id ? "Win" : "Loss";
       const arkEarned = m.result === "DRAW" ? 0 : (m.winnerId === user.id ? (m.arkStaked || 0) : -(m.arkStaked || 0));
       const xpChange = m.result === "DRAW" ? 0 : (m.winnerId === user.id ? (m.xpWinner || 0) : -(m.xpLoser || 0));
-      const gameName = m.game === "C4" ? "Connect Four" : (m.game === "RPS" ? "Rock Paper Scissors" : (m.game === "CHESS" ? "Chess" : "Tic-Tac-Toe"));
+      const gameName = m.game === "C4" ? "Connect Four" : (m.game === "RPS" ? "Rock Paper Scissors" : (m.game === "CHESS" ? "Chess" : (m.game === "CHECKERS" ? "Checkers" : (m.game === "BATTLESHIP" ? "Battleship" : (m.game === "TRIVIA" ? "Trivia" : (m.game === "MEMORY" ? "Memory" : (m.game === "REACTION" ? "Reaction" : "Tic-Tac-Toe")))))));
       result.push({
         id: m.id,
         game: gameName,
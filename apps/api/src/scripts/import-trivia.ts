@@ -0,0 +1,12 @@
+import { resolve } from "node:path";
+import { prisma } from "../client.js";
+import { BUNDLED_BANK, importTriviaFile } from "../trivia.js";
+
+// Import trivia question files into the bank: `pnpm trivia:import [questions.json ...]`.
+// Without arguments the bank bundled with the API is (re)imported.
+const files = process.argv.slice(2).map((f) => resolve(process.env.INIT_CWD ?? process.cwd(), f));
+for (const file of files.length ? files : [BUNDLED_BANK]) {
+  const { created, updated } = await importTriviaFile(file);
+  console.log(`${file}: ${created} created, ${updated} updated`);
+}
+await prisma.$disconnect();
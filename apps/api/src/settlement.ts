@@ -0,0 +1,92 @@
+import { prisma } from "./client.js";
+import { enqueueJobs } from "./queue.js";
+import { transitionMatch } from "./lifecycle.js";
+
+// XP calc per frontend spec. :contentReference[oaicite:5]{index=5}
+export function xpChange(won: boolean, playerXP: number, opponentXP: number) {
+  const diff = opponentXP - playerXP;
+  const base = 25;
+  if (won) {
+    if (diff > 500) return base + 30;
+    if (diff > 200) return base + 20;
+    if (diff > 0) return base + 10;
+    if (diff < -500) return base - 10;
+    if (diff < -200) return base - 5;
+    return base;
+  } else {
+    if (diff > 500) return -5;
+    if (diff > 200) return -10;
+    if (diff > 0) return -15;
+    if (diff < -500) return -35;
+    if (diff < -200) return -30;
+    return -20;
+  }
+}
+
+export function tierFromXP(xp: number) {
+  if (xp >= 2000) return "DIAMOND";
+  if (xp >= 1000) return "GOLD";
+  if (xp >= 500) return "SILVER";
+  return "BRONZE";
+}
+
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+function tierIndex(xp: number) {
+  const tier = tierFromXP(xp);
+  return tier === "BRONZE" ? 0 : tier === "SILVER" ? 1 : tier === "GOLD" ? 2 : 3;
+}
+
+export type GameResult = { winner: "p1" | "p2" | null; reason: string };
+
+/**
+ * Record the authoritative outcome of a match: result + XP in the DB, plus queued jobs for
+ * the on-chain side effects (escrow settlement, XP mirror, badge mints; see queue.ts).
+ * `winner` is the winning seat (p1 = game side a, p2 = side b), null for a draw. For a series,
+ * that is the series result and `games` holds the individual games.
+ * Idempotent: only the call that moves the match ACTIVE -> FINISHED applies anything.
+ */
+export async function finalizeMatch(matchId: string, winnerSeat: "p1" | "p2" | null, durationSec: number, games?: GameResult[]) {
+  const applied = await prisma.$transaction(async (tx: any) => {
+    const m = await tx.match.findUniqueOrThrow({ where: { id: matchId }, include: { p1: true, p2: true } });
+    const p1 = m.p1, p2 = m.p2;
+    const winner = winnerSeat === null ? null : (winnerSeat === "p1" ? p1 : p2);
+    const loser  = winnerSeat === null ? null : (winnerSeat === "p1" ? p2 : p1);
+
+    // Games against a bot are practice: the result is recorded but nobody's XP moves
+    const rated = !p1.isBot && !p2.isBot;
+    const xpW = winner && rated ? xpChange(true,  winner.xp, loser!.xp) : 0;
+    const xpL = loser && rated ? -xpChange(false, loser.xp, winner!.xp) : 0;
+
+    // persist match; a no-op if it is not ACTIVE (already finalized, aborted, refunded)
+    const ok = await transitionMatch(m.id, "FINISHED", {
+      winnerId: winner?.id ?? null,
+      result: winner ? "WIN" : "DRAW",
+      xpWinner: winner ? xpW : 0,
+      xpLoser: loser ? Math.abs(xpL) : 0,
+      durationSec,
+      ...(games ? { games } : {}),
+      finishedAt: new Date()
+    }, tx);
+    if (!ok) return false;
+
+    // update players and tiers (increments, so concurrent matches of the same player don't clobber each other)
+    const wAfter = winner && rated ? await tx.user.update({ where: { id: winner.id }, data: { xp: { increment: xpW } } }) : null;
+    const lAfter = loser && rated ? await tx.user.update({ where: { id: loser.id },  data: { xp: { increment: xpL } } }) : null;
+    if (wAfter) await tx.user.update({ where: { id: wAfter.id }, data: { tier: tierFromXP(wAfter.xp) as any } });
+    if (lAfter) await tx.user.update({ where: { id: lAfter.id }, data: { tier: tierFromXP(lAfter.xp) as any } });
+
+    // On-chain side effects are queued in the same transaction, so a finished match always has them
+    const jobs: Parameters<typeof enqueueJobs>[1] = [];
+    if (m.escrowId) jobs.push({ kind: "ESCROW_SETTLE", payload: { escrowId: m.escrowId.toString(), winner: winner ? winner.walletAddress : ZERO } });
+    for (const u of [wAfter, lAfter]) {
+      if (!u) continue;
+      jobs.push({ kind: "XP_MIRROR", payload: { userId: u.id } });
+      if (tierIndex(u.xp) > 0) jobs.push({ kind: "BADGE_MINT", payload: { wallet: u.walletAddress, tier: tierIndex(u.xp) } });
+    }
+    await enqueueJobs(m.id, jobs, tx);
+    if (!jobs.length) await transitionMatch(m.id, "SETTLED", {}, tx);
+    return true;
+  });
+  return { applied };
+}
@@ -0,0 +1,52 @@
+import type { FastifyInstance } from "fastify";
+import { prisma } from "./client.js";
+import { readEscrow } from "./escrow.js";
+import { enqueueEscrowRefund } from "./queue.js";
+import { roomLive } from "./ws/game.js";
+
+// Finds escrows whose stake would otherwise stay locked and queues ESCROW_REFUND jobs for them:
+// deposits nobody ever joined, and joined escrows whose match never produced a result.
+// Candidates come from the indexer's EscrowMatch projection; ages are checked against the
+// on-chain createdAt/joinedAt before anything is refunded. Whether an escrow is still in use
+// is judged by its match's status in the DB, so it holds across restarts and instances; an
+// ACTIVE match is also left alone while its room is still being played, however long it runs.
+
+const SWEEP_MS = Number(process.env.SWEEP_INTERVAL_MS ?? "60000");
+// Longer than the contract's CANCEL_TIMEOUT so players get the chance to reclaim themselves first
+const UNJOINED_AFTER_S = Number(process.env.SWEEP_UNJOINED_AFTER_MS ?? String(15 * 60_000)) / 1000;
+const ABANDONED_AFTER_S = Number(process.env.SWEEP_ABANDONED_AFTER_MS ?? String(60 * 60_000)) / 1000;
+// Matches in these states will not settle their escrow any more (or never started); ACTIVE ones only once their room is gone
+const ABANDONED_STATUSES = ["PAIRED", "ESCROW_FUNDED", "ACTIVE", "ABORTED"];
+
+async function sweep(log: FastifyInstance["log"]) {
+  const now = Math.floor(Date.now() / 1000);
+  const candidates = await prisma.escrowMatch.findMany({ where: { status: { in: ["CREATED", "JOINED"] } }, orderBy: { createdBlock: "asc" }, take: 200 });
+  for (const em of candidates as any[]) {
+    // The indexer links escrows to matches as it sees them; a match created since is found by its escrow
+    const match = em.matchId
+      ? await prisma.match.findUnique({ where: { id: em.matchId }, select: { id: true, status: true } })
+      : await prisma.match.findFirst({ where: { escrowId: em.escrowId }, select: { id: true, status: true } });
+    if (match && !ABANDONED_STATUSES.includes(match.status)) continue; // finished: the settle job pays out
+    if (match?.status === "ACTIVE" && roomLive(match.id)) continue; // still in play: its result settles it
+
+    const m = await readEscrow(em.escrowId).catch(() => null);
+    if (!m || m.state >= 2) continue;
+    const stale = m.state === 0 ? now - m.createdAt > UNJOINED_AFTER_S : now - m.joinedAt > ABANDONED_AFTER_S;
+    if (!stale) continue;
+    const reason = m.state === 0 ? "unjoined" : "abandoned";
+    if (await enqueueEscrowRefund(em.escrowId, reason, match?.id ?? null)) {
+      log.info({ escrowId: em.escrowId.toString(), matchId: match?.id, reason }, "queued escrow refund");
+    }
+  }
+}
+
+export function startEscrowSweeper(app: FastifyInstance) {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const tick = async () => {
+    try { await sweep(app.log); } catch (err) { app.log.error({ err }, "escrow sweeper tick failed"); }
+    if (!stopped) timer = setTimeout(tick, SWEEP_MS);
+  };
+  timer = setTimeout(tick, SWEEP_MS);
+  app.addHook("onClose", async () => { stopped = true; clearTimeout(timer); });
+}
@@ -0,0 +1,37 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// Signed, short-lived proof that a wallet was paired into a given match seat.
+// Issued with `match_found` and required to open `/game/:matchId`.
+export type Ticket = { matchId: string; seat: "a" | "b"; wallet: string; exp: number };
+
+// Without a configured secret, tickets are only valid on the process that issued them
+const SECRET = process.env.MATCH_TICKET_SECRET || randomBytes(32).toString("hex");
+const TTL_SEC = Number(process.env.MATCH_TICKET_TTL_SEC ?? "900");
+
+function sign(body: string) {
+  return createHmac("sha256", SECRET).update(body).digest("base64url");
+}
+
+export function issueTicket(matchId: string, seat: "a" | "b", wallet: string, ttlSec = TTL_SEC): string {
+  const t: Ticket = { matchId, seat, wallet: wallet.toLowerCase(), exp: Math.floor(Date.now() / 1000) + ttlSec };
+  const body = Buffer.from(JSON.stringify(t)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+export type TicketCheck = { ok: true; ticket: Ticket } | { ok: false; reason: "invalid_ticket" | "ticket_expired" };
+
+export function verifyTicket(token: string | undefined, matchId: string): TicketCheck {
+  const [body, mac] = (token ?? "").split(".");
+  if (!body || !mac) return { ok: false, reason: "invalid_ticket" };
+  const expected = Buffer.from(sign(body));
+  const given = Buffer.from(mac);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return { ok: false, reason: "invalid_ticket" };
+  let t: Ticket;
+  try { t = JSON.parse(Buffer.from(body, "base64url").toString()); }
+  catch { return { ok: false, reason: "invalid_ticket" }; }
+  if (t.matchId !== matchId || (t.seat !== "a" && t.seat !== "b") || typeof t.wallet !== "string") {
+    return { ok: false, reason: "invalid_ticket" };
+  }
+  if (t.exp * 1000 < Date.now()) return { ok: false, reason: "ticket_expired" };
+  return { ok: true, ticket: t };
+}
@@ -0,0 +1,94 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import type { TriviaDifficulty, TriviaQuestion, Variant } from "@spark/shared";
+import { prisma } from "./client.js";
+
+// Trivia question bank: the TriviaQuestion table, filled from JSON files with `pnpm trivia:import`
+// or POST /api/admin/trivia/import. The bank bundled with the API (data/trivia-questions.json) is
+// imported on first use whenever the table cannot fill a game. Every question a player is asked
+// is recorded in TriviaSeen, and draws prefer questions neither player has seen, then the ones
+// they saw longest ago.
+
+export const TriviaImport = z.array(z.object({
+  category: z.string().trim().toLowerCase().min(1).max(32),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  prompt: z.string().trim().min(1).max(300),
+  choices: z.array(z.string().trim().min(1).max(120)).min(2).max(6),
+  answer: z.number().int().min(0)
+}).refine((q) => q.answer < q.choices.length, { message: "answer out of range" })
+  .refine((q) => new Set(q.choices).size === q.choices.length, { message: "duplicate choices" })).min(1).max(5000);
+
+export const BUNDLED_BANK = new URL("../data/trivia-questions.json", import.meta.url);
+
+let bundledImport: Promise<unknown> | undefined;
+
+function shuffle<T>(items: T[]): T[] {
+  const a = items.slice();
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/** Upsert `questions` by prompt, so re-importing an edited file updates it */
+export async function importTriviaQuestions(questions: z.infer<typeof TriviaImport>) {
+  const known = await prisma.triviaQuestion.findMany({ where: { prompt: { in: questions.map((q) => q.prompt) } }, select: { prompt: true } });
+  const existing = new Set(known.map((q: any) => q.prompt));
+  for (const q of questions) {
+    await prisma.triviaQuestion.upsert({ where: { prompt: q.prompt }, update: q, create: q });
+  }
+  const updated = questions.filter((q) => existing.has(q.prompt)).length;
+  return { created: questions.length - updated, updated };
+}
+
+export async function importTriviaFile(path: string | URL) {
+  return importTriviaQuestions(TriviaImport.parse(JSON.parse(await readFile(path, "utf8"))));
+}
+
+// Questions of `pool` with when each of `userIds` last saw them
+function candidates(pool: NonNullable<Variant["pool"]>, userIds: string[]) {
+  return prisma.triviaQuestion.findMany({
+    where: { ...(pool.category ? { category: pool.category } : {}), ...(pool.difficulty ? { difficulty: pool.difficulty } : {}) },
+    include: { seen: { where: { userId: { in: userIds } }, select: { seenAt: true } } }
+  });
+}
+
+/**
+ * Draw up to `count` questions of `pool` for a game between `userIds` and record them as seen.
+ * Choices are shuffled on every draw, so the position of the right answer says nothing.
+ */
+export async function drawTriviaQuestions(pool: Variant["pool"] = {}, count: number, userIds: string[]): Promise<TriviaQuestion[]> {
+  let rows: any[] = await candidates(pool, userIds);
+  if (rows.length < count) {
+    bundledImport = bundledImport ?? importTriviaFile(BUNDLED_BANK).catch((err) => { bundledImport = undefined; throw err; });
+    await bundledImport;
+    rows = await candidates(pool, userIds);
+  }
+  // Never seen first (in random order), then by when either player last saw it
+  const lastSeen = (q: any) => Math.max(0, ...q.seen.map((s: any) => s.seenAt.getTime()));
+  const picked = shuffle(rows).sort((x, y) => lastSeen(x) - lastSeen(y)).slice(0, count);
+  const seenAt = new Date();
+  await prisma.$transaction(userIds.flatMap((userId) => picked.map((q) => prisma.triviaSeen.upsert({
+    where: { userId_questionId: { userId, questionId: q.id } },
+    update: { seenAt },
+    create: { userId, questionId: q.id, seenAt }
+  }))));
+  return picked.map((q) => {
+    const choices = shuffle((q.choices as string[]).map((text, i) => ({ text, right: i === q.answer })));
+    return {
+      id: q.id,
+      category: q.category,
+      difficulty: q.difficulty as TriviaDifficulty,
+      prompt: q.prompt,
+      choices: choices.map((c) => c.text),
+      answer: choices.findIndex((c) => c.right)
+    };
+  });
+}
+
+/** Questions in the bank per category and difficulty */
+export async function triviaBankStats() {
+  const groups: any[] = await prisma.triviaQuestion.groupBy({ by: ["category", "difficulty"], _count: { _all: true } });
+  return groups.map((g) => ({ category: g.category, difficulty: g.difficulty, questions: g._count._all }));
+}
@@ -0,0 +1,172 @@
+import type { FastifyInstance } from "fastify";
+import { encodeFunctionData, keccak256 } from "viem";
+import { prisma } from "./client.js";
+import { publicClient, walletClient } from "./chain.js";
+
+// All server-wallet transactions go through here: nonces are allocated locally and sends are
+// serialized, every transaction is recorded in ChainTx, and a monitor confirms them and
+// replaces stuck ones (same nonce, bumped fees). Assumes one API process owns the key.
+
+export type TxStatus = "PENDING" | "CONFIRMED" | "FAILED" | "REPLACED" | "DROPPED";
+
+type ContractCall = { address: `0x${string}`; abi: any; functionName: string; args?: readonly unknown[] };
+
+const STUCK_MS = Number(process.env.TX_STUCK_MS ?? "45000"); // no receipt after this long -> bump
+const MAX_BUMPS = Number(process.env.TX_MAX_BUMPS ?? "5");
+const BUMP_PCT = 125n; // nodes require >= +10% to accept a replacement; use +25%
+const MONITOR_MS = 5_000;
+
+let nextNonce: number | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+// Run `fn` after every previously scheduled send has finished
+function serialize<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => {});
+  return run;
+}
+
+const isNonceError = (e: any) => /nonce too low|nonce has already been used/i.test(String(e?.details ?? e?.message ?? e));
+const isUnderpriced = (e: any) => /underpriced|fee too low|less than block base fee/i.test(String(e?.details ?? e?.message ?? e));
+
+async function syncNonce() {
+  nextNonce = await publicClient.getTransactionCount({ address: walletClient.account.address, blockTag: "pending" });
+}
+
+const bump = (v: bigint) => (v * BUMP_PCT) / 100n;
+
+type TxFields = { to: `0x${string}`; data: `0x${string}`; nonce: number; gas: bigint; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+// Sign locally so the row (and its hash) is recorded before the transaction can reach the network
+async function broadcast(tx: TxFields, meta: { purpose: string; matchId: string | null }) {
+  const serializedTransaction = await walletClient.signTransaction({ ...tx, account: walletClient.account, chain: walletClient.chain } as any);
+  const hash = keccak256(serializedTransaction);
+  const row = await prisma.chainTx.create({ data: { ...tx, ...meta, hash, from: walletClient.account.address } });
+  try {
+    await publicClient.sendRawTransaction({ serializedTransaction });
+  } catch (e) {
+    if (/already known/i.test(String((e as any)?.details ?? (e as any)?.message ?? e))) return row;
+    await prisma.chainTx.delete({ where: { id: row.id } }); // never left this process
+    throw e;
+  }
+  return row;
+}
+
+/**
+ * Send a contract call from the server wallet and record it. Resolves with the tx hash once the
+ * node accepted it; use waitForTx() for the outcome. Reverting calls fail here at gas estimation.
+ */
+export function sendTx(call: ContractCall & { purpose: string; matchId?: string }): Promise<`0x${string}`> {
+  return serialize(async () => {
+    const from = walletClient.account.address;
+    const data = encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args as any });
+    const gas = await publicClient.estimateGas({ account: from, to: call.address, data });
+    let { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+    if (nextNonce === null) await syncNonce();
+
+    for (let attempt = 0; ; attempt++) {
+      const nonce = nextNonce!;
+      try {
+        const row = await broadcast({ to: call.address, data, nonce, gas, maxFeePerGas, maxPriorityFeePerGas }, { purpose: call.purpose, matchId: call.matchId ?? null });
+        nextNonce = nonce + 1;
+        return row.hash as `0x${string}`;
+      } catch (e) {
+        if (attempt >= 3) throw e;
+        if (isNonceError(e)) await syncNonce();           // someone else used the nonce: resync
+        else if (isUnderpriced(e)) { maxFeePerGas = bump(maxFeePerGas); maxPriorityFeePerGas = bump(maxPriorityFeePerGas); }
+        else { await syncNonce(); throw e; }                 // unknown failure: don't leave a nonce gap
+      }
+    }
+  });
+}
+
+// All rows sharing a nonce are one logical transaction (the original plus its replacements)
+async function lineage(row: { from: string; nonce: number }) {
+  return prisma.chainTx.findMany({ where: { from: row.from, nonce: row.nonce }, orderBy: { createdAt: "asc" } });
+}
+
+/** Final status of the logical transaction that `hash` belongs to (following replacements). */
+export async function txStatus(hash: string): Promise<{ status: TxStatus; hash: string } | null> {
+  const row = await prisma.chainTx.findUnique({ where: { hash } });
+  if (!row) return null;
+  const rows = await lineage(row);
+  const mined = rows.find((r: any) => r.status === "CONFIRMED" || r.status === "FAILED");
+  if (mined) return { status: mined.status, hash: mined.hash };
+  if (rows.some((r: any) => r.status === "DROPPED")) return { status: "DROPPED", hash };
+  return { status: "PENDING", hash: rows[rows.length - 1].hash };
+}
+
+/** Wait until the monitor resolves `hash` (or a replacement of it); throws unless it confirmed. */
+export async function waitForTx(hash: string, timeoutMs = 180_000) {
+  const until = Date.now() + timeoutMs;
+  for (;;) {
+    const s = await txStatus(hash);
+    if (!s) throw new Error(`unknown tx ${hash}`);
+    if (s.status === "CONFIRMED") return s.hash;
+    if (s.status === "FAILED") throw new Error(`tx ${s.hash} reverted`);
+    if (s.status === "DROPPED") throw new Error(`tx ${hash} dropped`);
+    if (Date.now() > until) throw new Error(`tx ${s.hash} still pending`);
+    await new Promise((r) => setTimeout(r, 2_000));
+  }
+}
+
+// One monitor pass: record receipts, replace stuck transactions, mark dropped ones
+async function checkPending(log: FastifyInstance["log"]) {
+  const heads = await prisma.chainTx.findMany({ where: { status: "PENDING" }, orderBy: { nonce: "asc" } });
+  if (!heads.length) return;
+  const minedNonce = await publicClient.getTransactionCount({ address: walletClient.account.address, blockTag: "latest" });
+  for (const head of heads as any[]) {
+    const rows = await lineage(head);
+    let mined: any = null;
+    for (const r of rows as any[]) {
+      const receipt = await publicClient.getTransactionReceipt({ hash: r.hash }).catch(() => null);
+      if (receipt) { mined = { row: r, receipt }; break; }
+    }
+    if (mined) {
+      await prisma.chainTx.update({
+        where: { id: mined.row.id },
+        data: { status: mined.receipt.status === "success" ? "CONFIRMED" : "FAILED", blockNumber: mined.receipt.blockNumber }
+      });
+      await prisma.chainTx.updateMany({
+        where: { from: head.from, nonce: head.nonce, id: { not: mined.row.id }, status: { in: ["PENDING", "REPLACED"] } },
+        data: { status: "REPLACED", replacedById: mined.row.id }
+      });
+      continue;
+    }
+    // Nonce already used on-chain by a transaction we don't know about
+    if (head.nonce < minedNonce) {
+      await prisma.chainTx.update({ where: { id: head.id }, data: { status: "DROPPED", error: "nonce consumed by another transaction" } });
+      continue;
+    }
+    if (Date.now() - head.createdAt.getTime() < STUCK_MS || rows.length > MAX_BUMPS) continue;
+
+    // Stuck: resend the same call with the same nonce and higher fees
+    await serialize(async () => {
+      const fees = await publicClient.estimateFeesPerGas();
+      const maxPriorityFeePerGas = [bump(head.maxPriorityFeePerGas), fees.maxPriorityFeePerGas].reduce((a, b) => (a > b ? a : b));
+      const maxFeePerGas = [bump(head.maxFeePerGas), fees.maxFeePerGas].reduce((a, b) => (a > b ? a : b));
+      try {
+        const next = await broadcast(
+          { to: head.to, data: head.data, nonce: head.nonce, gas: head.gas, maxFeePerGas, maxPriorityFeePerGas },
+          { purpose: head.purpose, matchId: head.matchId }
+        );
+        await prisma.chainTx.update({ where: { id: head.id }, data: { status: "REPLACED", replacedById: next.id } });
+        log.warn({ nonce: head.nonce, old: head.hash, hash: next.hash, purpose: head.purpose }, "replaced stuck transaction");
+      } catch (e) {
+        // Mined in the meantime (nonce too low) is picked up on the next pass
+        if (!isNonceError(e)) log.error({ err: e, nonce: head.nonce, hash: head.hash }, "gas bump failed");
+      }
+    });
+  }
+}
+
+export function startTxMonitor(app: FastifyInstance) {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const tick = async () => {
+    try { await checkPending(app.log); } catch (err) { app.log.error({ err }, "tx monitor tick failed"); }
+    if (!stopped) timer = setTimeout(tick, MONITOR_MS);
+  };
+  timer = setTimeout(tick, MONITOR_MS);
+  app.addHook("onClose", async () => { stopped = true; clearTimeout(timer); });
+}
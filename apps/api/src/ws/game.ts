@@ -2,56 +2,610 @@ import type { FastifyInstance } from "fastify";
 import type { WebSocket } from "ws";
 import { z } from "zod";
 import { prisma } from "../client.js";
+import { getPairWallets, pairEscrowId, releasePair } from "./matchmaking.js";
+import { issueTicket, verifyTicket } from "../tickets.js";
+import { finalizeMatch, type GameResult } from "../settlement.js";
+import { transitionMatch } from "../lifecycle.js";
+import { type BotLevel, type BotMemory, botMove, memoryBotSee, reactionBotMs, triviaThinkMs } from "../bots/index.js";
+import { drawTriviaQuestions } from "../trivia.js";
+import {
+  type GameId, type GameRules, type Side, otherSide, type TTTState, type C4State, type RPSState, type ChessState, type CheckersState,
+  type BSState, type TriviaQuestion, type TriviaState, type MemoryState, type ReactionState, getVariant, chessFen, chessInCheck, battleshipView, triviaView,
+  memoryView, reactionView, C4_MAX_ROUNDS,
+  TRIVIA_ANSWER_MS, TRIVIA_COUNT
+} from "@spark/shared";
 
+// TTT/C4 send a cell or column `position` (`pop` for a Pop Out pop); chess sends a UCI move ("e2e4", "e7e8q");
+// checkers sends the whole `path` of squares the piece visits, so a jump chain is one move; battleship
+// fires at cell `position` and memory flips card `position`
 const Move = z.object({
   action: z.literal("move"),
-  position: z.number().int().min(0).max(63) // TTT uses 0..8; C4 uses 0..6; chess can map to 0..63 later
+  position: z.number().int().min(0).max(99).optional(),
+  pop: z.literal(true).optional(),
+  uci: z.string().regex(/^[a-h][1-8][a-h][1-8][qrbn]?$/).optional(),
+  path: z.array(z.number().int().min(0).max(63)).min(2).max(13).optional()
+}).refine((m) => [m.position, m.uci, m.path].filter((x) => x !== undefined).length === 1);
+
+// Battleship setup: the whole fleet at once, one placement per ship (the rules check the layout)
+const Place = z.object({
+  action: z.literal("place"),
+  fleet: z.array(z.object({ cell: z.number().int().min(0).max(99), vertical: z.boolean() })).min(1).max(10)
+});
+
+// Trivia: the index of the picked answer; how fast it came is measured here, not sent
+const Answer = z.object({
+  action: z.literal("answer"),
+  choice: z.number().int().min(0).max(9)
 });
 
+// Reaction duel: a bare tap; the server times it
+const Tap = z.object({ action: z.literal("tap") });
+
+// Which picks are allowed is up to the variant's rules
 const Choice = z.object({
   action: z.literal("choice"),
-  choice: z.enum(["rock", "paper", "scissors"]) as unknown as z.ZodType<
-    "rock" | "paper" | "scissors"
+  choice: z.enum(["rock", "paper", "scissors", "lizard", "spock"]) as unknown as z.ZodType<
+    "rock" | "paper" | "scissors" | "lizard" | "spock"
   >,
 });
 
+export type GameType = "TTT" | "C4" | "RPS" | "CHESS" | "CHECKERS" | "BATTLESHIP" | "TRIVIA" | "MEMORY" | "REACTION";
+const GAME_IDS: Record<GameType, GameId> = {
+  TTT: "tictactoe", C4: "connectfour", RPS: "rockpaperscissors", CHESS: "chess", CHECKERS: "checkers", BATTLESHIP: "battleship", TRIVIA: "trivia",
+  MEMORY: "memory", REACTION: "reaction"
+};
+// Message kinds each game accepts: a move `position`, `uci` or `path`, an RPS `choice`, a battleship fleet (`place`)
+// a trivia `answer` or a reaction `tap`
+const ACTIONS: Record<GameType, string[]> = {
+  TTT: ["position"], C4: ["position"], RPS: ["choice"], CHESS: ["uci"], CHECKERS: ["path"], BATTLESHIP: ["place", "position"],
+  TRIVIA: ["answer"], MEMORY: ["position"], REACTION: ["tap"]
+};
+// Connect Four rounds played (each full grid starts another) before the game is a draw
+const C4_ROUNDS = Number(process.env.C4_MAX_ROUNDS ?? C4_MAX_ROUNDS);
+type GameState = TTTState | C4State | RPSState | ChessState | CheckersState | BSState | TriviaState | MemoryState | ReactionState;
+
+// Best-of-N: games are played in the same room until one side cannot be caught; the first
+// mover alternates between games. A best-of-1 match is a series of one game.
+type Series = { bestOf: number; game: number; first: Side; results: Array<{ winner: Side | null; reason: string }> };
+
 type Room = {
-  type?: "TTT" | "C4" | "RPS";
+  matchId?: string;
+  activation?: Promise<unknown>; // PAIRED/ESCROW_FUNDED -> ACTIVE write, awaited before finalizing
+  type?: GameType;
+  // Rule preset of the match (VARIANTS in @spark/shared, which the client runs too) and its rules
+  variant?: { id: string; target: number | null };
+  rules?: GameRules<any, any>;
+  questions?: TriviaQuestion[]; // drawn from the bank when the room loads, for trivia
+  // Reaction duel: when GO went out this round, and each seat's socket latency (see pingSeats)
+  goAt?: number; // ms epoch
+  pings?: Map<number, { side: Side; sentAt: number }>;
+  rtt?: Record<Side, number[]>; // latest round trips, ms
+  // Seats are bound to the matched wallets: side a = p1, side b = p2 (lowercased)
+  wallets?: { a: string; b: string };
   a?: WebSocket;
   b?: WebSocket;
-  lastMove?: { position: number; timestamp: string };
-  lastSide?: "a" | "b"; // whose turn moved last
+  // Server-hosted opponent: always seated at side b of a bot match, never disconnects
+  bot?: { side: Side; level: BotLevel; memory: BotMemory };
   started?: boolean;
   startAt?: number; // ms epoch when match started
-  currentSide?: "a" | "b"; // whose turn it is now
-  // TTT state
-  board?: Array<"X" | "O" | null>; // Tic-Tac-Toe board
-  movesA?: number[]; // positions history for side A (X)
-  movesB?: number[]; // positions history for side B (O)
-  // C4 state
-  c4Board?: Array<"red" | "yellow" | null>; // 7x6 grid = 42 cells
-  // RPS state
-  rpsRound?: number;
-  rpsScores?: { a: number; b: number };
-  rpsChoices?: { a: "rock" | "paper" | "scissors" | null; b: "rock" | "paper" | "scissors" | null };
-  ended?: boolean;
+  state?: GameState; // rules state of `type`, replaced (never mutated) on every move
+  ended?: boolean; // the whole series is over
   winner?: "a" | "b" | null;
+  series?: Series;
+  nextGameTimer?: ReturnType<typeof setTimeout>; // pause between the games of a series
+  // Server-owned clock: the side to move (or both sides, for an RPS round or trivia question) must act before `deadline`
+  deadline?: number; // ms epoch
+  timer?: ReturnType<typeof setTimeout>;
+  // Reconnect handling: while a seat is empty mid-game the clock is frozen with `pausedRemaining` left
+  paused?: boolean;
+  pausedRemaining?: number;
+  graceTimers?: { a?: ReturnType<typeof setTimeout>; b?: ReturnType<typeof setTimeout> };
 };
 const rooms = new Map<string, Room>(); // matchId -> room
 // Active player counts by game type (approximate: counts connected sockets per type)
-const activeCounts = { TTT: 0, C4: 0, RPS: 0 } as Record<Required<Room>["type"], number>;
+const activeCounts = { TTT: 0, C4: 0, RPS: 0, CHESS: 0, CHECKERS: 0, BATTLESHIP: 0, TRIVIA: 0, MEMORY: 0, REACTION: 0 } as Record<Required<Room>["type"], number>;
 const connTypes = new WeakMap<WebSocket, Room["type"]>();
 
+// How long a bot "thinks" before moving, so its moves read like a player's
+const BOT_THINK_MS = Number(process.env.BOT_THINK_MS ?? "700");
+// 30 seconds per turn (TTT/C4) or per round (RPS), 60 seconds per chess move, as advertised in the game rules
+const TURN_MS = 30_000;
+const CHESS_TURN_MS = 60_000;
+// Both battleship players place their fleets against one clock
+const BS_SETUP_MS = 90_000;
+const inSetup = (r: Room) => r.type === "BATTLESHIP" && (r.state as BSState | undefined)?.phase === "setup";
+// Trivia: TRIVIA_ANSWER_MS to answer each question, then the reveal stays up for TRIVIA_REVEAL_MS
+const TRIVIA_REVEAL_MS = Number(process.env.TRIVIA_REVEAL_MS ?? "4000");
+const inReveal = (r: Room) => r.type === "TRIVIA" && (r.state as TriviaState | undefined)?.phase === "reveal";
+// Memory: how long two mismatched cards stay face up before the turn passes
+const MEMORY_REVEAL_MS = Number(process.env.MEMORY_REVEAL_MS ?? "1500");
+// Reaction duel: GO comes a random REACTION_MIN_WAIT_MS..REACTION_MAX_WAIT_MS after "get ready", taps
+// are taken for REACTION_WINDOW_MS after it, and the round's result stays up for REACTION_RESULT_MS
+const REACTION_MIN_WAIT_MS = Number(process.env.REACTION_MIN_WAIT_MS ?? "1500");
+const REACTION_MAX_WAIT_MS = Number(process.env.REACTION_MAX_WAIT_MS ?? "5000");
+const REACTION_WINDOW_MS = Number(process.env.REACTION_WINDOW_MS ?? "3000");
+const REACTION_RESULT_MS = Number(process.env.REACTION_RESULT_MS ?? "2500");
+// A tap's travel time is corrected by the seat's fastest recent round trip, at most REACTION_MAX_COMP_MS; after a
+// lone tap the other seat's tap is awaited as long as it could still be faster, plus REACTION_JITTER_MS
+const REACTION_MAX_COMP_MS = Number(process.env.REACTION_MAX_COMP_MS ?? "300");
+const REACTION_JITTER_MS = Number(process.env.REACTION_JITTER_MS ?? "100");
+const RTT_SAMPLES = 5;
+const reactionPhase = (r: Room) => (r.type === "REACTION" ? (r.state as ReactionState | undefined)?.phase : undefined);
+function turnMs(r: Room) {
+  if (r.type === "REACTION") {
+    const phase = reactionPhase(r);
+    if (phase === "go") return REACTION_WINDOW_MS;
+    if (phase === "result") return REACTION_RESULT_MS;
+    return REACTION_MIN_WAIT_MS + Math.random() * (REACTION_MAX_WAIT_MS - REACTION_MIN_WAIT_MS);
+  }
+  if (r.type === "TRIVIA") return inReveal(r) ? TRIVIA_REVEAL_MS : TRIVIA_ANSWER_MS;
+  if (r.type === "MEMORY" && (r.state as MemoryState | undefined)?.phase === "reveal") return MEMORY_REVEAL_MS;
+  return r.type === "CHESS" ? CHESS_TURN_MS : (inSetup(r) ? BS_SETUP_MS : TURN_MS);
+}
+// Time since the current trivia question was shown, by the server's clock
+const answerMs = (r: Room) => Math.max(0, TRIVIA_ANSWER_MS - ((r.deadline ?? Date.now()) - Date.now()));
+// The clock as players may see it: while a reaction round waits for GO its deadline would give GO away
+const shownDeadline = (r: Room) => (reactionPhase(r) === "ready" ? undefined : r.deadline);
+// Pause between the games of a series, so both players see how the last one ended
+const SERIES_BREAK_MS = Number(process.env.SERIES_BREAK_MS ?? "4000");
+// How long a dropped player has to come back before forfeiting by disconnect
+const RECONNECT_GRACE_MS = Number(process.env.GAME_RECONNECT_GRACE_MS ?? "20000");
+let log: FastifyInstance["log"] | undefined;
+
+function send(ws: WebSocket | undefined, msg: unknown) {
+  try { ws?.send(JSON.stringify(msg)); } catch {}
+}
+
+function broadcast(r: Room, msg: unknown) {
+  send(r.a, msg);
+  send(r.b, msg);
+}
+
+// A seat is filled by a connected socket or by the room's bot
+function seated(r: Room, side: Side) {
+  return !!r[side] || r.bot?.side === side;
+}
+
+// The room's rules, built from its variant on first use (the game's default variant if unknown)
+function roomRules(r: Room): GameRules<any, any> {
+  if (!r.rules) {
+    const game = GAME_IDS[r.type ?? "TTT"];
+    const v = getVariant(game, r.variant?.id) ?? getVariant(game)!;
+    r.variant = { id: v.id, target: r.variant?.target ?? null };
+    r.rules = v.create({ target: r.variant.target ?? undefined, maxRounds: C4_ROUNDS, questions: r.questions });
+  }
+  return r.rules;
+}
+
+// Side to move; undefined for RPS, trivia and battleship setup, where both sides act at once
+function currentSide(r: Room): Side | undefined {
+  if (inSetup(r)) return undefined;
+  return r.state && "turn" in r.state ? r.state.turn : undefined;
+}
+
+// Series scoreboard sent with `start`, `state` and `series_game_end`; `game` is the game being (or last) played
+function seriesData(r: Room) {
+  const s = r.series ?? { bestOf: 1, game: 1, results: [] };
+  const wins = { a: 0, b: 0 };
+  for (const g of s.results) if (g.winner) wins[g.winner]++;
+  return { bestOf: s.bestOf, game: s.game, wins, results: s.results };
+}
+
+// Authoritative snapshot sent to `side` in `state` events; `timestamp` lets clients compute the remaining time
+// without clock skew. Hidden-information games (battleship, trivia, memory, reaction) only show each side its own view.
+function stateData(r: Room, side: Side) {
+  const base = {
+    current: currentSide(r),
+    deadline: shownDeadline(r),
+    timestamp: Date.now(),
+    paused: !!r.paused,
+    ...(r.paused && reactionPhase(r) !== "ready" ? { remainingMs: r.pausedRemaining } : {}),
+    series: seriesData(r)
+  };
+  if (r.type === "RPS") {
+    // `chosen` tells a reconnecting player whether their pick for this round is already locked in
+    const s = r.state as RPSState;
+    return { ...base, round: s.round, scores: s.scores, chosen: { a: !!s.choices.a, b: !!s.choices.b } };
+  }
+  if (r.type === "CHESS") {
+    const s = r.state as ChessState;
+    return { ...base, board: s.board, fen: chessFen(s), white: s.white, lastMove: s.lastMove, check: chessInCheck(s) };
+  }
+  if (r.type === "BATTLESHIP") {
+    return { ...base, battleship: battleshipView(r.state as BSState, side) };
+  }
+  if (r.type === "TRIVIA") {
+    return { ...base, trivia: triviaView(r.state as TriviaState, side) };
+  }
+  if (r.type === "MEMORY") {
+    return { ...base, memory: memoryView(r.state as MemoryState) };
+  }
+  if (r.type === "REACTION") {
+    return { ...base, reaction: reactionView(r.state as ReactionState) };
+  }
+  if (r.type === "CHECKERS") {
+    const s = r.state as CheckersState;
+    return { ...base, board: s.board, dark: s.dark, lastPath: s.lastMove };
+  }
+  if (r.type === "C4") {
+    const s = r.state as C4State;
+    return { ...base, board: s.board, cols: s.cols, rows: s.rows, round: s.round, maxRounds: C4_ROUNDS };
+  }
+  return { ...base, board: (r.state as TTTState).board };
+}
+
+// Every seat gets its own projection of the state
+function broadcastState(r: Room) {
+  send(r.a, { event: "state", data: stateData(r, "a") });
+  send(r.b, { event: "state", data: stateData(r, "b") });
+  if (reactionPhase(r) === "ready") pingSeats(r);
+}
+
+// Reaction duel latency probes: every "get ready" sends each connected seat a WebSocket ping frame,
+// which the browser answers with a pong frame by itself (page scripts cannot hold it back), so
+// fresh round trips are in before GO. Unanswered probes are dropped after a while.
+let nextPing = 1;
+function pingSeats(r: Room) {
+  const now = Date.now();
+  r.pings = r.pings ?? new Map();
+  for (const [id, p] of r.pings) if (now - p.sentAt > 10_000) r.pings.delete(id);
+  for (const side of ["a", "b"] as const) {
+    if (!r[side]) continue;
+    const id = nextPing++;
+    r.pings.set(id, { side, sentAt: now });
+    try { r[side]!.ping(String(id)); } catch {}
+  }
+}
+
+function onPong(r: Room, side: Side, id: number) {
+  const p = r.pings?.get(id);
+  if (!p || p.side !== side) return;
+  r.pings!.delete(id);
+  r.rtt = r.rtt ?? { a: [], b: [] };
+  r.rtt[side] = [...r.rtt[side], Date.now() - p.sentAt].slice(-RTT_SAMPLES);
+}
+
+// Fastest recent round trip of `side`'s socket; undefined until it answered a probe (and always for
+// the bot). The minimum, so a delayed answer never buys a player extra compensation.
+function minRtt(r: Room, side: Side) {
+  const samples = r.rtt?.[side] ?? [];
+  return samples.length ? Math.min(...samples) : undefined;
+}
+
+// GO reaches a player half a round trip after it is sent and their tap takes the other half to come
+// back, so the whole round trip (capped) is taken off the time measured here
+const compensation = (r: Room, side: Side) => Math.min(REACTION_MAX_COMP_MS, minRtt(r, side) ?? 0);
+
+// Reaction time of a tap by `side` reaching the server at `tapAt`; negative = made before GO could be seen
+function reactionMs(r: Room, side: Side, tapAt: number) {
+  return r.goAt === undefined ? -1 : Math.round(tapAt - r.goAt - compensation(r, side));
+}
+
+// Raw timings of every tap go to the log and the ReactionTiming table, for dispute review
+function recordTap(r: Room, side: Side, tapAt: number, ms: number) {
+  const s = r.state as ReactionState;
+  const timing = {
+    matchId: r.matchId, game: r.series?.game ?? 1, round: s.round, seat: side === "a" ? "p1" : "p2",
+    goAt: r.goAt, tapAt, rttMs: minRtt(r, side) ?? null, compMs: r.goAt === undefined ? 0 : compensation(r, side), reactionMs: ms
+  };
+  log?.info({ ...timing, rttSamples: r.rtt?.[side] ?? [] }, "reaction tap");
+  if (!r.matchId) return;
+  prisma.reactionTiming.create({
+    data: { ...timing, matchId: r.matchId, goAt: r.goAt === undefined ? null : new Date(r.goAt), tapAt: new Date(tapAt) }
+  }).catch((err: unknown) => log?.error({ err, matchId: r.matchId }, "reaction timing write failed"));
+}
+
+function clearClock(r: Room) {
+  if (r.timer) clearTimeout(r.timer);
+  r.timer = undefined;
+  r.deadline = undefined;
+}
+
+function armClock(r: Room, ms = turnMs(r)) {
+  clearClock(r);
+  r.deadline = Date.now() + ms;
+  r.timer = setTimeout(() => onClockExpired(r), ms);
+}
+
+function clearGrace(r: Room, side?: "a" | "b") {
+  for (const s of side ? [side] : (["a", "b"] as const)) {
+    if (r.graceTimers?.[s]) clearTimeout(r.graceTimers[s]);
+    if (r.graceTimers) r.graceTimers[s] = undefined;
+  }
+}
+
+// End the match (the whole series): `winner` takes it, null is a draw
+function endGame(r: Room, winner: "a" | "b" | null, reason: string) {
+  clearClock(r);
+  clearGrace(r);
+  if (r.nextGameTimer) clearTimeout(r.nextGameTimer);
+  r.nextGameTimer = undefined;
+  r.paused = false;
+  r.ended = true;
+  r.winner = winner;
+  const s = r.series;
+  // A forfeit or disconnect also decides the game in progress
+  if (s && s.results.length < s.game) s.results.push({ winner, reason });
+  broadcast(r, { event: "game_end", data: { winnerSide: winner, reason, isDraw: winner === null, series: seriesData(r) } });
+  // The room's outcome is authoritative: record it, settle escrow and award XP from here
+  if (r.matchId) {
+    const durationSec = r.startAt ? Math.floor((Date.now() - r.startAt) / 1000) : 0;
+    const toSeat = (w: Side | null) => (w === null ? null : (w === "a" ? "p1" : "p2"));
+    const games: GameResult[] | undefined = s && s.bestOf > 1 ? s.results.map((g) => ({ winner: toSeat(g.winner), reason: g.reason })) : undefined;
+    const matchId = r.matchId;
+    Promise.resolve(r.activation).then(() => finalizeMatch(matchId, toSeat(winner), durationSec, games))
+      .then(() => releasePair(matchId))
+      .catch((err) => log?.error({ err, matchId }, "match finalization failed"));
+  }
+}
+
+// A game of the series is over: end the match once it is decided, otherwise start the next
+// game after a short break
+function finishGame(r: Room, winner: Side | null, reason: string) {
+  const s = r.series;
+  if (!s || s.bestOf === 1) { endGame(r, winner, reason); return; }
+  s.results.push({ winner, reason });
+  const { wins } = seriesData(r);
+  const left = s.bestOf - s.results.length;
+  if (left === 0 || Math.abs(wins.a - wins.b) > left) {
+    endGame(r, wins.a > wins.b ? "a" : (wins.b > wins.a ? "b" : null), "series_complete");
+    return;
+  }
+  clearClock(r);
+  broadcast(r, { event: "series_game_end", data: { winnerSide: winner, reason, isDraw: winner === null, series: seriesData(r) } });
+  r.nextGameTimer = setTimeout(() => startNextGame(r), SERIES_BREAK_MS);
+}
+
+function startNextGame(r: Room) {
+  r.nextGameTimer = undefined;
+  const s = r.series;
+  if (r.ended || !s || !r.type) return;
+  s.game += 1;
+  r.state = roomRules(r).initialState(s.game % 2 === 1 ? s.first : otherSide(s.first));
+  // What the bot remembers belongs to the game just played (a new memory deck, for one)
+  if (r.bot) r.bot.memory = { rps: [] };
+  // A seat emptied during the break: the new game's clock starts once both are back
+  if (r.paused) r.pausedRemaining = turnMs(r);
+  else armClock(r);
+  broadcastState(r);
+  scheduleBot(r);
+}
+
+// A seat emptied mid-game: freeze the clock and give the player RECONNECT_GRACE_MS to return
+function pauseForReconnect(matchId: string, r: Room, side: "a" | "b") {
+  if (!r.paused) {
+    r.pausedRemaining = r.deadline ? Math.max(0, r.deadline - Date.now()) : turnMs(r);
+    clearClock(r);
+    r.paused = true;
+  }
+  clearGrace(r, side);
+  r.graceTimers = r.graceTimers ?? {};
+  r.graceTimers[side] = setTimeout(() => {
+    if (r.graceTimers) r.graceTimers[side] = undefined;
+    if (r.ended) return;
+    // If the other player is gone too there is nobody to award the game to
+    const other = side === "a" ? "b" : "a";
+    endGame(r, seated(r, other) ? other : null, "disconnect");
+    if (!r.a && !r.b) rooms.delete(matchId);
+  }, RECONNECT_GRACE_MS);
+  broadcast(r, { event: "opponent_disconnected", data: { side, reconnectWithinMs: RECONNECT_GRACE_MS, timestamp: Date.now() } });
+}
+
+// Both seats are filled again: restart the frozen clock where it stopped and resync everyone
+function resumeIfReady(r: Room) {
+  if (!r.paused || !seated(r, "a") || !seated(r, "b") || r.ended) return;
+  r.paused = false;
+  // A reaction round paused after GO goes on as if GO had been sent the time already played ago
+  if (reactionPhase(r) === "go" && r.pausedRemaining !== undefined) r.goAt = Date.now() - Math.max(0, REACTION_WINDOW_MS - r.pausedRemaining);
+  // Between two games of a series there is no clock to restart
+  if (!r.nextGameTimer) armClock(r, r.pausedRemaining ?? turnMs(r));
+  r.pausedRemaining = undefined;
+  broadcast(r, { event: "opponent_reconnected", data: {} });
+  broadcastState(r);
+  scheduleBot(r);
+}
+
+// Resolve game type and seat wallets, preferring the live matchmaking pair and falling back to the DB row
+// A staked match only starts once P2's joinMatch is confirmed on-chain (ESCROW_FUNDED): a game
+// played over an escrow nobody joined could never be settled
+async function escrowReady(matchId: string) {
+  try {
+    const m = await prisma.match.findUnique({ where: { id: matchId }, select: { escrowId: true, status: true } });
+    if (!m) return pairEscrowId(matchId) === undefined;
+    return m.escrowId === null || m.status === "ESCROW_FUNDED" || m.status === "ACTIVE";
+  } catch {
+    // DB down: only unstaked pairs can play
+    return pairEscrowId(matchId) === undefined;
+  }
+}
+
+// Both seats filled: initialize the first game and broadcast start, once the stakes are in
+async function startRoom(r: Room, matchId: string) {
+  if (r.started || !seated(r, "a") || !seated(r, "b")) return;
+  if (!(await escrowReady(matchId))) {
+    broadcast(r, { event: "escrow_pending", data: { matchId } });
+    return;
+  }
+  // Seats may have changed, or another call started the room, while the status was read
+  if (r.started || !seated(r, "a") || !seated(r, "b")) return;
+  r.started = true;
+  r.startAt = Date.now();
+  r.activation = transitionMatch(matchId, "ACTIVE")
+    .catch((err) => log?.error({ err, matchId }, "match activation failed"));
+  r.ended = false;
+  r.winner = null;
+  r.type = r.type ?? "TTT";
+  const first: Side = Math.random() < 0.5 ? "a" : "b";
+  r.series = { bestOf: r.series?.bestOf ?? 1, game: 1, first, results: [] };
+  // No questions to ask (the bank could not be read): call the match off as a draw
+  if (r.type === "TRIVIA" && !r.questions?.length) { endGame(r, null, "trivia_unavailable"); return; }
+  r.state = roomRules(r).initialState(first);
+  armClock(r);
+  // Send individualized start with receiver side, current turn and the first deadline
+  const startData = { startAt: r.startAt, current: currentSide(r), deadline: shownDeadline(r), timestamp: Date.now(), series: seriesData(r), variant: r.variant };
+  send(r.a, { event: "start", data: { ...startData, side: "a", ticket: issueTicket(matchId, "a", r.wallets!.a) } });
+  send(r.b, { event: "start", data: { ...startData, side: "b", ticket: issueTicket(matchId, "b", r.wallets!.b) } });
+  // Immediately follow with the authoritative state
+  broadcastState(r);
+  scheduleBot(r);
+}
+
+/** P2's joinMatch is confirmed: start the match's room if both players are already seated */
+export function escrowFunded(matchId: string) {
+  const r = rooms.get(matchId);
+  if (r) startRoom(r, matchId).catch((err) => log?.error({ err, matchId }, "room start failed"));
+}
+
+async function loadMatch(matchId: string, r: Room) {
+  const pair = getPairWallets(matchId);
+  if (pair) r.wallets = pair;
+  try {
+    const seat = { select: { id: true, walletAddress: true, isBot: true } };
+    const m = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: { game: true, botLevel: true, variant: true, targetScore: true, bestOf: true, p1: seat, p2: seat }
+    });
+    const g = m?.game;
+    r.type = (g === "C4" ? "C4" : g === "RPS" ? "RPS" : g === "CHESS" ? "CHESS" : g === "CHECKERS" ? "CHECKERS" : g === "BATTLESHIP" ? "BATTLESHIP" : g === "TRIVIA" ? "TRIVIA"
+      : g === "MEMORY" ? "MEMORY" : g === "REACTION" ? "REACTION" : "TTT");
+    const level: BotLevel | null | undefined = m?.botLevel;
+    if (level && !r.bot) r.bot = { side: "b", level, memory: { rps: [] } };
+    if (m && !r.wallets) r.wallets = { a: m.p1.walletAddress.toLowerCase(), b: m.p2.walletAddress.toLowerCase() };
+    if (m && !r.variant) r.variant = { id: m.variant ?? "", target: m.targetScore };
+    if (m && !r.series) r.series = { bestOf: m.bestOf, game: 1, first: "a", results: [] };
+    // Both players get the same questions, none they have been asked before if the bank allows
+    if (m && r.type === "TRIVIA" && !r.questions) {
+      const v = getVariant("trivia", r.variant?.id) ?? getVariant("trivia")!;
+      const players = [m.p1, m.p2].filter((u) => !u.isBot).map((u) => u.id);
+      r.questions = await drawTriviaQuestions(v.pool, r.variant?.target ?? TRIVIA_COUNT, players)
+        .catch((err) => { log?.error({ err, matchId }, "trivia draw failed"); return undefined; });
+    }
+  } catch {
+    r.type = r.type ?? "TTT";
+  }
+}
+
+// Turn timeout = automatic loss for the side to move; an RPS round timeout reveals the round instead, and
+// the trivia clock reveals the question or moves on to the next one, a memory reveal ends, and the
+// reaction clock gives GO, closes the round or starts the next one
+function onClockExpired(r: Room) {
+  r.timer = undefined;
+  if (!r.started || r.ended || !r.type) return;
+  advance(r, roomRules(r).timeout(r.state));
+}
+
+// Adopt the next rules state: announce RPS reveals, then either end the game or restart the
+// clock for the next turn/round and broadcast the new state
+function advance(r: Room, next: GameState) {
+  const prev = r.state;
+  r.state = next;
+  if (r.type === "RPS") {
+    const reveal = (next as RPSState).lastReveal;
+    if (reveal && reveal !== (prev as RPSState | undefined)?.lastReveal) {
+      broadcast(r, { event: "rps_reveal", data: reveal });
+      if (r.bot) {
+        const mine = r.bot.side === "a" ? reveal.aChoice : reveal.bChoice;
+        const theirs = r.bot.side === "a" ? reveal.bChoice : reveal.aChoice;
+        r.bot.memory.rps.push({ mine, theirs });
+      }
+    }
+  }
+  // Memory cards flipped face up are seen by both players, the bot included
+  if (r.type === "MEMORY" && r.bot) memoryBotSee(next as MemoryState, r.bot.level, r.bot.memory);
+  // GO is timed from the moment it is sent
+  if (r.type === "REACTION") r.goAt = (next as ReactionState).phase === "go" ? (r.goAt ?? Date.now()) : undefined;
+  const outcome = roomRules(r).outcome(next);
+  if (outcome) {
+    // Hidden boards, the last trivia answers and the deciding reaction round are shown once the game is over
+    if (r.type === "BATTLESHIP" || r.type === "TRIVIA" || r.type === "REACTION") broadcastState(r);
+    finishGame(r, outcome.winner, outcome.reason);
+    return;
+  }
+  // A lone RPS pick stays secret: nothing changes for the players until the round is revealed
+  if (r.type === "RPS" && (next as RPSState).round === (prev as RPSState | undefined)?.round) return;
+  // A lone trivia answer only shows that it is in; the question's clock keeps running
+  if (r.type === "TRIVIA" && (next as TriviaState).phase === "question" && (next as TriviaState).index === (prev as TriviaState | undefined)?.index) {
+    broadcastState(r);
+    scheduleBot(r);
+    return;
+  }
+  // A lone reaction tap is kept quiet; the round closes once the other side's tap, still on its way,
+  // could no longer be the faster one
+  if (r.type === "REACTION" && (next as ReactionState).phase === "go" && (prev as ReactionState | undefined)?.phase === "go") {
+    const s = next as ReactionState;
+    const tapper: Side = s.taps.a ? "a" : "b";
+    const other = otherSide(tapper);
+    const closeAt = (r.goAt ?? Date.now()) + Math.max(0, s.taps[tapper]!.ms) + compensation(r, other) + REACTION_JITTER_MS;
+    if (r.deadline === undefined || closeAt < r.deadline) armClock(r, Math.max(0, closeAt - Date.now()));
+    scheduleBot(r);
+    return;
+  }
+  // The battleship setup clock keeps running until both fleets are down
+  if (!inSetup(r)) armClock(r);
+  broadcastState(r);
+  scheduleBot(r);
+}
+
+// Let the room's bot act if it is due to: on its turn, at the start of an RPS round or trivia
+// question, or after GO. The move goes through the same rules and clock as a player's; a stale timer (the
+// state moved on, the room paused or ended) does nothing.
+function scheduleBot(r: Room) {
+  const bot = r.bot;
+  if (!bot || !r.type || !r.state || r.ended || r.paused) return;
+  const trivia = r.type === "TRIVIA" ? (r.state as TriviaState) : undefined;
+  const reaction = r.type === "REACTION" ? (r.state as ReactionState) : undefined;
+  const due = r.type === "RPS" ? !(r.state as RPSState).choices[bot.side]
+    : (trivia ? trivia.phase === "question" && !trivia.answers[bot.side]
+      : (reaction ? reaction.phase === "go" && !reaction.taps[bot.side]
+        : (inSetup(r) ? !(r.state as BSState).fleets[bot.side] : currentSide(r) === bot.side)));
+  if (!due) return;
+  // The bot's trivia answer time is picked once per question, however often it is rescheduled
+  let delay = BOT_THINK_MS;
+  if (trivia) {
+    if (bot.memory.trivia?.index !== trivia.index) bot.memory.trivia = { index: trivia.index, answerAt: Date.now() + triviaThinkMs(bot.level) };
+    delay = Math.max(0, bot.memory.trivia.answerAt - Date.now());
+  }
+  // Its reaction time likewise, once per round; the bot has no latency to compensate
+  if (reaction) {
+    if (bot.memory.reaction?.round !== reaction.round) bot.memory.reaction = { round: reaction.round, ms: reactionBotMs(bot.level) };
+    delay = Math.max(0, (r.goAt ?? Date.now()) + bot.memory.reaction.ms - Date.now());
+  }
+  const at = r.state;
+  setTimeout(() => {
+    if (r.state !== at || r.ended || r.paused || !r.type) return;
+    const move = botMove(r.type, roomRules(r), at, bot.side, bot.level, bot.memory);
+    if (move === undefined) return;
+    const res = roomRules(r).applyMove(at, bot.side, r.type === "TRIVIA" ? { ...(move as object), ms: answerMs(r) } : move);
+    if (!res.ok) { log?.error({ matchId: r.matchId, move, reason: res.reason }, "bot move rejected"); return; }
+    if (r.type === "REACTION") recordTap(r, bot.side, Date.now(), (move as { ms: number }).ms);
+    advance(r, res.state);
+  }, delay);
+}
+
+/** Is the match being played in a room on this server right now? */
+export function roomLive(matchId: string) {
+  const r = rooms.get(matchId);
+  return !!r?.started && !r.ended;
+}
+
 export function getActiveCounts() {
   return { ...activeCounts };
 }
 
 export async function registerGameWs(app: FastifyInstance) {
+  log = app.log;
   app.get("/game/:matchId", { websocket: true }, (connection: any, req) => {
     const conn = connection.socket as WebSocket;
     const matchId = (req.params as any).matchId as string;
-    const room = rooms.get(matchId) ?? {};
-    if (!room.a) room.a = conn; else room.b = conn;
+    // Only holders of a ticket issued by matchmaking for this match may take a seat
+    const check = verifyTicket((req.query as any)?.ticket, matchId);
+    if (!check.ok) {
+      send(conn, { event: "error", data: { reason: check.reason } });
+      try { conn.close(4003, check.reason); } catch {}
+      return;
+    }
+    const { seat, wallet } = check.ticket;
+    const room = rooms.get(matchId) ?? { matchId };
     rooms.set(matchId, room);
 
     function getPeer(): WebSocket | undefined {
@@ -65,94 +619,47 @@ export async function registerGameWs(app: FastifyInstance) {
       return r.a === conn ? "a" : (r.b === conn ? "b" : undefined);
     }
 
-    // On first connect per match, resolve game type from DB and store in room
     (async () => {
-      const r = rooms.get(matchId) ?? {};
-      if (!r.type) {
-        try {
-          const m = await prisma.match.findUnique({ where: { id: matchId } });
-          const g = (m as any)?.game as string | undefined;
-          const t = (g === "C4" ? "C4" : g === "RPS" ? "RPS" : "TTT") as Room["type"];
-          r.type = t;
-          rooms.set(matchId, r);
-          // track active connection count by type
-          const tt = t as "TTT"|"C4"|"RPS";
-          activeCounts[tt] = (activeCounts[tt] ?? 0) + 1;
-          connTypes.set(conn, tt);
-        } catch {
-          r.type = r.type ?? "TTT";
-          rooms.set(matchId, r);
-          const tt = (r.type ?? "TTT") as "TTT"|"C4"|"RPS";
-          activeCounts[tt] = (activeCounts[tt] ?? 0) + 1;
-          connTypes.set(conn, tt);
-        }
+      const r = room;
+      // On first connect per match, resolve game type and seat wallets
+      if (!r.type || !r.wallets) await loadMatch(matchId, r);
+      // The ticket's seat must still belong to its wallet
+      if (r.wallets?.[seat] !== wallet) {
+        send(conn, { event: "error", data: { reason: "not_a_participant" } });
+        try { conn.close(4003, "not_a_participant"); } catch {}
+        if (!r.a && !r.b && !r.started) rooms.delete(matchId);
+        return;
       }
-      // After type resolution, proceed with start/state flow for this connection
-      const rSide = getSide();
-      const rState = rooms.get(matchId)!;
-      if (rSide && rState.started) {
-        try {
-          conn.send(JSON.stringify({
-            event: "start",
-            data: { startAt: rState.startAt, current: rState.currentSide, side: rSide }
-          }));
-        } catch {}
+      rooms.set(matchId, r);
+      // Same wallet reconnecting (refresh, second tab): the newest socket takes the seat
+      const prev = r[seat];
+      r[seat] = conn;
+      if (prev && prev !== conn) {
+        try { prev.close(4001, "replaced"); } catch {}
       }
+      clearGrace(r, seat);
+      // A new socket means a new network path: its latency is measured afresh
+      if (r.rtt) r.rtt[seat] = [];
+      // track active connection count by type
+      const tt = r.type ?? "TTT";
+      activeCounts[tt] = (activeCounts[tt] ?? 0) + 1;
+      connTypes.set(conn, tt);
 
-      // Then send current authoritative state if available and applicable
-      const t = rState.type ?? "TTT";
-      if (t === "TTT" && rState.board && rState.currentSide) {
-        conn.send(JSON.stringify({
-          event: "state",
-          data: { board: rState.board, current: rState.currentSide, timestamp: Date.now() }
-        }));
-      } else if (t === "C4" && rState.c4Board && rState.currentSide) {
-        conn.send(JSON.stringify({
-          event: "state",
-          data: { board: rState.c4Board, current: rState.currentSide, timestamp: Date.now() }
-        }));
-      } else if (rState.lastMove) {
-        // fallback legacy: send last move to newly connected player if it exists
-        conn.send(JSON.stringify({ event: "opponent_move", data: rState.lastMove }));
+      // Returning player: full resync of side, turn, clock and game state, plus a fresh ticket for later reconnects
+      if (r.started) {
+        send(conn, {
+          event: "start",
+          data: { startAt: r.startAt, current: currentSide(r), side: seat, deadline: shownDeadline(r), timestamp: Date.now(), series: seriesData(r), variant: r.variant, ticket: issueTicket(matchId, seat, wallet) }
+        });
+        send(conn, { event: "state", data: stateData(r, seat) });
+        if (reactionPhase(r) === "ready" && !r.ended) pingSeats(r);
+        if (r.ended) send(conn, { event: "game_end", data: { winnerSide: r.winner ?? null, reason: "already_ended", isDraw: !r.winner } });
+        resumeIfReady(r);
+        return;
       }
 
-      // If both connected and not started, initialize and broadcast start
-      const rNow = rooms.get(matchId)!;
-      if (rNow.a && rNow.b && !rNow.started) {
-        rNow.started = true;
-        rNow.startAt = Date.now();
-        rNow.currentSide = Math.random() < 0.5 ? "a" : "b";
-        rNow.lastSide = undefined;
-        rNow.ended = false;
-        rNow.winner = null;
-        // Initialize per-game state
-        const type = rNow.type ?? "TTT";
-        if (type === "TTT") {
-          rNow.board = Array(9).fill(null);
-          rNow.movesA = [];
-          rNow.movesB = [];
-        } else if (type === "C4") {
-          rNow.c4Board = Array(42).fill(null);
-        } else if (type === "RPS") {
-          rNow.rpsRound = 1;
-          rNow.rpsScores = { a: 0, b: 0 };
-          rNow.rpsChoices = { a: null, b: null };
-        }
-        rooms.set(matchId, rNow);
-        // Send individualized start with receiver side and current turn
-        try { rNow.a.send(JSON.stringify({ event: "start", data: { startAt: rNow.startAt, current: rNow.currentSide, side: "a" } })); } catch {}
-        try { rNow.b.send(JSON.stringify({ event: "start", data: { startAt: rNow.startAt, current: rNow.currentSide, side: "b" } })); } catch {}
-        // Immediately follow with state for board-based games
-        if (type === "TTT") {
-          const statePayload = JSON.stringify({ event: "state", data: { board: rNow.board, current: rNow.currentSide, timestamp: Date.now() } });
-          try { rNow.a.send(statePayload); } catch {}
-          try { rNow.b.send(statePayload); } catch {}
-        } else if (type === "C4") {
-          const statePayload = JSON.stringify({ event: "state", data: { board: rNow.c4Board, current: rNow.currentSide, timestamp: Date.now() } });
-          try { rNow.a.send(statePayload); } catch {}
-          try { rNow.b.send(statePayload); } catch {}
-        }
-      }
+      // If both seats are filled and not started, initialize and broadcast start
+      await startRoom(r, matchId);
     })();
     conn.on("close", () => {
       const t = connTypes.get(conn);
@@ -161,178 +668,55 @@ export async function registerGameWs(app: FastifyInstance) {
         connTypes.delete(conn);
       }
     });
+    // Pong frames answer pingSeats' latency probes
+    conn.on("pong", (data: Buffer) => {
+      const r = rooms.get(matchId);
+      const me = getSide();
+      const id = Number(data.toString());
+      if (r && me && Number.isInteger(id)) onPong(r, me, id);
+    });
     conn.on("message", (raw: WebSocket.RawData) => {
       try {
         const msg = JSON.parse(raw.toString());
-        if (msg?.action === "move") {
-          const m = Move.parse(msg);
-          // Switch based on room type
+        if (msg?.action === "move" || msg?.action === "choice" || msg?.action === "place" || msg?.action === "answer" || msg?.action === "tap") {
+          // Taps are timed on arrival, before anything else is done with them
+          const tapAt = Date.now();
           const r = rooms.get(matchId);
           if (!r) return;
           const me = getSide();
           if (!me) return;
-          // Stop accepting moves after game end
-          if (r.ended) {
-            conn.send(JSON.stringify({ event: "error", data: { reason: "game_already_ended" } }));
-            return;
-          }
-          const type = r.type ?? "TTT";
-          if (!r.currentSide || r.currentSide !== me) {
-            conn.send(JSON.stringify({ event: "error", data: { reason: "not_your_turn" } }));
-            return;
-          }
-          if (type === "TTT") {
-            // Initialize board if needed
-            if (!r.board) { r.board = Array(9).fill(null); }
-            if (!r.movesA) r.movesA = [];
-            if (!r.movesB) r.movesB = [];
-            const symbol = me === "a" ? "X" : "O";
-            const moves = me === "a" ? r.movesA! : r.movesB!;
-            // Validate the cell is free (server-side rule)
-            if (m.position < 0 || m.position >= 9 || r.board[m.position] !== null) {
-              conn.send(JSON.stringify({ event: "error", data: { reason: "cell_occupied" } }));
-              return;
-            }
-            // Infinity win-first rule: check win BEFORE removing oldest piece
-            const tempBoard = r.board.slice();
-            tempBoard[m.position] = symbol;
-            const immediateWinner = checkTTTWinner(tempBoard);
-            if (immediateWinner) {
-              // Accept the winning placement without removing oldest
-              r.board = tempBoard;
-              moves.push(m.position);
-              const ts = new Date().toISOString();
-              r.lastMove = { position: m.position, timestamp: ts };
-              r.lastSide = me;
-              r.ended = true;
-              r.winner = me; // winner is the mover
-              rooms.set(matchId, r);
-              const endPayload = JSON.stringify({
-                event: "game_end",
-                data: { winnerSide: r.winner, reason: "ttt_win" }
-              });
-              r.a?.send(endPayload);
-              r.b?.send(endPayload);
-              return;
-            }
-
-            // No immediate win: apply Infinity rule by removing oldest if needed, then place
-            if (moves.length >= 3) {
-              const oldest = moves.shift()!;
-              r.board[oldest] = null;
-            }
-            r.board[m.position] = symbol;
-            moves.push(m.position);
-            const ts = new Date().toISOString();
-            r.lastMove = { position: m.position, timestamp: ts };
-            r.lastSide = me;
-            // Toggle turn to other side and broadcast updated state
-            r.currentSide = me === "a" ? "b" : "a";
-            rooms.set(matchId, r);
-            const statePayload = JSON.stringify({
-              event: "state",
-              data: { board: r.board, current: r.currentSide, timestamp: Date.now() }
-            });
-            r.a?.send(statePayload);
-            r.b?.send(statePayload);
-          } else if (type === "C4") {
-            if (!r.c4Board) r.c4Board = Array(42).fill(null);
-            const col = m.position;
-            if (col < 0 || col > 6) {
-              conn.send(JSON.stringify({ event: "error", data: { reason: "invalid_column" } }));
-              return;
-            }
-            // Find lowest empty row in column
-            let rowIdx = -1;
-            for (let row = 5; row >= 0; row--) {
-              const idx = row * 7 + col;
-              if (r.c4Board[idx] === null) { rowIdx = row; break; }
-            }
-            if (rowIdx === -1) {
-              conn.send(JSON.stringify({ event: "error", data: { reason: "column_full" } }));
-              return;
-            }
-            const color = me === "a" ? "red" : "yellow";
-            r.c4Board[rowIdx * 7 + col] = color;
-            // Update last move and toggle turn
-            r.lastMove = { position: col, timestamp: new Date().toISOString() };
-            r.lastSide = me;
-            // Check winner
-            const winnerColor = checkC4Winner(r.c4Board);
-            if (winnerColor) {
-              r.ended = true;
-              r.winner = winnerColor === "red" ? "a" : "b";
-              rooms.set(matchId, r);
-              const endPayload = JSON.stringify({ event: "game_end", data: { winnerSide: r.winner, reason: "c4_win" } });
-              r.a?.send(endPayload);
-              r.b?.send(endPayload);
-              return;
-            }
-            // No winner: toggle turn and broadcast state
-            r.currentSide = me === "a" ? "b" : "a";
-            rooms.set(matchId, r);
-            const statePayload = JSON.stringify({ event: "state", data: { board: r.c4Board, current: r.currentSide, timestamp: Date.now() } });
-            r.a?.send(statePayload);
-            r.b?.send(statePayload);
-          } else {
-            // Unsupported type for move (e.g., RPS)
-            conn.send(JSON.stringify({ event: "error", data: { reason: "invalid_action_for_game" } }));
-          }
+          // TTT/C4 send cell or column numbers, chess a UCI move, checkers a path, RPS its pick,
+          // battleship its fleet and then the cells it fires at, trivia the answer picked, reaction a tap
+          const parsed = msg.action === "move" ? Move.safeParse(msg)
+            : (msg.action === "place" ? Place.safeParse(msg) : (msg.action === "answer" ? Answer.safeParse(msg)
+              : (msg.action === "tap" ? Tap.safeParse(msg) : Choice.safeParse(msg))));
+          if (!parsed.success) { send(conn, { event: "error", data: { reason: "bad_message" } }); return; }
+          if (r.ended) { send(conn, { event: "error", data: { reason: "game_already_ended" } }); return; }
+          if (!r.started || !r.type || !r.state) { send(conn, { event: "error", data: { reason: "not_started" } }); return; }
+          if (r.paused) { send(conn, { event: "error", data: { reason: "game_paused" } }); return; }
+          const data = parsed.data;
+          const got = data.action === "answer" || data.action === "tap" ? data.action : ("choice" in data ? "choice" : ("fleet" in data ? "place"
+            : (data.uci !== undefined ? "uci" : (data.path !== undefined ? "path" : "position"))));
+          const popOk = !("pop" in data && data.pop) || r.type === "C4";
+          if (!ACTIONS[r.type].includes(got) || !popOk) { send(conn, { event: "error", data: { reason: "invalid_action_for_game" } }); return; }
+          const move = data.action === "answer" ? { choice: data.choice, ms: answerMs(r) }
+            : (data.action === "tap" ? { ms: reactionMs(r, me, tapAt) }
+            : ("choice" in data ? data.choice
+              : ("fleet" in data ? { fleet: data.fleet }
+                : (data.uci ?? data.path ?? (data.pop ? { pop: data.position }
+                  : (r.type === "BATTLESHIP" ? { shot: data.position } : (r.type === "MEMORY" ? { flip: data.position } : data.position)))))));
+          const res = roomRules(r).applyMove(r.state, me, move);
+          if (!res.ok) { send(conn, { event: "error", data: { reason: res.reason } }); return; }
+          if (data.action === "tap") recordTap(r, me, tapAt, (move as { ms: number }).ms);
+          advance(r, res.state);
         } else if (msg?.action === "end") {
-          // Determine winner as the peer of the forfeiting side and notify both
+          // Forfeit: the peer of the forfeiting side wins. The recorded reason is always the server's,
+          // never text from the client
           const me = getSide();
-          const winnerSide = me === "a" ? "b" : "a";
-          // Mark room as ended to prevent further moves
-          const r = rooms.get(matchId);
-          if (r) {
-            r.ended = true;
-            r.winner = winnerSide as any;
-            rooms.set(matchId, r);
-          }
-          const payload = JSON.stringify({ event: "game_end", data: { reason: (msg.data?.reason || "forfeit"), winnerSide } });
-          getPeer()?.send(payload);
-          conn.send(payload);
-        } else if (msg?.action === "choice") {
-          // RPS simultaneous choice handling
-          const c = Choice.safeParse(msg);
-          if (!c.success) { conn.send(JSON.stringify({ event: "error", data: { reason: "bad_message" } })); return; }
           const r = rooms.get(matchId);
-          if (!r) return;
-          if (r.ended) { conn.send(JSON.stringify({ event: "error", data: { reason: "game_already_ended" } })); return; }
-          const type = r.type ?? "TTT";
-          if (type !== "RPS") { conn.send(JSON.stringify({ event: "error", data: { reason: "invalid_action_for_game" } })); return; }
-          const me = getSide(); if (!me) return;
-          if (!r.rpsRound) r.rpsRound = 1;
-          if (!r.rpsScores) r.rpsScores = { a: 0, b: 0 };
-          if (!r.rpsChoices) r.rpsChoices = { a: null, b: null };
-          // Cache choice but don't reveal yet
-          r.rpsChoices[me] = c.data.choice;
-          rooms.set(matchId, r);
-          // When both choices present, reveal and score
-          if (r.rpsChoices.a && r.rpsChoices.b) {
-            const aC = r.rpsChoices.a;
-            const bC = r.rpsChoices.b;
-            const roundWinner = rpsRoundWinner(aC, bC);
-            const reveal = JSON.stringify({ event: "rps_reveal", data: { round: r.rpsRound, aChoice: aC, bChoice: bC, winnerSide: roundWinner } });
-            r.a?.send(reveal);
-            r.b?.send(reveal);
-            if (roundWinner === "a") r.rpsScores.a += 1;
-            else if (roundWinner === "b") r.rpsScores.b += 1;
-            // Victory condition: first to 5
-            if (r.rpsScores.a >= 5 || r.rpsScores.b >= 5) {
-              r.ended = true;
-              r.winner = r.rpsScores.a >= 5 ? "a" : "b";
-              rooms.set(matchId, r);
-              const endPayload = JSON.stringify({ event: "game_end", data: { winnerSide: r.winner, reason: "rps_first_to_5" } });
-              r.a?.send(endPayload);
-              r.b?.send(endPayload);
-            } else {
-              // Next round
-              r.rpsRound += 1;
-              r.rpsChoices = { a: null, b: null };
-              rooms.set(matchId, r);
-            }
-          }
+          if (!me || !r || !r.started) { send(conn, { event: "error", data: { reason: "not_started" } }); return; }
+          if (r.ended) { send(conn, { event: "error", data: { reason: "game_already_ended" } }); return; }
+          endGame(r, me === "a" ? "b" : "a", "forfeit");
         }
       } catch {
         conn.send(JSON.stringify({ event: "error", data: { reason: "bad_message" } }));
@@ -342,67 +726,15 @@ export async function registerGameWs(app: FastifyInstance) {
     conn.on("close", () => {
       const r = rooms.get(matchId);
       if (!r) return;
-      if (r.a === conn) r.a = undefined; else if (r.b === conn) r.b = undefined;
-      if (!r.a && !r.b) rooms.delete(matchId); else rooms.set(matchId, r);
+      // A replaced socket no longer owns the seat
+      const side = r.a === conn ? "a" : (r.b === conn ? "b" : undefined);
+      if (!side) return;
+      r[side] = undefined;
+      if (r.started && !r.ended) {
+        pauseForReconnect(matchId, r, side);
+        return;
+      }
+      if (!r.a && !r.b) { clearClock(r); clearGrace(r); rooms.delete(matchId); } else rooms.set(matchId, r);
     });
   });
 }
-
-// Determine a winner on a 3x3 board; returns "X" | "O" | null
-function checkTTTWinner(board: Array<"X" | "O" | null>): "X" | "O" | null {
-  const lines = [
-    [0, 1, 2], [3, 4, 5], [6, 7, 8],
-    [0, 3, 6], [1, 4, 7], [2, 5, 8],
-    [0, 4, 8], [2, 4, 6],
-  ];
-  for (const [a, b, c] of lines) {
-    const v = board[a];
-    if (v && v === board[b] && v === board[c]) return v;
-  }
-  return null;
-}
-
-// Check Connect Four 7x6 winner; returns "red" | "yellow" | null
-function checkC4Winner(board: Array<"red" | "yellow" | null>): "red" | "yellow" | null {
-  const rows = 6, cols = 7;
-  // Horizontal
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c <= cols - 4; c++) {
-      const i = r * cols + c;
-      const v = board[i];
-      if (v && v === board[i + 1] && v === board[i + 2] && v === board[i + 3]) return v;
-    }
-  }
-  // Vertical
-  for (let c = 0; c < cols; c++) {
-    for (let r = 0; r <= rows - 4; r++) {
-      const i = r * cols + c;
-      const v = board[i];
-      if (v && v === board[i + cols] && v === board[i + 2 * cols] && v === board[i + 3 * cols]) return v;
-    }
-  }
-  // Diagonal down-right
-  for (let r = 0; r <= rows - 4; r++) {
-    for (let c = 0; c <= cols - 4; c++) {
-      const i = r * cols + c;
-      const v = board[i];
-      if (v && v === board[i + cols + 1] && v === board[i + 2 * cols + 2] && v === board[i + 3 * cols + 3]) return v;
-    }
-  }
-  // Diagonal down-left
-  for (let r = 0; r <= rows - 4; r++) {
-    for (let c = 3; c < cols; c++) {
-      const i = r * cols + c;
-      const v = board[i];
-      if (v && v === board[i + cols - 1] && v === board[i + 2 * cols - 2] && v === board[i + 3 * cols - 3]) return v;
-    }
-  }
-  return null;
-}
-
-// Determine RPS round winner: returns "a" | "b" | null (draw)
-function rpsRoundWinner(a: "rock" | "paper" | "scissors", b: "rock" | "paper" | "scissors"): "a" | "b" | null {
-  if (a === b) return null;
-  if ((a === "rock" && b === "scissors") || (a === "scissors" && b === "paper") || (a === "paper" && b === "rock")) return "a";
-  return "b";
-}
@@ -1,31 +1,266 @@
 import type { FastifyInstance } from "fastify";
 import type { WebSocket } from "ws";
+import { randomBytes, timingSafeEqual } from "node:crypto";
 import { prisma } from "../client.js";
+import { transitionMatch } from "../lifecycle.js";
 import { JoinMsg } from "./types.js";
+import { issueTicket } from "../tickets.js";
+import { verifyDeposit, waitForJoin } from "../escrow.js";
+import { enqueueEscrowRefund } from "../queue.js";
+import { escrowFunded } from "./game.js";
+import { MATCH_TIMEOUT_MS, bandWidth, planPairs, untilInBand } from "./pairing.js";
 
-type Client = { ws: WebSocket; wallet: string; xp: number; nickname: string; escrowId?: bigint };
-type Key = string; // gameId|playMode|stake
+type Client = {
+  ws: WebSocket; wallet: string; xp: number; nickname: string; escrowId?: bigint;
+  join: JoinMsg; key: Key; joinedAt: number; timer?: ReturnType<typeof setTimeout>;
+  cancelToken: string; // only ever sent to this client's own socket; lets it leave over HTTP
+};
+type Key = string; // gameId|playMode|stake|bestOf|variant|target
 
-const queues = new Map<Key, Client[]>(); // simple FIFO per bucket
-const pairs = new Map<string, { a: Client; b: Client }>(); // matchId -> paired clients
+const queues = new Map<Key, Client[]>(); // players waiting per bucket, in join order
+const recentWaits = new Map<Key, number[]>(); // how long the last few paired players of each bucket waited (ms)
+type Pair = { a: Client; b: Client; stake: number; escrowId?: bigint; tracking?: boolean };
+const pairs = new Map<string, Pair>(); // matchId -> paired clients, until the match finishes, aborts or is refunded
+// How long P2 has to get its joinMatch mined once P1's escrow is known
+const ESCROW_JOIN_TIMEOUT_MS = Number(process.env.ESCROW_JOIN_TIMEOUT_MS ?? "180000");
+// How often every queue is re-paired, so bands widen while players wait
+const MATCHMAKING_TICK_MS = Number(process.env.MATCHMAKING_TICK_MS ?? "1000");
+// How often queued players are sent a `queue_update`
+const QUEUE_UPDATE_MS = Number(process.env.QUEUE_UPDATE_MS ?? "3000");
+
+/**
+ * Rough wait left for `c`: until the nearest player already queued comes within either band,
+ * or else the bucket's recent average wait; null when neither is expected before the timeout
+ */
+function estimateWait(c: Client, q: Client[], now: number): number | null {
+  let wait = Infinity;
+  for (const o of q) {
+    if (o === c || o.wallet === c.wallet) continue;
+    const gap = Math.abs(c.xp - o.xp);
+    wait = Math.min(wait, untilInBand(c, gap, now), untilInBand(o, gap, now));
+  }
+  const waits = recentWaits.get(c.key) ?? [];
+  if (wait === Infinity && waits.length) {
+    wait = Math.max(0, waits.reduce((a, b) => a + b, 0) / waits.length - (now - c.joinedAt));
+  }
+  return wait <= c.joinedAt + MATCH_TIMEOUT_MS - now ? Math.round(wait) : null;
+}
+
+// Where `c` stands in its queue: sent as `queue_update`, and as `queue_status` when asked
+function queueStatus(c: Client, now: number) {
+  const q = queues.get(c.key) ?? [];
+  return {
+    queued: true,
+    position: q.indexOf(c) + 1, // in join order
+    searching: q.length,
+    waitedMs: now - c.joinedAt,
+    estimatedWaitMs: estimateWait(c, q, now),
+    timeoutInMs: Math.max(0, c.joinedAt + MATCH_TIMEOUT_MS - now),
+    xpBand: Math.round(bandWidth(c, now)),
+    cancelToken: c.cancelToken
+  };
+}
+
+function send(c: Client, msg: unknown) {
+  try { c.ws.send(JSON.stringify(msg)); } catch {}
+}
+
+// The queued entry of socket `ws`, if it is searching
+function queuedOn(ws: WebSocket): Client | undefined {
+  for (const q of queues.values()) {
+    const c = q.find(c => c.ws === ws);
+    if (c) return c;
+  }
+  return undefined;
+}
+
+function leaveQueue(c: Client) {
+  clearTimeout(c.timer);
+  queues.set(c.key, (queues.get(c.key) ?? []).filter(o => o !== c));
+}
+
+const sameToken = (a: string, b: string) => a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * Take `wallet`'s search out of matchmaking (`queue_left` on its socket). `cancelToken` must be
+ * the one its socket was sent in queue updates, so nobody else can cancel it; returns whether it did.
+ */
+export function cancelQueued(wallet: string, cancelToken: string): boolean {
+  const c = [...queues.values()].flat().find(c => c.wallet === wallet.toLowerCase() && sameToken(c.cancelToken, cancelToken));
+  if (!c) return false;
+  leaveQueue(c);
+  send(c, { event: "queue_left", data: { reason: "cancelled" } });
+  return true;
+}
 
 function genId(prefix = "m"): string {
   return `${prefix}_${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`;
 }
 
-function bucket(gameId: string, playMode: string, stake: number) {
-  return `${gameId}|${playMode}|${stake}`;
+// Wallets seated for a paired match: side a = p1 (queued first), side b = p2
+export function getPairWallets(matchId: string): { a: string; b: string } | undefined {
+  const p = pairs.get(matchId);
+  return p ? { a: p.a.wallet, b: p.b.wallet } : undefined;
+}
+
+function bucket(msg: JoinMsg) {
+  return `${msg.gameId}|${msg.playMode}|${msg.stakeAmount}|${msg.bestOf}|${msg.variant}|${msg.target ?? ""}`;
+}
+
+function notifyPair(pair: Pair, msg: unknown) {
+  for (const c of [pair.a, pair.b]) { try { c.ws.send(JSON.stringify(msg)); } catch {} }
+}
+
+// Watch the chain for P2's joinMatch on P1's verified escrow; only then is the match funded
+function trackFunding(matchId: string, pair: Pair, log: FastifyInstance["log"]) {
+  if (pair.tracking || !pair.escrowId) return;
+  pair.tracking = true;
+  const escrowId = pair.escrowId;
+  waitForJoin(escrowId, pair.b.wallet, ESCROW_JOIN_TIMEOUT_MS, () => pairs.get(matchId) !== pair)
+    .then(async (joined) => {
+      if (joined) {
+        await transitionMatch(matchId, "ESCROW_FUNDED").catch((err) => log.error({ err, matchId }, "mark funded failed"));
+        notifyPair(pair, { event: "escrow_funded", data: { matchId, escrowId: escrowId.toString() } });
+        escrowFunded(matchId);
+      } else {
+        await transitionMatch(matchId, "ABORTED").catch(() => {});
+        releasePair(matchId);
+        notifyPair(pair, { event: "match_cancel", data: { matchId, reason: "escrow_not_joined" } });
+        // P1's deposit is tied to the aborted match: give it back
+        await enqueueEscrowRefund(escrowId, "escrow_not_joined", matchId).catch((err) => log.error({ err, matchId }, "queue refund failed"));
+      }
+    })
+    .catch((err) => log.error({ err, matchId }, "escrow funding watch failed"));
+}
+
+/** Escrow verified for a pair, if it is staked */
+export function pairEscrowId(matchId: string): bigint | undefined {
+  return pairs.get(matchId)?.escrowId;
+}
+
+/** The match is over (finished, aborted or refunded): stop coordinating its players */
+export function releasePair(matchId: string) {
+  pairs.delete(matchId);
+}
+
+/** Escrow currently waiting in a queue or backing a live pair on this server */
+export function escrowInPlay(escrowId: bigint) {
+  for (const q of queues.values()) if (q.some(c => c.escrowId === escrowId)) return true;
+  for (const p of pairs.values()) if (p.escrowId === escrowId) return true;
+  return false;
+}
+
+async function escrowInUse(escrowId: bigint) {
+  if (escrowInPlay(escrowId)) return true;
+  return !!(await prisma.match.findFirst({ where: { escrowId }, select: { id: true } }).catch(() => null));
+}
+
+// Create the match of a planned pair and send both players `match_found` with their seat tickets
+async function startPair(p1: Client, p2: Client, log: FastifyInstance["log"]) {
+  const msg = p1.join;
+  let matchId: string = genId();
+  let p1Id = "p1";
+  let p2Id = "p2";
+  try {
+    const [u1, u2] = await Promise.all([
+      prisma.user.upsert({ where:{ walletAddress: p1.wallet }, update:{}, create:{ walletAddress: p1.wallet } }),
+      prisma.user.upsert({ where:{ walletAddress: p2.wallet }, update:{}, create:{ walletAddress: p2.wallet } })
+    ]);
+    const match = await prisma.match.create({
+      data: {
+        game: (msg.gameId === "chess" ? "CHESS" : msg.gameId === "checkers" ? "CHECKERS" : msg.gameId === "battleship" ? "BATTLESHIP" : msg.gameId === "trivia" ? "TRIVIA" : msg.gameId === "memory" ? "MEMORY" : msg.gameId === "reaction" ? "REACTION" : (msg.gameId === "connectfour" ? "C4" : (msg.gameId === "rockpaperscissors" ? "RPS" : "TTT"))) as any,
+        p1Id: u1.id,
+        p2Id: u2.id,
+        status: "PAIRED",
+        arkStaked: msg.playMode === "stake" ? msg.stakeAmount : 0,
+        bestOf: msg.bestOf,
+        variant: msg.variant,
+        targetScore: msg.target,
+        ...(p1.escrowId ? { escrowId: p1.escrowId } : {})
+      }
+    });
+    matchId = match.id;
+    p1Id = u1.id;
+    p2Id = u2.id;
+  } catch {
+    // DB down: proceed with generated matchId and ephemeral ids
+  }
+
+  const payloadP1 = { event: "match_found", data: {
+    matchId,
+    escrowId: p1.escrowId?.toString() ?? null,
+    opponentId: p2Id,
+    opponentName: p2.nickname,
+    opponentWallet: p2.wallet,
+    role: "p1",
+    ticket: issueTicket(matchId, "a", p1.wallet)
+  }};
+  const payloadP2 = { event: "match_found", data: {
+    matchId,
+    escrowId: p1.escrowId?.toString() ?? null,
+    opponentId: p1Id,
+    opponentName: p1.nickname,
+    opponentWallet: p1.wallet,
+    role: "p2",
+    ticket: issueTicket(matchId, "b", p2.wallet)
+  }};
+  try { p1.ws.send(JSON.stringify(payloadP1)); } catch {}
+  try { p2.ws.send(JSON.stringify(payloadP2)); } catch {}
+
+  // Track pair to forward escrow after creation if needed
+  const pair: Pair = { a: p1, b: p2, stake: msg.stakeAmount, escrowId: p1.escrowId };
+  pairs.set(matchId, pair);
+  // P1 deposited before queueing: wait for P2's joinMatch
+  if (pair.escrowId) trackFunding(matchId, pair, log);
+  // P2 stakes by joining P1's escrow, so the deposit it queued with is not needed: give it back
+  if (p2.escrowId) {
+    await enqueueEscrowRefund(p2.escrowId, "paired_as_p2").catch((err) => log.error({ err, matchId }, "queue refund failed"));
+  }
+}
+
+// Pair whoever can be paired in queue `key`; both leave the queue before the match is created
+function matchQueue(key: Key, log: FastifyInstance["log"]) {
+  const q = queues.get(key);
+  if (!q || q.length < 2) return;
+  const planned = planPairs(q, Date.now());
+  if (!planned.length) return;
+  const paired = new Set(planned.flat());
+  queues.set(key, q.filter(c => !paired.has(c)));
+  const now = Date.now();
+  recentWaits.set(key, [...(recentWaits.get(key) ?? []), ...planned.flat().map(c => now - c.joinedAt)].slice(-20));
+  for (const [p1, p2] of planned) {
+    clearTimeout(p1.timer);
+    clearTimeout(p2.timer);
+    startPair(p1, p2, log).catch((err) => log.error({ err }, "pairing failed"));
+  }
 }
 
 export async function registerMatchmakingWs(app: FastifyInstance) {
+  // Bands widen with time, so queues are re-paired on a tick as well as on every join
+  setInterval(() => { for (const key of queues.keys()) matchQueue(key, app.log); }, MATCHMAKING_TICK_MS).unref();
+  setInterval(() => {
+    const now = Date.now();
+    for (const q of queues.values()) for (const c of q) send(c, { event: "queue_update", data: queueStatus(c, now) });
+  }, QUEUE_UPDATE_MS).unref();
+
   app.get("/matchmaking", { websocket: true }, async (connection: any) => {
     const conn = connection.socket as WebSocket;
-    conn.on("message", async (raw: WebSocket.RawData) => {
-      let msg: JoinMsg;
-      try { msg = JoinMsg.parse(JSON.parse(raw.toString())); }
-      catch { return conn.send(JSON.stringify({ event: "error", data: { reason: "bad_request" } })); }
+    let lastJoin: JoinMsg | undefined; // what this socket last queued for, for `requeue`
+    conn.once("close", () => {
+      const queued = queuedOn(conn);
+      if (queued) leaveQueue(queued);
+    });
 
-  const escrowId = msg.escrowId ? BigInt(msg.escrowId) : undefined;
+    const join = async (msg: JoinMsg) => {
+      if (queuedOn(conn)) return conn.send(JSON.stringify({ event: "error", data: { reason: "already_queued" } }));
+      const escrowId = msg.escrowId ? BigInt(msg.escrowId) : undefined;
+      // A staked join that names an escrow must have really deposited into it
+      if (escrowId !== undefined) {
+        if (msg.playMode !== "stake") return conn.send(JSON.stringify({ event: "error", data: { reason: "escrow_in_free_mode" } }));
+        if (await escrowInUse(escrowId)) return conn.send(JSON.stringify({ event: "error", data: { reason: "escrow_already_used" } }));
+        const check = await verifyDeposit(escrowId, msg.wallet, msg.stakeAmount);
+        if (!check.ok) return conn.send(JSON.stringify({ event: "error", data: { reason: check.reason } }));
+      }
 
       // upsert user (graceful fallback if DB is down)
       let userXp = msg.playerXP;
@@ -42,108 +277,95 @@ export async function registerMatchmakingWs(app: FastifyInstance) {
         // DB unavailable; proceed with defaults
       }
 
-      const client: Client = { ws: conn, wallet: msg.wallet.toLowerCase(), xp: userXp, nickname: userNick, escrowId };
-      const key = bucket(msg.gameId, msg.playMode, msg.stakeAmount);
-      const q = queues.get(key) ?? [];
-      // try to match immediately
-      const opponent = q.find(c => c.wallet !== client.wallet);
-      if (opponent) {
-        // remove opponent from queue
-        queues.set(key, q.filter(c => c !== opponent));
-        // create match in DB
-        let matchId: string = genId();
-        let p1Id = "p1";
-        let p2Id = "p2";
-        try {
-          const [p1, p2] = await Promise.all([
-            prisma.user.upsert({ where:{ walletAddress: opponent.wallet }, update:{}, create:{ walletAddress: opponent.wallet } }),
-            prisma.user.upsert({ where:{ walletAddress: client.wallet }, update:{}, create:{ walletAddress: client.wallet } })
-          ]);
-          const match = await prisma.match.create({
-            data: {
-              game: (msg.gameId === "chess" ? "CHESS" : (msg.gameId === "connectfour" ? "C4" : (msg.gameId === "rockpaperscissors" ? "RPS" : "TTT"))) as any,
-              p1Id: p1.id, 
-              p2Id: p2.id, 
-              result: "DRAW",
-              arkStaked: msg.playMode === "stake" ? msg.stakeAmount : 0,
-              ...(escrowId ? { escrowId: BigInt(escrowId) } : {})
-            }
-          });
-          matchId = match.id;
-          p1Id = p1.id;
-          p2Id = p2.id;
-        } catch {
-          // DB down: proceed with generated matchId and ephemeral ids
+      // The socket may have closed or queued again while the checks above were awaited
+      if (conn.readyState !== conn.OPEN || queuedOn(conn)) return;
+      lastJoin = msg;
+      const key = bucket(msg);
+      const client: Client = { ws: conn, wallet: msg.wallet.toLowerCase(), xp: userXp, nickname: userNick, escrowId, join: msg, key, joinedAt: Date.now(), cancelToken: randomBytes(16).toString("hex") };
+      queues.set(key, [...(queues.get(key) ?? []), client]);
+      client.timer = setTimeout(() => {
+        if (queues.get(key)?.includes(client)) {
+          leaveQueue(client);
+          send(client, { event: "match_timeout", data: {} });
         }
+      }, MATCH_TIMEOUT_MS);
+      // Anyone already in range is paired straight away; the rest wait for their bands to widen
+      matchQueue(key, app.log);
+      if (queues.get(key)?.includes(client)) send(client, { event: "queue_update", data: queueStatus(client, Date.now()) });
+    };
 
-        const payloadOpp = { event: "match_found", data: {
-          matchId,
-          escrowId: escrowId ? escrowId.toString() : null,
-          opponentId: p2Id,
-          opponentName: client.nickname,
-          opponentWallet: client.wallet,
-          role: "p1"
-        }};
-        const payloadCli = { event: "match_found", data: {
-          matchId,
-          escrowId: escrowId ? escrowId.toString() : null,
-          opponentId: p1Id,
-          opponentName: opponent.nickname,
-          opponentWallet: opponent.wallet,
-          role: "p2"
-        }};
-        try { opponent.ws.send(JSON.stringify(payloadOpp)); } catch {}
-        try { client.ws.send(JSON.stringify(payloadCli)); } catch {}
-
-        // Track pair to forward escrow after creation if needed
-        pairs.set(matchId, { a: opponent, b: client });
-      } else {
-        // enqueue and start timeout
-        q.push(client); queues.set(key, q);
-        const wsRef = conn;
-        const t = setTimeout(() => {
-          if (queues.get(key)?.includes(client)) {
-            queues.set(key, (queues.get(key) ?? []).filter(c => c !== client));
-            try { wsRef.send(JSON.stringify({ event: "match_timeout", data: {} })); } catch {}
-          }
-        }, 30_000); // 30 seconds timeout
-        conn.once("close", () => {
-          clearTimeout(t);
-          queues.set(key, (queues.get(key) ?? []).filter(c => c !== client));
-        });
+    conn.on("message", async (raw: WebSocket.RawData) => {
+      let msg: JoinMsg;
+      let body: any;
+      try { body = JSON.parse(raw.toString()); } catch { body = null; }
+      // Queue actions: leaving the queue, where it stands, and searching again with the last join
+      if (body?.action === "cancel" && !body.matchId) {
+        const queued = queuedOn(conn);
+        if (!queued) return conn.send(JSON.stringify({ event: "error", data: { reason: "not_queued" } }));
+        leaveQueue(queued);
+        return send(queued, { event: "queue_left", data: { reason: "cancelled" } });
       }
+      if (body?.action === "status") {
+        const queued = queuedOn(conn);
+        return conn.send(JSON.stringify({ event: "queue_status", data: queued ? queueStatus(queued, Date.now()) : { queued: false } }));
+      }
+      if (body?.action === "requeue") {
+        if (!lastJoin) return conn.send(JSON.stringify({ event: "error", data: { reason: "nothing_to_requeue" } }));
+        return join(lastJoin);
+      }
+      if (body?.action !== undefined && body.action !== "join") return; // coordination messages, handled below
+      try { msg = JoinMsg.parse(body); }
+      catch { return conn.send(JSON.stringify({ event: "error", data: { reason: "bad_request" } })); }
+      await join(msg);
     });
 
     // Support forwarding coordination messages between matched peers (escrow, ready, signed, cancel)
-    conn.on("message", (raw: WebSocket.RawData) => {
+    conn.on("message", async (raw: WebSocket.RawData) => {
       try {
         const msg = JSON.parse(raw.toString());
-        if (msg?.action === "escrow" && msg?.matchId && msg?.escrowId) {
-          const pair = pairs.get(msg.matchId as string);
+        if (msg?.action === "escrow" && msg?.matchId && /^\d+$/.test(String(msg?.escrowId))) {
+          const matchId = msg.matchId as string;
+          const pair = pairs.get(matchId);
           if (!pair) return;
-          const sender = [pair.a, pair.b].find(c => c.ws === conn);
-          const peer = sender === pair.a ? pair.b : pair.a;
-          try { peer.ws.send(JSON.stringify({ event: "escrow", data: { matchId: msg.matchId, escrowId: String(msg.escrowId) } })); } catch {}
+          // Only P1 announces the escrow, once, and only after it checks out on-chain
+          if (conn !== pair.a.ws || pair.escrowId) return conn.send(JSON.stringify({ event: "error", data: { reason: "escrow_not_allowed" } }));
+          const escrowId = BigInt(msg.escrowId);
+          if (await escrowInUse(escrowId)) return conn.send(JSON.stringify({ event: "error", data: { reason: "escrow_already_used" } }));
+          const check = await verifyDeposit(escrowId, pair.a.wallet, pair.stake);
+          if (!check.ok) return conn.send(JSON.stringify({ event: "error", data: { reason: check.reason } }));
+          pair.escrowId = escrowId;
+          await prisma.match.update({ where: { id: matchId }, data: { escrowId } }).catch(() => {});
+          try { pair.b.ws.send(JSON.stringify({ event: "escrow", data: { matchId, escrowId: escrowId.toString() } })); } catch {}
+          trackFunding(matchId, pair, app.log);
         } else if (msg?.action === "ready" && msg?.matchId) {
           const pair = pairs.get(msg.matchId as string); if (!pair) return;
           const sender = [pair.a, pair.b].find(c => c.ws === conn);
+          if (!sender) return; // only the two paired players coordinate their match
           const peer = sender === pair.a ? pair.b : pair.a;
           try { peer.ws.send(JSON.stringify({ event: "ready", data: { matchId: msg.matchId } })); } catch {}
         } else if (msg?.action === "signed_create" && msg?.matchId) {
           const pair = pairs.get(msg.matchId as string); if (!pair) return;
           const sender = [pair.a, pair.b].find(c => c.ws === conn);
+          if (!sender) return; // only the two paired players coordinate their match
           const peer = sender === pair.a ? pair.b : pair.a;
           try { peer.ws.send(JSON.stringify({ event: "signed_create", data: { matchId: msg.matchId } })); } catch {}
         } else if (msg?.action === "signed_join" && msg?.matchId) {
           const pair = pairs.get(msg.matchId as string); if (!pair) return;
           const sender = [pair.a, pair.b].find(c => c.ws === conn);
+          if (!sender) return; // only the two paired players coordinate their match
           const peer = sender === pair.a ? pair.b : pair.a;
+          // Informational only: the match is marked funded once the join is seen on-chain (trackFunding)
           try { peer.ws.send(JSON.stringify({ event: "signed_join", data: { matchId: msg.matchId } })); } catch {}
         } else if (msg?.action === "cancel" && msg?.matchId) {
           const pair = pairs.get(msg.matchId as string); if (!pair) return;
           const sender = [pair.a, pair.b].find(c => c.ws === conn);
+          if (!sender) return; // only the two paired players coordinate their match
           const peer = sender === pair.a ? pair.b : pair.a;
           try { peer.ws.send(JSON.stringify({ event: "match_cancel", data: { matchId: msg.matchId, reason: msg.reason || "cancelled" } })); } catch {}
+          // Only unfunded matches can be aborted; funded ones have to go through a refund
+          transitionMatch(msg.matchId as string, "ABORTED")
+            .then((aborted) => { if (aborted) releasePair(msg.matchId as string); })
+            .catch(() => {});
         }
       } catch {
         // ignore
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import type { JoinMsg } from "./types.js";
+
+// Who gets paired with whom in a matchmaking queue (ws/matchmaking.ts keeps the queues)
+
+/** What pairing looks at of a queued player */
+export type Seeker = { wallet: string; xp: number; joinedAt: number; join: Pick<JoinMsg, "gameId" | "playMode"> };
+
+// A player nobody was paired with gets `match_timeout` after this long
+export const MATCH_TIMEOUT_MS = 30_000;
+
+// XP band: a player accepts opponents within `base` XP either way on joining, `perSec` more for
+// every second spent waiting, never more than `max` (null = no limit, so free play always ends up
+// pairing whoever is there). Staked play is capped so stakes stay between comparable players.
+// MATCHMAKING_BANDS (JSON) overrides them by "gameId:playMode", "gameId" or "playMode", most
+// specific first, e.g. {"chess:stake":{"base":50,"perSec":10,"max":400},"free":{"perSec":60}}.
+const Band = z.object({ base: z.number().min(0), perSec: z.number().min(0), max: z.number().min(0).nullable() });
+type Band = z.infer<typeof Band>;
+const DEFAULT_BANDS: Record<JoinMsg["playMode"], Band> = {
+  free: { base: 150, perSec: 40, max: null },
+  stake: { base: 100, perSec: 20, max: 800 }
+};
+const BAND_OVERRIDES = z.record(Band.partial()).parse(JSON.parse(process.env.MATCHMAKING_BANDS ?? "{}"));
+
+export function bandFor(gameId: JoinMsg["gameId"], playMode: JoinMsg["playMode"]): Band {
+  return {
+    ...DEFAULT_BANDS[playMode],
+    ...BAND_OVERRIDES[playMode],
+    ...BAND_OVERRIDES[gameId],
+    ...BAND_OVERRIDES[`${gameId}:${playMode}`]
+  };
+}
+
+// XP gap `c` accepts after waiting until `now`
+export function bandWidth(c: Seeker, now: number) {
+  const band = bandFor(c.join.gameId, c.join.playMode);
+  const width = band.base + band.perSec * ((now - c.joinedAt) / 1000);
+  return band.max === null ? width : Math.min(band.max, width);
+}
+
+// Milliseconds from `now` until `c` accepts an XP gap of `gap` (Infinity if it never will)
+export function untilInBand(c: Seeker, gap: number, now: number) {
+  const band = bandFor(c.join.gameId, c.join.playMode);
+  if (gap <= band.base) return 0;
+  if (band.perSec === 0 || (band.max !== null && gap > band.max)) return Infinity;
+  return Math.max(0, c.joinedAt + ((gap - band.base) / band.perSec) * 1000 - now);
+}
+
+/**
+ * Pairs to make in one queue: every two players whose XP gap fits the wider of their two bands
+ * can be paired. Over the whole queue the closest gaps go first, except that players within
+ * 10 s of their timeout go before anyone else; ties go to whoever has waited longest.
+ */
+export function planPairs<C extends Seeker>(q: C[], now: number): Array<[C, C]> {
+  const urgent = (c: C) => now - c.joinedAt >= MATCH_TIMEOUT_MS - 10_000;
+  const edges: Array<{ x: C; y: C; gap: number; urgent: boolean; since: number }> = [];
+  for (let i = 0; i < q.length; i++) {
+    for (let j = i + 1; j < q.length; j++) {
+      const [x, y] = [q[i], q[j]];
+      const gap = Math.abs(x.xp - y.xp);
+      if (x.wallet === y.wallet || gap > Math.max(bandWidth(x, now), bandWidth(y, now))) continue;
+      edges.push({ x, y, gap, urgent: urgent(x) || urgent(y), since: Math.min(x.joinedAt, y.joinedAt) });
+    }
+  }
+  edges.sort((e, f) => Number(f.urgent) - Number(e.urgent) || e.gap - f.gap || e.since - f.since);
+  const taken = new Set<C>();
+  const planned: Array<[C, C]> = [];
+  for (const e of edges) {
+    if (taken.has(e.x) || taken.has(e.y)) continue;
+    taken.add(e.x);
+    taken.add(e.y);
+    // Whoever queued first is P1 (and brings the escrow, when staked)
+    planned.push(e.x.joinedAt <= e.y.joinedAt ? [e.x, e.y] : [e.y, e.x]);
+  }
+  return planned;
+}
@@ -1,16 +1,44 @@
 import { z } from "zod";
+import { type GameId, getVariant, variantTarget } from "@spark/shared";
 
 export const Wallet = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
 
+// Games per match: best-of-1 (a single game), 3 or 5. RPS and the reaction duel are already played
+// to a target score and trivia over a set of questions, so none of them has series
+export const BestOf = z.union([z.literal(1), z.literal(3), z.literal(5)]);
+export const hasSeries = (gameId: GameId) => gameId !== "rockpaperscissors" && gameId !== "trivia" && gameId !== "reaction";
+
+// Rule preset (see VARIANTS in @spark/shared): omitted = the game's default. `target` picks the
+// score (RPS, reaction) or question count (trivia) of variants that have one and must be one they offer
+export const variantFields = {
+  variant: z.string().max(32).optional(),
+  target: z.coerce.number().int().optional()
+};
+
+export function validVariant(m: { gameId: GameId; variant?: string; target?: number }) {
+  const v = getVariant(m.gameId, m.variant);
+  return !!v && variantTarget(v, m.target) !== null;
+}
+
+/** Variant id and target score as stored on the match, defaults filled in */
+export function resolveVariant(m: { gameId: GameId; variant?: string; target?: number }) {
+  const v = getVariant(m.gameId, m.variant)!;
+  return { variant: v.id, target: variantTarget(v, m.target) ?? null };
+}
+
 export const JoinMsg = z.object({
   action: z.literal("join"),
   wallet: Wallet,
-  gameId: z.enum(["chess", "tictactoe", "connectfour", "rockpaperscissors"]),
+  gameId: z.enum(["chess", "tictactoe", "connectfour", "rockpaperscissors", "checkers", "battleship", "trivia", "memory", "reaction"]),
   playMode: z.enum(["free", "stake"]),
   stakeAmount: z.coerce.number().min(0).default(0),
   playerXP: z.coerce.number().min(0),
   // P1 includes the on-chain Escrow match id (string to avoid BigInt JSON issues)
-  escrowId: z.string().regex(/^\d+$/).optional()
-});
+  escrowId: z.string().regex(/^\d+$/).optional(),
+  bestOf: BestOf.default(1),
+  ...variantFields
+}).refine((m) => hasSeries(m.gameId) || m.bestOf === 1, { message: "no series for this game" })
+  .refine(validVariant, { message: "unknown variant" })
+  .transform((m) => ({ ...m, ...resolveVariant(m) }));
 
 export type JoinMsg = z.infer<typeof JoinMsg>;
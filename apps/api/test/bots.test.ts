@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { chess, chessFromFen, connectFour, ticTacToe } from "@spark/shared";
+import { chessBotMove } from "../src/bots/chess.js";
+import { c4BotMove } from "../src/bots/connectfour.js";
+import { tttBotMove } from "../src/bots/tictactoe.js";
+import { BOT_THINK_MS } from "../src/bots/types.js";
+
+// Bots run on the event loop: a search may overrun its budget by one node at most
+const SLACK_MS = 20;
+
+function timed<T>(think: () => T): { move: T; ms: number } {
+  const start = performance.now();
+  const move = think();
+  return { move, ms: performance.now() - start };
+}
+
+describe("hard bots", () => {
+  it("answer within the think time, even where the full search is far too big", () => {
+    const c = timed(() => chessBotMove(chess.initialState("a"), "a", "HARD"));
+    expect(chess.legalMoves(chess.initialState("a"), "a")).toContain(c.move);
+    expect(c.ms).toBeLessThan(BOT_THINK_MS + SLACK_MS);
+    expect(timed(() => c4BotMove(connectFour, connectFour.initialState("a"), "a", "HARD")).ms).toBeLessThan(BOT_THINK_MS + SLACK_MS);
+    expect(timed(() => tttBotMove(ticTacToe, ticTacToe.initialState("a"), "a", "HARD")).ms).toBeLessThan(BOT_THINK_MS + SLACK_MS);
+  });
+
+  it("still take a win in one", () => {
+    expect(chessBotMove(chessFromFen("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1"), "a", "HARD")).toBe("a1a8");
+    let c4 = connectFour.initialState("a");
+    for (const [side, col] of [["a", 0], ["b", 1], ["a", 0], ["b", 1], ["a", 0], ["b", 2]] as const) {
+      const res = connectFour.applyMove(c4, side, col);
+      if (res.ok) c4 = res.state;
+    }
+    expect(c4BotMove(connectFour, c4, "a", "HARD")).toBe(0);
+  });
+});
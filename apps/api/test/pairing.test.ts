@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { MATCH_TIMEOUT_MS, bandFor, bandWidth, planPairs, untilInBand, type Seeker } from "../src/ws/pairing.js";
+
+const NOW = 1_000_000;
+
+// A queued player with `xp` who joined `waitedS` seconds before NOW
+function seeker(wallet: string, xp: number, waitedS = 0, playMode: "free" | "stake" = "free"): Seeker {
+  return { wallet, xp, joinedAt: NOW - waitedS * 1000, join: { gameId: "chess", playMode } };
+}
+
+const names = (pairs: Array<[Seeker, Seeker]>) => pairs.map(([p1, p2]) => [p1.wallet, p2.wallet]);
+
+describe("XP bands", () => {
+  it("start at the base width and widen with the time waited", () => {
+    const band = bandFor("chess", "free");
+    expect(bandWidth(seeker("a", 0), NOW)).toBe(band.base);
+    expect(bandWidth(seeker("a", 0, 10), NOW)).toBe(band.base + 10 * band.perSec);
+  });
+
+  it("stop widening at the play mode's cap", () => {
+    const band = bandFor("chess", "stake");
+    expect(band.max).not.toBeNull();
+    expect(bandWidth(seeker("a", 0, 3600, "stake"), NOW)).toBe(band.max);
+  });
+
+  it("say how long until a gap is accepted", () => {
+    const band = bandFor("chess", "free");
+    expect(untilInBand(seeker("a", 0), band.base, NOW)).toBe(0);
+    expect(untilInBand(seeker("a", 0), band.base + band.perSec * 5, NOW)).toBe(5000);
+    expect(untilInBand(seeker("a", 0, 2), band.base + band.perSec * 5, NOW)).toBe(3000);
+    expect(untilInBand(seeker("a", 0, 0, "stake"), bandFor("chess", "stake").max! + 1, NOW)).toBe(Infinity);
+  });
+});
+
+describe("planPairs", () => {
+  it("keeps players apart until a band covers their gap", () => {
+    const { base, perSec } = bandFor("chess", "free");
+    const gap = base + perSec * 4;
+    expect(planPairs([seeker("a", 0), seeker("b", gap)], NOW)).toEqual([]);
+    expect(names(planPairs([seeker("a", 0, 4), seeker("b", gap)], NOW))).toEqual([["a", "b"]]);
+  });
+
+  it("pairs the closest players of the whole queue, not the first to arrive", () => {
+    const q = [seeker("a", 1000, 3), seeker("b", 1100, 2), seeker("c", 1120, 1)];
+    expect(names(planPairs(q, NOW))).toEqual([["b", "c"]]);
+  });
+
+  it("makes as many disjoint pairs as the queue allows", () => {
+    const q = [seeker("a", 0), seeker("b", 2000), seeker("c", 50), seeker("d", 2060)];
+    expect(names(planPairs(q, NOW))).toEqual([["a", "c"], ["b", "d"]]);
+  });
+
+  it("serves players close to their timeout first", () => {
+    const old = seeker("old", 0, MATCH_TIMEOUT_MS / 1000 - 5);
+    const q = [old, seeker("p", 500), seeker("q", 520)];
+    expect(names(planPairs(q, NOW))).toEqual([["old", "p"]]);
+  });
+
+  it("never pairs a wallet with itself", () => {
+    expect(planPairs([seeker("a", 100, 5), seeker("a", 100)], NOW)).toEqual([]);
+  });
+
+  it("never pairs staked players beyond the cap, however long they wait", () => {
+    const max = bandFor("chess", "stake").max!;
+    expect(planPairs([seeker("a", 0, 3600, "stake"), seeker("b", max + 1, 3600, "stake")], NOW)).toEqual([]);
+  });
+
+  it("makes whoever queued first P1", () => {
+    const q = [seeker("late", 100, 1), seeker("early", 120, 8)];
+    expect(names(planPairs(q, NOW))).toEqual([["early", "late"]]);
+  });
+});
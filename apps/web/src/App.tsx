@@ -22,6 +22,7 @@ import { LobbyPage } from "./pages/LobbyPage";
 import { GamePage } from "./pages/GamePage";
 import { ProfilePage } from "./pages/ProfilePage";
 import { LeaderboardPage } from "./pages/LeaderboardPage";
+import { PuzzlePage } from "./pages/PuzzlePage";
 import { Toaster } from "./components/ui/sonner";
 import { WalletProvider } from "./context/WalletContext";
 import { Game, Screen, NavigationData } from "./types";
@@ -65,12 +66,17 @@ export default function App() {
               escrowId={navData.escrowId}
               opponentWallet={navData.opponentWallet}
               role={navData.role}
+              ticket={navData.ticket}
+              opponentName={navData.opponentName}
+              botDifficulty={navData.botDifficulty}
             />
           )}
           
           {currentScreen === "profile" && <ProfilePage onNavigate={handleNavigate} />}
           
           {currentScreen === "leaderboard" && <LeaderboardPage onNavigate={handleNavigate} />}
+
+          {currentScreen === "puzzle" && <PuzzlePage onNavigate={handleNavigate} />}
         </main>
 
         <Toaster />
@@ -330,6 +330,71 @@ export function RockPaperScissorsIllustration() {
   );
 }
 
+export function CheckersIllustration() {
+  return (
+    <svg viewBox="0 0 200 200" className="w-full h-full">
+      <defs>
+        <pattern id="draughts" x="0" y="0" width="40" height="40" patternUnits="userSpaceOnUse">
+          <rect x="0" y="0" width="20" height="20" fill="#2d1b4e"/>
+          <rect x="20" y="0" width="20" height="20" fill="#8b5cf6"/>
+          <rect x="0" y="20" width="20" height="20" fill="#8b5cf6"/>
+          <rect x="20" y="20" width="20" height="20" fill="#2d1b4e"/>
+        </pattern>
+      </defs>
+      <rect width="200" height="200" fill="#1a0f2e"/>
+      <rect x="20" y="20" width="160" height="160" fill="url(#draughts)" stroke="#06b6d4" strokeWidth="4"/>
+
+      {/* Pieces */}
+      <circle cx="70" cy="50" r="8" fill="#fbbf24"/>
+      <circle cx="110" cy="50" r="8" fill="#fbbf24"/>
+      <circle cx="50" cy="70" r="8" fill="#fbbf24"/>
+      <circle cx="90" cy="130" r="8" fill="#ec4899"/>
+      <circle cx="130" cy="130" r="8" fill="#ec4899"/>
+      <circle cx="150" cy="150" r="8" fill="#ec4899"/>
+
+      {/* Crowned king mid-jump */}
+      <circle cx="110" cy="90" r="9" fill="#ec4899" stroke="#fbbf24" strokeWidth="3"/>
+      <polyline points="110,90 90,70 70,90" fill="none" stroke="#06b6d4" strokeWidth="2" strokeDasharray="4 3"/>
+
+      {/* Glow effect */}
+      <rect x="20" y="20" width="160" height="160" fill="none" stroke="#06b6d4" strokeWidth="2" opacity="0.5"/>
+    </svg>
+  );
+}
+
+export function BattleshipIllustration() {
+  return (
+    <svg viewBox="0 0 200 200" className="w-full h-full">
+      <defs>
+        <pattern id="sea-grid" x="0" y="0" width="16" height="16" patternUnits="userSpaceOnUse">
+          <rect x="0" y="0" width="16" height="16" fill="#0c1e3e"/>
+          <rect x="0" y="0" width="16" height="16" fill="none" stroke="#06b6d4" strokeWidth="0.5" opacity="0.5"/>
+        </pattern>
+      </defs>
+      <rect width="200" height="200" fill="#1a0f2e"/>
+      <rect x="20" y="20" width="160" height="160" fill="url(#sea-grid)" stroke="#06b6d4" strokeWidth="4"/>
+
+      {/* Ship */}
+      <g transform="translate(44, 100)">
+        <polygon points="0,10 112,10 100,26 12,26" fill="#8b5cf6"/>
+        <rect x="30" y="0" width="40" height="10" fill="#a78bfa"/>
+        <rect x="44" y="-10" width="12" height="10" fill="#a78bfa"/>
+        <rect x="76" y="4" width="20" height="6" fill="#a78bfa"/>
+      </g>
+
+      {/* Hits and misses */}
+      <circle cx="100" cy="108" r="7" fill="#ec4899"/>
+      <circle cx="100" cy="108" r="3" fill="#fbbf24"/>
+      <circle cx="60" cy="52" r="4" fill="#e2e8f0" opacity="0.8"/>
+      <circle cx="140" cy="60" r="4" fill="#e2e8f0" opacity="0.8"/>
+      <circle cx="76" cy="156" r="4" fill="#e2e8f0" opacity="0.8"/>
+
+      {/* Glow effect */}
+      <rect x="20" y="20" width="160" height="160" fill="none" stroke="#06b6d4" strokeWidth="2" opacity="0.5"/>
+    </svg>
+  );
+}
+
 export function ArcadeTokenIllustration({ className = "" }: { className?: string }) {
   return (
     <svg viewBox="0 0 100 100" className={className}>
@@ -3,10 +3,13 @@ import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
 import { Coins, Users, Trophy } from "lucide-react";
 import { Game } from "../types";
+import { VARIANTS, type Variant } from "@spark/shared/src/rules";
 import { useWallet } from "../context/WalletContext";
 import { toast } from "sonner@2.0.3";
 import {
   ChessIllustration,
+  CheckersIllustration,
+  BattleshipIllustration,
   TicTacToeIllustration,
   ConnectFourIllustration,
   RockPaperScissorsIllustration,
@@ -23,6 +26,8 @@ interface GameCardProps {
 
 const illustrationMap = {
   chess: ChessIllustration,
+  checkers: CheckersIllustration,
+  battleship: BattleshipIllustration,
   tictactoe: TicTacToeIllustration,
   connectfour: ConnectFourIllustration,
   rockpaperscissors: RockPaperScissorsIllustration,
@@ -35,6 +40,7 @@ const illustrationMap = {
 export function GameCard({ game, onPlay }: GameCardProps) {
   const Illustration = illustrationMap[game.illustration];
   const { isConnected } = useWallet();
+  const variants: Variant[] = (VARIANTS as Record<string, Variant[]>)[game.id] ?? [];
 
   const handlePlay = () => {
     if (!isConnected) {
@@ -61,6 +67,12 @@ export function GameCard({ game, onPlay }: GameCardProps) {
           </div>
         </div>
 
+        {variants.length > 1 && (
+          <p className="text-xs text-muted-foreground/70 truncate">
+            {variants.map((v) => v.name).join(" · ")}
+          </p>
+        )}
+
         <div className="flex items-center justify-between text-xs">
           <div className="flex items-center gap-1.5 text-muted-foreground/70">
             <Trophy className="w-3 h-3" />
@@ -9,6 +9,7 @@
  */
 
 import { Game } from "../types";
+import { getVariant } from "@spark/shared/src/rules";
 
 /**
  * Available games in the platform
@@ -25,13 +26,7 @@ export const GAMES: Game[] = [
     difficulty: "Easy",
     players: 0, // Backend: Replace with {{active_players_count}}
     illustration: "tictactoe",
-    rules: [
-      "⚠️ INFINITY VERSION - Each player can only have 3 pieces on the board",
-      "When you place a 4th piece, your oldest piece automatically disappears",
-      "Get 3 in a row (horizontal, vertical, or diagonal) to win",
-      "30 seconds per turn - timeout = automatic loss",
-      "First player to achieve 3 in a row wins the match"
-    ]
+    rules: getVariant("tictactoe")!.rules() // default variant; the lobby shows the selected one
   },
   {
     id: "connectfour",
@@ -43,13 +38,7 @@ export const GAMES: Game[] = [
     difficulty: "Medium",
     players: 0, // Backend: Replace with {{active_players_count}}
     illustration: "connectfour",
-    rules: [
-      "Standard 7x6 grid - drop tokens from the top",
-      "Red player vs Yellow player alternate turns",
-      "Connect 4 tokens in a row (horizontal, vertical, or diagonal) to win",
-      "30 seconds per turn - timeout = automatic loss",
-      "If the grid fills with no winner, board resets for another round"
-    ]
+    rules: getVariant("connectfour")!.rules() // default variant; the lobby shows the selected one
   },
   {
     id: "rockpaperscissors",
@@ -61,13 +50,79 @@ export const GAMES: Game[] = [
     difficulty: "Easy",
     players: 0, // Backend: Replace with {{active_players_count}}
     illustration: "rockpaperscissors",
-    rules: [
-      "First player to win 5 rounds takes the entire ARK stake pool",
-      "Both players pick Rock, Paper, or Scissors simultaneously",
-      "Rock beats Scissors, Scissors beats Paper, Paper beats Rock",
-      "30 seconds per round - timeout = automatic round loss",
-      "Play continues until one player reaches 5 round wins"
-    ]
+    rules: getVariant("rockpaperscissors")!.rules() // default variant; the lobby shows the selected one
+  },
+  {
+    id: "chess",
+    name: "Chess",
+    icon: "♞",
+    mode: "Staked",
+    arkReward: 50, // Backend: Fetch from smart contract reward pool
+    nftReward: "Grandmaster Badge",
+    difficulty: "Hard",
+    players: 0, // Backend: Replace with {{active_players_count}}
+    illustration: "chess",
+    rules: getVariant("chess")!.rules() // default variant; the lobby shows the selected one
+  },
+  {
+    id: "checkers",
+    name: "Checkers",
+    icon: "⛀",
+    mode: "Free",
+    arkReward: 30, // Backend: Fetch from smart contract reward pool
+    nftReward: "Tactician Badge",
+    difficulty: "Medium",
+    players: 0, // Backend: Replace with {{active_players_count}}
+    illustration: "checkers",
+    rules: getVariant("checkers")!.rules() // default variant; the lobby shows the selected one
+  },
+  {
+    id: "battleship",
+    name: "Battleship",
+    icon: "🚢",
+    mode: "Free",
+    arkReward: 30, // Backend: Fetch from smart contract reward pool
+    nftReward: "Admiral Badge",
+    difficulty: "Medium",
+    players: 0, // Backend: Replace with {{active_players_count}}
+    illustration: "battleship",
+    rules: getVariant("battleship")!.rules() // default variant; the lobby shows the selected one
+  },
+  {
+    id: "trivia",
+    name: "Trivia Duel",
+    icon: "❓",
+    mode: "Free",
+    arkReward: 20, // Backend: Fetch from smart contract reward pool
+    nftReward: "Scholar Badge",
+    difficulty: "Easy",
+    players: 0, // Backend: Replace with {{active_players_count}}
+    illustration: "trivia",
+    rules: getVariant("trivia")!.rules() // default variant; the lobby shows the selected one
+  },
+  {
+    id: "memory",
+    name: "Memory Duel",
+    icon: "🃏",
+    mode: "Free",
+    arkReward: 20, // Backend: Fetch from smart contract reward pool
+    nftReward: "Recall Badge",
+    difficulty: "Easy",
+    players: 0, // Backend: Replace with {{active_players_count}}
+    illustration: "memory",
+    rules: getVariant("memory")!.rules() // default variant; the lobby shows the selected one
+  },
+  {
+    id: "reaction",
+    name: "Reaction Duel",
+    icon: "⚡",
+    mode: "Free",
+    arkReward: 15, // Backend: Fetch from smart contract reward pool
+    nftReward: "Reflex Badge",
+    difficulty: "Easy",
+    players: 0, // Backend: Replace with {{active_players_count}}
+    illustration: "speed",
+    rules: getVariant("reaction")!.rules() // default variant; the lobby shows the selected one
   }
 ];
 
@@ -1,7 +1,6 @@
 import { useEffect, useRef, useState } from "react";
 import { useAccount } from "wagmi";
 import { Button } from "../../components/ui/button";
-import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
 
 const API = (import.meta as any).env.VITE_API_URL!;
@@ -9,18 +8,20 @@ const WS = API.replace("http", "ws");
 
 interface GameRoomProps {
   matchId: string;
+  ticket: string; // signed seat ticket from match_found
   opponentWallet: `0x${string}`;
   onOpponentMove?: (position: number) => void;
-  onGameEnd?: (winner: `0x${string}`) => void;
+  onGameEnd?: (winner: `0x${string}` | null) => void; // null = draw
   children?: (props: {
     sendMove: (position: number) => void;
-    endGame: (didIWin: boolean, durationSec: number) => Promise<void>;
-    sending: boolean;
+    forfeit: () => void;
+    ended: boolean;
   }) => React.ReactNode;
 }
 
 export function GameRoom({ 
   matchId, 
+  ticket,
   opponentWallet, 
   onOpponentMove,
   onGameEnd,
@@ -28,13 +29,15 @@ export function GameRoom({
 }: GameRoomProps) {
   const { address } = useAccount();
   const wsRef = useRef<WebSocket | null>(null);
-  const [sending, setSending] = useState(false);
+  const sideRef = useRef<"a" | "b" | null>(null);
+  const [ended, setEnded] = useState(false);
   const [connected, setConnected] = useState(false);
 
   useEffect(() => {
     console.log(`Connecting to game WebSocket: ${WS}/game/${matchId}`);
     
-    const ws = new WebSocket(`${WS}/game/${matchId}`);
+    // Seats are claimed with the signed ticket issued by matchmaking
+    const ws = new WebSocket(`${WS}/game/${matchId}?ticket=${encodeURIComponent(ticket)}`);
     wsRef.current = ws;
 
     ws.onopen = () => {
@@ -48,6 +51,10 @@ export function GameRoom({
         const msg = JSON.parse(e.data);
         console.log("Game WebSocket message:", msg);
 
+        if (msg.event === "start") {
+          sideRef.current = msg.data?.side ?? null;
+        }
+
         if (msg.event === "opponent_move") {
           // Relay opponent's move to the board component
           const position = msg.data?.position;
@@ -57,17 +64,20 @@ export function GameRoom({
         }
 
         if (msg.event === "game_end") {
-          // Game ended notification
-          const winner = msg.data?.winner;
-          if (winner && onGameEnd) {
-            onGameEnd(winner as `0x${string}`);
+          // The server decides (and records) the result; map its winning side to a wallet
+          setEnded(true);
+          const winnerSide = msg.data?.winnerSide ?? null;
+          const won = winnerSide !== null && winnerSide === sideRef.current;
+          const winner = winnerSide === null ? null : (won ? address! : opponentWallet);
+          if (onGameEnd) {
+            onGameEnd(winner);
           }
           
           // Show result toast
-          if (winner === address) {
+          if (won) {
             toast.success("You won! 🎉");
           } else {
-            toast.info("Game ended");
+            toast.info(winnerSide === null ? "Game ended in a draw" : "Game ended");
           }
         }
       } catch (err) {
@@ -94,7 +104,7 @@ export function GameRoom({
       ws.close();
       wsRef.current = null;
     };
-  }, [matchId, address, onOpponentMove, onGameEnd]);
+  }, [matchId, ticket, address, opponentWallet, onOpponentMove, onGameEnd]);
 
   function sendMove(position: number) {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
@@ -109,63 +119,22 @@ export function GameRoom({
     }));
   }
 
-  async function endGame(didIWin: boolean, durationSec: number) {
-    if (!address) {
-      toast.error("❌ Wallet not connected", { id: "game-result" });
+  // Concede the match; the server ends the game and settles it in the opponent's favour
+  function forfeit() {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      toast.error("❌ Not connected to game server");
       return;
     }
 
-    setSending(true);
-    toast.loading("Submitting game result...", { id: "game-result" });
-
-    try {
-      // Post result to backend
-      const response = await fetch(`${API}/api/match/result`, {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({
-          matchId,
-          winnerWallet: didIWin ? address : opponentWallet,
-          loserWallet: didIWin ? opponentWallet : address,
-          result: didIWin ? "win" : "loss",
-          durationSec
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `API error: ${response.status}`);
-      }
-
-      const resultData = await response.json();
-      console.log("Result submitted successfully:", resultData);
-
-      // Notify opponent via WebSocket
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({ 
-          action: "end", 
-          data: { 
-            winner: didIWin ? address : opponentWallet 
-          } 
-        }));
-      }
-
-      toast.success(didIWin ? "🎉 Victory submitted!" : "Result submitted", { id: "game-result" });
-    } catch (err: any) {
-      console.error("Failed to end game:", err);
-      toast.error(`❌ Failed to submit result: ${err.message}`, { id: "game-result" });
-      throw err; // Re-throw so caller can handle if needed
-    } finally {
-      setSending(false);
-    }
+    wsRef.current.send(JSON.stringify({ action: "end", data: { reason: "forfeit" } }));
   }
 
   // Render props pattern - allows parent to control UI while GameRoom handles logic
   if (children) {
-    return <>{children({ sendMove, endGame, sending })}</>;
+    return <>{children({ sendMove, forfeit, ended })}</>;
   }
 
-  // Default UI - simple test buttons
+  // Default UI - connection status and forfeit
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -173,38 +142,14 @@ export function GameRoom({
         {connected ? "Connected" : "Disconnected"}
       </div>
 
-      <div className="space-y-2">
-        <Button
-          disabled={sending || !connected}
-          onClick={() => endGame(true, 120)}
-          className="w-full bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600 pixel-text"
-        >
-          {sending ? (
-            <>
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              Submitting...
-            </>
-          ) : (
-            "Report Win"
-          )}
-        </Button>
-
-        <Button
-          disabled={sending || !connected}
-          onClick={() => endGame(false, 120)}
-          variant="outline"
-          className="w-full border-red-500 text-red-500 hover:bg-red-500/10 pixel-text"
-        >
-          {sending ? (
-            <>
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              Submitting...
-            </>
-          ) : (
-            "Report Loss"
-          )}
-        </Button>
-      </div>
+      <Button
+        disabled={ended || !connected}
+        onClick={forfeit}
+        variant="outline"
+        className="w-full border-red-500 text-red-500 hover:bg-red-500/10 pixel-text"
+      >
+        Forfeit
+      </Button>
     </div>
   );
 }
@@ -5,7 +5,7 @@
  * - WebSocket connection to /game/:matchId
  * - Relaying player moves via WebSocket
  * - Receiving opponent moves
- * - Posting game results to backend API
+ * - Forfeiting (results are decided and recorded by the game server)
  * - Toast notifications for connection status and results
  */
 
@@ -15,13 +15,13 @@ import { Button } from "../../components/ui/button";
 
 interface ExampleTicTacToeProps {
   matchId: string;
+  ticket: string;
   opponentWallet: `0x${string}`;
 }
 
-export function ExampleTicTacToe({ matchId, opponentWallet }: ExampleTicTacToeProps) {
+export function ExampleTicTacToe({ matchId, ticket, opponentWallet }: ExampleTicTacToeProps) {
   const [board, setBoard] = useState<(string | null)[]>(Array(9).fill(null));
   const [currentPlayer, setCurrentPlayer] = useState<"X" | "O">("X");
-  const [gameStartTime] = useState(Date.now());
 
   // Handle opponent's move received via WebSocket
   const handleOpponentMove = (position: number) => {
@@ -40,7 +40,7 @@ export function ExampleTicTacToe({ matchId, opponentWallet }: ExampleTicTacToePr
   };
 
   // Handle game end event from WebSocket
-  const handleGameEnd = (winner: `0x${string}`) => {
+  const handleGameEnd = (winner: `0x${string}` | null) => {
     console.log("Game ended, winner:", winner);
     // Show end game UI
   };
@@ -67,22 +67,23 @@ export function ExampleTicTacToe({ matchId, opponentWallet }: ExampleTicTacToePr
       
       {/* 
         GameRoom with render props pattern 
-        Provides: sendMove, endGame functions and sending state
+        Provides: sendMove, forfeit functions and ended state
       */}
       <GameRoom
         matchId={matchId}
+        ticket={ticket}
         opponentWallet={opponentWallet}
         onOpponentMove={handleOpponentMove}
         onGameEnd={handleGameEnd}
       >
-        {({ sendMove, endGame, sending }) => (
+        {({ sendMove, forfeit, ended }) => (
           <div className="space-y-6">
             {/* Game Board */}
             <div className="grid grid-cols-3 gap-2 max-w-xs mx-auto">
               {board.map((cell, index) => (
                 <Button
                   key={index}
-                  disabled={cell !== null || currentPlayer !== "X" || sending}
+                  disabled={cell !== null || currentPlayer !== "X" || ended}
                   onClick={() => {
                     // Make move locally
                     const newBoard = [...board];
@@ -91,15 +92,8 @@ export function ExampleTicTacToe({ matchId, opponentWallet }: ExampleTicTacToePr
                     setCurrentPlayer("O");
                     
                     // Send move to opponent via WebSocket
+                    // (the server detects the win and sends game_end to both players)
                     sendMove(index);
-                    
-                    // Check for winner
-                    const winner = checkWinner(newBoard);
-                    if (winner === "X") {
-                      // Player won! Calculate game duration and report
-                      const durationSec = Math.floor((Date.now() - gameStartTime) / 1000);
-                      endGame(true, durationSec);
-                    }
                   }}
                   className="h-24 text-4xl"
                   variant={cell === "X" ? "default" : cell === "O" ? "secondary" : "outline"}
@@ -112,11 +106,8 @@ export function ExampleTicTacToe({ matchId, opponentWallet }: ExampleTicTacToePr
             {/* Game Controls */}
             <div className="flex gap-2 justify-center">
               <Button
-                disabled={sending}
-                onClick={() => {
-                  const durationSec = Math.floor((Date.now() - gameStartTime) / 1000);
-                  endGame(false, durationSec); // Forfeit
-                }}
+                disabled={ended}
+                onClick={forfeit}
                 variant="outline"
               >
                 Forfeit
@@ -134,6 +125,7 @@ export function ExampleTicTacToe({ matchId, opponentWallet }: ExampleTicTacToePr
       {/* 
       <GameRoom
         matchId={matchId}
+        ticket={ticket}
         opponentWallet={opponentWallet}
         onOpponentMove={handleOpponentMove}
         onGameEnd={handleGameEnd}
@@ -151,32 +143,27 @@ export function ExampleTicTacToe({ matchId, opponentWallet }: ExampleTicTacToePr
  * 
  * 2. Pass required props:
  *    - matchId: string (from matchmaking result)
+ *    - ticket: string (signed seat ticket from matchmaking result)
  *    - opponentWallet: `0x${string}` (from matchmaking result)
  * 
  * 3. Provide callbacks:
  *    - onOpponentMove: (position: number) => void
  *      Called when opponent makes a move
- *    - onGameEnd: (winner: `0x${string}`) => void
- *      Called when game ends via WebSocket
+ *    - onGameEnd: (winner: `0x${string}` | null) => void
+ *      Called when game ends via WebSocket (null = draw)
  * 
  * 4. Use render props pattern to access:
  *    - sendMove(position): Send your move to opponent
- *    - endGame(didIWin, durationSec): Report match result to backend
- *    - sending: boolean - True when submitting result
+ *    - forfeit(): Concede the match
+ *    - ended: boolean - True once the server has ended the game
  * 
  * 5. GameRoom automatically handles:
  *    - WebSocket connection lifecycle
  *    - Connection status toasts
- *    - Result submission to /api/match/result
- *    - Notifying opponent of game end
  * 
- * BACKEND API ENDPOINT:
- * POST /api/match/result
- * Body: {
- *   matchId: string,
- *   winnerWallet: `0x${string}`,
- *   loserWallet: `0x${string}`,
- *   result: "win" | "loss",
- *   durationSec: number
- * }
+ * RESULTS:
+ * The game server validates every move, detects wins/draws/timeouts and
+ * finalizes the match itself (Match row, XP, escrow settlement). Clients never
+ * report results; POST /api/match/result is an operator-only override
+ * (x-admin-key header).
  */
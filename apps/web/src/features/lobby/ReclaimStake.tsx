@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { formatUnits } from "viem";
+import { Button } from "../../components/ui/button";
+import { Loader2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import type { EscrowReclaim } from "../../lib/hooks";
+
+interface ReclaimStakeProps {
+  escrowId?: bigint;
+  reclaim: EscrowReclaim;
+}
+
+/**
+ * Shows a stake left in an escrow nobody joined (e.g. after a matchmaking timeout or a cancelled
+ * match) and lets P1 cancel the escrow once the contract's CANCEL_TIMEOUT has passed.
+ * The API refunds such escrows on its own later; this is the self-service path.
+ */
+export function ReclaimStake({ escrowId, reclaim }: ReclaimStakeProps) {
+  const [refunded, setRefunded] = useState(false);
+  const { status, stakeWei, secondsLeft } = reclaim;
+
+  if (escrowId === undefined) return null;
+  if (status === "refunded" && refunded) {
+    return <p className="text-xs text-center text-muted-foreground pixel-text">Stake returned to your wallet</p>;
+  }
+  if (status !== "locked" && status !== "reclaimable" && status !== "reclaiming") return null;
+
+  const amount = stakeWei !== undefined ? formatUnits(stakeWei, 18) : "?";
+  const wait = secondsLeft !== undefined ? `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, "0")}` : "…";
+
+  async function handleReclaim() {
+    toast.loading("Reclaiming stake...", { id: "reclaim-flow" });
+    try {
+      await reclaim.reclaim();
+      setRefunded(true);
+      toast.success(`${amount} ARK returned`, { id: "reclaim-flow" });
+    } catch (err: any) {
+      console.error("Reclaim failed:", err);
+      toast.error(err?.message?.includes("User rejected") ? "Transaction rejected" : "Reclaim failed. Try again.", { id: "reclaim-flow" });
+    }
+  }
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 border border-border/30 space-y-2">
+      <div className="flex justify-between items-center text-xs">
+        <span className="text-muted-foreground">Escrow #{escrowId.toString()} unmatched</span>
+        <span className="pixel-text text-accent">{amount} ARK locked</span>
+      </div>
+      <Button
+        variant="outline"
+        disabled={status !== "reclaimable"}
+        onClick={handleReclaim}
+        className="w-full pixel-text text-xs"
+      >
+        {status === "reclaiming" ? (
+          <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Reclaiming...</>
+        ) : status === "reclaimable" ? (
+          <><Undo2 className="w-4 h-4 mr-2" />Reclaim Stake</>
+        ) : (
+          <>Reclaimable in {wait}</>
+        )}
+      </Button>
+    </div>
+  );
+}
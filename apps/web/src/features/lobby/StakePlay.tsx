@@ -6,6 +6,8 @@ import { Button } from "../../components/ui/button";
 import { Loader2, Coins } from "lucide-react";
 import { toast } from "sonner";
 import { baseSepolia } from "../../lib/chain";
+import { ReclaimStake } from "./ReclaimStake";
+import { DEFAULT_FORMAT, formatFields, type MatchFormat } from "../../lib/matchClient";
 
 const API = (import.meta as any).env.VITE_API_URL!;
 const WS = API.replace("http", "ws");
@@ -13,15 +15,17 @@ const WS = API.replace("http", "ws");
 interface StakePlayProps {
   stake: string;
   gameId: string;
+  format?: MatchFormat; // series length and variant, part of the matchmaking bucket
   onMatchFound?: (data: {
     matchId: string;
     escrowId?: string;
     opponentWallet: string;
     role: "p1" | "p2";
+    ticket: string;
   }) => void;
 }
 
-export function StakePlay({ stake, gameId, onMatchFound }: StakePlayProps) {
+export function StakePlay({ stake, gameId, format = DEFAULT_FORMAT, onMatchFound }: StakePlayProps) {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
   const approve = useApproveArk();
@@ -36,6 +40,7 @@ export function StakePlay({ stake, gameId, onMatchFound }: StakePlayProps) {
   const matchIdRef = useRef<string | null>(null);
   const roleRef = useRef<"p1"|"p2"|null>(null);
   const opponentWalletRef = useRef<string | null>(null);
+  const ticketRef = useRef<string>("");
   const [peerReady, setPeerReady] = useState(false);
   const [p1Created, setP1Created] = useState(false);
   const [p2Joined, setP2Joined] = useState(false);
@@ -81,7 +86,8 @@ export function StakePlay({ stake, gameId, onMatchFound }: StakePlayProps) {
           gameId,
           playMode: "stake",
           stakeAmount: Number(stake),
-          playerXP: 0
+          playerXP: 0,
+          ...formatFields(format)
         }));
       };
 
@@ -89,8 +95,9 @@ export function StakePlay({ stake, gameId, onMatchFound }: StakePlayProps) {
         const msg = JSON.parse(e.data);
         
         if (msg.event === "match_found") {
-          const { matchId, escrowId: eId, opponentWallet, role } = msg.data;
+          const { matchId, escrowId: eId, opponentWallet, role, ticket } = msg.data;
           matchIdRef.current = matchId;
+          ticketRef.current = ticket ?? "";
           roleRef.current = role;
           opponentWalletRef.current = opponentWallet;
 
@@ -117,11 +124,11 @@ export function StakePlay({ stake, gameId, onMatchFound }: StakePlayProps) {
                         // Inform opponent via WS
                         ws.send(JSON.stringify({ action: "escrow", matchId, escrowId: createdEscrowId.toString() }));
                         ws.send(JSON.stringify({ action: "signed_create", matchId }));
-                        // Backend: record start with escrowId
+                        // Backend: record start (matchmaking links the escrow itself)
                         const response = await fetch(`${API}/api/match/start`, {
                           method: "POST",
                           headers: { "content-type": "application/json" },
-                          body: JSON.stringify({ matchId, p1Wallet: address, p2Wallet: opponentWallet, gameId, stakeAmount: Number(stake), escrowId: createdEscrowId.toString() })
+                          body: JSON.stringify({ matchId, p1Wallet: address, p2Wallet: opponentWallet, gameId, stakeAmount: Number(stake) })
                         });
                         if (!response.ok) throw new Error(`Backend error: ${response.status}`);
                       } catch (err) {
@@ -160,17 +167,14 @@ export function StakePlay({ stake, gameId, onMatchFound }: StakePlayProps) {
                 p2JoinedRef.current = true;
                 setEscrowId(finalEscrow);
                 ws.send(JSON.stringify({ action: "signed_join", matchId }));
+                toast.loading("Waiting for on-chain confirmation...", { id: "stake-flow" });
                 // Backend start
                 const response = await fetch(`${API}/api/match/start`, {
                   method: "POST",
                   headers: { "content-type": "application/json" },
-                  body: JSON.stringify({ matchId, p1Wallet: opponentWallet, p2Wallet: address, gameId, stakeAmount: Number(stake), escrowId: finalEscrow })
+                  body: JSON.stringify({ matchId, p1Wallet: opponentWallet, p2Wallet: address, gameId, stakeAmount: Number(stake) })
                 });
                 if (!response.ok) throw new Error(`Backend error: ${response.status}`);
-                // If we already saw signed_create from P1, navigate now
-                if (roleRef.current === "p2" && matchIdRef.current && signedCreateSeenRef.current) {
-                  onMatchFound?.({ matchId: matchIdRef.current, escrowId: finalEscrow, opponentWallet: opponentWalletRef.current ?? "", role: "p2" });
-                }
               } catch (err) {
                 console.error("joinMatch failed", err);
                 try { ws.send(JSON.stringify({ action: "cancel", matchId, reason: "p2_tx_failed" })); } catch {}
@@ -183,19 +187,26 @@ export function StakePlay({ stake, gameId, onMatchFound }: StakePlayProps) {
             setPending(false);
           }
         } else if (msg.event === "signed_join") {
-          // P1 can navigate only after P2 joined
-          if (roleRef.current === "p1" && matchIdRef.current) {
-            onMatchFound?.({ matchId: matchIdRef.current, escrowId: escrowId ?? undefined, opponentWallet: opponentWalletRef.current ?? "", role: "p1" });
-          }
+          // P2 says it joined; the server confirms it on-chain before sending escrow_funded
+          if (roleRef.current === "p1") toast.loading("Opponent joined, confirming on-chain...", { id: "stake-flow" });
         } else if (msg.event === "signed_create") {
-          // Record that P1 created; if P2 already joined, navigate now; else buffer
           setSignedCreateSeen(true);
           signedCreateSeenRef.current = true;
-          if (roleRef.current === "p2" && matchIdRef.current && p2JoinedRef.current) {
-            onMatchFound?.({ matchId: matchIdRef.current, escrowId: escrowId ?? undefined, opponentWallet: opponentWalletRef.current ?? "", role: "p2" });
+        } else if (msg.event === "escrow_funded") {
+          // Both stakes verified in escrow by the server: start the game
+          if (roleRef.current && matchIdRef.current && msg.data?.matchId === matchIdRef.current) {
+            toast.success("Stakes locked in escrow", { id: "stake-flow" });
+            onMatchFound?.({ matchId: matchIdRef.current, escrowId: msg.data.escrowId, opponentWallet: opponentWalletRef.current ?? "", role: roleRef.current, ticket: ticketRef.current });
           }
         } else if (msg.event === "match_cancel") {
-          toast.error("Opponent cancelled. Game aborted.", { id: "stake-flow" });
+          // The server refunds P1's escrow of a match aborted this way; it can also be reclaimed below
+          const reason = msg.data?.reason === "escrow_not_joined" ? "Opponent never joined the escrow. Game aborted, stake will be refunded." : "Opponent cancelled. Game aborted.";
+          toast.error(reason, { id: "stake-flow" });
+          setPending(false);
+          try { ws.close(); } catch {}
+        } else if (msg.event === "error" && String(msg.data?.reason ?? "").startsWith("escrow_")) {
+          // The server could not verify our escrow deposit
+          toast.error(`❌ Escrow check failed (${msg.data.reason})`, { id: "stake-flow" });
           setPending(false);
           try { ws.close(); } catch {}
         } else if (msg.event === "match_timeout" || msg.type === "error") {
@@ -277,6 +288,8 @@ export function StakePlay({ stake, gameId, onMatchFound }: StakePlayProps) {
           {disabledReason}
         </p>
       )}
+
+      {!pending && <ReclaimStake escrowId={createMatch.escrowId} reclaim={createMatch.reclaim} />}
     </div>
   );
 }
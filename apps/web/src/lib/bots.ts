@@ -0,0 +1,69 @@
+/**
+ * Server-hosted AI opponents
+ * Bot games are played over the regular game WebSocket: the server seats the bot and runs
+ * the same rules, clock and result recording as for two players. Staked bot games are
+ * backed by the house: the server wallet joins the player's escrow and the result settles
+ * on-chain like any staked match.
+ */
+
+import { DEFAULT_FORMAT, formatFields, type MatchFormat } from "./matchClient";
+
+export type BotDifficulty = "easy" | "medium" | "hard";
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ["easy", "medium", "hard"];
+
+export interface BotInfo {
+  difficulty: BotDifficulty;
+  name: string;
+  wallet: string;
+  maxStake: number; // largest stake (ARK) the house takes against this bot; 0 = staking off
+}
+
+export interface BotMatch {
+  matchId: string;
+  role: "p1";
+  ticket: string;
+  opponentWallet: string;
+  opponentName: string;
+  difficulty: BotDifficulty;
+  stakeAmount?: number;
+  escrowId?: string;
+}
+
+const baseUrl = () => (import.meta as any).env?.VITE_API_URL || "http://localhost:3000";
+
+export async function listBots(): Promise<BotInfo[]> {
+  const response = await fetch(`${baseUrl()}/api/bots`);
+  if (!response.ok) throw new Error(`Bot list failed: HTTP ${response.status}`);
+  return response.json();
+}
+
+/**
+ * Create a match against a bot; connect to /game/:matchId with the returned ticket.
+ * Pass `stake` (an escrow the player already created for `stakeAmount` ARK) to play for ARK:
+ * the call returns once the house has joined that escrow.
+ */
+export async function startBotMatch(
+  wallet: string,
+  gameId: string,
+  difficulty: BotDifficulty,
+  stake?: { stakeAmount: number; escrowId: bigint },
+  format: MatchFormat = DEFAULT_FORMAT
+): Promise<BotMatch> {
+  const response = await fetch(`${baseUrl()}/api/bots/match`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      wallet,
+      gameId,
+      difficulty,
+      ...formatFields(format),
+      ...(stake ? { stakeAmount: stake.stakeAmount, escrowId: stake.escrowId.toString() } : {})
+    })
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(`Bot match failed: ${body?.error ?? `HTTP ${response.status}`}`);
+  }
+  return response.json();
+}
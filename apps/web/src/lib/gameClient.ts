@@ -3,42 +3,123 @@
  * Manages real-time game communication between players
  */
 
+import type { BSPlacement, BSView, CheckersPiece, ChessPiece, MemoryView, ReactionView, TriviaView } from "@spark/shared/src/rules";
+
 export interface GameMove {
   position: number;
   player?: string;
   timestamp?: string;
 }
 
+/**
+ * Best-of-N scoreboard; a single game is a series with `bestOf: 1`.
+ * `game` is the game in progress (or the last one played once the series is over).
+ */
+export interface SeriesData {
+  bestOf: number;
+  game: number;
+  wins: { a: number; b: number };
+  results: Array<{ winner: "a" | "b" | null; reason: string }>;
+}
+
 export interface GameEndData {
   winner: string | null;
   reason: string;
   isDraw?: boolean;
-  winnerSide?: "a" | "b";
+  winnerSide?: "a" | "b" | null;
+  series?: SeriesData;
 }
 
 export interface GameWebSocketCallbacks {
   onOpponentMove?: (move: GameMove) => void;
   onGameEnd?: (data: GameEndData) => void;
+  // One game of a series ended and the next starts shortly (the series itself ends with onGameEnd)
+  onSeriesGameEnd?: (data: GameEndData) => void;
   onError?: (error: Error) => void;
   onOpen?: () => void;
   onClose?: () => void;
-  onStart?: (data: { startAt: number; current: "a" | "b"; side: "a" | "b" }) => void;
-  onState?: (data: { board: Array<"X"|"O"|null> | Array<"red"|"yellow"|null>; current: "a"|"b"; timestamp: number }) => void;
-  onRpsReveal?: (data: { round: number; aChoice: "rock"|"paper"|"scissors"; bChoice: "rock"|"paper"|"scissors"; winnerSide: "a"|"b"|null }) => void;
+  onStart?: (data: { startAt: number; current: "a" | "b"; side: "a" | "b"; deadline?: number; timestamp?: number; series?: SeriesData; variant?: MatchVariant; ticket?: string }) => void;
+  onState?: (data: GameStateData) => void;
+  onRpsReveal?: (data: { round: number; aChoice: RpsChoice | null; bChoice: RpsChoice | null; winnerSide: "a"|"b"|null; timedOut?: boolean }) => void;
+  onOpponentDisconnected?: (data: { side: "a" | "b"; reconnectWithinMs: number; timestamp: number }) => void;
+  onOpponentReconnected?: () => void;
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+}
+
+export type RpsChoice = "rock" | "paper" | "scissors" | "lizard" | "spock";
+
+/** The match's rule variant (see VARIANTS in @spark/shared); `target` is the RPS round wins needed */
+export interface MatchVariant {
+  id: string;
+  target: number | null;
 }
 
+/**
+ * Authoritative room snapshot pushed by the server.
+ * `deadline` is the server's turn/round expiry and `timestamp` the server time the
+ * snapshot was taken, so `deadline - timestamp` is the time left regardless of clock skew.
+ */
+export interface GameStateData {
+  board?: Array<"X"|"O"|null> | Array<"red"|"yellow"|null> | Array<ChessPiece|null> | Array<CheckersPiece|null>;
+  current: "a" | "b";
+  deadline?: number;
+  timestamp: number;
+  round?: number;
+  // Connect Four: rounds allowed before a full grid ends the game in a draw, and the grid size
+  maxRounds?: number;
+  cols?: number;
+  rows?: number;
+  scores?: { a: number; b: number };
+  // Set while a seat is empty; the clock is frozen with `remainingMs` left
+  paused?: boolean;
+  remainingMs?: number;
+  chosen?: { a: boolean; b: boolean };
+  // Chess: position as FEN, the side playing white, the last UCI move and whether the side to move is in check
+  fen?: string;
+  white?: "a" | "b";
+  lastMove?: string | null;
+  check?: boolean;
+  // Checkers: the side playing dark (it moved first) and the squares of the last move
+  dark?: "a" | "b";
+  lastPath?: number[] | null;
+  // Battleship: this player's own view only (the opponent's fleet stays on the server until the end)
+  battleship?: BSView;
+  // Trivia: the question being asked (without its answer), the scores and the last reveal
+  trivia?: TriviaView;
+  // Memory: faces of the cards that are face up or taken (the deck stays on the server)
+  memory?: MemoryView;
+  // Reaction duel: round, phase (ready / go / result), scores and the last round's result with both times
+  reaction?: ReactionView;
+  series?: SeriesData;
+}
+
+// Close codes the server uses when this socket must not come back
+const CLOSE_REPLACED = 4001; // same wallet connected from elsewhere
+const CLOSE_REJECTED = 4003; // missing/invalid/expired ticket or not a participant
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 8000;
+const RECONNECT_MAX_ATTEMPTS = 8;
+
 /**
  * Create and manage a game WebSocket connection
+ * Reconnects automatically with exponential backoff until the game ends or close() is called
  */
 export class GameWebSocketClient {
   private ws: WebSocket | null = null;
   private callbacks: GameWebSocketCallbacks;
   private matchId: string;
   private wsUrl: string;
+  private ticket: string;
+  private closedByUser = false;
+  private gameOver = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(matchId: string, wsUrl: string, callbacks: GameWebSocketCallbacks = {}) {
+  constructor(matchId: string, wsUrl: string, ticket: string, callbacks: GameWebSocketCallbacks = {}) {
     this.matchId = matchId;
     this.wsUrl = wsUrl;
+    this.ticket = ticket;
     this.callbacks = callbacks;
   }
 
@@ -46,48 +127,10 @@ export class GameWebSocketClient {
    * Connect to the game WebSocket server
    */
   connect(): Promise<void> {
+    this.closedByUser = false;
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(`${this.wsUrl}/game/${this.matchId}`);
-
-        this.ws.onopen = () => {
-          console.log("Game WebSocket connected:", this.matchId);
-          this.callbacks.onOpen?.();
-          resolve();
-        };
-
-        this.ws.onmessage = (event) => {
-          try {
-            const msg = JSON.parse(event.data);
-            console.log("Game message received:", msg);
-
-            if (msg.event === "opponent_move") {
-              this.callbacks.onOpponentMove?.(msg.data);
-            } else if (msg.event === "game_end") {
-              this.callbacks.onGameEnd?.(msg.data);
-            } else if (msg.event === "start") {
-              this.callbacks.onStart?.(msg.data);
-            } else if (msg.event === "state") {
-              this.callbacks.onState?.(msg.data);
-            } else if (msg.event === "rps_reveal") {
-              this.callbacks.onRpsReveal?.(msg.data);
-            }
-          } catch (error) {
-            console.error("Error parsing game message:", error);
-            this.callbacks.onError?.(error as Error);
-          }
-        };
-
-        this.ws.onerror = (error) => {
-          console.error("Game WebSocket error:", error);
-          this.callbacks.onError?.(new Error("WebSocket error"));
-          reject(error);
-        };
-
-        this.ws.onclose = () => {
-          console.log("Game WebSocket closed");
-          this.callbacks.onClose?.();
-        };
+        this.open(resolve, reject);
 
         // Timeout after 5 seconds
         setTimeout(() => {
@@ -101,6 +144,77 @@ export class GameWebSocketClient {
     });
   }
 
+  private open(onOpen?: () => void, onFail?: (error: unknown) => void) {
+    // Seats are claimed with the signed ticket issued by matchmaking (refreshed on every `start`)
+    const url = `${this.wsUrl}/game/${this.matchId}?ticket=${encodeURIComponent(this.ticket)}`;
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      console.log("Game WebSocket connected:", this.matchId);
+      this.reconnectAttempts = 0;
+      this.callbacks.onOpen?.();
+      onOpen?.();
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        const msg = JSON.parse(event.data);
+        console.log("Game message received:", msg);
+
+        if (msg.event === "opponent_move") {
+          this.callbacks.onOpponentMove?.(msg.data);
+        } else if (msg.event === "game_end") {
+          this.gameOver = true;
+          this.callbacks.onGameEnd?.(msg.data);
+        } else if (msg.event === "series_game_end") {
+          this.callbacks.onSeriesGameEnd?.(msg.data);
+        } else if (msg.event === "start") {
+          if (msg.data?.ticket) this.ticket = msg.data.ticket;
+          this.callbacks.onStart?.(msg.data);
+        } else if (msg.event === "state") {
+          this.callbacks.onState?.(msg.data);
+        } else if (msg.event === "rps_reveal") {
+          this.callbacks.onRpsReveal?.(msg.data);
+        } else if (msg.event === "opponent_disconnected") {
+          this.callbacks.onOpponentDisconnected?.(msg.data);
+        } else if (msg.event === "opponent_reconnected") {
+          this.callbacks.onOpponentReconnected?.();
+        }
+      } catch (error) {
+        console.error("Error parsing game message:", error);
+        this.callbacks.onError?.(error as Error);
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error("Game WebSocket error:", error);
+      this.callbacks.onError?.(new Error("WebSocket error"));
+      onFail?.(error);
+    };
+
+    ws.onclose = (event) => {
+      console.log("Game WebSocket closed");
+      if (this.ws === ws) this.ws = null;
+      this.callbacks.onClose?.();
+      if (event.code === CLOSE_REPLACED || event.code === CLOSE_REJECTED) return;
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.closedByUser || this.gameOver || this.reconnectTimer) return;
+    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) return;
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts += 1;
+    this.callbacks.onReconnecting?.(this.reconnectAttempts, delay);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.closedByUser || this.gameOver) return;
+      this.open();
+    }, delay);
+  }
+
   /**
    * Send a move to the opponent
    */
@@ -116,10 +230,98 @@ export class GameWebSocketClient {
     }));
   }
 
+  /**
+   * Pop one of our tokens out of the bottom of column `col` (Connect Four, Pop Out variant)
+   */
+  sendPop(col: number): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.error("WebSocket not connected");
+      return;
+    }
+
+    this.ws.send(JSON.stringify({
+      action: "move",
+      position: col,
+      pop: true
+    }));
+  }
+
+  /**
+   * Send a chess move in UCI notation ("e2e4", "e7e8q")
+   */
+  sendChessMove(uci: string): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.error("WebSocket not connected");
+      return;
+    }
+
+    this.ws.send(JSON.stringify({
+      action: "move",
+      uci
+    }));
+  }
+
+  /**
+   * Send a checkers move: every square the piece visits, so a whole jump chain goes in one move
+   */
+  sendCheckersMove(path: number[]): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.error("WebSocket not connected");
+      return;
+    }
+
+    this.ws.send(JSON.stringify({
+      action: "move",
+      path
+    }));
+  }
+
+  /**
+   * Battleship setup: place the whole fleet, one placement per ship in BS_FLEET order
+   */
+  sendFleet(fleet: BSPlacement[]): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.error("WebSocket not connected");
+      return;
+    }
+
+    this.ws.send(JSON.stringify({
+      action: "place",
+      fleet
+    }));
+  }
+
+  /**
+   * Trivia: answer the current question with the index of a choice (the server times it)
+   */
+  sendAnswer(choice: number): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.error("WebSocket not connected");
+      return;
+    }
+
+    this.ws.send(JSON.stringify({
+      action: "answer",
+      choice
+    }));
+  }
+
+  /**
+   * Reaction duel: tap (the server times it against GO and this connection's latency)
+   */
+  sendTap(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      console.error("WebSocket not connected");
+      return;
+    }
+
+    this.ws.send(JSON.stringify({ action: "tap" }));
+  }
+
   /**
    * Send a Rock-Paper-Scissors choice
    */
-  sendChoice(choice: "rock" | "paper" | "scissors"): void {
+  sendChoice(choice: RpsChoice): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       console.error("WebSocket not connected");
       return;
@@ -151,6 +353,11 @@ export class GameWebSocketClient {
    * Close the WebSocket connection
    */
   close(): void {
+    this.closedByUser = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.ws) {
       this.ws.close();
       this.ws = null;
@@ -165,51 +372,17 @@ export class GameWebSocketClient {
   }
 }
 
-/**
- * Submit match result to backend
- */
-export async function submitMatchResult(
-  apiUrl: string,
-  matchId: string,
-  winnerWallet: string | null,
-  loserWallet: string | null,
-  result: "win" | "loss" | "draw",
-  durationSec: number
-): Promise<void> {
-  try {
-    const response = await fetch(`${apiUrl}/api/match/result`, {
-      method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify({
-        matchId,
-        winnerWallet,
-        loserWallet,
-        result,
-        durationSec
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to submit match result: ${response.statusText}`);
-    }
-
-    console.log("Match result submitted successfully");
-  } catch (error) {
-    console.error("Error submitting match result:", error);
-    throw error;
-  }
-}
-
 /**
  * Hook-like function to create a game WebSocket client
  * Returns the client instance that can be used to send moves
  */
 export function createGameClient(
   matchId: string,
+  ticket: string,
   callbacks: GameWebSocketCallbacks = {}
 ): GameWebSocketClient {
   const apiUrl = (import.meta as any).env?.VITE_API_URL || "http://localhost:3000";
   const wsUrl = apiUrl.replace("http", "ws");
   
-  return new GameWebSocketClient(matchId, wsUrl, callbacks);
+  return new GameWebSocketClient(matchId, wsUrl, ticket, callbacks);
 }
@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import { useAccount, useReadContract, useSimulateContract, useWriteContract, usePublicClient } from "wagmi";
 import { parseUnits, decodeEventLog } from "viem";
 import { ABI, ADDR } from "./contracts";
@@ -69,12 +70,86 @@ export function useEnsureArkAllowance() {
   };
 }
 
-/** create match, return {escrowId, txHash} */
+/**
+ * Where the stake of an escrow we created stands: locked (waiting for an opponent, not
+ * cancellable yet), reclaimable (CANCEL_TIMEOUT passed, cancel() returns it), reclaiming,
+ * or done one way or another (joined / settled / refunded).
+ */
+export type ReclaimStatus = "idle" | "locked" | "reclaimable" | "reclaiming" | "joined" | "settled" | "refunded";
+
+/** Reclaim status of escrow `escrowId` (polled) plus reclaim(), which cancels it on-chain */
+export function useEscrowReclaim(escrowId?: bigint) {
+  const pub = usePublicClient();
+  const { writeContractAsync } = useWriteContract();
+  const [reclaiming, setReclaiming] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const match = useReadContract({
+    address: ADDR.ESCROW, abi: ABI.ESCROW as any, functionName: "matches",
+    args: escrowId !== undefined ? [escrowId] : undefined,
+    query: { enabled: escrowId !== undefined, refetchInterval: 15_000 }
+  });
+  const timeout = useReadContract({ address: ADDR.ESCROW, abi: ABI.ESCROW as any, functionName: "CANCEL_TIMEOUT" });
+  useEffect(() => {
+    if (escrowId === undefined) return;
+    const t = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(t);
+  }, [escrowId]);
+
+  // matches(id) = (p1, p2, stake, state, winner, createdAt, joinedAt)
+  const m = match.data as readonly [string, string, bigint, number, string, bigint, bigint] | undefined;
+  const reclaimableAt = m && timeout.data !== undefined ? Number(m[5]) + Number(timeout.data as bigint) : undefined;
+  let status: ReclaimStatus = "idle";
+  if (escrowId !== undefined && m) {
+    const state = Number(m[3]);
+    if (reclaiming) status = "reclaiming";
+    else if (state === 3) status = "refunded";
+    else if (state === 2) status = "settled";
+    else if (state === 1) status = "joined";
+    else status = reclaimableAt !== undefined && now >= reclaimableAt ? "reclaimable" : "locked";
+  }
+
+  const reclaim = async () => {
+    if (!pub) throw new Error("Public client not ready");
+    if (escrowId === undefined) throw new Error("No escrow to reclaim");
+    setReclaiming(true);
+    try {
+      const txHash = await writeContractAsync({ address: ADDR.ESCROW, abi: ABI.ESCROW as any, functionName: "cancel", args: [escrowId] });
+      await pub.waitForTransactionReceipt({ hash: txHash });
+      await match.refetch();
+      return txHash;
+    } finally {
+      setReclaiming(false);
+    }
+  };
+
+  return {
+    status,
+    stakeWei: m?.[2],
+    secondsLeft: reclaimableAt !== undefined ? Math.max(0, reclaimableAt - now) : undefined,
+    reclaim
+  };
+}
+
+export type EscrowReclaim = ReturnType<typeof useEscrowReclaim>;
+
+const lastEscrowKey = (address: string) => `spark:lastEscrow:${address.toLowerCase()}`;
+
+/**
+ * create match, return {escrowId, txHash}. The returned function also carries the last escrow
+ * this wallet created (`escrowId`, kept across reloads) and its `reclaim` status/action.
+ */
 export function useCreateMatch() {
   const pub = usePublicClient();
   const { address } = useAccount();
   const { writeContractAsync } = useWriteContract();
-  return async (stakeWei: bigint) => {
+  const [lastEscrowId, setLastEscrowId] = useState<bigint | undefined>();
+  const reclaim = useEscrowReclaim(lastEscrowId);
+  useEffect(() => {
+    const saved = address ? localStorage.getItem(lastEscrowKey(address)) : null;
+    setLastEscrowId(saved ? BigInt(saved) : undefined);
+  }, [address]);
+
+  const create = async (stakeWei: bigint) => {
     if (!pub) throw new Error("Public client not ready");
     if (!address) throw new Error("Wallet not connected");
 
@@ -112,8 +187,11 @@ export function useCreateMatch() {
       const nid = await pub.readContract({ address: ADDR.ESCROW, abi: ABI.ESCROW as any, functionName: "nextId", args: [] }) as bigint;
       escrowId = nid - 1n;
     }
+    localStorage.setItem(lastEscrowKey(address), escrowId.toString());
+    setLastEscrowId(escrowId);
     return { escrowId, txHash };
   };
+  return Object.assign(create, { escrowId: lastEscrowId, reclaim });
 }
 
 export function useJoinMatch() {
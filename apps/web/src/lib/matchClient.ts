@@ -3,24 +3,18 @@ import { ABI, ADDR } from "./contracts";
 import { tryBatch } from "./batch";
 
 /**
- * Stake ARK tokens and join matchmaking queue
- * 
- * This function handles the complete flow for staking:
+ * Deposit a stake into a new escrow match
+ *
  * 1. Attempts to batch approve + createMatch (if wallet supports it)
  * 2. Falls back to sequential approve -> createMatch
- * 3. Sends WebSocket join message with escrowId
- * 
+ *
  * @param stakeStr - Stake amount as string (e.g., "50")
- * @param p1Wallet - Player 1 wallet address
- * @param ws - WebSocket connection to matchmaking server
  * @param approveArk - Hook function for approving ARK tokens
  * @param createMatch - Hook function for creating match on escrow
  * @returns Promise with escrowId
  */
-export async function stakeAndQueue(
+export async function stakeEscrow(
   stakeStr: string,
-  p1Wallet: `0x${string}`,
-  ws: WebSocket,
   approveArk: (amountWei: bigint) => Promise<any>,
   createMatch: (stakeWei: bigint) => Promise<{ escrowId: bigint; txHash: `0x${string}` }>
 ) {
@@ -49,7 +43,7 @@ export async function stakeAndQueue(
   const batched = await tryBatch(calls);
 
   let escrowId: bigint;
-  
+
   if (batched.ok) {
     // NOTE: Batch transaction sent successfully
     // However, we need to get the escrowId that was created
@@ -72,15 +66,83 @@ export async function stakeAndQueue(
     escrowId = result.escrowId;
   }
 
+  return { escrowId };
+}
+
+/**
+ * What a player queues for besides the game itself; matchmaking only pairs equal formats
+ */
+export interface MatchFormat {
+  bestOf: number; // series length: 1, 3 or 5 games
+  variant: string; // rule variant id (see VARIANTS in @spark/shared)
+  target?: number; // RPS: round wins needed, one of the variant's targets
+}
+
+export const DEFAULT_FORMAT: MatchFormat = { bestOf: 1, variant: "" };
+
+/**
+ * Where a search stands: sent by the matchmaking socket as `queue_update` every few seconds
+ * and as `queue_status` in answer to { action: "status" }
+ */
+export interface QueueStatus {
+  queued: boolean;
+  position?: number; // 1-based, in join order
+  searching?: number; // players searching with the same game, stake and format
+  waitedMs?: number;
+  estimatedWaitMs?: number | null; // null: no opponent expected before the timeout
+  timeoutInMs?: number;
+  xpBand?: number; // XP difference currently accepted either way; widens while waiting
+  cancelToken?: string; // for POST /api/matchmaking/cancel, sent only to the searching socket
+}
+
+/** Join message / request body fields for `format`; an empty variant means the game's default */
+export function formatFields(format: MatchFormat) {
+  return {
+    bestOf: format.bestOf,
+    ...(format.variant ? { variant: format.variant } : {}),
+    ...(format.target !== undefined ? { target: format.target } : {})
+  };
+}
+
+/**
+ * Stake ARK tokens and join matchmaking queue
+ * 
+ * This function handles the complete flow for staking:
+ * 1. Deposits the stake into a new escrow (see stakeEscrow)
+ * 2. Sends WebSocket join message with escrowId
+ * 
+ * @param stakeStr - Stake amount as string (e.g., "50")
+ * @param p1Wallet - Player 1 wallet address
+ * @param gameId - Game to queue for
+ * @param playerXP - The player's XP, for the matchmaking XP band
+ * @param ws - WebSocket connection to matchmaking server
+ * @param approveArk - Hook function for approving ARK tokens
+ * @param createMatch - Hook function for creating match on escrow
+ * @param format - Series length and rule variant
+ * @returns Promise with escrowId
+ */
+export async function stakeAndQueue(
+  stakeStr: string,
+  p1Wallet: `0x${string}`,
+  gameId: string,
+  playerXP: number,
+  ws: WebSocket,
+  approveArk: (amountWei: bigint) => Promise<any>,
+  createMatch: (stakeWei: bigint) => Promise<{ escrowId: bigint; txHash: `0x${string}` }>,
+  format: MatchFormat = DEFAULT_FORMAT
+) {
+  const { escrowId } = await stakeEscrow(stakeStr, approveArk, createMatch);
+
   // Send WebSocket join message with escrowId
   const joinMessage = {
     action: "join",
     wallet: p1Wallet,
-    gameId: "tictactoe",
+    gameId,
     playMode: "stake",
     stakeAmount: Number(stakeStr),
-    playerXP: 0, // TODO: Get actual player XP
-    escrowId: escrowId.toString()
+    playerXP,
+    escrowId: escrowId.toString(),
+    ...formatFields(format)
   };
   
   console.log("Sending join message to matchmaking:", joinMessage);
@@ -0,0 +1,78 @@
+/**
+ * Daily puzzles
+ * One puzzle per UTC day, the same for everyone: a Connect Four or Tic-Tac-Toe Infinity position
+ * with a forced win in a few moves. The board plays the defence locally with the shared solver
+ * (puzzleReply in @spark/shared), and each finished line is submitted to the server, which
+ * replays it with the same rules and records attempts and solve time per wallet.
+ */
+
+import type { Puzzle } from "@spark/shared/src/rules";
+
+export interface PuzzleRun {
+  date: string;
+  startedAt: string;
+  attempts: number;
+  solved: boolean;
+  solveMs: number | null;
+}
+
+export interface PuzzleAttempt {
+  ok: boolean;
+  solved?: boolean;
+  reason: string;
+  replies?: number[];
+  run?: PuzzleRun;
+}
+
+export interface PuzzleLeaderboardEntry {
+  rank: number;
+  id: string;
+  name: string;
+  avatar: string;
+  tier: string;
+  attempts: number;
+  solveMs: number;
+}
+
+export interface PuzzleLeaderboard {
+  date: string;
+  players: number; // everyone who opened the puzzle
+  entries: PuzzleLeaderboardEntry[];
+}
+
+const baseUrl = () => (import.meta as any).env?.VITE_API_URL || "http://localhost:3000";
+
+/** A day's puzzle (today by default), without starting a run */
+export async function fetchDailyPuzzle(date?: string): Promise<{ today: string; puzzle: Puzzle }> {
+  const response = await fetch(`${baseUrl()}/api/puzzles/daily${date ? `?date=${date}` : ""}`);
+  if (!response.ok) throw new Error(`Puzzle failed: HTTP ${response.status}`);
+  return response.json();
+}
+
+/** Open today's puzzle for `wallet`; the solve time runs from the first call of the day */
+export async function startDailyPuzzle(wallet: string): Promise<{ puzzle: Puzzle; run: PuzzleRun }> {
+  const response = await fetch(`${baseUrl()}/api/puzzles/daily/start`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ wallet })
+  });
+  if (!response.ok) throw new Error(`Puzzle start failed: HTTP ${response.status}`);
+  return response.json();
+}
+
+/** Submit a finished line (the solver's moves only); 409s come back as `ok: false` with a reason */
+export async function submitPuzzleLine(wallet: string, date: string, moves: number[]): Promise<PuzzleAttempt> {
+  const response = await fetch(`${baseUrl()}/api/puzzles/daily/attempt`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ wallet, date, moves })
+  });
+  if (!response.ok && response.status !== 409) throw new Error(`Puzzle attempt failed: HTTP ${response.status}`);
+  return response.json();
+}
+
+export async function fetchPuzzleLeaderboard(date?: string): Promise<PuzzleLeaderboard> {
+  const response = await fetch(`${baseUrl()}/api/leaderboard/puzzles${date ? `?date=${date}` : ""}`);
+  if (!response.ok) throw new Error(`Puzzle leaderboard failed: HTTP ${response.status}`);
+  return response.json();
+}
@@ -14,24 +14,18 @@
  *    Events to receive:
  *    - "opponent_move": { position }
  *    - "game_end": { winner, reason }
+ *    - "escrow_pending": { matchId } (staked: "start" only follows once the
+ *      opponent's joinMatch is confirmed on-chain)
  * 
  * 2. Game State Management:
  *    - Store game state in backend
  *    - Validate moves server-side (prevent cheating)
  *    - Handle disconnections (timeout = forfeit)
  * 
- * 3. Match Result Submission:
- *    POST /api/match/result
- *    Body: {
- *      matchId: "{{match_id}}",
- *      winner: "{{player_id}}",
- *      loser: "{{player_id}}",
- *      arkTransferred: {{amount}},
- *      xpChanges: {
- *        winner: {{xp_gained}},
- *        loser: {{xp_lost}}
- *      }
- *    }
+ * 3. Match Result Finalization:
+ *    - The game server records the result when the room ends (win, draw,
+ *      timeout, forfeit, disconnect): Match row, XP/tier, escrow settle
+ *    - Clients never submit results; POST /api/match/result is admin-only
  * 
  * 4. Smart Contract Integration:
  *    - If staked match: Transfer ARK from loser to winner
@@ -39,9 +33,18 @@
  *    - Update player NFT badges if tier changed
  * 
  * GAME LOGIC:
- * - Tic-Tac-Toe: Simple board game (3x3 grid)
- * - Chess: Can use chess.js library for move validation
- * - Both games should be validated server-side
+ * - Tic-Tac-Toe, Connect Four, RPS, Chess, Checkers, Battleship, Trivia, Memory and Reaction rules come from
+ *   @spark/shared, the same engine the game server validates moves with
+ * - AI opponents are bots seated by the game server (POST /api/bots/match), so AI
+ *   games use the same WebSocket, rules, clock and result recording as multiplayer
+ * - Chess moves are sent as UCI strings ("e2e4", "e7e8q"); the server replies with the FEN
+ * - Checkers moves are sent as the path of squares the piece visits, so a jump chain is one move
+ * - Battleship is hidden information: each player only receives their own view of the game
+ * - Trivia questions come from the server's question bank; answers are timed by the server and the
+ *   right one is only sent with the reveal
+ * - Memory cards are flipped with a card index; the server only sends faces of cards that are face up
+ * - Reaction taps carry no timing: the server times them against GO, corrected for each socket's
+ *   latency (measured with WebSocket ping/pong frames the browser answers itself), and hides when GO will come
  * 
  * PLACEHOLDER PATTERNS:
  * - {{opponent_name}}: Opponent username
@@ -52,7 +55,7 @@
  * ============================================================================
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Badge } from "../components/ui/badge";
@@ -73,7 +76,28 @@ import { Game, calculateXPChange } from "../types";
 import { motion, AnimatePresence } from "motion/react";
 import { useWallet } from "../context/WalletContext";
 import { useAccount } from "wagmi";
-import { GameWebSocketClient, createGameClient, submitMatchResult } from "../lib/gameClient";
+import { GameWebSocketClient, GameStateData, SeriesData, MatchVariant, RpsChoice, createGameClient } from "../lib/gameClient";
+import {
+  chess, c4DropRow, chessFromFen, chessInCheck, chessColorOf, pieceColor, squareName, squareIndex, getVariant,
+  checkers, checkersColorOf, checkersPieceColor, isKing, isCapture,
+  BS_FLEET, BS_SIZE, bsShipCells, bsRandomFleet, type BSView, type BSPlacement, type TriviaView, type MemoryView, type ReactionView,
+  type Side, type ChessState, type ChessPiece, type C4State, type GameId, type CheckersState, type CheckersPiece
+} from "@spark/shared/src/rules";
+
+// Memory card faces by pair id (the large deck has 18 pairs)
+const MEMORY_FACES = ["🍎", "🚀", "⭐", "🎲", "🐱", "🌵", "🎈", "🍕", "⚽", "🎸", "🐙", "🌙", "🔥", "💎", "🍩", "🦊", "🎯", "🌈"];
+
+// Solid glyphs for both colors; the piece color comes from styling
+const CHESS_GLYPHS: Record<string, string> = { k: "♚", q: "♛", r: "♜", b: "♝", n: "♞", p: "♟" };
+
+// Rock Paper Scissors picks: glyph and button colors
+const RPS_PICKS: Record<RpsChoice, { glyph: string; color: string }> = {
+  rock: { glyph: "✊", color: "from-pink-500 to-pink-600 hover:from-pink-600 hover:to-pink-700" },
+  paper: { glyph: "✋", color: "from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700" },
+  scissors: { glyph: "✌️", color: "from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700" },
+  lizard: { glyph: "🦎", color: "from-green-500 to-green-600 hover:from-green-600 hover:to-green-700" },
+  spock: { glyph: "🖖", color: "from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700" },
+};
 
 interface GamePageProps {
   game: Game;
@@ -84,7 +108,10 @@ interface GamePageProps {
   escrowId?: string;
   opponentWallet?: string;
   role?: "p1" | "p2";
+  ticket?: string;
   opponentType?: "player" | "ai";
+  opponentName?: string;
+  botDifficulty?: "easy" | "medium" | "hard";
 }
 
 export function GamePage({ 
@@ -96,11 +123,16 @@ export function GamePage({
   escrowId,
   opponentWallet,
   role,
-  opponentType = "ai"
+  ticket,
+  opponentType = "ai",
+  opponentName: botName,
+  botDifficulty
 }: GamePageProps) {
   const { xp, addXP, refreshArkBalance } = useWallet();
   const { address } = useAccount();
-  const [turnTime, setTurnTime] = useState(30); // 30 seconds per turn
+  // 30 seconds per turn (60 per chess move)
+  const turnSeconds = game.name === "Chess" ? 60 : 30;
+  const [turnTime, setTurnTime] = useState(turnSeconds);
   const [gameState, setGameState] = useState<"playing" | "finished">("playing");
   const [winner, setWinner] = useState<"player" | "opponent" | "draw" | null>(null);
   const [earnedARK, setEarnedARK] = useState(0);
@@ -110,11 +142,29 @@ export function GamePage({
   const [showExitDialog, setShowExitDialog] = useState(false);
   const [gameClient, setGameClient] = useState<GameWebSocketClient | null>(null);
   const [gameStartTime] = useState(Date.now());
-  const [started, setStarted] = useState(opponentType !== "player");
+  const [started, setStarted] = useState(false);
   const [pendingWinnerSide, setPendingWinnerSide] = useState<"a"|"b"|null>(null);
+  // Server turn deadline translated to local clock (multiplayer only)
+  const turnDeadlineRef = useRef<number | null>(null);
+  // Reconnect state: our own socket retrying, or the room paused waiting for the opponent
+  const [reconnecting, setReconnecting] = useState(false);
+  const [roomPaused, setRoomPaused] = useState(false);
+  const [opponentGraceSec, setOpponentGraceSec] = useState<number | null>(null);
+  // Best-of-N scoreboard from the server, and the result banner shown between two games
+  const [series, setSeries] = useState<SeriesData | null>(null);
+  const [seriesNotice, setSeriesNotice] = useState<string | null>(null);
+  const seriesGameRef = useRef(1);
+  // Rule variant of the match (from `start`); boards, picks and rules text follow its definition
+  const [matchVariant, setMatchVariant] = useState<MatchVariant | null>(null);
+  const variantDef = getVariant(game.id as GameId, matchVariant?.id) ?? getVariant(game.id as GameId);
+  const variantOptions = { target: matchVariant?.target ?? undefined };
+  const variantRules = variantDef?.create(variantOptions);
+  const variantRulesText = variantDef ? `${variantDef.name}: ${variantDef.rules(variantOptions).join(". ")}.` : "";
 
   // Multiplayer side and role mapping
   const [side, setSide] = useState<"a" | "b" | null>(null);
+  // Socket callbacks are created once per connection, so they read the side through a ref
+  const sideRef = useRef<"a" | "b" | null>(null);
   const playerSymbol: "X" | "O" = side ? (side === "a" ? "X" : "O") : (role === "p2" ? "O" : "X");
   const opponentSymbol: "X" | "O" = playerSymbol === "X" ? "O" : "X";
   const playerColor: "red" | "yellow" = side ? (side === "a" ? "red" : "yellow") : (role === "p2" ? "yellow" : "red");
@@ -127,18 +177,41 @@ export function GamePage({
   const [opponentMoves, setOpponentMoves] = useState<number[]>([]); // Track O moves order
   const [fadingCell, setFadingCell] = useState<number | null>(null); // Cell being removed
 
-  // Chess state (simplified - use chess.js in production)
+  // Chess state: the rendered position, UCI move list, selected square and a pending promotion
+  const [chessBoardState, setChessBoardState] = useState<ChessState>(chess.initialState("a"));
   const [chessMoves, setChessMoves] = useState<string[]>([]);
   const [selectedPiece, setSelectedPiece] = useState<number | null>(null);
+  const [chessPromotion, setChessPromotion] = useState<{ from: number; to: number } | null>(null);
+
+  // Checkers state: the rendered position and the squares picked so far for the next move
+  const [checkersState, setCheckersState] = useState<CheckersState>(checkers.initialState("a"));
+  const [checkersPath, setCheckersPath] = useState<number[]>([]);
+
+  // Battleship state: our view from the server, plus the fleet being laid out during setup
+  const [bsView, setBsView] = useState<(BSView & { current?: Side }) | null>(null);
+  const [bsPlacements, setBsPlacements] = useState<BSPlacement[]>([]);
+  const [bsVertical, setBsVertical] = useState(false);
+
+  // Trivia state: our view from the server (question, scores, last reveal)
+  const [triviaView, setTriviaView] = useState<TriviaView | null>(null);
+
+  // Memory state: the table as the server shows it, with whose turn it is
+  const [memView, setMemView] = useState<(MemoryView & { current?: Side }) | null>(null);
+
+  // Reaction state: the round as the server shows it, and the round we already tapped in
+  const [reactView, setReactView] = useState<ReactionView | null>(null);
+  const [reactTappedRound, setReactTappedRound] = useState<number | null>(null);
 
   // Connect Four state (7 columns x 6 rows)
-  const [c4Board, setC4Board] = useState<(string | null)[]>(Array(42).fill(null)); // 7x6 = 42 cells
+  const [c4Board, setC4Board] = useState<(string | null)[]>(Array(42).fill(null)); // 7x6 = 42 cells until the server says otherwise
+  const [c4Size, setC4Size] = useState({ cols: 7, rows: 6 });
   const [c4CurrentPlayer, setC4CurrentPlayer] = useState<"red" | "yellow">("red");
   const [c4DroppingToken, setC4DroppingToken] = useState<{ col: number; row: number } | null>(null);
   const [c4RoundCount, setC4RoundCount] = useState(1);
+  const [c4MaxRounds, setC4MaxRounds] = useState<number | null>(null);
 
   // Rock Paper Scissors state
-  type RPSChoice = "rock" | "paper" | "scissors" | null;
+  type RPSChoice = RpsChoice | null;
   const [rpsPlayerChoice, setRpsPlayerChoice] = useState<RPSChoice>(null);
   const [rpsOpponentChoice, setRpsOpponentChoice] = useState<RPSChoice>(null);
   const [rpsPlayerScore, setRpsPlayerScore] = useState(0);
@@ -149,10 +222,14 @@ export function GamePage({
   const [rpsWaitingForOpponent, setRpsWaitingForOpponent] = useState(false);
   const [pendingRpsReveal, setPendingRpsReveal] = useState<{
     round: number;
-    aChoice: "rock" | "paper" | "scissors";
-    bChoice: "rock" | "paper" | "scissors";
+    aChoice: RpsChoice | null;
+    bChoice: RpsChoice | null;
     winnerSide: "a" | "b" | null;
   } | null>(null);
+  // Latest authoritative RPS round/score; applied once any running reveal animation has finished
+  const rpsServerRef = useRef<GameStateData | null>(null);
+  const rpsRevealPendingRef = useRef(false);
+
 
   /**
    * Initialize opponent data
@@ -161,24 +238,23 @@ export function GamePage({
   useEffect(() => {
     // Set opponent name based on type
     if (opponentType === "ai") {
-      setOpponentName("AI Opponent");
-      setOpponentXP(800);
+      setOpponentName(botName ?? "AI Opponent");
     } else if (opponentWallet) {
       setOpponentName(opponentWallet.substring(0, 6) + "..." + opponentWallet.substring(38));
       setOpponentXP(800); // TODO: Fetch from backend
     }
-  }, [opponentType, opponentWallet]);
+  }, [opponentType, opponentWallet, botName]);
 
   /**
    * Initialize WebSocket connection for multiplayer games
    */
   useEffect(() => {
-    // Only connect WebSocket for multiplayer matches
-    if (opponentType !== "player" || !matchId) {
+    // Every game is played on the server: against another player or a server-hosted bot
+    if (!matchId || !ticket) {
       return;
     }
 
-    const client = createGameClient(matchId, {
+    const client = createGameClient(matchId, ticket, {
       onOpponentMove: (move) => {
         console.log("Opponent moved:", move);
         // Apply opponent's move based on game type
@@ -187,21 +263,29 @@ export function GamePage({
           // Only sync timer from this event if provided.
           if (move.timestamp) {
             const elapsed = Math.floor((Date.now() - new Date(move.timestamp).getTime()) / 1000);
-            setTurnTime(Math.max(0, 30 - elapsed));
+            setTurnTime(Math.max(0, turnSeconds - elapsed));
           }
         } else if (game.name === "Connect Four") {
           // C4 is fully server-authoritative; ignore local opponent_move and wait for state
           if (move.timestamp) {
             const elapsed = Math.floor((Date.now() - new Date(move.timestamp).getTime()) / 1000);
-            setTurnTime(Math.max(0, 30 - elapsed));
+            setTurnTime(Math.max(0, turnSeconds - elapsed));
           }
         } else if (game.name === "Rock Paper Scissors") {
           // RPS moves handled differently
           console.log("RPS opponent move:", move);
         }
       },
+      onSeriesGameEnd: (data) => {
+        if (data.series) setSeries(data.series);
+        const mySide = sideRef.current;
+        const result = data.isDraw ? "Draw" : data.winnerSide === mySide ? "You won" : "Opponent won";
+        setSeriesNotice(`Game ${data.series?.game ?? ""}: ${result} - next game starting...`);
+      },
       onGameEnd: (data) => {
         console.log("Game ended from server:", data);
+        if (data.series) setSeries(data.series);
+        setSeriesNotice(null);
         // Handle game end from server
         if (data.isDraw) {
           handleGameEnd("draw");
@@ -220,21 +304,43 @@ export function GamePage({
       },
       onStart: (data) => {
         console.log("Game start:", data);
+        if (data.series) {
+          setSeries(data.series);
+          seriesGameRef.current = data.series.game;
+        }
+        if (data.variant) setMatchVariant(data.variant);
         // Record our assigned side for symbol/color mapping
-        if (data.side === "a" || data.side === "b") setSide(data.side);
+        if (data.side === "a" || data.side === "b") {
+          setSide(data.side);
+          sideRef.current = data.side;
+        }
         // Set turn based on who starts per server (a => X/red, b => O/yellow)
         setTttCurrentPlayer(data.current === "a" ? "X" : "O");
         setC4CurrentPlayer(data.current === "a" ? "red" : "yellow");
         setStarted(true);
-        if (data.startAt) {
+        if (data.deadline && data.timestamp) {
+          syncTurnTimer(data.deadline, data.timestamp);
+        } else if (data.startAt) {
           const elapsed = Math.floor((Date.now() - data.startAt) / 1000);
-          setTurnTime(Math.max(0, 30 - elapsed));
+          setTurnTime(Math.max(0, turnSeconds - elapsed));
         } else {
           resetTurnTimer();
         }
       },
       onState: (data) => {
         // Full authoritative state from server
+        if (data.series) {
+          setSeries(data.series);
+          // Next game of the series: clear what only belonged to the previous one
+          if (data.series.game !== seriesGameRef.current) {
+            seriesGameRef.current = data.series.game;
+            setSeriesNotice(null);
+            setChessMoves([]);
+            setSelectedPiece(null);
+            setC4RoundCount(1);
+            setBsPlacements([]);
+          }
+        }
         if (game.name === "Tic-Tac-Toe") {
           const srvBoard = data.board as ("X"|"O"|null)[];
           setTttBoard(srvBoard);
@@ -254,12 +360,45 @@ export function GamePage({
           const srvBoard = data.board as ("red"|"yellow"|null)[];
           setC4Board(srvBoard);
           setC4DroppingToken(null);
+          if (data.round) setC4RoundCount(data.round);
+          if (data.maxRounds) setC4MaxRounds(data.maxRounds);
+          if (data.cols && data.rows) setC4Size({ cols: data.cols, rows: data.rows });
           setC4CurrentPlayer(data.current === "a" ? "red" : "yellow");
+        } else if (game.name === "Chess" && data.fen) {
+          // Rebuild the position from the server's FEN; the engine is only used for move hints here
+          const next = chessFromFen(data.fen, data.white ?? "a");
+          setChessBoardState({ ...next, lastMove: data.lastMove ?? null });
+          setSelectedPiece(null);
+          setChessPromotion(null);
+          if (data.lastMove) setChessMoves((m: string[]) => (m[m.length - 1] === data.lastMove ? m : [...m, data.lastMove!]));
+        } else if (game.name === "Checkers" && data.dark && data.board) {
+          // Only the board and turn matter for move hints; the server keeps the draw counter
+          setCheckersState({
+            ...checkers.initialState(data.dark),
+            board: data.board as CheckersState["board"],
+            turn: data.current,
+            lastMove: data.lastPath ?? null
+          });
+          setCheckersPath([]);
+        } else if (game.name === "Battleship" && data.battleship) {
+          setBsView({ ...data.battleship, current: data.current });
+        } else if (game.name === "Trivia Duel" && data.trivia) {
+          setTriviaView(data.trivia);
+        } else if (game.name === "Memory Duel" && data.memory) {
+          setMemView({ ...data.memory, current: data.current });
+        } else if (game.name === "Reaction Duel" && data.reaction) {
+          setReactView(data.reaction);
+        } else if (game.name === "Rock Paper Scissors" && data.scores) {
+          rpsServerRef.current = data;
+          if (!rpsRevealPendingRef.current) applyRpsServerState();
         }
-        // Timer sync from server timestamp for any board game
-        if (data.timestamp) {
-          const elapsed = Math.floor((Date.now() - data.timestamp) / 1000);
-          setTurnTime(Math.max(0, 30 - elapsed));
+        // Timer sync from the server-owned deadline (frozen while the room is paused)
+        setRoomPaused(!!data.paused);
+        if (!data.paused) setOpponentGraceSec(null);
+        if (data.paused && data.remainingMs !== undefined) {
+          setTurnTime(Math.max(0, Math.ceil(data.remainingMs / 1000)));
+        } else if (data.deadline) {
+          syncTurnTimer(data.deadline, data.timestamp);
         }
         setStarted(true);
       },
@@ -274,6 +413,7 @@ export function GamePage({
         setRpsOpponentChoice(oppChoice);
         setRpsRevealing(true);
         setRpsWaitingForOpponent(false);
+        rpsRevealPendingRef.current = true;
         // Determine round result from winnerSide
         let result: "win" | "lose" | "draw" = "draw";
         if (data.winnerSide === null) result = "draw";
@@ -282,25 +422,38 @@ export function GamePage({
         setTimeout(() => {
           setRpsRoundResult(result);
           // Update local scores to reflect server outcome
-          if (result === "win") setRpsPlayerScore((s) => s + 1);
-          else if (result === "lose") setRpsOpponentScore((s) => s + 1);
+          applyRpsRevealScores(data.round, result);
           // After short delay, either proceed to next round or wait for game_end
           setTimeout(() => {
-            setRpsCurrentRound((r) => r + 1);
+            rpsRevealPendingRef.current = false;
+            setRpsCurrentRound((r) => rpsServerRef.current?.round ?? r + 1);
             setRpsPlayerChoice(null);
             setRpsOpponentChoice(null);
             setRpsRoundResult(null);
             setRpsRevealing(false);
             setRpsWaitingForOpponent(false);
-            resetTurnTimer();
+            resumeServerTimer();
           }, 1500);
         }, 800);
       },
+      onOpponentDisconnected: (data) => {
+        // Room is paused server-side; the opponent forfeits if they don't return in time
+        setRoomPaused(true);
+        setOpponentGraceSec(Math.round(data.reconnectWithinMs / 1000));
+      },
+      onOpponentReconnected: () => {
+        setOpponentGraceSec(null);
+      },
+      onReconnecting: (attempt) => {
+        console.log("Reconnecting to game, attempt", attempt);
+        setReconnecting(true);
+      },
       onError: (error) => {
         console.error("Game WebSocket error:", error);
       },
       onOpen: () => {
         console.log("Game WebSocket connected");
+        setReconnecting(false);
       },
       onClose: () => {
         console.log("Game WebSocket disconnected");
@@ -318,7 +471,7 @@ export function GamePage({
     return () => {
       client.close();
     };
-  }, [matchId, opponentType, address, game.name]);
+  }, [matchId, ticket, opponentType, address, game.name]);
 
   // If we received a winnerSide before we knew our side, resolve once side becomes available
   useEffect(() => {
@@ -339,22 +492,23 @@ export function GamePage({
     setRpsOpponentChoice(oppChoice);
     setRpsRevealing(true);
     setRpsWaitingForOpponent(false);
+    rpsRevealPendingRef.current = true;
     let result: "win" | "lose" | "draw" = "draw";
     if (data.winnerSide === null) result = "draw";
     else if (data.winnerSide === side) result = "win";
     else result = "lose";
     setTimeout(() => {
       setRpsRoundResult(result);
-      if (result === "win") setRpsPlayerScore((s) => s + 1);
-      else if (result === "lose") setRpsOpponentScore((s) => s + 1);
+      applyRpsRevealScores(data.round, result);
       setTimeout(() => {
-        setRpsCurrentRound((r) => r + 1);
+        rpsRevealPendingRef.current = false;
+        setRpsCurrentRound((r) => rpsServerRef.current?.round ?? r + 1);
         setRpsPlayerChoice(null);
         setRpsOpponentChoice(null);
         setRpsRoundResult(null);
         setRpsRevealing(false);
         setRpsWaitingForOpponent(false);
-        resetTurnTimer();
+        resumeServerTimer();
       }, 1500);
     }, 800);
     setPendingRpsReveal(null);
@@ -362,32 +516,16 @@ export function GamePage({
 
   /**
    * Turn-based timer (30 seconds per turn)
-   * Backend: Sync timer with server to prevent manipulation
+   * Display only - the server owns the deadline and ends the game on timeout
    */
   useEffect(() => {
-    if (gameState === "finished" || fadingCell !== null || c4DroppingToken !== null || rpsWaitingForOpponent || rpsRevealing) return;
+    if (gameState === "finished" || fadingCell !== null || c4DroppingToken !== null || rpsWaitingForOpponent || rpsRevealing || roomPaused || reconnecting) return;
     
     const timer = setInterval(() => {
       setTurnTime((prev) => {
         if (prev <= 1) {
           clearInterval(timer);
-          // Current player loses on timeout
-          if (game.name === "Tic-Tac-Toe") {
-            if (tttCurrentPlayer === "X") {
-              handleGameEnd("opponent"); // Player timeout = loss
-            } else {
-              handleGameEnd("player"); // Opponent timeout = win
-            }
-          } else if (game.name === "Connect Four") {
-            if (c4CurrentPlayer === "red") {
-              handleGameEnd("opponent"); // Player timeout = loss
-            } else {
-              handleGameEnd("player"); // Opponent timeout = win
-            }
-          } else if (game.name === "Rock Paper Scissors") {
-            // Player didn't pick in time
-            handleGameEnd("opponent");
-          }
+          // Timeouts arrive as game_end / rps_reveal from the server
           return 0;
         }
         return prev - 1;
@@ -395,13 +533,59 @@ export function GamePage({
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [gameState, tttCurrentPlayer, c4CurrentPlayer, fadingCell, c4DroppingToken, rpsWaitingForOpponent, rpsRevealing, game.name]);
+  }, [gameState, tttCurrentPlayer, c4CurrentPlayer, chessBoardState.turn, fadingCell, c4DroppingToken, rpsWaitingForOpponent, rpsRevealing, triviaView?.index, triviaView?.phase, memView?.current, roomPaused, reconnecting, game.name]);
 
   /**
    * Reset timer when turn changes
    */
   const resetTurnTimer = () => {
-    setTurnTime(30);
+    setTurnTime(turnSeconds);
+  };
+
+  /**
+   * Align the countdown with a server deadline; `timestamp` is the server time the deadline was sent at
+   */
+  const syncTurnTimer = (deadline: number, timestamp?: number) => {
+    const remainingMs = deadline - (timestamp ?? Date.now());
+    turnDeadlineRef.current = Date.now() + remainingMs;
+    setTurnTime(Math.max(0, Math.ceil(remainingMs / 1000)));
+  };
+
+  /**
+   * Continue the countdown from the last known server deadline (falls back to a local reset)
+   */
+  const resumeServerTimer = () => {
+    if (turnDeadlineRef.current === null) { resetTurnTimer(); return; }
+    setTurnTime(Math.max(0, Math.ceil((turnDeadlineRef.current - Date.now()) / 1000)));
+  };
+
+  /**
+   * Apply the server's RPS score/round snapshot (used after reconnects and between reveals)
+   */
+  const applyRpsServerState = () => {
+    const data = rpsServerRef.current;
+    const mySide = sideRef.current;
+    if (!data?.scores || !mySide) return;
+    setRpsPlayerScore(data.scores[mySide]);
+    setRpsOpponentScore(data.scores[mySide === "a" ? "b" : "a"]);
+    if (data.round) setRpsCurrentRound(data.round);
+    if (data.chosen) setRpsWaitingForOpponent(data.chosen[mySide]);
+  };
+
+  /**
+   * Score a revealed round: take the server's totals if the next round's state already
+   * arrived, otherwise (final round, no further state) count the point locally
+   */
+  const applyRpsRevealScores = (revealRound: number, result: "win" | "lose" | "draw") => {
+    const data = rpsServerRef.current;
+    const mySide = sideRef.current;
+    if (data?.scores && data.round && data.round > revealRound && mySide) {
+      setRpsPlayerScore(data.scores[mySide]);
+      setRpsOpponentScore(data.scores[mySide === "a" ? "b" : "a"]);
+      return;
+    }
+    if (result === "win") setRpsPlayerScore((s) => s + 1);
+    else if (result === "lose") setRpsOpponentScore((s) => s + 1);
   };
 
   const formatTime = (seconds: number) => {
@@ -410,7 +594,7 @@ export function GamePage({
 
   /**
    * Handle game end
-   * Backend: Submit result to server, update blockchain if staked
+   * Backend: multiplayer results are recorded and settled by the game server
    */
   const handleGameEnd = async (gameWinner: "player" | "opponent" | "draw") => {
     setWinner(gameWinner);
@@ -419,7 +603,8 @@ export function GamePage({
     // Calculate rewards ONLY for stake mode
     if (playMode === "stake") {
       const won = gameWinner === "player";
-      const xpChange = calculateXPChange(won, xp, opponentXP);
+      // Games against the house bot pay out ARK but are unrated
+      const xpChange = opponentType === "ai" ? 0 : calculateXPChange(won, xp, opponentXP);
       const arkReward = won ? stakeAmount * 2 : -stakeAmount;
 
       setEarnedXP(xpChange);
@@ -431,31 +616,14 @@ export function GamePage({
       setEarnedARK(0);
     }
 
-    // Submit match result to backend for multiplayer games
-    if (matchId && opponentType === "player" && address && opponentWallet) {
-      const apiUrl = (import.meta as any).env?.VITE_API_URL || "http://localhost:3000";
-      const durationSec = Math.floor((Date.now() - gameStartTime) / 1000);
-      const won = gameWinner === "player";
-      
-      try {
-        await submitMatchResult(
-          apiUrl,
-          matchId,
-          won ? address : (gameWinner === "draw" ? null : opponentWallet),
-          won ? opponentWallet : (gameWinner === "draw" ? null : address),
-          won ? "win" : (gameWinner === "draw" ? "draw" : "loss"),
-          durationSec
-        );
-        console.log("Match result submitted successfully");
-        // After backend settles escrow, refresh ARK balance a few times to catch up
-        // small retry loop as RPC/indexers can be eventually consistent
-        const retries = 3;
-        for (let i = 0; i < retries; i++) {
-          await new Promise(r => setTimeout(r, 1200));
-          await refreshArkBalance();
-        }
-      } catch (error) {
-        console.error("Failed to submit match result:", error);
+    // The game server finalizes matches itself (result, XP, escrow settlement)
+    if (matchId && playMode === "stake") {
+      // Refresh ARK balance a few times to catch the settlement
+      // small retry loop as RPC/indexers can be eventually consistent
+      const retries = 3;
+      for (let i = 0; i < retries; i++) {
+        await new Promise(r => setTimeout(r, 1200));
+        await refreshArkBalance();
       }
     }
 
@@ -466,501 +634,318 @@ export function GamePage({
   };
 
   /**
-   * Handle opponent's Tic-Tac-Toe move from WebSocket
+   * Tic Tac Toe Logic
+   * ==========================================
+   * - Infinity (default): each player can only have 3 pieces on the board at a time;
+   *   placing a 4th makes the oldest one disappear, so the game continues until someone
+   *   gets 3 in a row
+   * - Classic and 4x4: marks stay, a full board is a draw
+   * - Disappearing pieces show a fade-out animation (0.4s)
+   * - Rules tooltip shown below the board
+   *
+   * Rules come from the match's variant in @spark/shared; the server validates moves with it
    */
-  const handleOpponentTTTMove = (position: number) => {
-    const newBoard = [...tttBoard];
-    const newOpponentMoves = [...opponentMoves];
-
-    // Check if opponent already has 3 pieces
-    if (newOpponentMoves.length >= 3) {
-      const oldestMove = newOpponentMoves.shift()!;
-      newBoard[oldestMove] = null; // Remove oldest piece
-    }
-
-  newBoard[position] = opponentSymbol;
-    newOpponentMoves.push(position);
+  const tttSize = Math.round(Math.sqrt(tttBoard.length));
 
-    setTttBoard(newBoard);
-    setOpponentMoves(newOpponentMoves);
-    setTttCurrentPlayer(playerSymbol);
-    resetTurnTimer();
+  const handleTTTCellClick = (index: number) => {
+    // Only allow if match started and it's this player's turn
+    if (!started || tttBoard[index] || tttCurrentPlayer !== playerSymbol || fadingCell !== null) return;
 
-    // Check for winner
-    const winner = checkTTTWinner(newBoard);
-    if (winner) {
-      handleGameEnd(winner === playerSymbol ? "player" : "opponent");
+    // Send move and wait for authoritative state from server
+    if (gameClient) {
+      gameClient.sendMove(index);
+      // Optimistically block further input until state update
+      setTttCurrentPlayer(opponentSymbol);
     }
   };
 
   /**
-   * Handle opponent's Connect Four move from WebSocket
+   * Connect Four Logic
+   * ==========================================
+   * - 7x6 grid (7 columns, 6 rows = 42 cells), 9x7 in the large variant
+   * - Tokens drop from top to bottom; in Pop Out a player may instead pop one of their
+   *   own tokens out of the bottom row
+   * - Win: 4 in a row (horizontal, vertical, diagonal)
+   * - Full board with no winner = reset and play another round; a full board in the
+   *   last round (server's `maxRounds`) ends the game in a draw
+   * - 30 second timer per turn
+   *
+   * Rules come from the match's variant in @spark/shared, shared with the server
    */
-  const handleOpponentC4Move = (column: number) => {
-    // Find the lowest empty row in this column
-    let row = -1;
-    for (let r = 5; r >= 0; r--) {
-      if (c4Board[r * 7 + column] === null) {
-        row = r;
-        break;
-      }
-    }
+  const c4MyTurn = started && c4CurrentPlayer === playerColor && c4DroppingToken === null;
+  // Columns we may pop this turn: the variant's pop moves for the current grid (none outside Pop Out)
+  const c4PopCols: number[] = game.name === "Connect Four" && c4MyTurn && variantRules
+    ? variantRules.legalMoves({
+        board: c4Board, ...c4Size, turn: side ?? "a", round: c4RoundCount, lastDrop: null, outcome: null
+      } as C4State, side ?? "a").flatMap((m: any) => (typeof m === "object" ? [m.pop] : []))
+    : [];
 
-    if (row === -1) return; // Column is full
+  const handleC4ColumnClick = (col: number) => {
+    if (!c4MyTurn) return;
+    
+    if (c4DropRow(c4Board as C4State["board"], col, c4Size.cols, c4Size.rows) === -1) return; // Column is full
 
-    setC4DroppingToken({ col: column, row });
+    // Send column to server and optimistically block input until state arrives
+    if (gameClient) {
+      gameClient.sendMove(col);
+      setC4CurrentPlayer(opponentColor);
+    }
+  };
 
-    setTimeout(() => {
-      const newBoard = [...c4Board];
-  newBoard[row * 7 + column] = opponentColor;
-      setC4Board(newBoard);
-      setC4DroppingToken(null);
-
-      const winner = checkC4Winner(newBoard);
-      if (winner) {
-        handleGameEnd(winner === playerColor ? "player" : "opponent");
-        return;
-      }
+  const handleC4Pop = (col: number) => {
+    if (!c4MyTurn || !c4PopCols.includes(col)) return;
+    if (gameClient) {
+      gameClient.sendPop(col);
+      setC4CurrentPlayer(opponentColor);
+    }
+  };
 
-      setC4CurrentPlayer(playerColor);
-      resetTurnTimer();
-    }, 500);
+  /**
+   * Rock Paper Scissors Logic
+   * ==========================================
+   * First-to-N-wins format (N is the match's target, 5 by default)
+   * - Both players pick simultaneously (Rock/Paper/Scissors, plus Lizard/Spock in that variant)
+   * - Reveal animation shows both choices
+   * - Round result and scoreboard update
+   * - First to N wins takes the match
+   *
+   * Rounds are scored by the match's variant in @spark/shared, like on the server
+   */
+  const rpsTarget = matchVariant?.target ?? 5;
+  const rpsChoices: RpsChoice[] = game.name === "Rock Paper Scissors" && variantRules
+    ? variantRules.legalMoves(variantRules.initialState("a"), "a")
+    : ["rock", "paper", "scissors"];
+  const handleRPSChoice = (choice: RPSChoice) => {
+    if (rpsWaitingForOpponent || rpsRevealing || !choice) return;
+    setRpsPlayerChoice(choice);
+    setRpsWaitingForOpponent(true);
+    // Send to server; reveal handled by rps_reveal event
+    try { gameClient?.sendChoice(choice); } catch {}
   };
 
   /**
-   * Tic Tac Toe Logic - NEW RULES (Updated)
+   * Chess Logic
    * ==========================================
-   * - Each player can only have 3 pieces on the board at a time
-   * - When placing a 4th piece, the oldest piece automatically disappears
-   * - Disappearing pieces show a fade-out animation (0.4s)
-   * - Game continues until one player gets 3 in a row
-   * - First win ends the match
-   * - Rules tooltip shown below the board
-   * 
-   * Backend: Validate moves server-side to prevent cheating
+   * - Standard rules: castling, en passant, promotion (picker), check, checkmate, stalemate
+   * - Draws by threefold repetition, the 50-move rule and insufficient material
+   * - Click a piece to see its legal squares, click a highlighted square to move
+   * - 60 second timer per move
+   *
+   * Rules come from @spark/shared (chess); moves go to the server as UCI strings
    */
-  const checkTTTWinner = (squares: (string | null)[]) => {
-    const lines = [
-      [0, 1, 2], [3, 4, 5], [6, 7, 8],
-      [0, 3, 6], [1, 4, 7], [2, 5, 8],
-      [0, 4, 8], [2, 4, 6],
-    ];
-
-    for (const [a, b, c] of lines) {
-      if (squares[a] && squares[a] === squares[b] && squares[a] === squares[c]) {
-        return squares[a];
-      }
+  const chessMySide: Side = side ?? "a";
+  const chessMyTurn = started && gameState === "playing" && !roomPaused && chessBoardState.turn === chessMySide && !chessBoardState.outcome;
+
+  // Board view: Black sees the board from their side; highlights for legal targets, last move and check
+  const chessMyColor = chessColorOf(chessBoardState, chessMySide);
+  const chessOrder = Array.from({ length: 64 }, (_, i) => (chessMyColor === "b" ? 63 - i : i));
+  const chessTargets = selectedPiece === null ? [] : chess.legalMoves(chessBoardState, chessMySide)
+    .filter((m: string) => m.startsWith(squareName(selectedPiece)))
+    .map((m: string) => squareIndex(m.slice(2, 4)));
+  const chessLastSquares = chessBoardState.lastMove
+    ? [squareIndex(chessBoardState.lastMove.slice(0, 2)), squareIndex(chessBoardState.lastMove.slice(2, 4))]
+    : [];
+  const chessCheck = chessInCheck(chessBoardState);
+  const chessCheckedKing = chessCheck
+    ? chessBoardState.board.indexOf(chessColorOf(chessBoardState, chessBoardState.turn) === "w" ? "K" : "k")
+    : -1;
+
+  const handleChessSquareClick = (index: number) => {
+    if (!chessMyTurn || chessPromotion) return;
+    const legal = chess.legalMoves(chessBoardState, chessMySide);
+    if (selectedPiece !== null) {
+      const prefix = `${squareName(selectedPiece)}${squareName(index)}`;
+      const candidates = legal.filter((m: string) => m.startsWith(prefix));
+      if (candidates.length > 1) { setChessPromotion({ from: selectedPiece, to: index }); return; }
+      if (candidates.length === 1) { submitChessMove(candidates[0]); return; }
     }
-    return null;
+    const piece = chessBoardState.board[index];
+    const mine = piece && pieceColor(piece) === chessColorOf(chessBoardState, chessMySide);
+    setSelectedPiece(mine && legal.some((m: string) => m.startsWith(squareName(index))) ? index : null);
   };
 
-  const handleTTTCellClick = (index: number) => {
-    // Only allow if match started and it's this player's turn
-    if (!started || tttBoard[index] || tttCurrentPlayer !== playerSymbol || fadingCell !== null) return;
+  const submitChessMove = (uci: string) => {
+    setSelectedPiece(null);
+    setChessPromotion(null);
+    // Show the move right away; the server's state confirms it (or restores the position)
+    const res = chess.applyMove(chessBoardState, chessMySide, uci);
+    if (!res.ok || !gameClient) return;
+    gameClient.sendChessMove(uci);
+    setChessBoardState(res.state);
+  };
 
-    // Multiplayer: send move and wait for authoritative state from server
-    if (opponentType === "player") {
-      if (gameClient) {
-        gameClient.sendMove(index);
-        // Optimistically block further input until state update
-        setTttCurrentPlayer(opponentSymbol);
-      }
+  /**
+   * Checkers Logic
+   * ==========================================
+   * - American rules: men move diagonally forward, kings both ways, one square at a time
+   * - Captures are forced; a jump chain continues until no jump is left
+   * - Click a piece, then each landing square in turn; the move is sent once the path is complete
+   * - 30 second timer per turn
+   *
+   * Rules come from @spark/shared (checkers); moves go to the server as square paths
+   */
+  const checkersMySide: Side = side ?? "a";
+  const checkersMyTurn = started && gameState === "playing" && !roomPaused && checkersState.turn === checkersMySide && !checkersState.outcome;
+  const checkersLegal: number[][] = game.name === "Checkers" && checkersMyTurn ? checkers.legalMoves(checkersState, checkersMySide) : [];
+  const checkersMustCapture = checkersLegal.length > 0 && isCapture(checkersLegal[0]);
+  // Dark moves up the board, so Light sees it turned around
+  const checkersDark = checkersColorOf(checkersState, checkersMySide) === "d";
+  const checkersOrder = Array.from({ length: 64 }, (_, i) => (checkersDark ? i : 63 - i));
+  const checkersMovable = new Set(checkersLegal.map((m) => m[0]));
+  // Next squares the picked path can continue to
+  const checkersTargets = checkersPath.length === 0 ? [] : checkersLegal
+    .filter((m) => m.length > checkersPath.length && checkersPath.every((s: number, k: number) => m[k] === s))
+    .map((m) => m[checkersPath.length]);
+
+  const handleCheckersSquareClick = (index: number) => {
+    if (!checkersMyTurn) return;
+    if (checkersTargets.includes(index)) {
+      const path = [...checkersPath, index];
+      const complete = checkersLegal.find((m) => m.length === path.length && m.every((s, k) => s === path[k]));
+      if (complete) submitCheckersMove(complete);
+      else setCheckersPath(path); // mid-chain: pick the next landing square
       return;
     }
-
-    const newBoard = [...tttBoard];
-    const newPlayerMoves = [...playerMoves];
-
-    // Check if player already has 3 pieces
-  if (newPlayerMoves.length >= 3) {
-      // Remove oldest piece with animation
-      const oldestMove = newPlayerMoves[0];
-      setFadingCell(oldestMove);
-      
-      // Wait for fade animation, then place new piece
-      setTimeout(() => {
-        const updatedBoard = [...newBoard];
-  updatedBoard[oldestMove] = null; // Remove oldest
-  updatedBoard[index] = playerSymbol; // Place new
-        setTttBoard(updatedBoard);
-        setFadingCell(null);
-        
-        // Update move history
-        newPlayerMoves.shift(); // Remove oldest from history
-        newPlayerMoves.push(index); // Add new move
-        setPlayerMoves(newPlayerMoves);
-
-        // Check for win
-        const winner = checkTTTWinner(updatedBoard);
-        if (winner === playerSymbol) {
-          handleGameEnd("player");
-          return;
-        }
-        // Switch turn to opponent; only AI if opponent is AI
-        setTttCurrentPlayer(opponentSymbol);
-        resetTurnTimer();
-        if (opponentType === "ai") {
-          makeAIMove(updatedBoard, [...opponentMoves]);
-        }
-      }, 400); // Match animation duration
-    } else {
-      // Place piece normally (first 3 pieces)
-      newBoard[index] = playerSymbol;
-      setTttBoard(newBoard);
-      newPlayerMoves.push(index);
-      setPlayerMoves(newPlayerMoves);
-
-      // Check for win
-      const winner = checkTTTWinner(newBoard);
-      if (winner === playerSymbol) {
-        handleGameEnd("player");
-        return;
-      }
-      // Switch to opponent's turn; only trigger AI if needed
-      setTttCurrentPlayer(opponentSymbol);
-      resetTurnTimer();
-      if (opponentType === "ai") {
-        makeAIMove(newBoard, [...opponentMoves]);
-      }
-    }
-
-    // Multiplayer path handled above
+    setCheckersPath(checkersMovable.has(index) ? [index] : []);
   };
 
-  const makeAIMove = (currentBoard: (string | null)[], currentOpponentMoves: number[]) => {
-    setTimeout(() => {
-      const emptySpots = currentBoard
-        .map((val, i) => (val === null ? i : null))
-        .filter((val) => val !== null) as number[];
-      
-      if (emptySpots.length === 0) return;
-
-      const aiMove = emptySpots[Math.floor(Math.random() * emptySpots.length)];
-      const newOpponentMoves = [...currentOpponentMoves];
-
-      // Check if opponent already has 3 pieces
-      if (newOpponentMoves.length >= 3) {
-        // Remove oldest piece with animation
-        const oldestMove = newOpponentMoves[0];
-        setFadingCell(oldestMove);
-
-        setTimeout(() => {
-          const updatedBoard = [...currentBoard];
-          updatedBoard[oldestMove] = null; // Remove oldest
-          updatedBoard[aiMove] = "O"; // Place new
-          setTttBoard(updatedBoard);
-          setFadingCell(null);
-
-          // Update move history
-          newOpponentMoves.shift();
-          newOpponentMoves.push(aiMove);
-          setOpponentMoves(newOpponentMoves);
-
-          // Check for win
-          const winner = checkTTTWinner(updatedBoard);
-          if (winner === "O") {
-            handleGameEnd("opponent");
-            return;
-          }
-
-          setTttCurrentPlayer("X");
-          resetTurnTimer();
-        }, 400);
-      } else {
-        // Place piece normally
-        const updatedBoard = [...currentBoard];
-        updatedBoard[aiMove] = "O";
-        setTttBoard(updatedBoard);
-        newOpponentMoves.push(aiMove);
-        setOpponentMoves(newOpponentMoves);
-
-        // Check for win
-        const winner = checkTTTWinner(updatedBoard);
-        if (winner === "O") {
-          handleGameEnd("opponent");
-          return;
-        }
-
-        setTttCurrentPlayer("X");
-        resetTurnTimer();
-      }
-    }, 700);
+  const submitCheckersMove = (path: number[]) => {
+    setCheckersPath([]);
+    // Show the move right away; the server's state confirms it (or restores the position)
+    const res = checkers.applyMove(checkersState, checkersMySide, path);
+    if (!res.ok || !gameClient) return;
+    gameClient.sendCheckersMove(path);
+    setCheckersState(res.state);
   };
 
   /**
-   * Connect Four Logic
+   * Battleship Logic
    * ==========================================
-   * - 7x6 grid (7 columns, 6 rows = 42 cells)
-   * - Tokens drop from top to bottom
-   * - Win: 4 in a row (horizontal, vertical, diagonal)
-   * - Full board with no winner = reset and play another round
-   * - 30 second timer per turn
-   * 
-   * Backend: Validate moves server-side to prevent cheating
+   * - Setup: place Carrier (5), Battleship (4), Cruiser (3), Submarine (3), Destroyer (2),
+   *   then send the whole fleet; both players place at the same time
+   * - Play: take turns firing at the enemy grid; the server answers hit, miss or sunk
+   * - The server only ever sends our own view, so the enemy fleet stays hidden until the end
+   *
+   * Rules come from @spark/shared (battleship); placements are checked locally before sending
    */
-  const checkC4Winner = (board: (string | null)[]) => {
-    const rows = 6;
-    const cols = 7;
-    
-    // Check horizontal
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols - 3; col++) {
-        const idx = row * cols + col;
-        if (
-          board[idx] &&
-          board[idx] === board[idx + 1] &&
-          board[idx] === board[idx + 2] &&
-          board[idx] === board[idx + 3]
-        ) {
-          return board[idx];
-        }
-      }
-    }
-    
-    // Check vertical
-    for (let col = 0; col < cols; col++) {
-      for (let row = 0; row < rows - 3; row++) {
-        const idx = row * cols + col;
-        if (
-          board[idx] &&
-          board[idx] === board[idx + cols] &&
-          board[idx] === board[idx + cols * 2] &&
-          board[idx] === board[idx + cols * 3]
-        ) {
-          return board[idx];
-        }
-      }
-    }
-    
-    // Check diagonal (down-right)
-    for (let row = 0; row < rows - 3; row++) {
-      for (let col = 0; col < cols - 3; col++) {
-        const idx = row * cols + col;
-        if (
-          board[idx] &&
-          board[idx] === board[idx + cols + 1] &&
-          board[idx] === board[idx + cols * 2 + 2] &&
-          board[idx] === board[idx + cols * 3 + 3]
-        ) {
-          return board[idx];
-        }
-      }
-    }
-    
-    // Check diagonal (down-left)
-    for (let row = 0; row < rows - 3; row++) {
-      for (let col = 3; col < cols; col++) {
-        const idx = row * cols + col;
-        if (
-          board[idx] &&
-          board[idx] === board[idx + cols - 1] &&
-          board[idx] === board[idx + cols * 2 - 2] &&
-          board[idx] === board[idx + cols * 3 - 3]
-        ) {
-          return board[idx];
-        }
-      }
-    }
-    
-    return null;
+  const bsCells = Array.from({ length: BS_SIZE * BS_SIZE }, (_, i) => i);
+  const bsLaidOut: number[][] = bsPlacements.map((p: BSPlacement, i: number) => bsShipCells(p, BS_FLEET[i].length) ?? []);
+  const bsNextShip = BS_FLEET[bsPlacements.length];
+  const bsSetup = bsView?.phase === "setup" && !bsView.placed;
+  const bsMyTurn = started && gameState === "playing" && !roomPaused && bsView?.phase === "play" && bsView.current === side;
+  const bsOwnShips: number[][] = bsView?.fleet ?? bsLaidOut;
+  const bsEnemyShips: number[][] = bsView?.enemyFleet ?? bsView?.sunk.map((s: BSView["sunk"][number]) => s.cells) ?? [];
+  const bsShotAt = (shots: BSView["shots"] | undefined, cell: number) => shots?.find((s) => s.cell === cell);
+  const bsLastShotText = bsView?.lastShot
+    ? `${bsView.lastShot.side === side ? "You" : "Opponent"} ${bsView.lastShot.hit ? "hit" : "missed"}${bsView.lastShot.sunk ? ` - ${bsView.lastShot.sunk} sunk!` : ""}`
+    : "";
+
+  const handleBsPlace = (cell: number) => {
+    if (!bsSetup || !bsNextShip) return;
+    const placement = { cell, vertical: bsVertical };
+    const cells = bsShipCells(placement, bsNextShip.length);
+    const taken = new Set(bsLaidOut.flat());
+    if (!cells || cells.some((c) => taken.has(c))) return;
+    setBsPlacements([...bsPlacements, placement]);
   };
 
-  const handleC4ColumnClick = (col: number) => {
-    if (!started || c4CurrentPlayer !== playerColor || c4DroppingToken !== null) return;
-    
-    const rows = 6;
-    const cols = 7;
-    
-    // Find the lowest empty row in this column
-    let targetRow = -1;
-    for (let row = rows - 1; row >= 0; row--) {
-      const idx = row * cols + col;
-      if (!c4Board[idx]) {
-        targetRow = row;
-        break;
-      }
-    }
-    
-    if (targetRow === -1) return; // Column is full
-    
-    if (opponentType === "player") {
-      // Multiplayer: send column to server and optimistically block input until state arrives
-      if (gameClient) {
-        gameClient.sendMove(col);
-        setC4CurrentPlayer(opponentColor);
-      }
-      return;
-    }
+  const handleBsReady = () => {
+    if (!bsSetup || bsPlacements.length !== BS_FLEET.length || !gameClient) return;
+    gameClient.sendFleet(bsPlacements);
+  };
 
-    // AI/local mode: animate drop and mutate locally
-    // Animate token drop
-    setC4DroppingToken({ col, row: targetRow });
-    setTimeout(() => {
-      const newBoard = [...c4Board];
-      const idx = targetRow * cols + col;
-      newBoard[idx] = playerColor;
-      setC4Board(newBoard);
-      setC4DroppingToken(null);
-      
-      // Check for win
-      const winner = checkC4Winner(newBoard);
-      if (winner === playerColor) {
-        handleGameEnd("player");
-        return;
-      }
-      
-      // Check if board is full
-      if (newBoard.every(cell => cell !== null)) {
-        // Board full, no winner - reset for another round
-        console.log(`Round ${c4RoundCount} complete! Starting round ${c4RoundCount + 1}...`);
-        setTimeout(() => {
-          setC4Board(Array(42).fill(null));
-          setC4RoundCount(prev => prev + 1);
-          setC4CurrentPlayer("red");
-          resetTurnTimer();
-        }, 2000);
-        return;
-      }
-      
-      // AI's turn
-      setC4CurrentPlayer(opponentColor);
-      resetTurnTimer();
-      if (opponentType === "ai") {
-        makeC4AIMove(newBoard);
-      }
-    }, 500);
+  const handleBsFire = (cell: number) => {
+    if (!bsMyTurn || bsShotAt(bsView?.shots, cell) || !gameClient) return;
+    gameClient.sendMove(cell);
+    // Block further shots until the server answers
+    setBsView({ ...bsView!, current: side === "a" ? "b" : "a" });
   };
 
-  const makeC4AIMove = (currentBoard: (string | null)[]) => {
-    setTimeout(() => {
-      const rows = 6;
-      const cols = 7;
-      
-      // Find available columns
-      const availableCols: number[] = [];
-      for (let col = 0; col < cols; col++) {
-        if (!currentBoard[col]) {
-          availableCols.push(col);
-        }
-      }
-      
-      if (availableCols.length === 0) return;
-      
-      const aiCol = availableCols[Math.floor(Math.random() * availableCols.length)];
-      
-      // Find the lowest empty row in AI's chosen column
-      let targetRow = -1;
-      for (let row = rows - 1; row >= 0; row--) {
-        const idx = row * cols + aiCol;
-        if (!currentBoard[idx]) {
-          targetRow = row;
-          break;
-        }
-      }
-      
-      if (targetRow === -1) return;
-      
-      // Animate AI token drop
-      setC4DroppingToken({ col: aiCol, row: targetRow });
-      
-      setTimeout(() => {
-        const newBoard = [...currentBoard];
-        const idx = targetRow * cols + aiCol;
-        newBoard[idx] = "yellow";
-        setC4Board(newBoard);
-        setC4DroppingToken(null);
-        
-        // Check for win
-        const winner = checkC4Winner(newBoard);
-        if (winner === "yellow") {
-          handleGameEnd("opponent");
-          return;
-        }
-        
-        // Check if board is full
-        if (newBoard.every(cell => cell !== null)) {
-          // Board full, no winner - reset for another round
-          console.log(`Round ${c4RoundCount} complete! Starting round ${c4RoundCount + 1}...`);
-          setTimeout(() => {
-            setC4Board(Array(42).fill(null));
-            setC4RoundCount(prev => prev + 1);
-            setC4CurrentPlayer("red");
-            resetTurnTimer();
-          }, 2000);
-          return;
-        }
-        
-        setC4CurrentPlayer("red");
-        resetTurnTimer();
-      }, 500);
-    }, 1000); // AI thinking time
+  /**
+   * Trivia Round:
+   * - Both players get the same question at the same moment and pick one answer before the clock runs out
+   * - A right answer scores more the faster it came, timed by the server
+   * - Once both answered (or time ran out) the right answer and both picks are shown, then the next question
+   *
+   * Rules come from the match's variant in @spark/shared; the server only sends the answer with the reveal
+   */
+  const triviaMe: Side = side ?? "a";
+  const triviaOpp: Side = triviaMe === "a" ? "b" : "a";
+  const triviaReveal = triviaView?.phase === "reveal" ? triviaView.lastReveal : null;
+  const triviaCanAnswer = started && gameState === "playing" && !roomPaused && triviaView?.phase === "question" && !triviaView.answered;
+  const triviaStatus = triviaReveal
+    ? `${triviaReveal.points[triviaMe] > 0 ? `Correct! +${triviaReveal.points[triviaMe]}` : (triviaReveal.answers[triviaMe]?.choice == null ? "Time's up" : "Wrong answer")}`
+      + ` - Opponent ${triviaReveal.points[triviaOpp] > 0 ? `+${triviaReveal.points[triviaOpp]}` : "scored nothing"}`
+    : triviaView?.answered
+      ? "Answer locked in - waiting for opponent..."
+      : (triviaView?.opponentAnswered ? "Opponent has answered - hurry!" : "Pick an answer");
+
+  const handleTriviaAnswer = (choice: number) => {
+    if (!triviaCanAnswer || !gameClient) return;
+    gameClient.sendAnswer(choice);
+    // Lock the pick in until the server answers
+    setTriviaView({ ...triviaView!, answered: true, myChoice: choice });
   };
 
   /**
-   * Rock Paper Scissors Logic
-   * ==========================================
-   * Simple first-to-5-wins format
-   * - Both players pick simultaneously
-   * - Reveal animation shows both choices
-   * - Round result and scoreboard update
-   * - First to 5 wins takes the match
-   * 
-   * Backend: Send {{encrypted_choice}} to server, reveal on blockchain
+   * Memory Board:
+   * - Flip two cards per turn; a pair is yours and you flip again
+   * - A mismatch stays face up for a moment, then the cards turn back and the turn passes
+   *
+   * Rules come from the match's variant in @spark/shared; the deck stays on the server, which only
+   * sends the faces of cards that are face up or taken
    */
-  const determineRPSWinner = (player: RPSChoice, opponent: RPSChoice): "win" | "lose" | "draw" => {
-    if (!player || !opponent) return "draw";
-    if (player === opponent) return "draw";
-    
-    if (
-      (player === "rock" && opponent === "scissors") ||
-      (player === "scissors" && opponent === "paper") ||
-      (player === "paper" && opponent === "rock")
-    ) {
-      return "win";
-    }
-    
-    return "lose";
+  const memCols = Math.round(Math.sqrt(memView?.cards.length ?? 16));
+  const memMyTurn = started && gameState === "playing" && !roomPaused && memView?.phase === "flip" && memView.current === side;
+  const memLastPairText = memView?.lastPair
+    ? `${memView.lastPair.side === side ? "You" : "Opponent"} ${memView.lastPair.match ? "found a pair!" : "missed"}`
+    : "";
+
+  const handleMemoryFlip = (card: number) => {
+    if (!memMyTurn || memView?.cards[card] !== null || !gameClient) return;
+    gameClient.sendMove(card);
+    // Block further flips until the server answers
+    setMemView({ ...memView!, current: side === "a" ? "b" : "a" });
   };
 
-  const handleRPSChoice = (choice: RPSChoice) => {
-    if (rpsWaitingForOpponent || rpsRevealing || !choice) return;
-    setRpsPlayerChoice(choice);
-    setRpsWaitingForOpponent(true);
-    if (opponentType === "player") {
-      // Send to server; reveal handled by rps_reveal event
-      try { gameClient?.sendChoice(choice); } catch {}
-      return;
-    }
-    // AI simulation path
-    setTimeout(() => {
-      const choices: RPSChoice[] = ["rock", "paper", "scissors"];
-      const opponentChoice = choices[Math.floor(Math.random() * 3)];
-      setRpsOpponentChoice(opponentChoice);
-      setRpsRevealing(true);
-      setTimeout(() => {
-        const result = determineRPSWinner(choice, opponentChoice);
-        setRpsRoundResult(result);
-        let newPlayerScore = rpsPlayerScore;
-        let newOpponentScore = rpsOpponentScore;
-        if (result === "win") { newPlayerScore = rpsPlayerScore + 1; setRpsPlayerScore(newPlayerScore); }
-        else if (result === "lose") { newOpponentScore = rpsOpponentScore + 1; setRpsOpponentScore(newOpponentScore); }
-        setTimeout(() => {
-          if (newPlayerScore >= 5) handleGameEnd("player");
-          else if (newOpponentScore >= 5) handleGameEnd("opponent");
-          else {
-            setRpsCurrentRound(prev => prev + 1);
-            setRpsPlayerChoice(null);
-            setRpsOpponentChoice(null);
-            setRpsRoundResult(null);
-            setRpsRevealing(false);
-            setRpsWaitingForOpponent(false);
-            resetTurnTimer();
-          }
-        }, 2500);
-      }, 1000);
-    }, 1500);
+  /**
+   * Reaction Round:
+   * - "Get ready", then GO after a random delay the server keeps to itself
+   * - Tap (button or space bar) as soon as GO shows; a tap before GO loses the round
+   * - The faster tap wins the round; times are measured by the server and corrected for latency
+   *
+   * Rules come from the match's variant in @spark/shared
+   */
+  const reactMe: Side = side ?? "a";
+  const reactOpp: Side = reactMe === "a" ? "b" : "a";
+  const reactCanTap = started && gameState === "playing" && !roomPaused && !!reactView && reactView.phase !== "result" && reactTappedRound !== reactView.round;
+  const reactLast = reactView?.phase === "result" ? reactView.lastRound : null;
+  const reactMsText = (tap: { ms: number } | null | undefined) => (!tap ? "no tap" : (tap.ms < 0 ? "early" : `${tap.ms} ms`));
+  const reactResultText = !reactLast ? ""
+    : reactLast.reason === "early_tap" ? (reactLast.winner === reactMe ? "Opponent jumped the gun - round to you" : "Too early! Round to opponent")
+    : reactLast.reason === "no_tap" ? "Nobody tapped"
+    : reactLast.reason === "tie" ? "Dead heat - no point"
+    : (reactLast.winner === reactMe ? "You were faster!" : "Opponent was faster");
+
+  const handleReactionTap = () => {
+    if (!reactCanTap || !gameClient) return;
+    gameClient.sendTap();
+    // One tap per round
+    setReactTappedRound(reactView!.round);
   };
 
+  // The space bar taps too, for players on a keyboard
+  useEffect(() => {
+    if (game.name !== "Reaction Duel") return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || e.repeat) return;
+      e.preventDefault();
+      handleReactionTap();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
   const handleForfeit = () => {
     setShowExitDialog(false);
     // Inform server so opponent also ends and settlement occurs
@@ -1015,13 +1000,15 @@ export function GamePage({
                     </p>
                   )}
                   {opponentType === "ai" && (
-                    <p className="text-xs text-muted-foreground">{opponentXP} XP</p>
+                    <p className="text-xs text-muted-foreground capitalize">{botDifficulty ?? "AI"} bot</p>
                   )}
                 </div>
               </div>
 
               {/* Game Info */}
               <div className="flex flex-col sm:flex-row items-center gap-3 md:gap-4 w-full md:w-auto">
+                {/* A reaction round's clock would give GO away */}
+                {game.name !== "Reaction Duel" && (
                 <div className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-colors ${
                   turnTime <= 10 
                     ? "bg-red-500/10 border-red-500/50 animate-pulse" 
@@ -1033,23 +1020,55 @@ export function GamePage({
                   </span>
                   <span className="text-xs text-muted-foreground ml-1">/turn</span>
                 </div>
+                )}
                 {playMode === "stake" && (
                   <div className="flex items-center gap-2 px-4 py-2 rounded-lg bg-accent/10 border border-accent/30">
                     <Coins className="w-4 h-4 text-accent" />
                     <span className="pixel-text text-sm">{stakeAmount} ARK</span>
                   </div>
                 )}
+                {series && series.bestOf > 1 && (
+                  <div className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary/10 border border-primary/30">
+                    <Trophy className="w-4 h-4 text-primary" />
+                    <span className="pixel-text text-sm">
+                      {series.wins[side ?? "a"]} - {series.wins[side === "b" ? "a" : "b"]}
+                    </span>
+                    <span className="text-xs text-muted-foreground ml-1">
+                      Game {series.game} of {series.bestOf}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           </Card>
 
+          {/* Series - result of the game just played, shown until the next one starts */}
+          {gameState === "playing" && seriesNotice && (
+            <Card className="p-3 mb-6 border-primary/40 bg-primary/5 text-center">
+              <p className="text-xs pixel-text text-primary">{seriesNotice}</p>
+            </Card>
+          )}
+
+          {/* Connection status - room is paused server-side while a seat is empty */}
+          {gameState === "playing" && (reconnecting || roomPaused) && (
+            <Card className="p-3 mb-6 border-accent/40 bg-accent/5 text-center">
+              <p className="text-xs pixel-text text-accent">
+                {reconnecting
+                  ? "Connection lost - reconnecting..."
+                  : opponentGraceSec !== null
+                    ? `Opponent disconnected - game paused. They forfeit if not back within ${opponentGraceSec}s`
+                    : "Game paused - waiting for both players"}
+              </p>
+            </Card>
+          )}
+
           {/* Game Board */}
           {game.name === "Tic-Tac-Toe" && (
             <Card className="p-6 md:p-8 mb-6 md:mb-8">
               <div className="max-w-md mx-auto">
                 {/* Game Grid */}
-                <div className="grid grid-cols-3 gap-2 md:gap-3">
-                  {tttBoard.map((cell, index) => (
+                <div className="grid gap-2 md:gap-3" style={{ gridTemplateColumns: `repeat(${tttSize}, minmax(0, 1fr))` }}>
+                  {tttBoard.map((cell: string | null, index: number) => (
                     <motion.button
                       key={index}
                       onClick={() => handleTTTCellClick(index)}
@@ -1082,8 +1101,7 @@ export function GamePage({
                 {/* Rules Info */}
                 <Card className="mt-6 p-4 bg-muted/30 border-border/30">
                   <p className="text-xs text-muted-foreground text-center leading-relaxed">
-                    <strong className="text-foreground">Rules:</strong> Each player can have up to 3 marks on the board. 
-                    When a 4th mark is placed, the oldest one disappears.
+                    <strong className="text-foreground">Rules:</strong> {variantRulesText}
                   </p>
                 </Card>
               </div>
@@ -1097,16 +1115,16 @@ export function GamePage({
                 {/* Round Indicator */}
                 <div className="text-center mb-4">
                   <Badge className="pixel-text text-xs bg-gradient-to-r from-primary to-secondary">
-                    Round {c4RoundCount}
+                    Round {c4RoundCount}{c4MaxRounds ? ` / ${c4MaxRounds}` : ""}
                   </Badge>
                 </div>
 
-                {/* Game Grid - 7 columns x 6 rows */}
+                {/* Game Grid - 7 columns x 6 rows, or the variant's size */}
                 <div className="relative bg-gradient-to-br from-primary/10 to-secondary/10 rounded-2xl p-4 border-4 border-primary/30">
-                  <div className="grid grid-cols-7 gap-2">
-                    {Array.from({ length: 42 }, (_, index) => {
-                      const row = Math.floor(index / 7);
-                      const col = index % 7;
+                  <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${c4Size.cols}, minmax(0, 1fr))` }}>
+                    {Array.from({ length: c4Size.cols * c4Size.rows }, (_, index) => {
+                      const row = Math.floor(index / c4Size.cols);
+                      const col = index % c4Size.cols;
                       const cell = c4Board[index];
                       const isDropping = c4DroppingToken?.col === col && c4DroppingToken?.row === row;
                       
@@ -1161,6 +1179,24 @@ export function GamePage({
                   </div>
                 </div>
 
+                {/* Pop Out: pop one of your tokens out of the bottom row */}
+                {c4PopCols.length > 0 && gameState === "playing" && (
+                  <div className="grid gap-2 px-4 mt-2" style={{ gridTemplateColumns: `repeat(${c4Size.cols}, minmax(0, 1fr))` }}>
+                    {Array.from({ length: c4Size.cols }, (_, col) => (
+                      <Button
+                        key={col}
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleC4Pop(col)}
+                        disabled={!c4PopCols.includes(col)}
+                        className={`pixel-text text-[10px] px-0 ${c4PopCols.includes(col) ? "" : "invisible"}`}
+                      >
+                        POP
+                      </Button>
+                    ))}
+                  </div>
+                )}
+
                 {/* Turn Indicator */}
                 <div className="mt-4 text-center">
                   <div className="flex items-center justify-center gap-2">
@@ -1179,8 +1215,7 @@ export function GamePage({
                 {/* Rules Info */}
                 <Card className="mt-6 p-4 bg-muted/30 border-border/30">
                   <p className="text-xs text-muted-foreground text-center leading-relaxed">
-                    <strong className="text-foreground">Rules:</strong> Drop tokens from the top. 
-                    Connect 4 in a row to win. If the board fills with no winner, it resets for another round!
+                    <strong className="text-foreground">Rules:</strong> {variantRulesText}
                   </p>
                 </Card>
               </div>
@@ -1195,7 +1230,7 @@ export function GamePage({
                 <div className="mb-8">
                   <div className="text-center mb-4">
                     <Badge className="pixel-text text-xs bg-gradient-to-r from-primary to-secondary">
-                      Round {rpsCurrentRound} — First to 5 Wins
+                      Round {rpsCurrentRound} — First to {rpsTarget} Wins
                     </Badge>
                   </div>
                   
@@ -1256,9 +1291,7 @@ export function GamePage({
                             className="flex items-center justify-center"
                           >
                             <div className="text-6xl">
-                              {rpsPlayerChoice === "rock" && "✊"}
-                              {rpsPlayerChoice === "paper" && "✋"}
-                              {rpsPlayerChoice === "scissors" && "✌️"}
+                              {RPS_PICKS[rpsPlayerChoice as RpsChoice].glyph}
                             </div>
                           </motion.div>
                         ) : (
@@ -1282,9 +1315,7 @@ export function GamePage({
                             className="flex items-center justify-center"
                           >
                             <div className="text-6xl">
-                              {rpsOpponentChoice === "rock" && "✊"}
-                              {rpsOpponentChoice === "paper" && "✋"}
-                              {rpsOpponentChoice === "scissors" && "✌️"}
+                              {RPS_PICKS[rpsOpponentChoice as RpsChoice].glyph}
                             </div>
                           </motion.div>
                         ) : (
@@ -1311,55 +1342,26 @@ export function GamePage({
                   <motion.div
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
-                    className="grid grid-cols-3 gap-4 max-w-2xl mx-auto"
+                    className={`grid gap-4 mx-auto ${rpsChoices.length > 3 ? "grid-cols-3 md:grid-cols-5 max-w-4xl" : "grid-cols-3 max-w-2xl"}`}
                   >
-                    <Button
-                      onClick={() => handleRPSChoice("rock")}
-                      disabled={gameState === "finished"}
-                      className="h-32 bg-gradient-to-br from-pink-500 to-pink-600 hover:from-pink-600 hover:to-pink-700 flex flex-col items-center justify-center gap-2 group relative overflow-hidden"
-                    >
-                      <motion.div
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.95 }}
-                        className="text-5xl"
-                      >
-                        ✊
-                      </motion.div>
-                      <span className="pixel-text text-xs">ROCK</span>
-                      <div className="absolute inset-0 bg-white/0 group-hover:bg-white/10 transition-colors" />
-                    </Button>
-
-                    <Button
-                      onClick={() => handleRPSChoice("paper")}
-                      disabled={gameState === "finished"}
-                      className="h-32 bg-gradient-to-br from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 flex flex-col items-center justify-center gap-2 group relative overflow-hidden"
-                    >
-                      <motion.div
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.95 }}
-                        className="text-5xl"
-                      >
-                        ✋
-                      </motion.div>
-                      <span className="pixel-text text-xs">PAPER</span>
-                      <div className="absolute inset-0 bg-white/0 group-hover:bg-white/10 transition-colors" />
-                    </Button>
-
-                    <Button
-                      onClick={() => handleRPSChoice("scissors")}
-                      disabled={gameState === "finished"}
-                      className="h-32 bg-gradient-to-br from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 flex flex-col items-center justify-center gap-2 group relative overflow-hidden"
-                    >
-                      <motion.div
-                        whileHover={{ scale: 1.1 }}
-                        whileTap={{ scale: 0.95 }}
-                        className="text-5xl"
+                    {rpsChoices.map((choice) => (
+                      <Button
+                        key={choice}
+                        onClick={() => handleRPSChoice(choice)}
+                        disabled={gameState === "finished"}
+                        className={`h-32 bg-gradient-to-br ${RPS_PICKS[choice].color} flex flex-col items-center justify-center gap-2 group relative overflow-hidden`}
                       >
-                        ✌️
-                      </motion.div>
-                      <span className="pixel-text text-xs">SCISSORS</span>
-                      <div className="absolute inset-0 bg-white/0 group-hover:bg-white/10 transition-colors" />
-                    </Button>
+                        <motion.div
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.95 }}
+                          className="text-5xl"
+                        >
+                          {RPS_PICKS[choice].glyph}
+                        </motion.div>
+                        <span className="pixel-text text-xs uppercase">{choice}</span>
+                        <div className="absolute inset-0 bg-white/0 group-hover:bg-white/10 transition-colors" />
+                      </Button>
+                    ))}
                   </motion.div>
                 )}
 
@@ -1379,25 +1381,471 @@ export function GamePage({
                 {/* Rules Info */}
                 <Card className="mt-6 p-4 bg-muted/30 border-border/30">
                   <p className="text-xs text-muted-foreground text-center leading-relaxed">
-                    <strong className="text-foreground">Rules:</strong> Rock beats Scissors, Scissors beats Paper, Paper beats Rock. 
-                    First player to reach 5 round wins takes the entire ARK stake pool!
+                    <strong className="text-foreground">Rules:</strong> {variantRulesText}
                   </p>
                 </Card>
               </div>
             </Card>
           )}
 
-          {/* Chess Board Placeholder */}
+          {/* Chess Board */}
           {game.name === "Chess" && (
             <Card className="p-6 md:p-8 mb-6 md:mb-8">
-              <div className="text-center py-12">
-                <Trophy className="w-16 h-16 mx-auto mb-4 text-muted-foreground/30" />
-                <p className="pixel-text text-sm text-muted-foreground mb-2">
-                  Chess Game Board
-                </p>
-                <p className="text-xs text-muted-foreground/70">
-                  Integrate chess.js library for full chess functionality
+              <div className="max-w-4xl mx-auto flex flex-col lg:flex-row gap-6">
+                <div className="flex-1 max-w-lg mx-auto w-full">
+                  {/* 8x8 board, a8 first from White's view */}
+                  <div className="relative grid grid-cols-8 rounded-lg overflow-hidden border-4 border-primary/30">
+                    {chessOrder.map((index: number) => {
+                      const piece = chessBoardState.board[index] as ChessPiece | null;
+                      const light = ((index >> 3) + (index % 8)) % 2 === 0;
+                      const isTarget = chessTargets.includes(index);
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => handleChessSquareClick(index)}
+                          disabled={!chessMyTurn}
+                          className={`relative aspect-square flex items-center justify-center text-3xl md:text-5xl leading-none ${
+                            index === chessCheckedKing ? "bg-red-500/80" : light ? "bg-amber-100" : "bg-amber-700"
+                          } ${selectedPiece === index ? "ring-4 ring-inset ring-primary" : ""} ${
+                            chessMyTurn ? "cursor-pointer" : "cursor-not-allowed"
+                          }`}
+                        >
+                          {chessLastSquares.includes(index) && <div className="absolute inset-0 bg-yellow-400/40" />}
+                          {piece && (
+                            <span className={`relative ${pieceColor(piece) === "w" ? "text-white [text-shadow:0_0_2px_#000,0_0_2px_#000]" : "text-gray-900"}`}>
+                              {CHESS_GLYPHS[piece.toLowerCase()]}
+                            </span>
+                          )}
+                          {isTarget && (
+                            <div className={`absolute rounded-full ${piece ? "inset-1 border-4 border-primary/60" : "w-1/4 h-1/4 bg-primary/60"}`} />
+                          )}
+                        </button>
+                      );
+                    })}
+
+                    {/* Promotion picker */}
+                    {chessPromotion && (
+                      <div className="absolute inset-0 bg-background/80 flex items-center justify-center">
+                        <Card className="p-4">
+                          <p className="pixel-text text-xs text-center mb-3">Promote to</p>
+                          <div className="flex gap-2">
+                            {(["q", "r", "b", "n"] as const).map((p) => (
+                              <Button
+                                key={p}
+                                variant="outline"
+                                onClick={() => submitChessMove(`${squareName(chessPromotion.from)}${squareName(chessPromotion.to)}${p}`)}
+                                className="text-3xl w-14 h-14"
+                              >
+                                {CHESS_GLYPHS[p]}
+                              </Button>
+                            ))}
+                          </div>
+                          <Button variant="ghost" onClick={() => setChessPromotion(null)} className="w-full mt-2 text-xs">
+                            Cancel
+                          </Button>
+                        </Card>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Turn Indicator */}
+                  <div className="mt-4 text-center">
+                    <p className="text-xs md:text-sm text-muted-foreground pixel-text">
+                      {gameState === "playing" && chessBoardState.turn === chessMySide && `Your turn (${chessMyColor === "w" ? "White" : "Black"})`}
+                      {gameState === "playing" && chessBoardState.turn !== chessMySide && `Opponent's turn (${chessMyColor === "w" ? "Black" : "White"})...`}
+                      {gameState === "playing" && chessCheck && <span className="text-red-500"> — Check!</span>}
+                    </p>
+                  </div>
+                </div>
+
+                {/* Move List */}
+                <div className="lg:w-56">
+                  <p className="pixel-text text-xs mb-2">Moves</p>
+                  <div className="max-h-80 overflow-y-auto rounded-lg bg-muted/30 border border-border/30 p-3 font-mono text-xs">
+                    {chessMoves.length === 0 && <p className="text-muted-foreground">No moves yet</p>}
+                    {Array.from({ length: Math.ceil(chessMoves.length / 2) }, (_, i) => (
+                      <div key={i} className="grid grid-cols-[2rem_1fr_1fr] gap-1">
+                        <span className="text-muted-foreground">{i + 1}.</span>
+                        <span>{chessMoves[2 * i]}</span>
+                        <span>{chessMoves[2 * i + 1] ?? ""}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Rules Info */}
+              <Card className="mt-6 p-4 bg-muted/30 border-border/30">
+                <p className="text-xs text-muted-foreground text-center leading-relaxed">
+                  <strong className="text-foreground">Rules:</strong> Checkmate the opposing king to win.
+                  Stalemate, threefold repetition, the 50-move rule and insufficient material end in a draw.
                 </p>
+              </Card>
+            </Card>
+          )}
+
+          {/* Checkers Board */}
+          {game.name === "Checkers" && (
+            <Card className="p-6 md:p-8 mb-6 md:mb-8">
+              <div className="max-w-lg mx-auto">
+                {/* 8x8 board, own pieces at the bottom */}
+                <div className="grid grid-cols-8 rounded-lg overflow-hidden border-4 border-primary/30">
+                  {checkersOrder.map((index: number) => {
+                    const piece = checkersState.board[index] as CheckersPiece | null;
+                    const playable = ((index >> 3) + (index % 8)) % 2 === 1;
+                    const picked = checkersPath.indexOf(index);
+                    const isTarget = checkersTargets.includes(index);
+                    return (
+                      <button
+                        key={index}
+                        onClick={() => handleCheckersSquareClick(index)}
+                        disabled={!checkersMyTurn || !playable}
+                        className={`relative aspect-square flex items-center justify-center ${
+                          playable ? "bg-amber-800" : "bg-amber-100"
+                        } ${picked === 0 ? "ring-4 ring-inset ring-primary" : ""} ${
+                          checkersMyTurn && playable ? "cursor-pointer" : "cursor-default"
+                        }`}
+                      >
+                        {checkersState.lastMove?.includes(index) && <div className="absolute inset-0 bg-yellow-400/30" />}
+                        {piece && (
+                          <div
+                            className={`relative w-4/5 h-4/5 rounded-full flex items-center justify-center text-lg md:text-2xl shadow-lg ${
+                              checkersPieceColor(piece) === "d"
+                                ? "bg-gradient-to-br from-red-500 to-red-700 shadow-red-500/40"
+                                : "bg-gradient-to-br from-gray-100 to-gray-300 shadow-gray-400/40"
+                            } ${checkersMustCapture && checkersPath.length === 0 && checkersMovable.has(index) ? "ring-2 ring-primary animate-pulse" : ""}`}
+                          >
+                            {isKing(piece) && <span className="text-yellow-400 [text-shadow:0_0_2px_#000]">♛</span>}
+                          </div>
+                        )}
+                        {picked > 0 && <div className="absolute w-1/3 h-1/3 rounded-full bg-primary/80" />}
+                        {isTarget && <div className="absolute w-1/4 h-1/4 rounded-full bg-primary/60" />}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {/* Turn Indicator */}
+                <div className="mt-4 text-center">
+                  <p className="text-xs md:text-sm text-muted-foreground pixel-text">
+                    {gameState === "playing" && checkersState.turn === checkersMySide && `Your turn (${checkersDark ? "Dark" : "Light"})`}
+                    {gameState === "playing" && checkersState.turn !== checkersMySide && `Opponent's turn (${checkersDark ? "Light" : "Dark"})...`}
+                    {checkersMustCapture && <span className="text-accent"> — You must capture!</span>}
+                  </p>
+                </div>
+
+                {/* Rules Info */}
+                <Card className="mt-6 p-4 bg-muted/30 border-border/30">
+                  <p className="text-xs text-muted-foreground text-center leading-relaxed">
+                    <strong className="text-foreground">Rules:</strong> {variantRulesText}
+                  </p>
+                </Card>
+              </div>
+            </Card>
+          )}
+
+          {/* Battleship Boards */}
+          {game.name === "Battleship" && (
+            <Card className="p-6 md:p-8 mb-6 md:mb-8">
+              <div className="max-w-4xl mx-auto">
+                {/* Status */}
+                <div className="text-center mb-4">
+                  <p className="text-xs md:text-sm text-muted-foreground pixel-text">
+                    {bsSetup && bsNextShip && `Place your ${bsNextShip.name} (${bsNextShip.length})`}
+                    {bsSetup && !bsNextShip && "Fleet ready - confirm to start"}
+                    {bsView?.phase === "setup" && bsView.placed && (bsView.opponentPlaced ? "Starting..." : "Waiting for opponent to place their fleet...")}
+                    {bsView?.phase === "play" && gameState === "playing" && (bsView.current === side ? "Your turn - fire at the enemy grid" : "Opponent's turn...")}
+                  </p>
+                  {bsLastShotText && <p className="text-xs pixel-text text-accent mt-1">{bsLastShotText}</p>}
+                </div>
+
+                <div className={`grid gap-6 ${bsView?.phase === "play" ? "md:grid-cols-2" : "max-w-md mx-auto"}`}>
+                  {/* Own grid: the fleet and the opponent's shots */}
+                  <div>
+                    <p className="pixel-text text-xs mb-2 text-center">Your Fleet</p>
+                    <div className="grid gap-px bg-cyan-900/50 rounded-lg overflow-hidden border-2 border-cyan-500/30" style={{ gridTemplateColumns: `repeat(${BS_SIZE}, minmax(0, 1fr))` }}>
+                      {bsCells.map((cell) => {
+                        const ship = bsOwnShips.some((s) => s.includes(cell));
+                        const shot = bsShotAt(bsView?.incoming, cell);
+                        return (
+                          <button
+                            key={cell}
+                            onClick={() => handleBsPlace(cell)}
+                            disabled={!bsSetup}
+                            className={`relative aspect-square flex items-center justify-center ${ship ? "bg-slate-400" : "bg-cyan-950"} ${bsSetup ? "hover:bg-cyan-700 cursor-pointer" : "cursor-default"}`}
+                          >
+                            {shot && <div className={`rounded-full ${shot.hit ? "w-3/5 h-3/5 bg-red-500" : "w-1/4 h-1/4 bg-white/70"}`} />}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  {/* Enemy grid: our shots, ships once sunk (the whole fleet after the game) */}
+                  {bsView?.phase === "play" && (
+                    <div>
+                      <p className="pixel-text text-xs mb-2 text-center">Enemy Waters</p>
+                      <div className="grid gap-px bg-cyan-900/50 rounded-lg overflow-hidden border-2 border-primary/40" style={{ gridTemplateColumns: `repeat(${BS_SIZE}, minmax(0, 1fr))` }}>
+                        {bsCells.map((cell) => {
+                          const shot = bsShotAt(bsView.shots, cell);
+                          const ship = bsEnemyShips.some((s) => s.includes(cell));
+                          return (
+                            <button
+                              key={cell}
+                              onClick={() => handleBsFire(cell)}
+                              disabled={!bsMyTurn || !!shot}
+                              className={`relative aspect-square flex items-center justify-center ${ship ? "bg-slate-600" : "bg-cyan-950"} ${
+                                bsMyTurn && !shot ? "hover:bg-primary/40 cursor-crosshair" : "cursor-default"
+                              } ${bsView.lastShot?.side === side && bsView.lastShot.cell === cell ? "ring-2 ring-inset ring-yellow-400" : ""}`}
+                            >
+                              {shot && <div className={`rounded-full ${shot.hit ? "w-3/5 h-3/5 bg-red-500" : "w-1/4 h-1/4 bg-white/70"}`} />}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Setup controls */}
+                {bsSetup && (
+                  <div className="flex flex-wrap justify-center gap-2 mt-4">
+                    <Button variant="outline" onClick={() => setBsVertical(!bsVertical)} className="pixel-text text-xs">
+                      {bsVertical ? "Vertical" : "Horizontal"}
+                    </Button>
+                    <Button variant="outline" onClick={() => setBsPlacements(bsPlacements.slice(0, -1))} disabled={bsPlacements.length === 0} className="pixel-text text-xs">
+                      Undo
+                    </Button>
+                    <Button variant="outline" onClick={() => setBsPlacements(bsRandomFleet(Math.random))} className="pixel-text text-xs">
+                      Random
+                    </Button>
+                    <Button onClick={handleBsReady} disabled={bsPlacements.length !== BS_FLEET.length} className="pixel-text text-xs bg-gradient-to-r from-primary to-secondary">
+                      Ready
+                    </Button>
+                  </div>
+                )}
+
+                {/* Rules Info */}
+                <Card className="mt-6 p-4 bg-muted/30 border-border/30">
+                  <p className="text-xs text-muted-foreground text-center leading-relaxed">
+                    <strong className="text-foreground">Rules:</strong> {variantRulesText}
+                  </p>
+                </Card>
+              </div>
+            </Card>
+          )}
+
+          {/* Trivia Round */}
+          {game.name === "Trivia Duel" && (
+            <Card className="p-6 md:p-8 mb-6 md:mb-8">
+              <div className="max-w-2xl mx-auto">
+                {/* Scoreboard */}
+                <div className="flex items-center justify-between mb-6">
+                  <div className="text-center">
+                    <p className="pixel-text text-xs text-muted-foreground">You</p>
+                    <p className="pixel-text text-2xl text-primary">{triviaView?.scores[triviaMe] ?? 0}</p>
+                  </div>
+                  <Badge variant="outline" className="pixel-text text-xs">
+                    Question {(triviaView?.index ?? 0) + 1} / {triviaView?.count ?? matchVariant?.target ?? "?"}
+                  </Badge>
+                  <div className="text-center">
+                    <p className="pixel-text text-xs text-muted-foreground">Opponent</p>
+                    <p className="pixel-text text-2xl text-secondary">{triviaView?.scores[triviaOpp] ?? 0}</p>
+                  </div>
+                </div>
+
+                {triviaView?.question ? (
+                  <>
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={triviaView.index}
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        className="text-center mb-6"
+                      >
+                        <p className="text-xs text-muted-foreground capitalize mb-2">
+                          {triviaView.question.category} - {triviaView.question.difficulty}
+                        </p>
+                        <p className="text-lg md:text-xl font-semibold">{triviaView.question.prompt}</p>
+                      </motion.div>
+                    </AnimatePresence>
+
+                    <div className="grid sm:grid-cols-2 gap-3">
+                      {triviaView.question.choices.map((text: string, i: number) => {
+                        const right = triviaReveal?.answer === i;
+                        const mine = (triviaReveal ? triviaReveal.answers[triviaMe]?.choice : triviaView.myChoice) === i;
+                        const theirs = triviaReveal?.answers[triviaOpp]?.choice === i;
+                        return (
+                          <button
+                            key={i}
+                            onClick={() => handleTriviaAnswer(i)}
+                            disabled={!triviaCanAnswer}
+                            className={`p-4 rounded-lg border-2 text-left transition-all ${
+                              triviaReveal
+                                ? (right ? "border-green-500 bg-green-500/10" : (mine ? "border-red-500 bg-red-500/10" : "border-border/30 opacity-60"))
+                                : (mine ? "border-primary bg-primary/10" : "border-border/30 bg-muted/30 hover:border-primary/50 hover:bg-primary/5")
+                            } ${triviaCanAnswer ? "cursor-pointer" : "cursor-default"}`}
+                          >
+                            <span className="pixel-text text-xs text-muted-foreground mr-2">{String.fromCharCode(65 + i)}</span>
+                            {text}
+                            {triviaReveal && (mine || theirs) && (
+                              <span className="block text-xs text-muted-foreground mt-1">
+                                {mine && theirs ? "You & Opponent" : (mine ? "You" : "Opponent")}
+                              </span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-center text-sm text-muted-foreground pixel-text">Waiting for the first question...</p>
+                )}
+
+                {/* Status */}
+                {triviaView && gameState === "playing" && (
+                  <div className="mt-4 text-center">
+                    <p className={`text-xs md:text-sm pixel-text ${triviaReveal ? "text-accent" : "text-muted-foreground"}`}>{triviaStatus}</p>
+                  </div>
+                )}
+
+                {/* Rules Info */}
+                <Card className="mt-6 p-4 bg-muted/30 border-border/30">
+                  <p className="text-xs text-muted-foreground text-center leading-relaxed">
+                    <strong className="text-foreground">Rules:</strong> {variantRulesText}
+                  </p>
+                </Card>
+              </div>
+            </Card>
+          )}
+
+          {/* Memory Board */}
+          {game.name === "Memory Duel" && (
+            <Card className="p-6 md:p-8 mb-6 md:mb-8">
+              <div className="max-w-xl mx-auto">
+                {/* Pairs */}
+                <div className="flex items-center justify-between mb-4">
+                  <div className="text-center">
+                    <p className="pixel-text text-xs text-muted-foreground">You</p>
+                    <p className="pixel-text text-2xl text-primary">{memView?.pairs[side ?? "a"] ?? 0}</p>
+                  </div>
+                  <p className="pixel-text text-xs text-muted-foreground">Pairs</p>
+                  <div className="text-center">
+                    <p className="pixel-text text-xs text-muted-foreground">Opponent</p>
+                    <p className="pixel-text text-2xl text-secondary">{memView?.pairs[side === "b" ? "a" : "b"] ?? 0}</p>
+                  </div>
+                </div>
+
+                <div className="grid gap-2 md:gap-3" style={{ gridTemplateColumns: `repeat(${memCols}, minmax(0, 1fr))`, perspective: 800 }}>
+                  {(memView?.cards ?? Array(16).fill(null)).map((face: number | null, card: number) => {
+                    const owner = memView?.taken[card];
+                    return (
+                      <button
+                        key={card}
+                        onClick={() => handleMemoryFlip(card)}
+                        disabled={!memMyTurn || face !== null}
+                        className={`aspect-square ${memMyTurn && face === null ? "cursor-pointer" : "cursor-default"} ${owner ? "opacity-60" : ""}`}
+                      >
+                        <motion.div
+                          animate={{ rotateY: face !== null ? 180 : 0 }}
+                          transition={{ duration: 0.35 }}
+                          className="relative w-full h-full"
+                          style={{ transformStyle: "preserve-3d" }}
+                        >
+                          {/* Back */}
+                          <div
+                            className={`absolute inset-0 rounded-lg border-2 border-primary/40 bg-gradient-to-br from-primary/60 to-secondary/60 flex items-center justify-center ${memMyTurn ? "hover:border-primary" : ""}`}
+                            style={{ backfaceVisibility: "hidden" }}
+                          >
+                            <span className="pixel-text text-white/70 text-sm">?</span>
+                          </div>
+                          {/* Face */}
+                          <div
+                            className={`absolute inset-0 rounded-lg border-2 bg-card flex items-center justify-center text-2xl md:text-3xl ${
+                              owner ? (owner === side ? "border-primary" : "border-secondary") : "border-yellow-400"
+                            }`}
+                            style={{ backfaceVisibility: "hidden", transform: "rotateY(180deg)" }}
+                          >
+                            {face !== null && MEMORY_FACES[face % MEMORY_FACES.length]}
+                          </div>
+                        </motion.div>
+                      </button>
+                    );
+                  })}
+                </div>
+
+                {/* Turn Indicator */}
+                <div className="mt-4 text-center">
+                  <p className="text-xs md:text-sm text-muted-foreground pixel-text">
+                    {gameState === "playing" && memView && (memView.phase === "reveal" ? "No match..." : (memView.current === side ? "Your turn - flip a card" : "Opponent's turn..."))}
+                  </p>
+                  {memLastPairText && <p className="text-xs pixel-text text-accent mt-1">{memLastPairText}</p>}
+                </div>
+
+                {/* Rules Info */}
+                <Card className="mt-6 p-4 bg-muted/30 border-border/30">
+                  <p className="text-xs text-muted-foreground text-center leading-relaxed">
+                    <strong className="text-foreground">Rules:</strong> {variantRulesText}
+                  </p>
+                </Card>
+              </div>
+            </Card>
+          )}
+
+          {/* Reaction Round */}
+          {game.name === "Reaction Duel" && (
+            <Card className="p-6 md:p-8 mb-6 md:mb-8">
+              <div className="max-w-xl mx-auto">
+                {/* Scoreboard */}
+                <div className="flex items-center justify-between mb-6">
+                  <div className="text-center">
+                    <p className="pixel-text text-xs text-muted-foreground">You</p>
+                    <p className="pixel-text text-2xl text-primary">{reactView?.scores[reactMe] ?? 0}</p>
+                  </div>
+                  <Badge variant="outline" className="pixel-text text-xs">
+                    Round {reactView?.round ?? 1} - first to {reactView?.target ?? matchVariant?.target ?? "?"}
+                  </Badge>
+                  <div className="text-center">
+                    <p className="pixel-text text-xs text-muted-foreground">Opponent</p>
+                    <p className="pixel-text text-2xl text-secondary">{reactView?.scores[reactOpp] ?? 0}</p>
+                  </div>
+                </div>
+
+                <motion.button
+                  onPointerDown={handleReactionTap}
+                  disabled={!reactCanTap}
+                  animate={{ scale: reactView?.phase === "go" ? 1.03 : 1 }}
+                  transition={{ duration: 0.1 }}
+                  className={`w-full aspect-[2/1] rounded-2xl border-4 flex flex-col items-center justify-center select-none ${
+                    reactView?.phase === "go"
+                      ? "bg-green-500 border-green-300 text-white"
+                      : (reactView?.phase === "ready" ? "bg-red-500/80 border-red-400 text-white" : "bg-muted/40 border-border/50")
+                  } ${reactCanTap ? "cursor-pointer" : "cursor-default"}`}
+                >
+                  {reactLast ? (
+                    <>
+                      <span className="pixel-text text-lg md:text-xl text-accent">{reactResultText}</span>
+                      <span className="text-sm text-muted-foreground mt-2">
+                        You: {reactMsText(reactLast.taps[reactMe])} - Opponent: {reactMsText(reactLast.taps[reactOpp])}
+                      </span>
+                    </>
+                  ) : reactView?.phase === "go" ? (
+                    <span className="pixel-text text-4xl md:text-5xl">{reactTappedRound === reactView.round ? "Tapped!" : "TAP!"}</span>
+                  ) : (
+                    <>
+                      <span className="pixel-text text-2xl md:text-3xl">{reactTappedRound === reactView?.round ? "Too early!" : "Get ready..."}</span>
+                      <span className="text-xs text-white/80 mt-2">Wait for green</span>
+                    </>
+                  )}
+                </motion.button>
+
+                {/* Rules Info */}
+                <Card className="mt-6 p-4 bg-muted/30 border-border/30">
+                  <p className="text-xs text-muted-foreground text-center leading-relaxed">
+                    <strong className="text-foreground">Rules:</strong> {variantRulesText}
+                  </p>
+                </Card>
               </div>
             </Card>
           )}
@@ -1479,6 +1927,11 @@ export function GamePage({
                       {winner === "opponent" && "Better luck next time"}
                       {winner === "draw" && "Well played!"}
                     </p>
+                    {series && series.bestOf > 1 && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Best of {series.bestOf}: {series.wins[side ?? "a"]} - {series.wins[side === "b" ? "a" : "b"]}
+                      </p>
+                    )}
                     {playMode === "free" && (
                       <p className="text-xs text-accent mt-2">
                         Practice mode - Play staked games to earn rewards!
@@ -19,6 +19,9 @@
  * 3. XP Progress:
  *    - Calculate progress bar to next tier
  *    - Show current XP / next tier threshold
+ * 
+ * 4. Daily Puzzle:
+ *    - Opens the puzzle screen (see PuzzlePage for its endpoints)
  * ============================================================================
  */
 
@@ -26,10 +29,11 @@ import { Card } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Badge } from "../components/ui/badge";
 import { Progress } from "../components/ui/progress";
-import { Coins, Trophy, Zap, Award, Sparkles, Gift, Play, Loader2 } from "lucide-react";
+import { Coins, Trophy, Zap, Award, Sparkles, Gift, Play, Loader2, Puzzle } from "lucide-react";
 import { getTierFromXP } from "../types";
 import { GAMES } from "../config/gameData";
 import { GameCard } from "../components/GameCard";
+import { PuzzleIllustration } from "../components/ArcadeIllustrations";
 import { useWallet } from "../context/WalletContext";
 import { useEffect, useState } from "react";
 
@@ -257,6 +261,26 @@ export function HomePage({ onNavigate }: HomePageProps) {
             <p className="text-sm md:text-base text-muted-foreground/70">Select a game and start your journey to glory</p>
           </div>
 
+          {/* Daily Puzzle */}
+          <Card
+            onClick={() => onNavigate("puzzle")}
+            className="max-w-4xl mx-auto mb-4 md:mb-6 p-4 md:p-5 flex items-center gap-4 md:gap-6 cursor-pointer bg-gradient-to-r from-primary/10 via-secondary/5 to-transparent border-primary/30 hover:border-primary/60 transition-all hover:shadow-lg hover:shadow-primary/10"
+          >
+            <div className="w-16 h-16 md:w-20 md:h-20 rounded-xl overflow-hidden shrink-0">
+              <PuzzleIllustration />
+            </div>
+            <div className="flex-1 text-left">
+              <h3 className="pixel-text text-sm md:text-base mb-1">Daily Puzzle</h3>
+              <p className="text-xs md:text-sm text-muted-foreground">
+                A new forced win every day - same puzzle for everyone, fastest solvers top the daily board
+              </p>
+            </div>
+            <Button size="sm" className="pixel-text text-xs bg-gradient-to-r from-primary to-secondary shrink-0">
+              <Puzzle className="w-3.5 h-3.5 mr-2" />
+              Solve
+            </Button>
+          </Card>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6 max-w-4xl mx-auto">
             {GAMES.map((game) => (
               <GameCard
@@ -12,7 +12,10 @@
  *        gameId: "{{game_id}}",
  *        playMode: "free" | "stake",
  *        stakeAmount: {{amount}},
- *        playerXP: {{user_xp}}
+ *        playerXP: {{user_xp}},
+ *        bestOf: 1 | 3 | 5 (series length; always 1 for RPS and trivia),
+ *        variant: "{{variant_id}}" (optional, the game's default variant when omitted),
+ *        target: {{round_wins}} | {{question_count}} (RPS, reaction / trivia only, one of the variant's targets)
  *      }
  *      Response: { matchId: "{{match_id}}", status: "searching" | "found" }
  * 
@@ -21,10 +24,18 @@
  *      Events:
  *      - "match_found": { matchId, opponentId, opponentName, opponentXP }
  *      - "match_timeout": {} (no opponent found)
+ *      - "queue_update": { queued, position, searching, waitedMs, estimatedWaitMs, timeoutInMs, xpBand, cancelToken }
+ *        every few seconds while searching (and "queue_status", same shape, for { action: "status" })
+ *      - "queue_left": { reason: "cancelled" } after { action: "cancel" } or POST /api/matchmaking/cancel { wallet, cancelToken }
+ *      Send { action: "requeue" } to search again with the last join after a timeout or cancel
  * 
  * 2. AI Opponent Selection:
- *    - GET /api/ai-opponent?difficulty={{easy|medium|hard}}
- *      Returns AI opponent with appropriate XP level
+ *    - GET /api/bots -> [{ difficulty, name, maxStake }]
+ *    - POST /api/bots/match { wallet, gameId, difficulty: easy|medium|hard, bestOf, variant, target }
+ *      Creates a practice match against a server-hosted bot and returns
+ *      { matchId, ticket, opponentWallet, opponentName } for /game/:matchId
+ *      Staked: add { stakeAmount, escrowId } after createMatch; the house wallet
+ *      joins the escrow (up to maxStake for that difficulty) before it returns
  * 
  * 3. Stake Validation:
  *    - Verify user has sufficient ARK balance before allowing stake
@@ -49,15 +60,23 @@ import { Game } from "../types";
 import { useWallet } from "../context/WalletContext";
 import { useAccount } from "wagmi";
 import { useApproveArk, useCreateMatch, useJoinMatch } from "../lib/hooks";
-import { stakeAndQueue } from "../lib/matchClient";
+import { type MatchFormat, type QueueStatus, formatFields, stakeAndQueue, stakeEscrow } from "../lib/matchClient";
+import { VARIANTS, type GameId, type Variant } from "@spark/shared/src/rules";
+import { BOT_DIFFICULTIES, type BotDifficulty, type BotInfo, listBots, startBotMatch } from "../lib/bots";
 import { motion } from "motion/react";
 import {
   ChessIllustration,
+  CheckersIllustration,
+  BattleshipIllustration,
   TicTacToeIllustration,
   ConnectFourIllustration,
   RockPaperScissorsIllustration,
+  TriviaIllustration,
+  MemoryCardsIllustration,
+  SpeedMatchIllustration,
 } from "../components/ArcadeIllustrations";
 import { StakePlay } from "../features/lobby/StakePlay";
+import { ReclaimStake } from "../features/lobby/ReclaimStake";
 
 interface LobbyPageProps {
   game: Game;
@@ -66,9 +85,14 @@ interface LobbyPageProps {
 
 const illustrationMap = {
   chess: ChessIllustration,
+  checkers: CheckersIllustration,
+  battleship: BattleshipIllustration,
   tictactoe: TicTacToeIllustration,
   connectfour: ConnectFourIllustration,
   rockpaperscissors: RockPaperScissorsIllustration,
+  trivia: TriviaIllustration,
+  memory: MemoryCardsIllustration,
+  speed: SpeedMatchIllustration,
 };
 
 export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
@@ -77,6 +101,14 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
   const [isMatchmaking, setIsMatchmaking] = useState(false);
   const [matchmakingMode, setMatchmakingMode] = useState<"multiplayer" | "ai" | null>(null);
   const [matchmakingFailed, setMatchmakingFailed] = useState(false);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const [queuedAt, setQueuedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>("medium");
+  const [bestOf, setBestOf] = useState(1);
+  const [variantId, setVariantId] = useState("");
+  const [target, setTarget] = useState<number | undefined>(undefined);
+  const [bots, setBots] = useState<BotInfo[]>([]);
   const { arkBalance, xp } = useWallet();
   const { address } = useAccount();
   const approveArk = useApproveArk();
@@ -90,6 +122,17 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
   const apiUrl = (import.meta as any).env?.VITE_API_URL || "http://localhost:3000";
   const wsUrl = apiUrl.replace("http", "ws");
   
+  useEffect(() => {
+    listBots().then(setBots).catch((error) => console.error("Failed to load bots:", error));
+  }, []);
+
+  // Tick the search timer between queue updates
+  useEffect(() => {
+    if (!queueStatus?.queued) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [queueStatus?.queued]);
+
   // Cleanup WebSocket on unmount
   useEffect(() => {
     return () => {
@@ -106,6 +149,18 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
    * For free mode: Sends WebSocket join directly
    * WebSocket: Listen for match_found or match_timeout events
    */
+  // RPS and the reaction duel are already played to a target score and trivia over a set of questions,
+  // so none of them has series
+  const isTrivia = game.id === "trivia";
+  const hasSeries = game.id !== "rockpaperscissors" && game.id !== "reaction" && !isTrivia;
+  const seriesLength = hasSeries ? bestOf : 1;
+  // Rule variants of this game (the first is the default); the rules panel follows the selection
+  const variants: Variant[] = VARIANTS[game.id as GameId] ?? [];
+  const variant = variants.find((v) => v.id === variantId) ?? variants[0];
+  const variantTarget = variant?.targets ? (target !== undefined && variant.targets.includes(target) ? target : variant.targets[0]) : undefined;
+  const rules = variant ? variant.rules({ target: variantTarget }) : game.rules;
+  const format: MatchFormat = { bestOf: seriesLength, variant: variant?.id ?? "", target: variantTarget };
+
   const handleStartMatch = async (mode: "multiplayer" | "ai") => {
     setMatchmakingMode(mode);
     setIsMatchmaking(true);
@@ -113,55 +168,30 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
     
     try {
       if (mode === "ai") {
-        // AI mode - simpler flow, no multiplayer matchmaking needed
+        // AI mode - the server seats a bot; staked games are played against the house bankroll
+        // (no XP either way)
+        if (!address) {
+          throw new Error("Wallet not connected");
+        }
+        let stake: { stakeAmount: number; escrowId: bigint } | undefined;
         if (playMode === "stake") {
-          // For stake mode with AI, still need to create escrow
-          if (!address) {
-            throw new Error("Wallet not connected");
-          }
-          
-          // Connect WebSocket for AI stake mode
-          const ws = new WebSocket(`${wsUrl}/matchmaking`);
-          wsRef.current = ws;
-          
-          // Wait for WebSocket to connect
-          await new Promise<void>((resolve, reject) => {
-            ws.onopen = () => resolve();
-            ws.onerror = () => reject(new Error("WebSocket connection failed"));
-            setTimeout(() => reject(new Error("WebSocket timeout")), 5000);
-          });
-          
-          // Call stakeAndQueue to handle approve + createMatch + join
-          await stakeAndQueue(
-            stakeAmount.toString(),
-            address,
-            ws,
-            approveArk,
-            createMatch
-          );
-          
-          // For AI, we can navigate immediately after stake
-          setTimeout(() => {
-            onNavigate("gameplay", { 
-              game, 
-              stakeAmount,
-              playMode,
-              opponentType: "ai",
-              opponentXP: xp
-            });
-          }, 1500);
-        } else {
-          // Free play AI - no blockchain interaction needed
-          setTimeout(() => {
-            onNavigate("gameplay", { 
-              game, 
-              stakeAmount: 0,
-              playMode,
-              opponentType: "ai",
-              opponentXP: xp
-            });
-          }, 1500);
+          const { escrowId } = await stakeEscrow(stakeAmount.toString(), approveArk, createMatch);
+          stake = { stakeAmount, escrowId };
         }
+        const bot = await startBotMatch(address, game.id, botDifficulty, stake, format);
+        onNavigate("gameplay", {
+          game,
+          stakeAmount: stake ? stakeAmount : 0,
+          playMode: stake ? "stake" : "free",
+          opponentType: "ai",
+          matchId: bot.matchId,
+          escrowId: bot.escrowId,
+          opponentWallet: bot.opponentWallet,
+          opponentName: bot.opponentName,
+          botDifficulty: bot.difficulty,
+          role: bot.role,
+          ticket: bot.ticket
+        });
       } else {
         // Multiplayer mode - real matchmaking via WebSocket
         if (!address) {
@@ -182,9 +212,12 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
               await stakeAndQueue(
                 stakeAmount.toString(),
                 address,
+                game.id,
+                xp,
                 ws,
                 approveArk,
-                createMatch
+                createMatch,
+                format
               );
             } catch (error) {
               console.error("Stake and queue failed:", error);
@@ -200,7 +233,8 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
               gameId: game.id,
               playMode: "free",
               stakeAmount: 0,
-              playerXP: xp
+              playerXP: xp,
+              ...formatFields(format)
             }));
           }
         };
@@ -211,7 +245,7 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
           
           if (msg.event === "match_found") {
             try {
-              const { matchId, escrowId, opponentWallet, role } = msg.data;
+              const { matchId, escrowId, opponentWallet, role, ticket } = msg.data;
               
               // P1 informs backend to start the match
               if (role === "p1") {
@@ -219,11 +253,11 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                   method: "POST",
                   headers: { "content-type": "application/json" },
                   body: JSON.stringify({
+                    matchId,
                     p1Wallet: address,
                     p2Wallet: opponentWallet,
                     gameId: game.id,
-                    stakeAmount: playMode === "stake" ? Number(stakeAmount) : 0,
-                    escrowId: escrowId ? BigInt(escrowId).toString() : null
+                    stakeAmount: playMode === "stake" ? Number(stakeAmount) : 0
                   })
                 });
               }
@@ -248,14 +282,24 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                 matchId,
                 escrowId,
                 opponentWallet,
-                role
+                role,
+                ticket
               });
             } catch (error) {
               console.error("Error handling match_found:", error);
               setIsMatchmaking(false);
               setMatchmakingFailed(true);
             }
+          } else if (msg.event === "queue_update" || msg.event === "queue_status") {
+            // Anchor the local timer to the server's wait
+            setQueueStatus(msg.data);
+            setQueuedAt(Date.now() - (msg.data.waitedMs ?? 0));
+            setNow(Date.now());
+          } else if (msg.event === "queue_left") {
+            setQueueStatus(null);
+            setIsMatchmaking(false);
           } else if (msg.event === "match_timeout" || msg.type === "error") {
+            setQueueStatus(null);
             setIsMatchmaking(false);
             setMatchmakingFailed(true);
           }
@@ -286,12 +330,37 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
     }
   };
 
+  const cancelSearch = () => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ action: "cancel" }));
+    } else {
+      setIsMatchmaking(false);
+    }
+  };
+
+  // Search again on the same socket with the same parameters, or start over if it is gone
+  const retrySearch = () => {
+    setMatchmakingFailed(false);
+    if (matchmakingMode === "multiplayer" && wsRef.current?.readyState === WebSocket.OPEN) {
+      setIsMatchmaking(true);
+      wsRef.current.send(JSON.stringify({ action: "requeue" }));
+    } else {
+      setIsMatchmaking(false);
+    }
+  };
+
+  const seconds = (ms: number) => `${Math.max(0, Math.round(ms / 1000))}s`;
+  const searchingFor = queueStatus?.queued ? now - queuedAt : 0;
+
   const switchToAIMode = () => {
     setMatchmakingFailed(false);
     handleStartMatch("ai");
   };
 
   const canAffordStake = arkBalance >= stakeAmount;
+  // The house only takes whole-ARK stakes up to a per-difficulty limit
+  const maxBotStake = bots.find((b: BotInfo) => b.difficulty === botDifficulty)?.maxStake ?? 0;
+  const canStakeVsBot = Number.isInteger(stakeAmount) && stakeAmount <= maxBotStake && canAffordStake;
 
   return (
     <div className="min-h-screen py-8 md:py-16">
@@ -340,7 +409,7 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                 </div>
 
                 {/* Game Rules */}
-                {game.rules && game.rules.length > 0 && (
+                {rules && rules.length > 0 && (
                   <>
                     <div className="h-px bg-border/50 my-6" />
                     <div>
@@ -349,7 +418,7 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                         <h3 className="pixel-text text-sm">Game Rules</h3>
                       </div>
                       <ul className="space-y-2">
-                        {game.rules.map((rule, index) => (
+                        {rules.map((rule: string, index: number) => (
                           <li
                             key={index}
                             className={`text-xs flex items-start gap-2 ${
@@ -432,6 +501,69 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                   </div>
                 )}
 
+                {/* Rule variant - matchmaking only pairs players who picked the same one */}
+                {variants.length > 1 && (
+                  <div className="space-y-2 mb-6">
+                    <label className="text-xs text-muted-foreground pixel-text">Variant</label>
+                    <div className={`grid gap-2 ${variants.length > 2 ? "grid-cols-3" : "grid-cols-2"}`}>
+                      {variants.map((v) => (
+                        <Button
+                          key={v.id}
+                          variant={variant?.id === v.id ? "default" : "outline"}
+                          onClick={() => setVariantId(v.id)}
+                          disabled={isMatchmaking}
+                          className={`pixel-text text-xs h-auto py-2 ${variant?.id === v.id ? "bg-primary" : ""}`}
+                        >
+                          <div className="text-center">
+                            <div className="mb-1">{v.name}</div>
+                            <div className="text-[10px] opacity-80 normal-case">{v.summary}</div>
+                          </div>
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Target score (RPS) - round wins needed to take the match; trivia: questions asked */}
+                {variant?.targets && (
+                  <div className="space-y-2 mb-6">
+                    <label className="text-xs text-muted-foreground pixel-text">{isTrivia ? "Questions" : "First to"}</label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {[...variant.targets].sort((x, y) => x - y).map((n) => (
+                        <Button
+                          key={n}
+                          variant={variantTarget === n ? "default" : "outline"}
+                          onClick={() => setTarget(n)}
+                          disabled={isMatchmaking}
+                          className={`pixel-text text-xs ${variantTarget === n ? "bg-primary" : ""}`}
+                        >
+                          {isTrivia ? `${n} questions` : `${n} wins`}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Series length - one match of 1, 3 or 5 games, settled once at the end */}
+                {hasSeries && (
+                  <div className="space-y-2 mb-6">
+                    <label className="text-xs text-muted-foreground pixel-text">Series</label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {[1, 3, 5].map((n) => (
+                        <Button
+                          key={n}
+                          variant={bestOf === n ? "default" : "outline"}
+                          onClick={() => setBestOf(n)}
+                          disabled={isMatchmaking}
+                          className={`pixel-text text-xs ${bestOf === n ? "bg-primary" : ""}`}
+                        >
+                          {n === 1 ? "Single" : `Best of ${n}`}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* User XP Display */}
                 <div className="mb-6 p-3 rounded-lg bg-muted/30 border border-border/30">
                   <div className="flex justify-between items-center text-xs">
@@ -448,6 +580,7 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                       <StakePlay
                         stake={stakeAmount.toString()}
                         gameId={game.id}
+                        format={format}
                         onMatchFound={(data) => {
                           // Navigate to game page with match data
                           onNavigate("gameplay", {
@@ -458,7 +591,8 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                             matchId: data.matchId,
                             escrowId: data.escrowId,
                             opponentWallet: data.opponentWallet,
-                            role: data.role
+                            role: data.role,
+                            ticket: data.ticket
                           });
                         }}
                       />
@@ -473,14 +607,34 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                         Find Multiplayer Match
                       </Button>
                     )}
+                    {/* AI difficulty - bots are hosted by the game server */}
+                    <div className="grid grid-cols-3 gap-2">
+                      {BOT_DIFFICULTIES.map((d) => (
+                        <Button
+                          key={d}
+                          variant={botDifficulty === d ? "default" : "outline"}
+                          onClick={() => setBotDifficulty(d)}
+                          className={`pixel-text text-xs capitalize ${botDifficulty === d ? "bg-secondary" : ""}`}
+                        >
+                          {d}
+                        </Button>
+                      ))}
+                    </div>
                     <Button
                       onClick={() => handleStartMatch("ai")}
-                      disabled={isMatchmaking || (playMode === "stake" && !canAffordStake)}
+                      disabled={isMatchmaking || (playMode === "stake" && !canStakeVsBot)}
                       variant="outline"
                       className="w-full border-2 border-secondary/50 hover:bg-secondary/10 pixel-text text-xs h-11 md:h-12"
                     >
-                      Play vs AI
+                      {playMode === "stake" ? `Stake ${stakeAmount} ARK vs AI` : "Play vs AI"}
                     </Button>
+                    <p className="text-xs text-muted-foreground text-center">
+                      {playMode === "stake"
+                        ? maxBotStake > 0
+                          ? `The house matches whole-ARK stakes up to ${maxBotStake} ARK against this bot. No XP.`
+                          : "Staking against the house is unavailable right now"
+                        : "AI games are free practice: no stake and no XP"}
+                    </p>
                   </div>
                 )}
 
@@ -491,13 +645,45 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                     animate={{ opacity: 1, y: 0 }}
                     className="text-center py-6"
                   >
-                    <Loader2 className="w-12 h-12 mx-auto mb-4 animate-spin text-primary" />
-                    <p className="pixel-text text-sm mb-2">
-                      {matchmakingMode === "ai" ? "Preparing AI Opponent..." : "Finding Opponent..."}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {matchmakingMode === "multiplayer" && "Matching based on your XP level"}
-                    </p>
+                    {matchmakingMode === "multiplayer" && queueStatus?.queued ? (
+                      // Live search: the server sends queue updates every few seconds
+                      <div className="space-y-3">
+                        <p className="pixel-text text-2xl text-primary">{seconds(searchingFor)}</p>
+                        <p className="pixel-text text-sm">Finding Opponent...</p>
+                        <div className="grid grid-cols-3 gap-2 text-xs">
+                          <div className="rounded border border-border p-2">
+                            <p className="text-muted-foreground">Position</p>
+                            <p className="pixel-text">{queueStatus.position}</p>
+                          </div>
+                          <div className="rounded border border-border p-2">
+                            <p className="text-muted-foreground">Searching</p>
+                            <p className="pixel-text">{queueStatus.searching}</p>
+                          </div>
+                          <div className="rounded border border-border p-2">
+                            <p className="text-muted-foreground">Est. wait</p>
+                            <p className="pixel-text">
+                              {queueStatus.estimatedWaitMs == null ? "—" : `~${seconds(queueStatus.estimatedWaitMs)}`}
+                            </p>
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Matching within ±{queueStatus.xpBand} XP of your level, widening as you wait
+                        </p>
+                        <Button onClick={cancelSearch} variant="ghost" className="w-full pixel-text text-xs">
+                          Cancel Search
+                        </Button>
+                      </div>
+                    ) : (
+                      <>
+                        <Loader2 className="w-12 h-12 mx-auto mb-4 animate-spin text-primary" />
+                        <p className="pixel-text text-sm mb-2">
+                          {matchmakingMode === "ai" ? "Preparing AI Opponent..." : "Finding Opponent..."}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {matchmakingMode === "multiplayer" && "Matching based on your XP level"}
+                        </p>
+                      </>
+                    )}
                   </motion.div>
                 )}
 
@@ -511,6 +697,8 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                     <p className="pixel-text text-sm text-muted-foreground">
                       No opponent found
                     </p>
+                    {/* A stake deposited before queueing stays in escrow until reclaimed (or swept by the API) */}
+                    <ReclaimStake escrowId={createMatch.escrowId} reclaim={createMatch.reclaim} />
                     <div className="space-y-2">
                       <Button
                         onClick={switchToAIMode}
@@ -519,10 +707,7 @@ export function LobbyPage({ game, onNavigate }: LobbyPageProps) {
                         Play vs AI Instead
                       </Button>
                       <Button
-                        onClick={() => {
-                          setMatchmakingFailed(false);
-                          setIsMatchmaking(false);
-                        }}
+                        onClick={retrySearch}
                         variant="ghost"
                         className="w-full pixel-text text-xs"
                       >
@@ -0,0 +1,317 @@
+/**
+ * SPARK - Daily Puzzle Page
+ * Single-player puzzle of the day with its own daily leaderboard
+ *
+ * DEVELOPER INTEGRATION NOTES:
+ * ============================================================================
+ * DATA REQUIRED FROM BACKEND:
+ *
+ * 1. POST /api/puzzles/daily/start { wallet }
+ *    Today's puzzle and the player's run: { puzzle, run: { startedAt, attempts, solved, solveMs } }
+ *    (GET /api/puzzles/daily shows the puzzle without a wallet)
+ *
+ * 2. POST /api/puzzles/daily/attempt { wallet, date, moves }
+ *    Every finished line counts as an attempt until one solves the puzzle;
+ *    the server replays it with the shared rules and defence
+ *
+ * 3. GET /api/leaderboard/puzzles?date={{puzzle_date}}
+ *    The day's solvers, fewest attempts first, then fastest
+ *
+ * GAME LOGIC:
+ * - Puzzles are Connect Four or Tic-Tac-Toe Infinity positions with a forced win in N moves,
+ *   generated from the date by @spark/shared (dailyPuzzle), the same for everyone
+ * - The defence is played here with the same solver the server uses (puzzleReply), so what the
+ *   board shows is what the server checks
+ * ============================================================================
+ */
+
+import { useEffect, useState } from "react";
+import { Card } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+import { ArrowLeft, Clock, Crown, Loader2, RotateCcw, Target, Trophy } from "lucide-react";
+import { motion } from "motion/react";
+import { useWallet } from "../context/WalletContext";
+import { PixelAvatar } from "../components/PixelAvatar";
+import { PuzzleIllustration } from "../components/ArcadeIllustrations";
+import { otherSide, puzzleReply, puzzleRules, type C4State, type Puzzle, type TTTState } from "@spark/shared/src/rules";
+import {
+  type PuzzleLeaderboard, type PuzzleLeaderboardEntry, type PuzzleRun, fetchDailyPuzzle, fetchPuzzleLeaderboard, startDailyPuzzle, submitPuzzleLine
+} from "../lib/puzzles";
+
+interface PuzzlePageProps {
+  onNavigate: (screen: string, data?: any) => void;
+}
+
+// How long the defence "thinks" before its reply shows
+const REPLY_DELAY_MS = 400;
+
+const REASON_TEXT: Record<string, string> = {
+  out_of_moves: "Out of moves - the win has to come sooner",
+  puzzle_failed: "The defence held - try another line",
+  puzzle_closed: "That puzzle is over - a new one is up",
+  puzzle_not_started: "Open the puzzle again to play it for the board",
+};
+
+const formatMs = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+};
+
+export function PuzzlePage({ onNavigate }: PuzzlePageProps) {
+  const { isConnected, walletAddress } = useWallet();
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [run, setRun] = useState<PuzzleRun | null>(null);
+  const [board, setBoard] = useState<Puzzle["state"] | null>(null);
+  const [line, setLine] = useState<number[]>([]);
+  const [thinking, setThinking] = useState(false);
+  const [result, setResult] = useState<{ solved: boolean; text: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [leaders, setLeaders] = useState<PuzzleLeaderboard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Today's puzzle: with a wallet it is opened for the record, without one it can only be looked at
+  useEffect(() => {
+    let mounted = true;
+    setError(null);
+    const load = walletAddress
+      ? startDailyPuzzle(walletAddress)
+      : fetchDailyPuzzle().then(({ puzzle }) => ({ puzzle, run: null }));
+    load.then(({ puzzle, run }) => {
+      if (!mounted) return;
+      setPuzzle(puzzle);
+      setRun(run);
+      setBoard(puzzle.state);
+      setLine([]);
+      setResult(null);
+      fetchPuzzleLeaderboard(puzzle.date).then((l) => mounted && setLeaders(l)).catch(() => {});
+    }).catch((err: unknown) => mounted && setError(err instanceof Error ? err.message : "Failed to load the puzzle"));
+    return () => { mounted = false; };
+  }, [walletAddress]);
+
+  // Running solve time (display only - the server times the run)
+  useEffect(() => {
+    if (!run || run.solved) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [run]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen py-8 md:py-16 container mx-auto px-4 md:px-6">
+        <Card className="max-w-xl mx-auto p-12 text-center bg-card/30 border-border/30">
+          <Trophy className="w-16 h-16 mx-auto text-red-400/30 mb-4" />
+          <h3 className="text-lg pixel-text text-red-400 mb-2">Error Loading Puzzle</h3>
+          <p className="text-xs text-muted-foreground/70">{error}</p>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!puzzle || !board) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const rules = puzzleRules(puzzle);
+  const isC4 = puzzle.game === "connectfour";
+  const left = puzzle.moves - line.length;
+  const canMove = !thinking && !result && !submitting && left > 0;
+
+  // A finished line goes to the server; the board only says what the server says
+  const finish = async (moves: number[]) => {
+    if (!walletAddress || !run) {
+      setResult({ solved: false, text: "Connect your wallet to play for the leaderboard" });
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await submitPuzzleLine(walletAddress, puzzle.date, moves);
+      if (res.run) setRun(res.run);
+      const solved = !!res.solved;
+      setResult({ solved, text: solved ? "Solved!" : (REASON_TEXT[res.reason] ?? res.reason) });
+      if (solved) fetchPuzzleLeaderboard(puzzle.date).then(setLeaders).catch(() => {});
+    } catch (err) {
+      setResult({ solved: false, text: err instanceof Error ? err.message : "Could not submit the line" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const play = (move: number) => {
+    if (!canMove) return;
+    const res = rules.applyMove(board, puzzle.side, move);
+    if (!res.ok) return;
+    const moves = [...line, move];
+    setBoard(res.state);
+    setLine(moves);
+    if (rules.outcome(res.state) || moves.length >= puzzle.moves) { finish(moves); return; }
+    setThinking(true);
+    setTimeout(() => {
+      const reply = puzzleReply(puzzle, res.state, puzzle.moves - moves.length);
+      const answered = reply === undefined ? undefined : rules.applyMove(res.state, otherSide(puzzle.side), reply);
+      setThinking(false);
+      if (!answered?.ok) { finish(moves); return; }
+      setBoard(answered.state);
+      if (rules.outcome(answered.state)) finish(moves);
+    }, REPLY_DELAY_MS);
+  };
+
+  const retry = () => {
+    setBoard(puzzle.state);
+    setLine([]);
+    setResult(null);
+  };
+
+  const myColor = puzzle.side === "a" ? "red" : "yellow";
+  const myMark = puzzle.side === "a" ? "X" : "O";
+  const elapsed = run ? (run.solved ? run.solveMs ?? 0 : now - new Date(run.startedAt).getTime()) : 0;
+
+  return (
+    <div className="min-h-screen py-8 md:py-16">
+      <div className="container mx-auto px-4 md:px-6">
+        <div className="max-w-5xl mx-auto">
+          <Button variant="ghost" onClick={() => onNavigate("landing")} className="mb-4 pixel-text text-xs">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+
+          {/* Header */}
+          <div className="mb-8 text-center">
+            <div className="w-24 h-24 mx-auto mb-4">
+              <PuzzleIllustration />
+            </div>
+            <h1 className="mb-2 text-3xl md:text-4xl pixel-text bg-gradient-to-r from-primary via-secondary to-accent bg-clip-text text-transparent">
+              Daily Puzzle
+            </h1>
+            <p className="text-muted-foreground/70 text-xs md:text-sm">
+              {isC4 ? "Connect Four" : "Tic-Tac-Toe Infinity"} - win in {puzzle.moves} moves - {puzzle.date}
+            </p>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-6">
+            {/* Board */}
+            <Card className="md:col-span-2 p-6 md:p-8">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <Badge variant="outline" className="pixel-text text-xs">
+                  <Target className="w-3 h-3 mr-1" />
+                  You play {isC4 ? myColor : myMark} - {left} move{left === 1 ? "" : "s"} left
+                </Badge>
+                {run && (
+                  <Badge variant="outline" className="pixel-text text-xs">
+                    <Clock className="w-3 h-3 mr-1" />
+                    {formatMs(elapsed)} - {run.attempts} attempt{run.attempts === 1 ? "" : "s"}
+                  </Badge>
+                )}
+              </div>
+
+              {isC4 ? (
+                <div className="bg-gradient-to-br from-primary/10 to-secondary/10 rounded-2xl p-4 border-4 border-primary/30 max-w-lg mx-auto">
+                  <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${(board as C4State).cols}, minmax(0, 1fr))` }}>
+                    {(board as C4State).board.map((cell, index) => (
+                      <button
+                        key={index}
+                        onClick={() => play(index % (board as C4State).cols)}
+                        disabled={!canMove}
+                        className={`relative aspect-square ${canMove ? "cursor-pointer" : "cursor-default"}`}
+                      >
+                        <div className="absolute inset-0 bg-background rounded-full border-2 border-primary/20" />
+                        {cell && (
+                          <motion.div
+                            initial={{ scale: 0.6, opacity: 0 }}
+                            animate={{ scale: 1, opacity: 1 }}
+                            className={`absolute inset-1 rounded-full ${
+                              cell === "red"
+                                ? "bg-gradient-to-br from-red-400 to-red-600 shadow-lg shadow-red-500/50"
+                                : "bg-gradient-to-br from-yellow-300 to-yellow-500 shadow-lg shadow-yellow-500/50"
+                            }`}
+                          />
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-2 md:gap-3 max-w-sm mx-auto">
+                  {(board as TTTState).board.map((cell, index) => {
+                    // In Infinity the oldest of three marks goes when its side places another
+                    const moves = (board as TTTState).moves;
+                    const fading = (moves.a.length >= 3 && moves.a[0] === index) || (moves.b.length >= 3 && moves.b[0] === index);
+                    return (
+                      <button
+                        key={index}
+                        onClick={() => play(index)}
+                        disabled={!canMove || cell !== null}
+                        className={`aspect-square rounded-lg border-2 pixel-text text-3xl md:text-4xl flex items-center justify-center ${
+                          cell ? "bg-card border-primary/30" : "bg-muted/30 border-border/30 hover:border-primary/50 hover:bg-primary/5"
+                        } ${fading ? "opacity-50" : ""} ${canMove && !cell ? "cursor-pointer" : "cursor-default"}`}
+                      >
+                        {cell === "X" && <span className="text-primary">X</span>}
+                        {cell === "O" && <span className="text-secondary">O</span>}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Status */}
+              <div className="mt-6 text-center space-y-3">
+                <p className={`text-xs md:text-sm pixel-text ${result ? (result.solved ? "text-green-400" : "text-red-400") : "text-muted-foreground"}`}>
+                  {submitting ? "Checking..." : (result?.text ?? (thinking ? "Defence is thinking..." : "Your move"))}
+                </p>
+                {run?.solved && !result && (
+                  <p className="text-xs text-accent pixel-text">Solved in {formatMs(run.solveMs ?? 0)} with {run.attempts} attempt{run.attempts === 1 ? "" : "s"}</p>
+                )}
+                {!isConnected && <p className="text-xs text-muted-foreground">Connect your wallet to play for the daily leaderboard</p>}
+                {(result || line.length > 0) && !thinking && !submitting && (
+                  <Button variant="outline" size="sm" onClick={retry} className="pixel-text text-xs">
+                    <RotateCcw className="w-3 h-3 mr-2" />
+                    Try again
+                  </Button>
+                )}
+              </div>
+
+              <Card className="mt-6 p-4 bg-muted/30 border-border/30">
+                <p className="text-xs text-muted-foreground text-center leading-relaxed">
+                  <strong className="text-foreground">Rules:</strong> Force a win within {puzzle.moves} of your moves, whatever the defence plays.
+                  {isC4 ? " Drop a token by clicking its column." : " Each side keeps at most three marks - a fourth removes its oldest (shown faded)."}
+                  {" "}Every finished line counts as an attempt; the board ranks fewest attempts, then fastest time.
+                </p>
+              </Card>
+            </Card>
+
+            {/* Today's board */}
+            <Card className="p-6">
+              <h3 className="pixel-text text-sm mb-1 flex items-center gap-2">
+                <Trophy className="w-4 h-4 text-accent" />
+                Today's Solvers
+              </h3>
+              <p className="text-xs text-muted-foreground mb-4">
+                {leaders ? `${leaders.entries.length} of ${leaders.players} players solved it` : "Loading..."}
+              </p>
+              <div className="space-y-2">
+                {leaders?.entries.slice(0, 10).map((e: PuzzleLeaderboardEntry) => (
+                  <div key={e.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/20">
+                    <span className="w-6 text-center">
+                      {e.rank === 1 ? <Crown className="w-4 h-4 text-yellow-400 mx-auto" /> : <span className="pixel-text text-xs text-muted-foreground">#{e.rank}</span>}
+                    </span>
+                    <PixelAvatar seed={e.name} size={28} />
+                    <span className="flex-1 text-xs truncate">{e.name}</span>
+                    <span className="text-xs text-muted-foreground">{formatMs(e.solveMs)} - {e.attempts}x</span>
+                  </div>
+                ))}
+                {leaders && leaders.entries.length === 0 && (
+                  <p className="text-xs text-muted-foreground/70 text-center py-6">Nobody has solved it yet - be the first!</p>
+                )}
+              </div>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
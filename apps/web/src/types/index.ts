@@ -16,7 +16,7 @@ export interface Game {
   nftReward: string;
   difficulty: "Easy" | "Medium" | "Hard";
   players: number;
-  illustration: "chess" | "tictactoe" | "connectfour" | "rockpaperscissors" | "puzzle" | "trivia" | "speed" | "memory";
+  illustration: "chess" | "checkers" | "battleship" | "tictactoe" | "connectfour" | "rockpaperscissors" | "puzzle" | "trivia" | "speed" | "memory";
   rules?: string[]; // Optional game rules to display before match
 }
 
@@ -54,7 +54,7 @@ export interface Player {
 // NAVIGATION TYPES
 // ============================================================================
 
-export type Screen = "landing" | "lobby" | "gameplay" | "profile" | "leaderboard";
+export type Screen = "landing" | "lobby" | "gameplay" | "profile" | "leaderboard" | "puzzle";
 
 export interface NavigationData {
   game?: Game;
@@ -66,6 +66,10 @@ export interface NavigationData {
   escrowId?: string;
   opponentWallet?: string;
   role?: "p1" | "p2";
+  ticket?: string; // signed seat ticket from match_found, required by /game/:matchId
+  // Bot games: the server-hosted opponent's name and difficulty
+  opponentName?: string;
+  botDifficulty?: "easy" | "medium" | "hard";
 }
 
 // ============================================================================
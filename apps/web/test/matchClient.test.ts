@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { stakeAndQueue } from "../src/lib/matchClient";
+
+// Contract addresses are read when the module loads
+vi.hoisted(() => {
+  vi.stubEnv("VITE_ARK_ADDRESS", "0x00000000000000000000000000000000000000a4");
+  vi.stubEnv("VITE_ESCROW_ADDRESS", "0x00000000000000000000000000000000000000e5");
+});
+
+const WALLET = "0x00000000000000000000000000000000000000a1" as const;
+
+// A matchmaking socket that keeps what is sent, and a wallet whose escrow deposit gets id 7
+function fakes() {
+  const sent: any[] = [];
+  const ws = { send: (data: string) => sent.push(JSON.parse(data)) } as unknown as WebSocket;
+  const approveArk = vi.fn(async () => {});
+  const createMatch = vi.fn(async () => ({ escrowId: 7n, txHash: "0x01" as `0x${string}` }));
+  return { sent, ws, approveArk, createMatch };
+}
+
+describe("stakeAndQueue", () => {
+  // No injected wallet: the deposit goes through approve + createMatch one after the other
+  vi.stubGlobal("window", {});
+
+  it("queues the selected game with the player's XP and format", async () => {
+    const { sent, ws, approveArk, createMatch } = fakes();
+    const { escrowId } = await stakeAndQueue("50", WALLET, "rockpaperscissors", 1200, ws, approveArk, createMatch,
+      { bestOf: 1, variant: "lizard-spock", target: 5 });
+
+    expect(escrowId).toBe(7n);
+    expect(createMatch).toHaveBeenCalledOnce();
+    expect(sent).toEqual([{
+      action: "join", wallet: WALLET, gameId: "rockpaperscissors", playMode: "stake", stakeAmount: 50,
+      playerXP: 1200, escrowId: "7", bestOf: 1, variant: "lizard-spock", target: 5
+    }]);
+  });
+
+  it("keeps a staked series on its own game's queue", async () => {
+    const { sent, ws, approveArk, createMatch } = fakes();
+    await stakeAndQueue("10", WALLET, "chess", 0, ws, approveArk, createMatch, { bestOf: 3, variant: "" });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ gameId: "chess", bestOf: 3 });
+    expect(sent[0]).not.toHaveProperty("variant");
+  });
+});
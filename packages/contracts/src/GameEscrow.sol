@@ -15,8 +15,15 @@ contract GameEscrow is AccessControl {
         uint256 stake;
         uint8 state; // 0=new,1=joined,2=settled,3=refunded
         address winner; // optional after settle
+        uint64 createdAt;
+        uint64 joinedAt;
     }
 
+    // P1 can reclaim an unjoined stake after CANCEL_TIMEOUT; either player can refund a joined
+    // match nobody settled after ABANDON_TIMEOUT. The settler can do both at any time.
+    uint256 public constant CANCEL_TIMEOUT = 10 minutes;
+    uint256 public constant ABANDON_TIMEOUT = 1 days;
+
     uint256 public nextId = 1;
     mapping(uint256 => Match) public matches;
 
@@ -34,7 +41,7 @@ contract GameEscrow is AccessControl {
     function createMatch(uint256 stake) external returns (uint256 id) {
         require(stake > 0, "stake=0");
         id = nextId++;
-        matches[id] = Match(msg.sender, address(0), stake, 0, address(0));
+        matches[id] = Match(msg.sender, address(0), stake, 0, address(0), uint64(block.timestamp), 0);
         require(ark.transferFrom(msg.sender, address(this), stake), "p1 transfer failed");
         emit MatchCreated(id, msg.sender, stake);
     }
@@ -45,6 +52,7 @@ contract GameEscrow is AccessControl {
         require(msg.sender != m.p1, "self");
         m.p2 = msg.sender;
         m.state = 1;
+        m.joinedAt = uint64(block.timestamp);
         require(ark.transferFrom(msg.sender, address(this), m.stake), "p2 transfer failed");
         emit MatchJoined(id, msg.sender);
     }
@@ -67,4 +75,33 @@ contract GameEscrow is AccessControl {
             emit MatchSettled(id, winner, pot);
         }
     }
+
+    // Nobody joined: return P1's stake
+    function cancel(uint256 id) external {
+        Match storage m = matches[id];
+        require(m.p1 != address(0) && m.state == 0, "bad state");
+        require(
+            hasRole(SETTLER_ROLE, msg.sender) ||
+            (msg.sender == m.p1 && block.timestamp >= m.createdAt + CANCEL_TIMEOUT),
+            "not allowed"
+        );
+        m.state = 3;
+        require(ark.transfer(m.p1, m.stake), "refund p1");
+        emit MatchRefunded(id);
+    }
+
+    // Joined but never settled (game abandoned): return both stakes
+    function refund(uint256 id) external {
+        Match storage m = matches[id];
+        require(m.state == 1, "not joined");
+        require(
+            hasRole(SETTLER_ROLE, msg.sender) ||
+            ((msg.sender == m.p1 || msg.sender == m.p2) && block.timestamp >= m.joinedAt + ABANDON_TIMEOUT),
+            "not allowed"
+        );
+        m.state = 3;
+        require(ark.transfer(m.p1, m.stake), "refund p1");
+        require(ark.transfer(m.p2, m.stake), "refund p2");
+        emit MatchRefunded(id);
+    }
 }
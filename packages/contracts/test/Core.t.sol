@@ -49,4 +49,40 @@ contract CoreTest is Test {
         badge.mintBadge(alice, 1); // Silver
         assertTrue(badge.hasTier(alice, 1));
     }
+
+    function test_cancel_unjoined_after_timeout() public {
+        vm.prank(alice);
+        uint256 id = escrow.createMatch(100e18);
+
+        vm.prank(alice);
+        vm.expectRevert(bytes("not allowed"));
+        escrow.cancel(id);
+
+        vm.warp(block.timestamp + escrow.CANCEL_TIMEOUT());
+        vm.prank(alice);
+        escrow.cancel(id);
+        assertEq(ark.balanceOf(alice), 1_000e18);
+
+        vm.prank(bob);
+        vm.expectRevert(bytes("bad state"));
+        escrow.joinMatch(id);
+    }
+
+    function test_settler_refunds_joined_match() public {
+        vm.prank(alice);
+        uint256 id = escrow.createMatch(100e18);
+        vm.prank(bob);
+        escrow.joinMatch(id);
+
+        vm.prank(bob);
+        vm.expectRevert(bytes("not allowed"));
+        escrow.refund(id);
+
+        escrow.refund(id);
+        assertEq(ark.balanceOf(alice), 1_000e18);
+        assertEq(ark.balanceOf(bob),   1_000e18);
+
+        vm.expectRevert(bytes("not ready"));
+        escrow.settle(id, alice);
+    }
 }
@@ -1 +1,3 @@
 export const ok = true;
+
+export * from "./rules/index.js";
@@ -0,0 +1,159 @@
+import { type GameRules, type Outcome, type Side, otherSide } from "./types.js";
+
+// Battleship on a 10x10 grid (index = row * 10 + col). The game starts with a setup phase in
+// which both sides place their fleet at the same time ({ fleet: placements }, one per ship of
+// BS_FLEET, in order); once both fleets are down, sides take turns firing at a cell of the
+// other's grid ({ shot: cell }). Sinking the whole opposing fleet wins.
+// Fleets are hidden information: the state holds both, so players must only ever be shown
+// `battleshipView(state, side)`.
+
+export const BS_SIZE = 10;
+
+export const BS_FLEET = [
+  { name: "Carrier", length: 5 },
+  { name: "Battleship", length: 4 },
+  { name: "Cruiser", length: 3 },
+  { name: "Submarine", length: 3 },
+  { name: "Destroyer", length: 2 },
+] as const;
+
+/** A ship's bow cell and direction (vertical ships run down, horizontal ones right) */
+export type BSPlacement = { cell: number; vertical: boolean };
+
+export type BSShot = { cell: number; hit: boolean };
+
+export type BSState = {
+  phase: "setup" | "play";
+  fleets: Record<Side, number[][] | null>; // cells of each ship, BS_FLEET order; null until placed
+  shots: Record<Side, BSShot[]>; // fired by each side at the other's grid
+  turn: Side; // side to fire once play starts
+  lastShot: { side: Side; cell: number; hit: boolean; sunk: string | null } | null;
+  outcome: Outcome | null;
+};
+
+export type BSMove = { fleet: BSPlacement[] } | { shot: number };
+
+/** What `side` may know: its own fleet and both sides' shots, plus enemy ships once sunk (all of them when the game is over) */
+export type BSView = {
+  phase: BSState["phase"];
+  placed: boolean;
+  opponentPlaced: boolean;
+  fleet: number[][] | null;
+  shots: BSShot[];
+  incoming: BSShot[];
+  sunk: Array<{ name: string; cells: number[] }>;
+  enemyFleet: number[][] | null;
+  lastShot: BSState["lastShot"];
+};
+
+/** Cells of a ship of `length` placed at `p`, or null when it leaves the grid */
+export function bsShipCells(p: BSPlacement, length: number): number[] | null {
+  if (!Number.isInteger(p?.cell) || p.cell < 0 || p.cell >= BS_SIZE * BS_SIZE) return null;
+  const row = Math.floor(p.cell / BS_SIZE), col = p.cell % BS_SIZE;
+  if ((p.vertical ? row : col) + length > BS_SIZE) return null;
+  return Array.from({ length }, (_, k) => p.cell + k * (p.vertical ? BS_SIZE : 1));
+}
+
+/** The fleet's ship cells, or the reason the placements are not a valid fleet */
+export function bsFleetCells(placements: BSPlacement[]): { ok: true; ships: number[][] } | { ok: false; reason: string } {
+  if (!Array.isArray(placements) || placements.length !== BS_FLEET.length) return { ok: false, reason: "invalid_fleet" };
+  const ships: number[][] = [];
+  const used = new Set<number>();
+  for (let i = 0; i < BS_FLEET.length; i++) {
+    const cells = bsShipCells(placements[i], BS_FLEET[i].length);
+    if (!cells) return { ok: false, reason: "ship_out_of_bounds" };
+    if (cells.some((c) => used.has(c))) return { ok: false, reason: "ships_overlap" };
+    cells.forEach((c) => used.add(c));
+    ships.push(cells);
+  }
+  return { ok: true, ships };
+}
+
+/** A valid fleet placed at random with `random` (a Math.random-like source) */
+export function bsRandomFleet(random: () => number): BSPlacement[] {
+  const placements: BSPlacement[] = [];
+  const used = new Set<number>();
+  for (const ship of BS_FLEET) {
+    for (;;) {
+      const p = { cell: Math.floor(random() * BS_SIZE * BS_SIZE), vertical: random() < 0.5 };
+      const cells = bsShipCells(p, ship.length);
+      if (!cells || cells.some((c) => used.has(c))) continue;
+      cells.forEach((c) => used.add(c));
+      placements.push(p);
+      break;
+    }
+  }
+  return placements;
+}
+
+const isSunk = (ship: number[], shots: BSShot[]) => ship.every((c) => shots.some((s) => s.hit && s.cell === c));
+
+export function battleshipView(state: BSState, side: Side): BSView {
+  const other = otherSide(side);
+  const enemy = state.fleets[other];
+  const shots = state.shots[side];
+  return {
+    phase: state.phase,
+    placed: !!state.fleets[side],
+    opponentPlaced: !!enemy,
+    fleet: state.fleets[side],
+    shots,
+    incoming: state.shots[other],
+    sunk: enemy ? enemy.flatMap((cells, i) => (isSunk(cells, shots) ? [{ name: BS_FLEET[i].name, cells }] : [])) : [],
+    enemyFleet: state.outcome ? enemy : null,
+    lastShot: state.lastShot,
+  };
+}
+
+export const battleship: GameRules<BSState, BSMove> = {
+  initialState(first) {
+    return { phase: "setup", fleets: { a: null, b: null }, shots: { a: [], b: [] }, turn: first, lastShot: null, outcome: null };
+  },
+
+  // Fleets are far too many to list: during setup any valid placement is accepted
+  legalMoves(state, side) {
+    if (state.outcome || state.phase !== "play" || state.turn !== side) return [];
+    const fired = new Set(state.shots[side].map((s) => s.cell));
+    return Array.from({ length: BS_SIZE * BS_SIZE }, (_, c) => c).filter((c) => !fired.has(c)).map((shot) => ({ shot }));
+  },
+
+  applyMove(state, side, move) {
+    if (state.outcome) return { ok: false, reason: "game_already_ended" };
+    if (move && "fleet" in move) {
+      if (state.phase !== "setup") return { ok: false, reason: "setup_over" };
+      if (state.fleets[side]) return { ok: false, reason: "fleet_already_placed" };
+      const fleet = bsFleetCells(move.fleet);
+      if (!fleet.ok) return fleet;
+      const fleets = { ...state.fleets, [side]: fleet.ships };
+      return { ok: true, state: { ...state, fleets, phase: fleets.a && fleets.b ? "play" : "setup" } };
+    }
+    if (state.phase !== "play") return { ok: false, reason: "setup_in_progress" };
+    if (state.turn !== side) return { ok: false, reason: "not_your_turn" };
+    const cell = (move as { shot: number } | undefined)?.shot;
+    if (!Number.isInteger(cell) || cell! < 0 || cell! >= BS_SIZE * BS_SIZE) return { ok: false, reason: "invalid_cell" };
+    if (state.shots[side].some((s) => s.cell === cell)) return { ok: false, reason: "already_shot" };
+
+    const enemy = state.fleets[otherSide(side)]!;
+    const ship = enemy.findIndex((cells) => cells.includes(cell!));
+    const shots = { ...state.shots, [side]: [...state.shots[side], { cell: cell!, hit: ship >= 0 }] };
+    const sunk = ship >= 0 && isSunk(enemy[ship], shots[side]) ? BS_FLEET[ship].name : null;
+    const lastShot = { side, cell: cell!, hit: ship >= 0, sunk };
+    if (enemy.every((cells) => isSunk(cells, shots[side]))) {
+      return { ok: true, state: { ...state, shots, lastShot, outcome: { winner: side, reason: "bs_fleet_sunk" } } };
+    }
+    return { ok: true, state: { ...state, shots, lastShot, turn: otherSide(side) } };
+  },
+
+  // In setup, whoever has not placed a fleet loses (a draw if neither has)
+  timeout(state) {
+    if (state.outcome) return state;
+    if (state.phase === "setup") {
+      const { a, b } = state.fleets;
+      const winner = a && !b ? "a" : (b && !a ? "b" : null);
+      return { ...state, outcome: { winner, reason: "setup_timeout" } };
+    }
+    return { ...state, outcome: { winner: otherSide(state.turn), reason: "turn_timeout" } };
+  },
+
+  outcome: (state) => state.outcome,
+};
@@ -0,0 +1,152 @@
+import { type GameRules, type Outcome, type Side, otherSide } from "./types.js";
+
+// Checkers (American rules) on an 8x8 board, 64 squares row-major from the top (index = row * 8 + col);
+// only the dark squares ((row + col) odd) are used. The side that moves first plays dark and starts
+// on the bottom three rows. Men move one square diagonally forward, kings one square in any
+// diagonal direction. Captures are forced and chain: a move is the whole path of squares the
+// piece visits ([from, to] or [from, landing, landing, ...]) and a jump sequence has to be played
+// out until no further jump is possible. A man reaching the far row is crowned, which ends the move.
+// A side without pieces or moves loses; 40 moves each without a capture or a man moving is a draw.
+
+export type CheckersPiece = "d" | "D" | "l" | "L"; // dark / light, uppercase = king
+
+export type CheckersColor = "d" | "l";
+
+export type CheckersState = {
+  board: Array<CheckersPiece | null>;
+  dark: Side; // the side that moved first
+  turn: Side;
+  quiet: number; // plies since the last capture or man move
+  lastMove: number[] | null;
+  outcome: Outcome | null;
+};
+
+export const CHECKERS_QUIET_LIMIT = 80;
+
+const DIAGONALS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+export const checkersColorOf = (state: CheckersState, side: Side): CheckersColor => (side === state.dark ? "d" : "l");
+export const checkersPieceColor = (p: CheckersPiece): CheckersColor => (p.toLowerCase() as CheckersColor);
+export const isKing = (p: CheckersPiece) => p === "D" || p === "L";
+
+const at = (row: number, col: number) => (row >= 0 && row < 8 && col >= 0 && col < 8 ? row * 8 + col : -1);
+
+// Directions a piece may move or jump in: dark men go up the board, light men down, kings both ways
+function directions(p: CheckersPiece) {
+  if (isKing(p)) return DIAGONALS;
+  return checkersPieceColor(p) === "d" ? DIAGONALS.slice(0, 2) : DIAGONALS.slice(2);
+}
+
+const crowns = (p: CheckersPiece, square: number) =>
+  !isKing(p) && (checkersPieceColor(p) === "d" ? square < 8 : square >= 56);
+
+// Every complete jump sequence of the piece on `from`; a chain stops when no jump is left or the man is crowned
+function jumpPaths(board: CheckersState["board"], from: number): number[][] {
+  const piece = board[from]!;
+  const paths: number[][] = [];
+  const walk = (b: CheckersState["board"], sqr: number, path: number[]) => {
+    let extended = false;
+    for (const [dr, dc] of directions(piece)) {
+      const r = sqr >> 3, c = sqr % 8;
+      const over = at(r + dr, c + dc), land = at(r + 2 * dr, c + 2 * dc);
+      if (over < 0 || land < 0 || b[land] !== null) continue;
+      const victim = b[over];
+      if (!victim || checkersPieceColor(victim) === checkersPieceColor(piece)) continue;
+      extended = true;
+      const next = b.slice();
+      next[sqr] = null;
+      next[over] = null;
+      next[land] = piece;
+      if (crowns(piece, land)) paths.push([...path, land]);
+      else walk(next, land, [...path, land]);
+    }
+    if (!extended && path.length > 1) paths.push(path);
+  };
+  walk(board, from, [from]);
+  return paths;
+}
+
+function stepPaths(board: CheckersState["board"], from: number): number[][] {
+  const r = from >> 3, c = from % 8;
+  return directions(board[from]!).flatMap(([dr, dc]) => {
+    const to = at(r + dr, c + dc);
+    return to >= 0 && board[to] === null ? [[from, to]] : [];
+  });
+}
+
+// All legal move paths of `color`: jumps when any exist (captures are forced), plain steps otherwise
+function pathsFor(board: CheckersState["board"], color: CheckersColor) {
+  const mine = board.flatMap((p, i) => (p && checkersPieceColor(p) === color ? [i] : []));
+  const jumps = mine.flatMap((i) => jumpPaths(board, i));
+  return jumps.length ? jumps : mine.flatMap((i) => stepPaths(board, i));
+}
+
+/** Is `path` a capture (a jump over a piece rather than a one-square step)? */
+export const isCapture = (path: number[]) => Math.abs((path[0] >> 3) - (path[1] >> 3)) === 2;
+
+function makeMove(state: CheckersState, path: number[]): CheckersState {
+  const board = state.board.slice();
+  let piece = board[path[0]]!;
+  const manMoved = !isKing(piece);
+  board[path[0]] = null;
+  if (isCapture(path)) {
+    for (let k = 1; k < path.length; k++) board[(path[k - 1] + path[k]) / 2] = null;
+  }
+  const to = path[path.length - 1];
+  if (crowns(piece, to)) piece = piece.toUpperCase() as CheckersPiece;
+  board[to] = piece;
+  const quiet = isCapture(path) || manMoved ? 0 : state.quiet + 1;
+  return { ...state, board, turn: otherSide(state.turn), quiet, lastMove: path, outcome: null };
+}
+
+function evaluate(state: CheckersState): Outcome | null {
+  if (pathsFor(state.board, checkersColorOf(state, state.turn)).length === 0) {
+    return { winner: otherSide(state.turn), reason: "checkers_win" };
+  }
+  if (state.quiet >= CHECKERS_QUIET_LIMIT) return { winner: null, reason: "checkers_40_moves" };
+  return null;
+}
+
+function initialBoard(): CheckersState["board"] {
+  return Array.from({ length: 64 }, (_, i) => {
+    const r = i >> 3, c = i % 8;
+    if ((r + c) % 2 === 0) return null;
+    return r < 3 ? "l" : (r > 4 ? "d" : null);
+  });
+}
+
+const samePath = (x: number[], y: number[]) => x.length === y.length && x.every((v, i) => v === y[i]);
+
+export const checkers: GameRules<CheckersState, number[]> = {
+  initialState(first) {
+    return { board: initialBoard(), dark: first, turn: first, quiet: 0, lastMove: null, outcome: null };
+  },
+
+  legalMoves(state, side) {
+    if (state.outcome || state.turn !== side) return [];
+    return pathsFor(state.board, checkersColorOf(state, side));
+  },
+
+  applyMove(state, side, path) {
+    if (state.outcome) return { ok: false, reason: "game_already_ended" };
+    if (state.turn !== side) return { ok: false, reason: "not_your_turn" };
+    if (!Array.isArray(path) || path.length < 2) return { ok: false, reason: "illegal_move" };
+    const legal = pathsFor(state.board, checkersColorOf(state, side));
+    if (!legal.some((m) => samePath(m, path))) {
+      // Say why, when it is one of the two rules players trip over
+      if (legal.length && isCapture(legal[0]) && !isCapture(path)) return { ok: false, reason: "capture_required" };
+      if (legal.some((m) => m.length > path.length && samePath(m.slice(0, path.length), path))) return { ok: false, reason: "jump_incomplete" };
+      return { ok: false, reason: "illegal_move" };
+    }
+    const next = makeMove(state, path);
+    next.outcome = evaluate(next);
+    return { ok: true, state: next };
+  },
+
+  timeout(state) {
+    if (state.outcome) return state;
+    return { ...state, outcome: { winner: otherSide(state.turn), reason: "turn_timeout" } };
+  },
+
+  outcome: (state) => state.outcome,
+};
@@ -0,0 +1,293 @@
+import { type GameRules, type Outcome, type Side, otherSide } from "./types.js";
+
+// Chess. The board is 64 squares in FEN order (index 0 = a8, 63 = h1) holding FEN letters:
+// uppercase = white, lowercase = black; the side that moves first plays white. Moves are UCI strings ("e2e4",
+// "e7e8q"; promotions must name the piece). Games end in checkmate, stalemate, threefold
+// repetition, the fifty-move rule or insufficient material; all draws are applied automatically.
+
+export type ChessPiece = "P" | "N" | "B" | "R" | "Q" | "K" | "p" | "n" | "b" | "r" | "q" | "k";
+
+export type ChessColor = "w" | "b";
+
+export type ChessState = {
+  board: Array<ChessPiece | null>;
+  white: Side;
+  turn: Side;
+  castling: string; // remaining rights, subset of "KQkq"
+  enPassant: number | null; // square a pawn may capture onto en passant
+  halfmove: number; // plies since the last capture or pawn move
+  fullmove: number;
+  lastMove: string | null;
+  repetitions: Record<string, number>; // position key -> times it occurred
+  outcome: Outcome | null;
+};
+
+type RawMove = { from: number; to: number; promo?: "q" | "r" | "b" | "n" };
+
+export const CHESS_START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const FILES = "abcdefgh";
+const KNIGHT = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const ROOK_DIRS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const BISHOP_DIRS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const PROMOTIONS = ["q", "r", "b", "n"] as const;
+
+export const squareName = (i: number) => FILES[i % 8] + (8 - (i >> 3));
+export const squareIndex = (name: string) => (8 - Number(name[1])) * 8 + FILES.indexOf(name[0]);
+export const pieceColor = (p: ChessPiece): ChessColor => (p === p.toUpperCase() ? "w" : "b");
+export const chessColorOf = (state: ChessState, side: Side): ChessColor => (side === state.white ? "w" : "b");
+const flip = (c: ChessColor): ChessColor => (c === "w" ? "b" : "w");
+
+const kind = (p: ChessPiece) => p.toLowerCase();
+const sq = (row: number, file: number) => (row >= 0 && row < 8 && file >= 0 && file < 8 ? row * 8 + file : -1);
+const uci = (m: RawMove) => squareName(m.from) + squareName(m.to) + (m.promo ?? "");
+
+/** Is square `target` attacked by a piece of color `by`? */
+function isAttacked(board: ChessState["board"], target: number, by: ChessColor) {
+  const r = target >> 3, f = target % 8;
+  const has = (i: number, kinds: string) => {
+    const p = i >= 0 ? board[i] : null;
+    return !!p && pieceColor(p) === by && kinds.includes(kind(p));
+  };
+  const pawnRow = by === "w" ? r + 1 : r - 1; // white pawns attack towards row 0
+  if (has(sq(pawnRow, f - 1), "p") || has(sq(pawnRow, f + 1), "p")) return true;
+  if (KNIGHT.some(([dr, df]) => has(sq(r + dr, f + df), "n"))) return true;
+  if (KING.some(([dr, df]) => has(sq(r + dr, f + df), "k"))) return true;
+  for (const [dirs, kinds] of [[ROOK_DIRS, "rq"], [BISHOP_DIRS, "bq"]] as const) {
+    for (const [dr, df] of dirs) {
+      for (let s = 1; ; s++) {
+        const i = sq(r + dr * s, f + df * s);
+        if (i < 0) break;
+        if (board[i]) { if (has(i, kinds)) return true; break; }
+      }
+    }
+  }
+  return false;
+}
+
+const kingSquare = (board: ChessState["board"], color: ChessColor) => board.indexOf(color === "w" ? "K" : "k");
+const colorToMove = (state: ChessState) => chessColorOf(state, state.turn);
+
+/** Is the side to move in check? */
+export function chessInCheck(state: ChessState) {
+  const me = colorToMove(state);
+  const k = kingSquare(state.board, me);
+  return k >= 0 && isAttacked(state.board, k, flip(me));
+}
+
+// Moves that follow piece movement rules, ignoring whether they leave the own king in check
+function pseudoMoves(state: ChessState): RawMove[] {
+  const { board } = state;
+  const turn = colorToMove(state);
+  const opp = flip(turn);
+  const out: RawMove[] = [];
+  for (let from = 0; from < 64; from++) {
+    const p = board[from];
+    if (!p || pieceColor(p) !== turn) continue;
+    const r = from >> 3, f = from % 8;
+    // Adds a step onto `to` unless an own piece is there; true while a slider may continue
+    const step = (to: number) => {
+      const t = board[to];
+      if (!t || pieceColor(t) !== turn) out.push({ from, to });
+      return !t;
+    };
+    const k = kind(p);
+    if (k === "p") {
+      const dir = turn === "w" ? -1 : 1;
+      const lastRow = turn === "w" ? 0 : 7;
+      const push = (to: number) => {
+        if (to >> 3 === lastRow) for (const promo of PROMOTIONS) out.push({ from, to, promo });
+        else out.push({ from, to });
+      };
+      const one = sq(r + dir, f);
+      if (one >= 0 && !board[one]) {
+        push(one);
+        const two = sq(r + 2 * dir, f);
+        if (r === (turn === "w" ? 6 : 1) && !board[two]) out.push({ from, to: two });
+      }
+      for (const df of [-1, 1]) {
+        const to = sq(r + dir, f + df);
+        if (to < 0) continue;
+        const t = board[to];
+        if ((t && pieceColor(t) === opp) || to === state.enPassant) push(to);
+      }
+    } else if (k === "n" || k === "k") {
+      for (const [dr, df] of k === "n" ? KNIGHT : KING) {
+        const to = sq(r + dr, f + df);
+        if (to >= 0) step(to);
+      }
+      const home = turn === "w" ? 60 : 4;
+      const rook = turn === "w" ? "R" : "r";
+      const [kingSide, queenSide] = turn === "w" ? ["K", "Q"] : ["k", "q"];
+      // Castling: rights kept, squares between empty, and the king never passes through check
+      if (k === "k" && from === home && !isAttacked(board, home, opp)) {
+        if (state.castling.includes(kingSide) && board[home + 3] === rook && !board[home + 1] && !board[home + 2]
+          && !isAttacked(board, home + 1, opp)) out.push({ from, to: home + 2 });
+        if (state.castling.includes(queenSide) && board[home - 4] === rook && !board[home - 1] && !board[home - 2] && !board[home - 3]
+          && !isAttacked(board, home - 1, opp)) out.push({ from, to: home - 2 });
+      }
+    } else {
+      const dirs = k === "r" ? ROOK_DIRS : k === "b" ? BISHOP_DIRS : [...ROOK_DIRS, ...BISHOP_DIRS];
+      for (const [dr, df] of dirs) {
+        for (let s = 1; ; s++) {
+          const to = sq(r + dr * s, f + df * s);
+          if (to < 0 || !step(to)) break;
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// Play `m` without any legality checks or outcome evaluation
+function makeMove(state: ChessState, m: RawMove): ChessState {
+  const board = state.board.slice();
+  const p = board[m.from]!;
+  const captured = board[m.to];
+  const white = colorToMove(state) === "w";
+  board[m.to] = m.promo ? ((white ? m.promo.toUpperCase() : m.promo) as ChessPiece) : p;
+  board[m.from] = null;
+  const enPassantCapture = kind(p) === "p" && m.to === state.enPassant && !captured;
+  if (enPassantCapture) board[m.to + (white ? 8 : -8)] = null;
+  if (kind(p) === "k" && Math.abs(m.to - m.from) === 2) {
+    const [rookFrom, rookTo] = m.to > m.from ? [m.from + 3, m.from + 1] : [m.from - 4, m.from - 1];
+    board[rookTo] = board[rookFrom];
+    board[rookFrom] = null;
+  }
+  // Rights are lost when the king or a rook moves, or a rook is captured on its home square
+  const lost = new Set<string>();
+  if (p === "K") { lost.add("K"); lost.add("Q"); }
+  if (p === "k") { lost.add("k"); lost.add("q"); }
+  for (const s of [m.from, m.to]) {
+    if (s === 63) lost.add("K");
+    if (s === 56) lost.add("Q");
+    if (s === 7) lost.add("k");
+    if (s === 0) lost.add("q");
+  }
+  return {
+    ...state,
+    board,
+    turn: otherSide(state.turn),
+    castling: [...state.castling].filter((c) => !lost.has(c)).join(""),
+    enPassant: kind(p) === "p" && Math.abs(m.to - m.from) === 16 ? (m.from + m.to) / 2 : null,
+    halfmove: kind(p) === "p" || captured || enPassantCapture ? 0 : state.halfmove + 1,
+    fullmove: state.fullmove + (white ? 0 : 1),
+    lastMove: uci(m),
+  };
+}
+
+function legalRawMoves(state: ChessState) {
+  const me = colorToMove(state);
+  return pseudoMoves(state).filter((m) => {
+    const next = makeMove(state, m);
+    return !isAttacked(next.board, kingSquare(next.board, me), flip(me));
+  });
+}
+
+// Identity of a position for repetition: placement, side to move, castling rights, and the
+// en passant square only when the side to move could actually capture there
+function positionKey(state: ChessState) {
+  const ep = state.enPassant !== null && legalRawMoves(state).some((m) => m.to === state.enPassant && kind(state.board[m.from]!) === "p")
+    ? squareName(state.enPassant) : "-";
+  return `${state.board.map((p) => p ?? ".").join("")} ${colorToMove(state)} ${state.castling} ${ep}`;
+}
+
+// Neither side can ever mate: bare kings, a single minor piece, or bishops all on one square color
+function insufficientMaterial(board: ChessState["board"]) {
+  const rest = board.flatMap((p, i) => (p && kind(p) !== "k" ? [{ k: kind(p), color: ((i >> 3) + (i % 8)) % 2 }] : []));
+  if (rest.length === 0) return true;
+  if (rest.length === 1 && (rest[0].k === "n" || rest[0].k === "b")) return true;
+  return rest.every((x) => x.k === "b") && rest.every((x) => x.color === rest[0].color);
+}
+
+// A lone king or king + one minor piece cannot win on time
+function canMate(board: ChessState["board"], color: ChessColor) {
+  const mine = board.filter((p): p is ChessPiece => !!p && pieceColor(p) === color && kind(p) !== "k");
+  return mine.some((p) => "prq".includes(kind(p))) || mine.length >= 2;
+}
+
+function evaluate(state: ChessState): Outcome | null {
+  const mover = otherSide(state.turn);
+  if (legalRawMoves(state).length === 0) {
+    return chessInCheck(state) ? { winner: mover, reason: "checkmate" } : { winner: null, reason: "stalemate" };
+  }
+  if ((state.repetitions[positionKey(state)] ?? 0) >= 3) return { winner: null, reason: "threefold_repetition" };
+  if (state.halfmove >= 100) return { winner: null, reason: "fifty_move_rule" };
+  if (insufficientMaterial(state.board)) return { winner: null, reason: "insufficient_material" };
+  return null;
+}
+
+/** State from a FEN string with white played by `white` (repetition history starts at this position) */
+export function chessFromFen(fen: string, white: Side = "a"): ChessState {
+  const [placement, turn, castling, ep, halfmove, fullmove] = fen.trim().split(/\s+/);
+  const board: ChessState["board"] = [];
+  for (const row of placement.split("/")) {
+    for (const ch of row) {
+      if (/\d/.test(ch)) board.push(...Array(Number(ch)).fill(null));
+      else board.push(ch as ChessPiece);
+    }
+  }
+  const state: ChessState = {
+    board,
+    white,
+    turn: turn === "b" ? otherSide(white) : white,
+    castling: castling === "-" ? "" : castling,
+    enPassant: ep && ep !== "-" ? squareIndex(ep) : null,
+    halfmove: Number(halfmove ?? 0),
+    fullmove: Number(fullmove ?? 1),
+    lastMove: null,
+    repetitions: {},
+    outcome: null,
+  };
+  state.repetitions[positionKey(state)] = 1;
+  return state;
+}
+
+export function chessFen(state: ChessState) {
+  const rows: string[] = [];
+  for (let r = 0; r < 8; r++) {
+    let row = "";
+    let empty = 0;
+    for (let f = 0; f < 8; f++) {
+      const p = state.board[r * 8 + f];
+      if (!p) { empty++; continue; }
+      if (empty) { row += empty; empty = 0; }
+      row += p;
+    }
+    rows.push(empty ? row + empty : row);
+  }
+  const ep = state.enPassant === null ? "-" : squareName(state.enPassant);
+  return `${rows.join("/")} ${colorToMove(state)} ${state.castling || "-"} ${ep} ${state.halfmove} ${state.fullmove}`;
+}
+
+export const chess: GameRules<ChessState, string> = {
+  initialState(first) {
+    return chessFromFen(CHESS_START_FEN, first);
+  },
+
+  legalMoves(state, side) {
+    if (state.outcome || state.turn !== side) return [];
+    return legalRawMoves(state).map(uci);
+  },
+
+  applyMove(state, side, move) {
+    if (state.outcome) return { ok: false, reason: "game_already_ended" };
+    if (state.turn !== side) return { ok: false, reason: "not_your_turn" };
+    const m = legalRawMoves(state).find((x) => uci(x) === move);
+    if (!m) return { ok: false, reason: "illegal_move" };
+    const next = makeMove(state, m);
+    const key = positionKey(next);
+    next.repetitions = { ...state.repetitions, [key]: (state.repetitions[key] ?? 0) + 1 };
+    next.outcome = evaluate(next);
+    return { ok: true, state: next };
+  },
+
+  timeout(state) {
+    if (state.outcome) return state;
+    const winner = otherSide(state.turn);
+    // Running out of time against a side that cannot mate is a draw
+    return { ...state, outcome: canMate(state.board, chessColorOf(state, winner)) ? { winner, reason: "turn_timeout" } : { winner: null, reason: "timeout_insufficient_material" } };
+  },
+
+  outcome: (state) => state.outcome,
+};
@@ -0,0 +1,121 @@
+import { type GameRules, type Outcome, type Side, otherSide } from "./types.js";
+
+// Connect Four on a cols x rows grid (7x6 by default), stored row-major from the top
+// (index = row * cols + col). Moves are column numbers; in Pop Out a side may instead pop one
+// of its own tokens out of the bottom row ({ pop: col }), shifting that column down. A full
+// grid without a winner starts a fresh round, up to `maxRounds` rounds; filling the grid in
+// the last round ends the game in a draw. (In Pop Out a full grid only counts once the side
+// to move has nothing to pop.)
+
+export type C4Color = "red" | "yellow"; // side a = red, side b = yellow
+
+export type C4State = {
+  board: Array<C4Color | null>;
+  cols: number;
+  rows: number;
+  turn: Side;
+  round: number;
+  lastDrop: { col: number; row: number } | null;
+  outcome: Outcome | null;
+};
+
+export type C4Move = number | { pop: number };
+
+export type C4Options = { cols?: number; rows?: number; maxRounds?: number; popOut?: boolean };
+
+export const C4_COLS = 7;
+export const C4_ROWS = 6;
+export const C4_MAX_ROUNDS = 3;
+
+export const colorOf = (s: Side): C4Color => (s === "a" ? "red" : "yellow");
+
+/** Row a token dropped into `col` lands in, or -1 when the column is full */
+export function c4DropRow(board: Array<C4Color | null>, col: number, cols = C4_COLS, rows = C4_ROWS) {
+  for (let row = rows - 1; row >= 0; row--) if (board[row * cols + col] === null) return row;
+  return -1;
+}
+
+/** Colors with four in a row (both can, after a pop) */
+export function c4LineColors(board: Array<C4Color | null>, cols = C4_COLS, rows = C4_ROWS): Set<C4Color> {
+  const found = new Set<C4Color>();
+  const at = (r: number, c: number) => (r >= 0 && r < rows && c >= 0 && c < cols ? board[r * cols + c] : null);
+  const dirs = [[0, 1], [1, 0], [1, 1], [1, -1]];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const v = at(r, c);
+      if (!v || found.has(v)) continue;
+      for (const [dr, dc] of dirs) {
+        if (at(r + dr, c + dc) === v && at(r + 2 * dr, c + 2 * dc) === v && at(r + 3 * dr, c + 3 * dc) === v) { found.add(v); break; }
+      }
+    }
+  }
+  return found;
+}
+
+/** The color with four in a row, if any */
+export function c4LineWinner(board: Array<C4Color | null>, cols = C4_COLS, rows = C4_ROWS): C4Color | null {
+  return c4LineColors(board, cols, rows).values().next().value ?? null;
+}
+
+/** Columns `side` may pop in Pop Out: its own tokens in the bottom row */
+export function c4PopColumns(state: C4State, side: Side) {
+  const bottom = (state.rows - 1) * state.cols;
+  return Array.from({ length: state.cols }, (_, c) => c).filter((c) => state.board[bottom + c] === colorOf(side));
+}
+
+/** Connect Four rules ending in a draw when the grid fills in round `maxRounds` */
+export const createConnectFour = ({ cols = C4_COLS, rows = C4_ROWS, maxRounds = C4_MAX_ROUNDS, popOut = false }: C4Options = {}): GameRules<C4State, C4Move> => {
+  const fresh = (turn: Side, round: number): C4State =>
+    ({ board: Array(cols * rows).fill(null), cols, rows, turn, round, lastDrop: null, outcome: null });
+
+  return {
+    initialState: (first) => fresh(first, 1),
+
+    legalMoves(state, side) {
+      if (state.outcome || state.turn !== side) return [];
+      const drops: C4Move[] = Array.from({ length: cols }, (_, c) => c).filter((c) => state.board[c] === null);
+      return popOut ? [...drops, ...c4PopColumns(state, side).map((c) => ({ pop: c }))] : drops;
+    },
+
+    applyMove(state, side, move) {
+      if (state.outcome) return { ok: false, reason: "game_already_ended" };
+      if (state.turn !== side) return { ok: false, reason: "not_your_turn" };
+      const col = typeof move === "number" ? move : move?.pop;
+      if (!Number.isInteger(col) || col < 0 || col >= cols) return { ok: false, reason: "invalid_column" };
+
+      const board = state.board.slice();
+      let lastDrop: C4State["lastDrop"] = null;
+      if (typeof move === "number") {
+        const row = c4DropRow(board, col, cols, rows);
+        if (row === -1) return { ok: false, reason: "column_full" };
+        board[row * cols + col] = colorOf(side);
+        lastDrop = { col, row };
+      } else {
+        if (!popOut) return { ok: false, reason: "pop_not_allowed" };
+        if (!c4PopColumns(state, side).includes(col)) return { ok: false, reason: "cannot_pop" };
+        for (let row = rows - 1; row > 0; row--) board[row * cols + col] = board[(row - 1) * cols + col];
+        board[col] = null;
+      }
+
+      // A pop can complete lines for both colors at once: the side that popped wins
+      const lines = c4LineColors(board, cols, rows);
+      const winner = lines.has(colorOf(side)) ? side : (lines.size ? otherSide(side) : null);
+      if (winner) return { ok: true, state: { ...state, board, lastDrop, outcome: { winner, reason: "c4_win" } } };
+      const next: C4State = { ...state, board, turn: otherSide(side), lastDrop };
+      if (board.every((v) => v !== null) && !(popOut && c4PopColumns(next, next.turn).length)) {
+        if (state.round >= maxRounds) return { ok: true, state: { ...next, turn: side, outcome: { winner: null, reason: "c4_round_limit" } } };
+        return { ok: true, state: fresh(otherSide(side), state.round + 1) };
+      }
+      return { ok: true, state: next };
+    },
+
+    timeout(state) {
+      if (state.outcome) return state;
+      return { ...state, outcome: { winner: otherSide(state.turn), reason: "turn_timeout" } };
+    },
+
+    outcome: (state) => state.outcome,
+  };
+};
+
+export const connectFour = createConnectFour();
@@ -0,0 +1,12 @@
+export * from "./types.js";
+export * from "./tictactoe.js";
+export * from "./connectfour.js";
+export * from "./rps.js";
+export * from "./chess.js";
+export * from "./checkers.js";
+export * from "./battleship.js";
+export * from "./trivia.js";
+export * from "./memory.js";
+export * from "./reaction.js";
+export * from "./variants.js";
+export * from "./puzzles.js";
@@ -0,0 +1,103 @@
+import { type GameRules, type Outcome, type Side, otherSide } from "./types.js";
+
+// Memory (concentration) on a face-down deck of pairs. On their turn a side flips two cards, one
+// at a time ({ flip: card }). A matching pair is taken and the same side goes again; two cards
+// that do not match stay face up for a reveal (the clock's next timeout) before they are turned
+// back and the turn passes. When every pair is taken the side with more pairs wins; equal = draw.
+// The deck is hidden information: the state holds it, so players must only ever be shown
+// `memoryView(state)`.
+
+export type MemoryState = {
+  deck: number[]; // pair id of each card
+  taken: Array<Side | null>; // who took each card
+  flipped: number[]; // cards face up in the current turn (or the reveal)
+  phase: "flip" | "reveal"; // reveal = a mismatch is being shown
+  turn: Side; // side to flip next (already the other side during a reveal)
+  pairs: Record<Side, number>;
+  lastPair: { side: Side; cards: number[]; match: boolean } | null;
+  outcome: Outcome | null;
+};
+
+export type MemoryMove = { flip: number };
+
+/** What both players may know: faces of taken and face-up cards only */
+export type MemoryView = {
+  cards: Array<number | null>; // pair id, null while face down
+  taken: MemoryState["taken"];
+  flipped: number[];
+  phase: MemoryState["phase"];
+  pairs: Record<Side, number>;
+  lastPair: MemoryState["lastPair"];
+};
+
+export const MEMORY_PAIRS = 8;
+
+export function memoryView(state: MemoryState): MemoryView {
+  return {
+    cards: state.deck.map((id, i) => (state.taken[i] || state.flipped.includes(i) ? id : null)),
+    taken: state.taken,
+    flipped: state.flipped,
+    phase: state.phase,
+    pairs: state.pairs,
+    lastPair: state.lastPair,
+  };
+}
+
+/** A deck of `pairs` pairs shuffled with `random` (a Math.random-like source) */
+export function memoryDeck(pairs: number, random: () => number): number[] {
+  const deck = Array.from({ length: pairs * 2 }, (_, i) => i >> 1);
+  for (let i = deck.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck;
+}
+
+/** Memory with `pairs` pairs; every game deals a new deck shuffled with `random` */
+export const createMemory = ({ pairs = MEMORY_PAIRS, random = Math.random }: { pairs?: number; random?: () => number } = {}): GameRules<MemoryState, MemoryMove> => ({
+  initialState(first) {
+    const deck = memoryDeck(pairs, random);
+    return {
+      deck, taken: deck.map(() => null), flipped: [], phase: "flip", turn: first,
+      pairs: { a: 0, b: 0 }, lastPair: null, outcome: null,
+    };
+  },
+
+  legalMoves(state, side) {
+    if (state.outcome || state.phase !== "flip" || state.turn !== side) return [];
+    return state.deck.flatMap((_, i) => (state.taken[i] || state.flipped.includes(i) ? [] : [{ flip: i }]));
+  },
+
+  applyMove(state, side, move) {
+    if (state.outcome) return { ok: false, reason: "game_already_ended" };
+    if (state.phase === "reveal") return { ok: false, reason: "reveal_in_progress" };
+    if (state.turn !== side) return { ok: false, reason: "not_your_turn" };
+    const card = move?.flip;
+    if (!Number.isInteger(card) || card < 0 || card >= state.deck.length) return { ok: false, reason: "invalid_card" };
+    if (state.taken[card] || state.flipped.includes(card)) return { ok: false, reason: "card_face_up" };
+
+    const flipped = [...state.flipped, card];
+    if (flipped.length < 2) return { ok: true, state: { ...state, flipped } };
+    const match = state.deck[flipped[0]] === state.deck[flipped[1]];
+    const lastPair = { side, cards: flipped, match };
+    if (!match) return { ok: true, state: { ...state, flipped, phase: "reveal", turn: otherSide(side), lastPair } };
+
+    // A pair: take it and go again
+    const taken = state.taken.map((t, i) => (flipped.includes(i) ? side : t));
+    const pairs = { ...state.pairs, [side]: state.pairs[side] + 1 };
+    let outcome: Outcome | null = null;
+    if (taken.every((t) => t)) {
+      outcome = { winner: pairs.a > pairs.b ? "a" : (pairs.b > pairs.a ? "b" : null), reason: "memory_complete" };
+    }
+    return { ok: true, state: { ...state, taken, flipped: [], pairs, lastPair, outcome } };
+  },
+
+  // The end of a reveal turns the cards back; otherwise the side to flip ran out of time and loses
+  timeout(state) {
+    if (state.outcome) return state;
+    if (state.phase === "reveal") return { ...state, flipped: [], phase: "flip" };
+    return { ...state, outcome: { winner: otherSide(state.turn), reason: "turn_timeout" } };
+  },
+
+  outcome: (state) => state.outcome,
+});
@@ -0,0 +1,156 @@
+import { type GameRules, type Side, otherSide } from "./types.js";
+import type { C4State } from "./connectfour.js";
+import type { TTTState } from "./tictactoe.js";
+import { getVariant } from "./variants.js";
+
+// Daily puzzles: one per UTC day, generated from the date alone, so everyone gets the same one.
+// A puzzle is a position of a real variant (Connect Four, or Tic-Tac-Toe Infinity) in which the
+// side to move can force a win within `moves` of its own moves, and no sooner. The defence is
+// played by `puzzleReply`: after each of the solver's moves it answers with the reply that holds
+// out longest, so a line of moves either wins in time or it does not. The client shows the same
+// replies it gets from here, and the server validates a submitted line with `checkPuzzleLine`.
+
+export type PuzzleKind = "c4-win" | "ttt-infinity-win";
+
+export type Puzzle = {
+  date: string; // YYYY-MM-DD (UTC)
+  kind: PuzzleKind;
+  game: "connectfour" | "tictactoe";
+  variant: string; // id in VARIANTS of the rules the puzzle is played with
+  side: Side; // the solver's side
+  moves: number; // win within this many of your own moves
+  state: C4State | TTTState;
+};
+
+/** How a submitted line went; `replies` are the defence's answers, in order */
+export type PuzzleResult = { solved: boolean; reason: string; replies: number[] };
+
+// Kinds take turns by day, each with the variant it is played in
+const KINDS: Array<{ kind: PuzzleKind; game: Puzzle["game"]; variant: string; plies: [number, number] }> = [
+  { kind: "c4-win", game: "connectfour", variant: "classic", plies: [6, 18] },
+  { kind: "ttt-infinity-win", game: "tictactoe", variant: "infinity", plies: [4, 12] },
+];
+const PUZZLE_TRIES = 2000;
+
+export const puzzleDate = (at: Date = new Date()) => at.toISOString().slice(0, 10);
+
+export const isPuzzleDate = (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date) && puzzleDate(new Date(`${date}T00:00:00Z`)) === date;
+
+/** The rules a puzzle is played with; moves are C4 columns or TTT cells */
+export function puzzleRules(puzzle: Pick<Puzzle, "game" | "variant">): GameRules<C4State | TTTState, number> {
+  return getVariant(puzzle.game, puzzle.variant)!.create() as GameRules<C4State | TTTState, number>;
+}
+
+// Deterministic Math.random stand-in seeded by a string (FNV-1a into mulberry32)
+function seededRandom(seed: string) {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  return () => {
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), h | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Can `side`, to move in `state`, force a win within `n` of its own moves? */
+export function forcedWin<S>(rules: GameRules<S, number>, state: S, side: Side, n: number): boolean {
+  for (const move of rules.legalMoves(state, side)) {
+    const res = rules.applyMove(state, side, move);
+    if (!res.ok) continue;
+    const outcome = rules.outcome(res.state);
+    if (outcome) { if (outcome.winner === side) return true; continue; }
+    if (n > 1 && everyReplyLoses(rules, res.state, side, n - 1)) return true;
+  }
+  return false;
+}
+
+// Whatever the defence plays in `state`, `side` still forces a win within `n`
+function everyReplyLoses<S>(rules: GameRules<S, number>, state: S, side: Side, n: number) {
+  const defender = otherSide(side);
+  const replies = rules.legalMoves(state, defender);
+  return replies.length > 0 && replies.every((reply) => {
+    const res = rules.applyMove(state, defender, reply);
+    if (!res.ok) return true;
+    return !rules.outcome(res.state) && forcedWin(rules, res.state, side, n);
+  });
+}
+
+/**
+ * The defence's answer in `state` with the solver down to `left` moves: a win if it has one,
+ * otherwise the reply that puts the solver's win furthest away (or out of reach). Ties go to the
+ * first legal move, so every client and the server agree.
+ */
+export function puzzleReply(puzzle: Puzzle, state: Puzzle["state"], left: number): number | undefined {
+  const rules = puzzleRules(puzzle);
+  const defender = otherSide(puzzle.side);
+  let best: number | undefined;
+  let bestScore = -1;
+  for (const reply of rules.legalMoves(state, defender)) {
+    const res = rules.applyMove(state, defender, reply);
+    if (!res.ok) continue;
+    const outcome = rules.outcome(res.state);
+    if (outcome?.winner === defender) return reply;
+    let score = left + 1; // a draw, or no forced win left: the puzzle is failed
+    if (!outcome) {
+      for (let k = 1; k <= left; k++) if (forcedWin(rules, res.state, puzzle.side, k)) { score = k; break; }
+    }
+    if (score > bestScore) { best = reply; bestScore = score; }
+  }
+  return best;
+}
+
+/** Replay the solver's `line` against the defence: solved when it wins within the puzzle's moves */
+export function checkPuzzleLine(puzzle: Puzzle, line: number[]): PuzzleResult {
+  const rules = puzzleRules(puzzle);
+  const replies: number[] = [];
+  let state = puzzle.state;
+  for (let i = 0; i < line.length; i++) {
+    if (i >= puzzle.moves) return { solved: false, reason: "out_of_moves", replies };
+    const res = rules.applyMove(state, puzzle.side, line[i]);
+    if (!res.ok) return { solved: false, reason: res.reason, replies };
+    state = res.state;
+    const outcome = rules.outcome(state);
+    if (outcome) return { solved: outcome.winner === puzzle.side, reason: outcome.winner === puzzle.side ? "puzzle_solved" : "puzzle_failed", replies };
+    if (i + 1 >= puzzle.moves) return { solved: false, reason: "out_of_moves", replies };
+    const reply = puzzleReply(puzzle, state, puzzle.moves - i - 1);
+    if (reply === undefined) return { solved: false, reason: "puzzle_failed", replies };
+    const answered = rules.applyMove(state, otherSide(puzzle.side), reply);
+    if (!answered.ok) return { solved: false, reason: "puzzle_failed", replies };
+    replies.push(reply);
+    state = answered.state;
+    if (rules.outcome(state)) return { solved: false, reason: "puzzle_failed", replies };
+  }
+  return { solved: false, reason: "line_incomplete", replies };
+}
+
+/**
+ * The puzzle of `date` (YYYY-MM-DD): random playouts seeded by the date until one reaches a
+ * position with a forced win in exactly the day's number of moves (2 or 3, or 2 when no 3 turns up).
+ */
+export function dailyPuzzle(date: string): Puzzle {
+  const random = seededRandom(`spark-puzzle:${date}`);
+  const day = Math.floor(Date.parse(`${date}T00:00:00Z`) / 86_400_000);
+  const { kind, game, variant, plies } = KINDS[((day % KINDS.length) + KINDS.length) % KINDS.length];
+  const rules = puzzleRules({ game, variant });
+  let moves = random() < 0.5 ? 2 : 3;
+  for (let attempt = 0; ; attempt++) {
+    if (attempt === PUZZLE_TRIES) {
+      if (moves === 2) throw new Error(`no ${kind} puzzle found for ${date}`);
+      moves = 2;
+    }
+    let state = rules.initialState(random() < 0.5 ? "a" : "b");
+    const length = plies[0] + Math.floor(random() * (plies[1] - plies[0] + 1));
+    for (let ply = 0; ply < length && !rules.outcome(state); ply++) {
+      const side = (state as { turn: Side }).turn;
+      const legal = rules.legalMoves(state, side);
+      const res = rules.applyMove(state, side, legal[Math.floor(random() * legal.length)]);
+      if (res.ok) state = res.state;
+    }
+    if (rules.outcome(state)) continue;
+    const side = (state as { turn: Side }).turn;
+    if (!forcedWin(rules, state, side, moves - 1) && forcedWin(rules, state, side, moves)) {
+      return { date, kind, game, variant, side, moves, state };
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { type GameRules, type Outcome, type Side, otherSide } from "./types.js";
+
+// Reaction duel, played in rounds. A round opens with a "get ready" phase; the clock's timeout
+// gives the GO signal, after which each side taps once ({ ms }: its reaction time, measured and
+// latency-compensated by the server; negative = the tap was made before GO could be seen). Any tap
+// before GO loses the round on the spot. After GO the faster tap wins the round; a lone tap wins
+// it once the clock closes the round, and a round nobody taps in scores nothing. The result stays
+// up until the clock starts the next round. First to `target` round wins takes the game; after
+// `maxRounds` rounds the higher score wins, equal = draw. A lone tap in an open round must not be
+// shown to the other side, so players are only ever sent `reactionView(state)`.
+
+export type ReactionTap = { ms: number };
+
+export type ReactionRound = {
+  round: number;
+  winner: Side | null;
+  reason: "fastest" | "early_tap" | "no_tap" | "tie";
+  taps: Record<Side, ReactionTap | null>;
+};
+
+export type ReactionState = {
+  round: number;
+  phase: "ready" | "go" | "result";
+  taps: Record<Side, ReactionTap | null>; // this round's taps
+  scores: Record<Side, number>;
+  target: number;
+  maxRounds: number;
+  lastRound: ReactionRound | null;
+  outcome: Outcome | null;
+};
+
+export type ReactionMove = { ms: number };
+
+/** What both players may know: everything but the taps of the round in progress */
+export type ReactionView = Omit<ReactionState, "taps" | "outcome">;
+
+export const REACTION_TARGET = 3;
+
+export function reactionView(state: ReactionState): ReactionView {
+  return {
+    round: state.round, phase: state.phase, scores: state.scores, target: state.target, maxRounds: state.maxRounds, lastRound: state.lastRound,
+  };
+}
+
+function settle(state: ReactionState, taps: ReactionState["taps"], winner: Side | null, reason: ReactionRound["reason"]): ReactionState {
+  const scores = winner ? { ...state.scores, [winner]: state.scores[winner] + 1 } : state.scores;
+  const lastRound = { round: state.round, winner, reason, taps };
+  let outcome: Outcome | null = null;
+  if (winner && scores[winner] >= state.target) outcome = { winner, reason: "reaction_target" };
+  else if (state.round >= state.maxRounds) {
+    outcome = { winner: scores.a > scores.b ? "a" : (scores.b > scores.a ? "b" : null), reason: "reaction_max_rounds" };
+  }
+  return { ...state, phase: "result", taps, scores, lastRound, outcome };
+}
+
+/** First to `target` round wins, at most `maxRounds` rounds (three per point needed by default) */
+export const createReaction = ({ target = REACTION_TARGET, maxRounds = target * 3 }: { target?: number; maxRounds?: number } = {}): GameRules<ReactionState, ReactionMove> => ({
+  initialState() {
+    return { round: 1, phase: "ready", taps: { a: null, b: null }, scores: { a: 0, b: 0 }, target, maxRounds, lastRound: null, outcome: null };
+  },
+
+  // A tap's only parameter is its timing, which the server measures
+  legalMoves(state, side) {
+    if (state.outcome || state.phase === "result" || state.taps[side]) return [];
+    return [{ ms: 0 }];
+  },
+
+  applyMove(state, side, move) {
+    if (state.outcome) return { ok: false, reason: "game_already_ended" };
+    if (state.phase === "result") return { ok: false, reason: "round_over" };
+    if (state.taps[side]) return { ok: false, reason: "already_tapped" };
+    if (!Number.isFinite(move?.ms)) return { ok: false, reason: "invalid_time" };
+    const taps = { ...state.taps, [side]: { ms: move.ms } };
+    if (state.phase === "ready" || move.ms < 0) return { ok: true, state: settle(state, taps, otherSide(side), "early_tap") };
+    if (!taps.a || !taps.b) return { ok: true, state: { ...state, taps } };
+    const winner = taps.a.ms < taps.b.ms ? "a" : (taps.b.ms < taps.a.ms ? "b" : null);
+    return { ok: true, state: settle(state, taps, winner, winner ? "fastest" : "tie") };
+  },
+
+  // Ready -> GO; GO -> the round closes with whatever taps came in; result -> the next round
+  timeout(state) {
+    if (state.outcome) return state;
+    if (state.phase === "ready") return { ...state, phase: "go" };
+    if (state.phase === "go") {
+      const { a, b } = state.taps;
+      return settle(state, state.taps, a ? "a" : (b ? "b" : null), a || b ? "fastest" : "no_tap");
+    }
+    return { ...state, round: state.round + 1, phase: "ready", taps: { a: null, b: null } };
+  },
+
+  outcome: (state) => state.outcome,
+});
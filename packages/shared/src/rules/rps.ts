@@ -0,0 +1,81 @@
+import { type GameRules, type Outcome, type Side } from "./types.js";
+
+// Rock Paper Scissors, first to `target` round wins (5 by default). Both sides pick in secret;
+// the round is revealed once both picked, or when the round clock runs out (a side that picked
+// takes the round, no picks at all is a drawn round). RPS_IDLE_ROUNDS drawn rounds in a row
+// without a single pick end the game in a draw, so two idle players cannot keep it open forever.
+// The Lizard-Spock variant adds two picks, each beating two others and losing to the remaining two.
+
+export type RPSChoice = "rock" | "paper" | "scissors" | "lizard" | "spock";
+
+export type RPSReveal = { round: number; aChoice: RPSChoice | null; bChoice: RPSChoice | null; winnerSide: Side | null; timedOut: boolean };
+
+export type RPSState = {
+  round: number;
+  scores: Record<Side, number>;
+  choices: Record<Side, RPSChoice | null>; // hidden until the round is revealed
+  lastReveal: RPSReveal | null;
+  idleRounds: number; // rounds in a row that timed out without any pick
+  outcome: Outcome | null;
+};
+
+export type RPSOptions = { choices?: RPSChoice[]; target?: number };
+
+export const RPS_CHOICES: RPSChoice[] = ["rock", "paper", "scissors"];
+export const RPSLS_CHOICES: RPSChoice[] = ["rock", "paper", "scissors", "lizard", "spock"];
+export const RPS_TARGET = 5;
+export const RPS_IDLE_ROUNDS = 3;
+
+/** What each pick beats */
+export const RPS_BEATS: Record<RPSChoice, RPSChoice[]> = {
+  rock: ["scissors", "lizard"],
+  paper: ["rock", "spock"],
+  scissors: ["paper", "lizard"],
+  lizard: ["spock", "paper"],
+  spock: ["scissors", "rock"],
+};
+
+/** Winner of a round where both picked; null on a tie */
+export function rpsRoundWinner(a: RPSChoice, b: RPSChoice): Side | null {
+  if (a === b) return null;
+  return RPS_BEATS[a].includes(b) ? "a" : "b";
+}
+
+function reveal(state: RPSState, timedOut: boolean, target: number): RPSState {
+  const { a, b } = state.choices;
+  const winnerSide = a && b ? rpsRoundWinner(a, b) : (a ? "a" : (b ? "b" : null));
+  const scores = { ...state.scores };
+  if (winnerSide) scores[winnerSide] += 1;
+  const lastReveal = { round: state.round, aChoice: a, bChoice: b, winnerSide, timedOut };
+  const idleRounds = a || b ? 0 : state.idleRounds + 1;
+  const leader: Side | null = scores.a >= target ? "a" : (scores.b >= target ? "b" : null);
+  if (leader) return { ...state, scores, lastReveal, idleRounds, outcome: { winner: leader, reason: `rps_first_to_${target}` } };
+  if (idleRounds >= RPS_IDLE_ROUNDS) return { ...state, scores, lastReveal, idleRounds, outcome: { winner: null, reason: "rps_no_picks" } };
+  return { round: state.round + 1, scores, choices: { a: null, b: null }, lastReveal, idleRounds, outcome: null };
+}
+
+export const createRockPaperScissors = ({ choices = RPS_CHOICES, target = RPS_TARGET }: RPSOptions = {}): GameRules<RPSState, RPSChoice> => ({
+  initialState() {
+    return { round: 1, scores: { a: 0, b: 0 }, choices: { a: null, b: null }, lastReveal: null, idleRounds: 0, outcome: null };
+  },
+
+  legalMoves(state) {
+    return state.outcome ? [] : choices.slice();
+  },
+
+  // Picking again before the opponent picked replaces the earlier pick
+  applyMove(state, side, choice) {
+    if (state.outcome) return { ok: false, reason: "game_already_ended" };
+    if (!choices.includes(choice)) return { ok: false, reason: "invalid_choice" };
+    const next = { ...state, choices: { ...state.choices, [side]: choice } };
+    return { ok: true, state: next.choices.a && next.choices.b ? reveal(next, false, target) : next };
+  },
+
+  timeout(state) {
+    return state.outcome ? state : reveal(state, true, target);
+  },
+
+  outcome: (state) => state.outcome,
+});
+
+export const rockPaperScissors = createRockPaperScissors();
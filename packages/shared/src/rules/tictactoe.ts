@@ -0,0 +1,84 @@
+import { type GameRules, type Outcome, type Side, otherSide } from "./types.js";
+
+// Tic-Tac-Toe on a size x size board (index = row * size + col); `line` marks in a row win.
+// With `maxMarks` (the Infinity variant) each side keeps at most that many marks: placing one
+// more removes that side's oldest mark — unless the placement already completes a line (win
+// first). Without it a full board is a draw.
+
+export type TTTMark = "X" | "O"; // side a = X, side b = O
+
+export type TTTState = {
+  board: Array<TTTMark | null>;
+  moves: Record<Side, number[]>; // cells per side, oldest first
+  turn: Side;
+  outcome: Outcome | null;
+};
+
+export type TTTOptions = { size?: number; line?: number; maxMarks?: number | null };
+
+const lineCache = new Map<string, number[][]>();
+
+/** Every run of `line` cells on a size x size board, as board indices */
+export function tttLines(size: number, line = size) {
+  const key = `${size}|${line}`;
+  const cached = lineCache.get(key);
+  if (cached) return cached;
+  const lines: number[][] = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      for (const [dr, dc] of [[0, 1], [1, 0], [1, 1], [1, -1]]) {
+        const cells = Array.from({ length: line }, (_, k) => [r + dr * k, c + dc * k]);
+        if (cells.every(([rr, cc]) => rr >= 0 && rr < size && cc >= 0 && cc < size)) lines.push(cells.map(([rr, cc]) => rr * size + cc));
+      }
+    }
+  }
+  lineCache.set(key, lines);
+  return lines;
+}
+
+export const markOf = (s: Side): TTTMark => (s === "a" ? "X" : "O");
+
+/** The mark that owns a complete line of `line` cells, if any */
+export function tttLineWinner(board: Array<TTTMark | null>, line?: number): TTTMark | null {
+  for (const cells of tttLines(Math.round(Math.sqrt(board.length)), line)) {
+    const v = board[cells[0]];
+    if (v && cells.every((i) => board[i] === v)) return v;
+  }
+  return null;
+}
+
+export const createTicTacToe = ({ size = 3, line = size, maxMarks = null }: TTTOptions = {}): GameRules<TTTState, number> => ({
+  initialState(first) {
+    return { board: Array(size * size).fill(null), moves: { a: [], b: [] }, turn: first, outcome: null };
+  },
+
+  legalMoves(state, side) {
+    if (state.outcome || state.turn !== side) return [];
+    return state.board.flatMap((v, i) => (v === null ? [i] : []));
+  },
+
+  applyMove(state, side, cell) {
+    if (state.outcome) return { ok: false, reason: "game_already_ended" };
+    if (state.turn !== side) return { ok: false, reason: "not_your_turn" };
+    if (!Number.isInteger(cell) || cell < 0 || cell >= state.board.length || state.board[cell] !== null) return { ok: false, reason: "cell_occupied" };
+
+    const board = state.board.slice();
+    const mine = [...state.moves[side], cell];
+    board[cell] = markOf(side);
+    const moves = { ...state.moves, [side]: mine };
+    if (tttLineWinner(board, line)) return { ok: true, state: { board, moves, turn: side, outcome: { winner: side, reason: "ttt_win" } } };
+    if (maxMarks !== null && mine.length > maxMarks) board[mine.shift()!] = null;
+    if (board.every((v) => v !== null)) return { ok: true, state: { board, moves, turn: side, outcome: { winner: null, reason: "board_full" } } };
+    return { ok: true, state: { board, moves, turn: otherSide(side), outcome: null } };
+  },
+
+  timeout(state) {
+    if (state.outcome) return state;
+    return { ...state, outcome: { winner: otherSide(state.turn), reason: "turn_timeout" } };
+  },
+
+  outcome: (state) => state.outcome,
+});
+
+/** Tic-Tac-Toe Infinity, the default variant */
+export const ticTacToe = createTicTacToe({ maxMarks: 3 });
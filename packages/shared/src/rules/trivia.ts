@@ -0,0 +1,124 @@
+import { type GameRules, type Outcome, type Side, otherSide } from "./types.js";
+
+// Trivia duel over a fixed list of questions drawn by the server before the game starts. Both
+// sides answer the same question at the same time ({ choice, ms }, where `ms` is measured by the
+// server from the moment the question was shown); once both answered, or the clock ran out, the
+// question is revealed and scored: a right answer is worth TRIVIA_POINTS plus a speed bonus that
+// shrinks to nothing over TRIVIA_ANSWER_MS. The reveal stays up until the clock moves the game on
+// to the next question. After the last one the higher score wins; equal scores are a draw.
+// The state holds every answer, so players must only ever be shown `triviaView(state, side)`.
+
+export type TriviaDifficulty = "easy" | "medium" | "hard";
+
+export type TriviaQuestion = {
+  id: string;
+  category: string;
+  difficulty: TriviaDifficulty;
+  prompt: string;
+  choices: string[];
+  answer: number; // index into `choices`
+};
+
+export type TriviaAnswer = { choice: number | null; ms: number }; // choice null = no answer in time
+
+export type TriviaMove = { choice: number; ms: number };
+
+export type TriviaReveal = {
+  index: number;
+  answer: number;
+  answers: Record<Side, TriviaAnswer | null>;
+  points: Record<Side, number>;
+};
+
+export type TriviaState = {
+  questions: TriviaQuestion[];
+  index: number; // question being asked or revealed
+  phase: "question" | "reveal";
+  answers: Record<Side, TriviaAnswer | null>;
+  scores: Record<Side, number>;
+  lastReveal: TriviaReveal | null;
+  outcome: Outcome | null;
+};
+
+/** What `side` may know: the current question without its answer, whether each side answered, and past reveals */
+export type TriviaView = {
+  phase: TriviaState["phase"];
+  index: number;
+  count: number;
+  question: Omit<TriviaQuestion, "id" | "answer"> | null;
+  myChoice: number | null;
+  answered: boolean;
+  opponentAnswered: boolean;
+  scores: Record<Side, number>;
+  lastReveal: TriviaReveal | null;
+};
+
+export const TRIVIA_ANSWER_MS = 15_000;
+export const TRIVIA_POINTS = 100;
+export const TRIVIA_SPEED_BONUS = 100;
+export const TRIVIA_COUNT = 10;
+
+export const triviaPoints = (q: TriviaQuestion, a: TriviaAnswer | null) =>
+  a && a.choice === q.answer ? TRIVIA_POINTS + Math.round(TRIVIA_SPEED_BONUS * Math.max(0, 1 - a.ms / TRIVIA_ANSWER_MS)) : 0;
+
+function reveal(state: TriviaState, answers: TriviaState["answers"]): TriviaState {
+  const q = state.questions[state.index];
+  const points = { a: triviaPoints(q, answers.a), b: triviaPoints(q, answers.b) };
+  const scores = { a: state.scores.a + points.a, b: state.scores.b + points.b };
+  const lastReveal = { index: state.index, answer: q.answer, answers, points };
+  let outcome: Outcome | null = null;
+  if (state.index >= state.questions.length - 1) {
+    outcome = { winner: scores.a > scores.b ? "a" : (scores.b > scores.a ? "b" : null), reason: "trivia_complete" };
+  }
+  return { ...state, phase: "reveal", answers, scores, lastReveal, outcome };
+}
+
+export function triviaView(state: TriviaState, side: Side): TriviaView {
+  const q = state.questions[state.index];
+  return {
+    phase: state.phase,
+    index: state.index,
+    count: state.questions.length,
+    question: q ? { category: q.category, difficulty: q.difficulty, prompt: q.prompt, choices: q.choices } : null,
+    myChoice: state.answers[side]?.choice ?? null,
+    answered: !!state.answers[side],
+    opponentAnswered: !!state.answers[otherSide(side)],
+    scores: state.scores,
+    lastReveal: state.lastReveal,
+  };
+}
+
+/** Trivia over `questions`, asked in order */
+export const createTrivia = (questions: TriviaQuestion[]): GameRules<TriviaState, TriviaMove> => ({
+  initialState() {
+    return { questions, index: 0, phase: "question", answers: { a: null, b: null }, scores: { a: 0, b: 0 }, lastReveal: null, outcome: null };
+  },
+
+  legalMoves(state, side) {
+    if (state.outcome || state.phase !== "question" || state.answers[side]) return [];
+    return state.questions[state.index].choices.map((_, choice) => ({ choice, ms: 0 }));
+  },
+
+  applyMove(state, side, move) {
+    if (state.outcome) return { ok: false, reason: "game_already_ended" };
+    if (state.phase !== "question") return { ok: false, reason: "question_closed" };
+    if (state.answers[side]) return { ok: false, reason: "already_answered" };
+    const q = state.questions[state.index];
+    if (!Number.isInteger(move?.choice) || move.choice < 0 || move.choice >= q.choices.length) return { ok: false, reason: "invalid_choice" };
+    if (!Number.isFinite(move.ms) || move.ms < 0) return { ok: false, reason: "invalid_time" };
+    const answers = { ...state.answers, [side]: { choice: move.choice, ms: move.ms } };
+    if (!answers.a || !answers.b) return { ok: true, state: { ...state, answers } };
+    return { ok: true, state: reveal(state, answers) };
+  },
+
+  // Time is up on the question (whoever has not answered scores nothing), or the reveal is over
+  timeout(state) {
+    if (state.outcome) return state;
+    if (state.phase === "question") {
+      return reveal(state, { a: state.answers.a ?? { choice: null, ms: TRIVIA_ANSWER_MS }, b: state.answers.b ?? { choice: null, ms: TRIVIA_ANSWER_MS } });
+    }
+    return { ...state, index: state.index + 1, phase: "question", answers: { a: null, b: null } };
+  },
+
+  outcome: (state) => state.outcome,
+});
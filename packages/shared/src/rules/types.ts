@@ -0,0 +1,27 @@
+// Common shape of every game's rules. Implementations are pure and deterministic: states are
+// plain JSON-safe objects, nothing is mutated in place, and no clock or randomness is read,
+// so the game server and the client can run the exact same code.
+
+/** Seat a (the player matched first) or seat b */
+export type Side = "a" | "b";
+
+export const otherSide = (s: Side): Side => (s === "a" ? "b" : "a");
+
+/** How a finished game ended; `winner: null` is a draw */
+export type Outcome = { winner: Side | null; reason: string };
+
+/** A rejected move carries a snake_case reason, sent to the client as-is */
+export type MoveResult<S> = { ok: true; state: S } | { ok: false; reason: string };
+
+export interface GameRules<S, M> {
+  /** Fresh game with `first` to move (ignored by simultaneous games) */
+  initialState(first: Side): S;
+  /** Moves `side` may make right now; empty when it is not their turn or the game is over */
+  legalMoves(state: S, side: Side): M[];
+  /** Validate and apply `side`'s move */
+  applyMove(state: S, side: Side, move: M): MoveResult<S>;
+  /** The clock ran out on whoever was due to act */
+  timeout(state: S): S;
+  /** null while the game is still running */
+  outcome(state: S): Outcome | null;
+}
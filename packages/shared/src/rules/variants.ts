@@ -0,0 +1,303 @@
+import type { GameRules } from "./types.js";
+import { createTicTacToe } from "./tictactoe.js";
+import { C4_MAX_ROUNDS, createConnectFour } from "./connectfour.js";
+import { RPSLS_CHOICES, RPS_CHOICES, RPS_IDLE_ROUNDS, RPS_TARGET, createRockPaperScissors } from "./rps.js";
+import { chess } from "./chess.js";
+import { checkers } from "./checkers.js";
+import { battleship } from "./battleship.js";
+import { MEMORY_PAIRS, createMemory } from "./memory.js";
+import { REACTION_TARGET, createReaction } from "./reaction.js";
+import { TRIVIA_ANSWER_MS, TRIVIA_COUNT, type TriviaDifficulty, type TriviaQuestion, createTrivia } from "./trivia.js";
+
+// Rule presets per game. The lobby lists them, matchmaking only pairs players asking for the
+// same one, and the game server builds the room's rules from the variant stored on the match.
+// The first variant of each game is its default.
+
+export type GameId = "tictactoe" | "connectfour" | "rockpaperscissors" | "chess" | "checkers" | "battleship" | "trivia" | "memory" | "reaction";
+
+/** Per-match settings on top of the variant itself */
+export type VariantOptions = {
+  target?: number; // RPS / reaction: round wins needed, trivia: questions asked; one of the variant's `targets`
+  maxRounds?: number; // Connect Four: full-grid rounds before a draw (server setting)
+  questions?: TriviaQuestion[]; // Trivia: the questions the server drew for the match
+  random?: () => number; // Memory: shuffles each game's deck (Math.random when omitted)
+};
+
+export interface Variant {
+  id: string;
+  game: GameId;
+  name: string;
+  summary: string;
+  /** Selectable target scores (RPS, reaction) or question counts (trivia); the first is the default */
+  targets?: number[];
+  /** Trivia: which questions of the bank the server draws from (any category / difficulty when unset) */
+  pool?: { category?: string; difficulty?: TriviaDifficulty };
+  /** Player-facing rules, as shown in the lobby */
+  rules(options?: VariantOptions): string[];
+  create(options?: VariantOptions): GameRules<any, any>;
+}
+
+const TURN_30 = "30 seconds per turn - timeout = automatic loss";
+const RPS_TARGETS = [RPS_TARGET, 3, 7];
+const TRIVIA_COUNTS = [TRIVIA_COUNT, 5, 15];
+
+function triviaRules(questions: string, count: number) {
+  return [
+    `${count} ${questions} questions, each shown to both players at the same moment`,
+    `${TRIVIA_ANSWER_MS / 1000} seconds to pick one of the answers - no answer scores nothing`,
+    "A right answer is worth 100 points plus up to 100 more for speed, timed by the server",
+    "Both answers are revealed before the next question",
+    "Highest score after the last question wins - equal scores = draw, stakes are returned"
+  ];
+}
+
+function memoryRules(pairs: number) {
+  return [
+    `${pairs * 2} cards (${pairs} pairs) are shuffled face down - only the server knows where each one is`,
+    "On your turn flip two cards - both players see them",
+    "Find a pair and you keep it and flip again",
+    "No match: the cards are shown for a moment, then turned back and the turn passes",
+    "Most pairs once the deck is cleared wins - equal pairs = draw",
+    TURN_30
+  ];
+}
+
+// Every trivia variant plays the same rules over a different slice of the question bank
+function triviaVariant(id: string, name: string, summary: string, questions: string, pool: Variant["pool"]): Variant {
+  return {
+    id, game: "trivia", name, summary, targets: TRIVIA_COUNTS, pool,
+    rules: ({ target = TRIVIA_COUNT } = {}) => triviaRules(questions, target),
+    create: ({ questions = [] } = {}) => createTrivia(questions)
+  };
+}
+
+export const VARIANTS: Record<GameId, Variant[]> = {
+  tictactoe: [
+    {
+      id: "infinity",
+      game: "tictactoe",
+      name: "Infinity",
+      summary: "3x3, at most 3 marks each",
+      rules: () => [
+        "⚠️ INFINITY VERSION - Each player can only have 3 pieces on the board",
+        "When you place a 4th piece, your oldest piece automatically disappears",
+        "Get 3 in a row (horizontal, vertical, or diagonal) to win",
+        TURN_30,
+        "First player to achieve 3 in a row wins the match"
+      ],
+      create: () => createTicTacToe({ maxMarks: 3 })
+    },
+    {
+      id: "classic",
+      game: "tictactoe",
+      name: "Classic",
+      summary: "3x3, marks stay",
+      rules: () => [
+        "Classic 3x3 board - marks stay where they are placed",
+        "Get 3 in a row (horizontal, vertical, or diagonal) to win",
+        "A full board with no line is a draw",
+        TURN_30
+      ],
+      create: () => createTicTacToe()
+    },
+    {
+      id: "4x4",
+      game: "tictactoe",
+      name: "4x4",
+      summary: "4x4, four in a row",
+      rules: () => [
+        "4x4 board - marks stay where they are placed",
+        "Get 4 in a row (horizontal, vertical, or diagonal) to win",
+        "A full board with no line is a draw",
+        TURN_30
+      ],
+      create: () => createTicTacToe({ size: 4 })
+    }
+  ],
+  connectfour: [
+    {
+      id: "classic",
+      game: "connectfour",
+      name: "Classic",
+      summary: "7x6 grid",
+      rules: ({ maxRounds = C4_MAX_ROUNDS } = {}) => [
+        "Standard 7x6 grid - drop tokens from the top",
+        "Red player vs Yellow player alternate turns",
+        "Connect 4 tokens in a row (horizontal, vertical, or diagonal) to win",
+        TURN_30,
+        "If the grid fills with no winner, board resets for another round",
+        `Still no winner after ${maxRounds} rounds = draw, stakes are returned`
+      ],
+      create: ({ maxRounds } = {}) => createConnectFour({ maxRounds })
+    },
+    {
+      id: "popout",
+      game: "connectfour",
+      name: "Pop Out",
+      summary: "7x6, pop your bottom tokens",
+      rules: ({ maxRounds = C4_MAX_ROUNDS } = {}) => [
+        "7x6 grid - on your turn, drop a token or pop one of your own tokens out of the bottom row",
+        "Popping shifts the rest of that column down by one",
+        "Connect 4 tokens in a row to win - if a pop connects four for both players, the popper wins",
+        TURN_30,
+        "If the grid is full and you have nothing to pop, the board resets for another round",
+        `Still no winner after ${maxRounds} rounds = draw, stakes are returned`
+      ],
+      create: ({ maxRounds } = {}) => createConnectFour({ maxRounds, popOut: true })
+    },
+    {
+      id: "9x7",
+      game: "connectfour",
+      name: "9x7",
+      summary: "Wider 9x7 grid",
+      rules: ({ maxRounds = C4_MAX_ROUNDS } = {}) => [
+        "Large 9x7 grid - drop tokens from the top",
+        "Connect 4 tokens in a row (horizontal, vertical, or diagonal) to win",
+        TURN_30,
+        "If the grid fills with no winner, board resets for another round",
+        `Still no winner after ${maxRounds} rounds = draw, stakes are returned`
+      ],
+      create: ({ maxRounds } = {}) => createConnectFour({ cols: 9, rows: 7, maxRounds })
+    }
+  ],
+  rockpaperscissors: [
+    {
+      id: "classic",
+      game: "rockpaperscissors",
+      name: "Classic",
+      summary: "Rock, Paper, Scissors",
+      targets: RPS_TARGETS,
+      rules: ({ target = RPS_TARGET } = {}) => [
+        `First player to win ${target} rounds takes the entire ARK stake pool`,
+        "Both players pick Rock, Paper, or Scissors simultaneously",
+        "Rock beats Scissors, Scissors beats Paper, Paper beats Rock",
+        "30 seconds per round - timeout = automatic round loss",
+        `${RPS_IDLE_ROUNDS} rounds in a row without any pick end the game in a draw`,
+        `Play continues until one player reaches ${target} round wins`
+      ],
+      create: ({ target } = {}) => createRockPaperScissors({ target })
+    },
+    {
+      id: "lizard-spock",
+      game: "rockpaperscissors",
+      name: "Lizard-Spock",
+      summary: "Five picks",
+      targets: RPS_TARGETS,
+      rules: ({ target = RPS_TARGET } = {}) => [
+        `First player to win ${target} rounds takes the entire ARK stake pool`,
+        "Both players pick Rock, Paper, Scissors, Lizard or Spock simultaneously",
+        "Scissors cuts Paper, Paper covers Rock, Rock crushes Lizard, Lizard poisons Spock, Spock smashes Scissors",
+        "Scissors decapitates Lizard, Lizard eats Paper, Paper disproves Spock, Spock vaporizes Rock, Rock crushes Scissors",
+        "30 seconds per round - timeout = automatic round loss",
+        `${RPS_IDLE_ROUNDS} rounds in a row without any pick end the game in a draw`
+      ],
+      create: ({ target } = {}) => createRockPaperScissors({ choices: RPSLS_CHOICES, target })
+    }
+  ],
+  chess: [
+    {
+      id: "standard",
+      game: "chess",
+      name: "Standard",
+      summary: "FIDE rules",
+      rules: () => [
+        "Standard chess - the first player to move plays White",
+        "Castling, en passant and promotion are supported; every move is checked by the server",
+        "Checkmate your opponent's king to win the match",
+        "Stalemate, threefold repetition, the 50-move rule and insufficient material are draws",
+        "60 seconds per move - timeout = automatic loss (a draw if you cannot be mated)"
+      ],
+      create: () => chess
+    }
+  ],
+  checkers: [
+    {
+      id: "american",
+      game: "checkers",
+      name: "American",
+      summary: "8x8, forced captures",
+      rules: () => [
+        "8x8 board - the first player to move plays Dark and moves up the board",
+        "Men move one square diagonally forward; reaching the far row crowns a King that moves both ways",
+        "Captures are forced - if you can jump, you must, and a jump chain continues until no jump is left",
+        "Capture every opposing piece or leave your opponent without a move to win",
+        "40 moves each without a capture or a man moving = draw",
+        TURN_30
+      ],
+      create: () => checkers
+    }
+  ],
+  battleship: [
+    {
+      id: "classic",
+      game: "battleship",
+      name: "Classic",
+      summary: "10x10, five ships",
+      rules: () => [
+        "Place your fleet in secret: Carrier (5), Battleship (4), Cruiser (3), Submarine (3) and Destroyer (2)",
+        "Ships may not overlap or leave the 10x10 grid - 90 seconds to place, or you lose",
+        "Take turns firing at one cell of your opponent's grid - the server answers hit, miss or sunk",
+        "Your opponent never sees your fleet, only where their shots landed",
+        "Sink the whole enemy fleet to win",
+        TURN_30
+      ],
+      create: () => battleship
+    }
+  ],
+  trivia: [
+    triviaVariant("mixed", "Mixed", "All categories", "mixed", {}),
+    triviaVariant("science", "Science", "Science & nature", "science", { category: "science" }),
+    triviaVariant("history", "History", "History", "history", { category: "history" }),
+    triviaVariant("geography", "Geography", "Geography", "geography", { category: "geography" }),
+    triviaVariant("hard", "Expert", "Hard questions only", "hard", { difficulty: "hard" })
+  ],
+  memory: [
+    {
+      id: "classic",
+      game: "memory",
+      name: "Classic",
+      summary: `4x4, ${MEMORY_PAIRS} pairs`,
+      rules: () => memoryRules(MEMORY_PAIRS),
+      create: ({ random } = {}) => createMemory({ pairs: MEMORY_PAIRS, random })
+    },
+    {
+      id: "large",
+      game: "memory",
+      name: "Large",
+      summary: "6x6, 18 pairs",
+      rules: () => memoryRules(18),
+      create: ({ random } = {}) => createMemory({ pairs: 18, random })
+    }
+  ],
+  reaction: [
+    {
+      id: "classic",
+      game: "reaction",
+      name: "Classic",
+      summary: "Tap on GO",
+      targets: [REACTION_TARGET, 2, 4],
+      rules: ({ target = REACTION_TARGET } = {}) => [
+        `First player to win ${target} rounds takes the match`,
+        "Get ready, then wait for GO - it comes after a random delay",
+        "Tap before GO and you lose the round",
+        "Fastest tap after GO wins the round - the server times every tap and corrects for each player's connection latency",
+        "A round nobody taps in scores nothing",
+        `After ${target * 3} rounds the higher score wins - equal = draw`
+      ],
+      create: ({ target } = {}) => createReaction({ target })
+    }
+  ]
+};
+
+/** `game`'s variant `id` (its default when omitted); undefined for an unknown id */
+export function getVariant(game: GameId, id?: string | null): Variant | undefined {
+  const list = VARIANTS[game];
+  return id ? list.find((v) => v.id === id) : list[0];
+}
+
+/** The target score a match of `variant` plays to: `target` if allowed, the default when omitted, else null */
+export function variantTarget(variant: Variant, target?: number | null): number | null | undefined {
+  if (!variant.targets) return target == null ? undefined : null;
+  if (target == null) return variant.targets[0];
+  return variant.targets.includes(target) ? target : null;
+}
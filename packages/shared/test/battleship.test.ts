@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { type BSMove, type BSPlacement, type BSState, battleship, battleshipView } from "../src/rules/battleship.js";
+import type { Side } from "../src/rules/types.js";
+import { play, rejection } from "./play.js";
+
+// Every ship horizontal from column 0 of rows 0-4: the Destroyer sits on cells 40 and 41
+const FLEET: BSPlacement[] = [0, 10, 20, 30, 40].map((cell) => ({ cell, vertical: false }));
+const SHIP_CELLS = [0, 1, 2, 3, 4, 10, 11, 12, 13, 20, 21, 22, 30, 31, 32, 40, 41];
+
+const placed = (): BSState => play(battleship, battleship.initialState("a"), [["a", { fleet: FLEET }], ["b", { fleet: FLEET }]]);
+const shot = (side: Side, cell: number): [Side, BSMove] => [side, { shot: cell }];
+
+describe("battleship", () => {
+  it("rejects fleets that overlap, leave the grid or miss ships", () => {
+    const s = battleship.initialState("a");
+    expect(rejection(battleship, s, "a", { fleet: [...FLEET.slice(0, 4), { cell: 2, vertical: true }] })).toBe("ships_overlap");
+    expect(rejection(battleship, s, "a", { fleet: [{ cell: 7, vertical: false }, ...FLEET.slice(1)] })).toBe("ship_out_of_bounds");
+    expect(rejection(battleship, s, "a", { fleet: [{ cell: 60, vertical: true }, ...FLEET.slice(1)] })).toBe("ship_out_of_bounds");
+    expect(rejection(battleship, s, "a", { fleet: FLEET.slice(1) })).toBe("invalid_fleet");
+  });
+
+  it("starts firing once both fleets are down", () => {
+    const half = play(battleship, battleship.initialState("a"), [["a", { fleet: FLEET }]]);
+    expect(half.phase).toBe("setup");
+    expect(rejection(battleship, half, "a", { shot: 0 })).toBe("setup_in_progress");
+    expect(rejection(battleship, half, "a", { fleet: FLEET })).toBe("fleet_already_placed");
+    const s = placed();
+    expect(s.phase).toBe("play");
+    expect(rejection(battleship, s, "b", { fleet: FLEET })).toBe("setup_over");
+    expect(rejection(battleship, s, "b", { shot: 0 })).toBe("not_your_turn");
+  });
+
+  it("reports hits, misses and sunk ships", () => {
+    const s = play(battleship, placed(), [shot("a", 40), shot("b", 99)]);
+    expect(s.lastShot).toEqual({ side: "b", cell: 99, hit: false, sunk: null });
+    expect(rejection(battleship, s, "a", { shot: 40 })).toBe("already_shot");
+    expect(rejection(battleship, s, "a", { shot: 100 })).toBe("invalid_cell");
+    const sunk = play(battleship, s, [shot("a", 41)]);
+    expect(sunk.lastShot).toEqual({ side: "a", cell: 41, hit: true, sunk: "Destroyer" });
+    expect(battleshipView(sunk, "a").sunk).toEqual([{ name: "Destroyer", cells: [40, 41] }]);
+  });
+
+  it("is won by sinking the whole fleet", () => {
+    const moves = SHIP_CELLS.flatMap((cell, i) => [shot("a", cell), shot("b", 99 - i)]).slice(0, -1);
+    const s = play(battleship, placed(), moves);
+    expect(s.outcome).toEqual({ winner: "a", reason: "bs_fleet_sunk" });
+  });
+
+  it("loses the side that did not place its fleet in time", () => {
+    const half = play(battleship, battleship.initialState("a"), [["b", { fleet: FLEET }]]);
+    expect(battleship.timeout(half).outcome).toEqual({ winner: "b", reason: "setup_timeout" });
+    expect(battleship.timeout(battleship.initialState("a")).outcome).toEqual({ winner: null, reason: "setup_timeout" });
+  });
+
+  it("hides the enemy fleet until the game is over", () => {
+    const s = play(battleship, placed(), [shot("a", 40)]);
+    const view = battleshipView(s, "a");
+    expect(view.fleet).toHaveLength(5);
+    expect(view.enemyFleet).toBeNull();
+    expect(view.sunk).toEqual([]);
+    expect(battleshipView(s, "b").incoming).toEqual([{ cell: 40, hit: true }]);
+    expect(battleshipView(battleship.timeout(s), "b").enemyFleet).toHaveLength(5);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { type CheckersPiece, type CheckersState, checkers } from "../src/rules/checkers.js";
+import { play, rejection } from "./play.js";
+
+// A position with `pieces` on their squares, dark (side a) to move
+function position(pieces: Record<number, CheckersPiece>, quiet = 0): CheckersState {
+  const board: CheckersState["board"] = Array(64).fill(null);
+  for (const [square, piece] of Object.entries(pieces)) board[Number(square)] = piece;
+  return { board, dark: "a", turn: "a", quiet, lastMove: null, outcome: null };
+}
+
+describe("checkers", () => {
+  it("opens with the seven forward steps of the front row", () => {
+    const s = checkers.initialState("a");
+    expect(checkers.legalMoves(s, "a")).toHaveLength(7);
+    expect(checkers.legalMoves(s, "b")).toEqual([]);
+    expect(rejection(checkers, s, "b", [17, 24])).toBe("not_your_turn");
+    expect(rejection(checkers, s, "a", [40, 32])).toBe("illegal_move");
+  });
+
+  it("forces captures", () => {
+    const s = position({ 42: "d", 46: "d", 35: "l", 1: "l" });
+    expect(rejection(checkers, s, "a", [46, 37])).toBe("capture_required");
+    const next = play(checkers, s, [["a", [42, 28]]]);
+    expect(next.board[35]).toBeNull();
+    expect(next.board[28]).toBe("d");
+  });
+
+  it("plays a jump sequence out to the end and wins when the opponent has no pieces left", () => {
+    const s = position({ 49: "d", 42: "l", 28: "l" });
+    expect(rejection(checkers, s, "a", [49, 35])).toBe("jump_incomplete");
+    const next = play(checkers, s, [["a", [49, 35, 21]]]);
+    expect(next.board.filter(Boolean)).toEqual(["d"]);
+    expect(next.outcome).toEqual({ winner: "a", reason: "checkers_win" });
+  });
+
+  it("crowns a man on the far row and ends the move there", () => {
+    const s = position({ 17: "d", 10: "l", 12: "l" });
+    expect(checkers.legalMoves(s, "a")).toEqual([[17, 3]]);
+    expect(rejection(checkers, s, "a", [17, 3, 21])).toBe("illegal_move");
+    const next = play(checkers, s, [["a", [17, 3]]]);
+    expect(next.board[3]).toBe("D");
+    expect(next.outcome).toBeNull();
+  });
+
+  it("draws after 40 moves each without a capture or a man moving", () => {
+    const s = position({ 35: "D", 7: "L" }, 79);
+    expect(play(checkers, s, [["a", [35, 28]]]).outcome).toEqual({ winner: null, reason: "checkers_40_moves" });
+    // A man moving resets the count
+    expect(play(checkers, position({ 35: "d", 7: "L" }, 79), [["a", [35, 28]]]).quiet).toBe(0);
+  });
+
+  it("loses on time", () => {
+    expect(checkers.timeout(checkers.initialState("a")).outcome).toEqual({ winner: "b", reason: "turn_timeout" });
+  });
+});
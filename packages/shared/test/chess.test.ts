@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { chess, chessFen, chessFromFen, squareIndex } from "../src/rules/chess.js";
+import { play, rejection, turns } from "./play.js";
+
+describe("chess", () => {
+  it("ends in checkmate (fool's mate)", () => {
+    const s = play(chess, chess.initialState("a"), turns("a", ["f2f3", "e7e5", "g2g4", "d8h4"]));
+    expect(s.outcome).toEqual({ winner: "b", reason: "checkmate" });
+    expect(chess.legalMoves(s, "a")).toEqual([]);
+  });
+
+  it("rejects illegal moves and moves out of turn", () => {
+    const s = chess.initialState("a");
+    expect(chess.legalMoves(s, "a")).toHaveLength(20);
+    expect(rejection(chess, s, "a", "e2e5")).toBe("illegal_move");
+    expect(rejection(chess, s, "b", "e7e5")).toBe("not_your_turn");
+  });
+
+  it("requires promotions to name the piece", () => {
+    const s = chessFromFen("7k/P7/8/8/8/8/8/7K w - - 0 1");
+    expect(rejection(chess, s, "a", "a7a8")).toBe("illegal_move");
+    expect(play(chess, s, [["a", "a7a8q"]]).board[squareIndex("a8")]).toBe("Q");
+  });
+
+  it("castles and moves the rook, but never through check", () => {
+    const open = chessFromFen("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1");
+    const castled = play(chess, open, [["a", "e1g1"]]);
+    expect(chessFen(castled)).toBe("r3k2r/8/8/8/8/8/8/R4RK1 b kq - 1 1");
+    const guarded = chessFromFen("r3k2r/8/8/8/8/8/5r2/R3K2R w KQkq - 0 1");
+    expect(rejection(chess, guarded, "a", "e1g1")).toBe("illegal_move");
+    expect(rejection(chess, guarded, "a", "e1c1")).toBeUndefined();
+  });
+
+  it("captures en passant", () => {
+    const s = play(chess, chessFromFen("4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1"), [["a", "e5d6"]]);
+    expect(s.board[squareIndex("d6")]).toBe("P");
+    expect(s.board[squareIndex("d5")]).toBeNull();
+  });
+
+  it("draws by stalemate", () => {
+    const s = play(chess, chessFromFen("k7/8/8/1Q6/8/8/8/7K w - - 0 1"), [["a", "b5b6"]]);
+    expect(s.outcome).toEqual({ winner: null, reason: "stalemate" });
+  });
+
+  it("draws on insufficient material", () => {
+    const s = play(chess, chessFromFen("k7/8/8/8/8/8/1r6/K7 w - - 0 1"), [["a", "a1b2"]]);
+    expect(s.outcome).toEqual({ winner: null, reason: "insufficient_material" });
+  });
+
+  it("draws by threefold repetition", () => {
+    const shuffle = ["g1f3", "g8f6", "f3g1", "f6g8"];
+    const twice = play(chess, chess.initialState("a"), turns("a", shuffle));
+    expect(twice.outcome).toBeNull();
+    expect(play(chess, twice, turns("a", shuffle)).outcome).toEqual({ winner: null, reason: "threefold_repetition" });
+  });
+
+  it("draws by the fifty-move rule", () => {
+    const s = play(chess, chessFromFen("k7/8/8/8/8/8/8/KR6 w - - 99 80"), [["a", "b1b2"]]);
+    expect(s.outcome).toEqual({ winner: null, reason: "fifty_move_rule" });
+  });
+
+  it("loses on time unless the opponent cannot mate", () => {
+    expect(chess.timeout(chess.initialState("a")).outcome).toEqual({ winner: "b", reason: "turn_timeout" });
+    const bareKing = chessFromFen("k7/8/8/8/8/8/8/KR6 w - - 0 1");
+    expect(chess.timeout(bareKing).outcome).toEqual({ winner: null, reason: "timeout_insufficient_material" });
+  });
+});
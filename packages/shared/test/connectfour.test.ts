@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { type C4Color, type C4State, C4_COLS, C4_ROWS, connectFour, createConnectFour } from "../src/rules/connectfour.js";
+import { play, rejection, turns } from "./play.js";
+
+const popOut = createConnectFour({ popOut: true });
+const at = (row: number, col: number) => row * C4_COLS + col;
+
+// A 7x6 position with `tokens` placed, `turn` to move
+function position(tokens: Array<[number, number, C4Color]>, turn: "a" | "b"): C4State {
+  const board: C4State["board"] = Array(C4_COLS * C4_ROWS).fill(null);
+  for (const [row, col, color] of tokens) board[at(row, col)] = color;
+  return { board, cols: C4_COLS, rows: C4_ROWS, turn, round: 1, lastDrop: null, outcome: null };
+}
+
+// Columns that fill the whole grid without anyone connecting four
+const FILL = [0, 1, 2, 3, 4, 5, 6, 0, 1, 2, 3, 4, 5, 6, 0, 1, 2, 3, 4, 5, 6, 1, 0, 3, 2, 5, 4, 0, 6, 1, 2, 3, 4, 5, 6, 0, 1, 2, 3, 4, 5, 6];
+
+describe("connect four", () => {
+  it("drops tokens to the lowest free row", () => {
+    const s = play(connectFour, connectFour.initialState("a"), turns("a", [3, 3]));
+    expect(s.board[at(5, 3)]).toBe("red");
+    expect(s.board[at(4, 3)]).toBe("yellow");
+    expect(s.lastDrop).toEqual({ col: 3, row: 4 });
+  });
+
+  it("is won by four in a row", () => {
+    const s = play(connectFour, connectFour.initialState("a"), turns("a", [0, 1, 0, 1, 0, 1, 0]));
+    expect(s.outcome).toEqual({ winner: "a", reason: "c4_win" });
+  });
+
+  it("is won on a diagonal", () => {
+    const s = play(connectFour, connectFour.initialState("a"), turns("a", [0, 1, 1, 2, 2, 3, 2, 3, 3, 6, 3]));
+    expect(s.outcome).toEqual({ winner: "a", reason: "c4_win" });
+  });
+
+  it("rejects full columns, columns off the grid, pops and moves out of turn", () => {
+    const full = play(connectFour, connectFour.initialState("a"), turns("a", [0, 0, 0, 0, 0, 0]));
+    expect(rejection(connectFour, full, "a", 0)).toBe("column_full");
+    expect(connectFour.legalMoves(full, "a")).not.toContain(0);
+    expect(rejection(connectFour, full, "a", 7)).toBe("invalid_column");
+    expect(rejection(connectFour, full, "a", -1)).toBe("invalid_column");
+    expect(rejection(connectFour, full, "a", 1.5)).toBe("invalid_column");
+    expect(rejection(connectFour, full, "a", { pop: 1 })).toBe("pop_not_allowed");
+    expect(rejection(connectFour, full, "b", 1)).toBe("not_your_turn");
+  });
+
+  it("starts a fresh round when the grid fills, and draws when the last round fills", () => {
+    const twoRounds = createConnectFour({ maxRounds: 2 });
+    const round2 = play(twoRounds, twoRounds.initialState("a"), turns("a", FILL));
+    expect(round2.round).toBe(2);
+    expect(round2.board.every((v) => v === null)).toBe(true);
+    expect(round2.outcome).toBeNull();
+    const end = play(twoRounds, round2, turns("a", FILL));
+    expect(end.outcome).toEqual({ winner: null, reason: "c4_round_limit" });
+  });
+
+  it("plays the round limit on smaller grids too", () => {
+    // Four in a row cannot fit on 2x2
+    const tiny = createConnectFour({ cols: 2, rows: 2, maxRounds: 2 });
+    const round2 = play(tiny, tiny.initialState("a"), turns("a", [0, 1, 0, 1]));
+    expect(round2.round).toBe(2);
+    expect(round2.turn).toBe("a");
+    expect(play(tiny, round2, turns("a", [0, 1, 0, 1])).outcome).toEqual({ winner: null, reason: "c4_round_limit" });
+  });
+
+  it("gives the game to the other side when the clock runs out", () => {
+    expect(connectFour.timeout(connectFour.initialState("a")).outcome).toEqual({ winner: "b", reason: "turn_timeout" });
+  });
+});
+
+describe("connect four Pop Out", () => {
+  it("pops an own bottom token and shifts the column down", () => {
+    const s = play(popOut, position([[5, 3, "red"], [4, 3, "yellow"], [5, 0, "yellow"]], "a"), [["a", { pop: 3 }]]);
+    expect(s.board[at(5, 3)]).toBe("yellow");
+    expect(s.board[at(4, 3)]).toBeNull();
+    expect(s.turn).toBe("b");
+  });
+
+  it("only pops the mover's own bottom tokens", () => {
+    const s = position([[5, 3, "red"], [5, 4, "yellow"]], "a");
+    expect(popOut.legalMoves(s, "a")).toContainEqual({ pop: 3 });
+    expect(popOut.legalMoves(s, "a")).not.toContainEqual({ pop: 4 });
+    expect(rejection(popOut, s, "a", { pop: 4 })).toBe("cannot_pop");
+    expect(rejection(popOut, s, "a", { pop: 2 })).toBe("cannot_pop");
+  });
+
+  it("gives the win to the popper when a pop connects four for both sides", () => {
+    const s = position([
+      [5, 0, "yellow"], [5, 1, "yellow"], [5, 2, "yellow"], [5, 3, "red"],
+      [4, 0, "red"], [4, 1, "red"], [4, 2, "red"], [4, 3, "yellow"],
+      [3, 3, "red"],
+    ], "a");
+    expect(play(popOut, s, [["a", { pop: 3 }]]).outcome).toEqual({ winner: "a", reason: "c4_win" });
+  });
+
+  it("gives the win to the opponent when a pop only connects theirs", () => {
+    const s = position([[5, 0, "yellow"], [5, 1, "yellow"], [5, 2, "yellow"], [5, 3, "red"], [4, 3, "yellow"]], "a");
+    expect(play(popOut, s, [["a", { pop: 3 }]]).outcome).toEqual({ winner: "b", reason: "c4_win" });
+  });
+});
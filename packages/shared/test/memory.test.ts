@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { type MemoryState, createMemory, memoryDeck, memoryView } from "../src/rules/memory.js";
+import { play, rejection } from "./play.js";
+
+const memory = createMemory({ pairs: 2, random: () => 0.5 });
+
+// The two cards of each pair id in `state`'s deck
+const pairsOf = (state: MemoryState) => [0, 1].map((id) => state.deck.flatMap((c, i) => (c === id ? [i] : [])));
+
+describe("memory", () => {
+  it("deals every pair exactly twice", () => {
+    expect(memoryDeck(8, Math.random).slice().sort((x, y) => x - y)).toEqual([0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7]);
+  });
+
+  it("lets a side that takes a pair go again, and ends when every pair is taken", () => {
+    const s = memory.initialState("a");
+    const [p0, p1] = pairsOf(s);
+    const one = play(memory, s, [["a", { flip: p0[0] }], ["a", { flip: p0[1] }]]);
+    expect(one).toMatchObject({ turn: "a", flipped: [], pairs: { a: 1, b: 0 }, outcome: null });
+    expect(rejection(memory, one, "a", { flip: p0[0] })).toBe("card_face_up");
+    const done = play(memory, one, [["a", { flip: p1[0] }], ["a", { flip: p1[1] }]]);
+    expect(done.outcome).toEqual({ winner: "a", reason: "memory_complete" });
+  });
+
+  it("shows a mismatch until the reveal times out, then passes the turn", () => {
+    const s = memory.initialState("a");
+    const [p0, p1] = pairsOf(s);
+    const miss = play(memory, s, [["a", { flip: p0[0] }], ["a", { flip: p1[0] }]]);
+    expect(miss).toMatchObject({ phase: "reveal", turn: "b", flipped: [p0[0], p1[0]] });
+    expect(miss.lastPair).toEqual({ side: "a", cards: [p0[0], p1[0]], match: false });
+    expect(rejection(memory, miss, "b", { flip: p0[1] })).toBe("reveal_in_progress");
+    const back = memory.timeout(miss);
+    expect(back).toMatchObject({ phase: "flip", turn: "b", flipped: [], outcome: null });
+  });
+
+  it("rejects bad cards and flips out of turn", () => {
+    const s = memory.initialState("a");
+    expect(rejection(memory, s, "a", { flip: 4 })).toBe("invalid_card");
+    expect(rejection(memory, s, "a", { flip: -1 })).toBe("invalid_card");
+    expect(rejection(memory, s, "b", { flip: 0 })).toBe("not_your_turn");
+    expect(memory.timeout(s).outcome).toEqual({ winner: "b", reason: "turn_timeout" });
+  });
+
+  it("only shows the faces of face-up and taken cards", () => {
+    const s = memory.initialState("a");
+    const [p0] = pairsOf(s);
+    const view = memoryView(play(memory, s, [["a", { flip: p0[0] }]]));
+    expect(view.cards.filter((c) => c !== null)).toEqual([0]);
+    expect(view.cards[p0[0]]).toBe(0);
+    expect(view).not.toHaveProperty("deck");
+  });
+});
@@ -0,0 +1,22 @@
+import { expect } from "vitest";
+import type { GameRules, Side } from "../src/rules/types.js";
+
+/** Play `moves` from `state`, failing the test on the first one the rules reject */
+export function play<S, M>(rules: GameRules<S, M>, state: S, moves: Array<[Side, M]>): S {
+  for (const [side, move] of moves) {
+    const res = rules.applyMove(state, side, move);
+    if (!res.ok) expect.fail(`${side} ${JSON.stringify(move)} rejected: ${res.reason}`);
+    state = res.state;
+  }
+  return state;
+}
+
+/** The reason `side`'s `move` is rejected in `state` (undefined if it is accepted) */
+export function rejection<S, M>(rules: GameRules<S, M>, state: S, side: Side, move: M): string | undefined {
+  const res = rules.applyMove(state, side, move);
+  return res.ok ? undefined : res.reason;
+}
+
+/** Alternate moves starting with `first`: a, b, a, b... */
+export const turns = <M>(first: Side, moves: M[]): Array<[Side, M]> =>
+  moves.map((m, i) => [i % 2 === 0 ? first : (first === "a" ? "b" : "a"), m]);
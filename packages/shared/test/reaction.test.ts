@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { type ReactionState, createReaction, reactionView } from "../src/rules/reaction.js";
+import { play, rejection } from "./play.js";
+
+const reaction = createReaction({ target: 2, maxRounds: 3 });
+
+// The first round with GO shown
+const go = (): ReactionState => reaction.timeout(reaction.initialState("a"));
+// `state`'s round closed and the next one at GO
+const nextGo = (state: ReactionState) => reaction.timeout(reaction.timeout(state));
+
+describe("reaction", () => {
+  it("gives the round to the faster tap after GO", () => {
+    const s = play(reaction, go(), [["a", { ms: 250 }], ["b", { ms: 180 }]]);
+    expect(s.phase).toBe("result");
+    expect(s.lastRound).toMatchObject({ round: 1, winner: "b", reason: "fastest" });
+    expect(s.scores).toEqual({ a: 0, b: 1 });
+    expect(rejection(reaction, s, "a", { ms: 100 })).toBe("round_over");
+  });
+
+  it("scores nothing on equal taps", () => {
+    const s = play(reaction, go(), [["a", { ms: 200 }], ["b", { ms: 200 }]]);
+    expect(s.lastRound).toMatchObject({ winner: null, reason: "tie" });
+  });
+
+  it("loses the round for a tap before GO, or one made before GO could be seen", () => {
+    const ready = play(reaction, reaction.initialState("a"), [["a", { ms: 0 }]]);
+    expect(ready.lastRound).toMatchObject({ winner: "b", reason: "early_tap" });
+    const negative = play(reaction, go(), [["b", { ms: -5 }]]);
+    expect(negative.lastRound).toMatchObject({ winner: "a", reason: "early_tap" });
+  });
+
+  it("lets a lone tap win once the round closes, and scores no taps as nothing", () => {
+    const lone = play(reaction, go(), [["a", { ms: 400 }]]);
+    expect(lone.phase).toBe("go");
+    expect(rejection(reaction, lone, "a", { ms: 300 })).toBe("already_tapped");
+    expect(reaction.timeout(lone).lastRound).toMatchObject({ winner: "a", reason: "fastest" });
+    expect(reaction.timeout(go()).lastRound).toMatchObject({ winner: null, reason: "no_tap" });
+    expect(rejection(reaction, go(), "a", { ms: NaN })).toBe("invalid_time");
+  });
+
+  it("is won at the target", () => {
+    const r1 = play(reaction, go(), [["a", { ms: 150 }], ["b", { ms: 200 }]]);
+    const r2 = play(reaction, nextGo(r1), [["a", { ms: 150 }], ["b", { ms: 200 }]]);
+    expect(r2.outcome).toEqual({ winner: "a", reason: "reaction_target" });
+  });
+
+  it("ends on points after the last round, drawn when level", () => {
+    const r1 = play(reaction, go(), [["a", { ms: 150 }], ["b", { ms: 200 }]]);
+    const r2 = play(reaction, nextGo(r1), [["a", { ms: 250 }], ["b", { ms: 200 }]]);
+    const drawn = reaction.timeout(nextGo(r2));
+    expect(drawn.outcome).toEqual({ winner: null, reason: "reaction_max_rounds" });
+    const short = createReaction({ target: 3, maxRounds: 2 });
+    const lead = play(short, short.timeout(short.initialState("a")), [["a", { ms: 150 }], ["b", { ms: 200 }]]);
+    const won = short.timeout(short.timeout(short.timeout(lead)));
+    expect(won.outcome).toEqual({ winner: "a", reason: "reaction_max_rounds" });
+  });
+
+  it("never shows the taps of the round in progress", () => {
+    const view = reactionView(play(reaction, go(), [["a", { ms: 300 }]]));
+    expect(view).not.toHaveProperty("taps");
+    expect(view.lastRound).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { RPSLS_CHOICES, RPS_BEATS, RPS_IDLE_ROUNDS, createRockPaperScissors, rockPaperScissors, rpsRoundWinner } from "../src/rules/rps.js";
+import { play, rejection } from "./play.js";
+
+const firstTo2 = createRockPaperScissors({ target: 2 });
+const rpsls = createRockPaperScissors({ choices: RPSLS_CHOICES });
+
+describe("rock paper scissors", () => {
+  it("reveals once both picked and is won at the target", () => {
+    const r1 = play(firstTo2, firstTo2.initialState("a"), [["a", "rock"], ["b", "scissors"]]);
+    expect(r1.lastReveal).toEqual({ round: 1, aChoice: "rock", bChoice: "scissors", winnerSide: "a", timedOut: false });
+    expect(r1.round).toBe(2);
+    expect(r1.choices).toEqual({ a: null, b: null });
+    const end = play(firstTo2, r1, [["b", "rock"], ["a", "paper"]]);
+    expect(end.scores).toEqual({ a: 2, b: 0 });
+    expect(end.outcome).toEqual({ winner: "a", reason: "rps_first_to_2" });
+    expect(rejection(firstTo2, end, "b", "rock")).toBe("game_already_ended");
+  });
+
+  it("scores nothing on a tie", () => {
+    const s = play(rockPaperScissors, rockPaperScissors.initialState("a"), [["a", "paper"], ["b", "paper"]]);
+    expect(s.lastReveal?.winnerSide).toBeNull();
+    expect(s.scores).toEqual({ a: 0, b: 0 });
+    expect(s.round).toBe(2);
+  });
+
+  it("lets a side change its pick until the opponent picks", () => {
+    const s = play(rockPaperScissors, rockPaperScissors.initialState("a"), [["a", "rock"], ["a", "scissors"], ["b", "paper"]]);
+    expect(s.lastReveal?.aChoice).toBe("scissors");
+    expect(s.scores.a).toBe(1);
+  });
+
+  it("rejects picks outside the variant", () => {
+    expect(rejection(rockPaperScissors, rockPaperScissors.initialState("a"), "a", "lizard")).toBe("invalid_choice");
+    expect(rejection(rpsls, rpsls.initialState("a"), "a", "lizard")).toBeUndefined();
+  });
+
+  it("gives every Lizard-Spock pick two wins and two losses", () => {
+    for (const c of RPSLS_CHOICES) {
+      const others = RPSLS_CHOICES.filter((o) => o !== c);
+      expect(others.filter((o) => rpsRoundWinner(c, o) === "a")).toHaveLength(2);
+      expect(others.filter((o) => rpsRoundWinner(c, o) === "b")).toHaveLength(2);
+      expect(RPS_BEATS[c]).toHaveLength(2);
+    }
+  });
+
+  it("gives a timed-out round to the only side that picked", () => {
+    const picked = play(rockPaperScissors, rockPaperScissors.initialState("a"), [["b", "rock"]]);
+    const s = rockPaperScissors.timeout(picked);
+    expect(s.lastReveal).toEqual({ round: 1, aChoice: null, bChoice: "rock", winnerSide: "b", timedOut: true });
+    expect(s.scores).toEqual({ a: 0, b: 1 });
+  });
+
+  it("draws a timed-out round nobody picked in", () => {
+    const s = rockPaperScissors.timeout(rockPaperScissors.initialState("a"));
+    expect(s.lastReveal?.winnerSide).toBeNull();
+    expect(s.scores).toEqual({ a: 0, b: 0 });
+    expect(s.round).toBe(2);
+  });
+
+  it("ends in a draw after rounds in a row nobody picked in", () => {
+    let s = rockPaperScissors.initialState("a");
+    for (let i = 1; i < RPS_IDLE_ROUNDS; i++) s = rockPaperScissors.timeout(s);
+    expect(s.outcome).toBeNull();
+    expect(rockPaperScissors.timeout(s).outcome).toEqual({ winner: null, reason: "rps_no_picks" });
+  });
+
+  it("counts idle rounds only while nobody picks", () => {
+    let s = rockPaperScissors.timeout(rockPaperScissors.initialState("a"));
+    s = rockPaperScissors.timeout(play(rockPaperScissors, s, [["a", "rock"]]));
+    expect(s.idleRounds).toBe(0);
+    for (let i = 1; i < RPS_IDLE_ROUNDS; i++) s = rockPaperScissors.timeout(s);
+    expect(s.outcome).toBeNull();
+  });
+});
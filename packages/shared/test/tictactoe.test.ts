@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createTicTacToe, ticTacToe } from "../src/rules/tictactoe.js";
+import { play, rejection, turns } from "./play.js";
+
+const classic = createTicTacToe();
+
+describe("tic-tac-toe", () => {
+  it("is won by three in a row", () => {
+    const s = play(classic, classic.initialState("a"), turns("a", [0, 3, 1, 4, 2]));
+    expect(classic.outcome(s)).toEqual({ winner: "a", reason: "ttt_win" });
+    expect(classic.legalMoves(s, "b")).toEqual([]);
+  });
+
+  it("is drawn when the board fills without a line", () => {
+    const s = play(classic, classic.initialState("a"), turns("a", [0, 1, 2, 4, 3, 5, 7, 6, 8]));
+    expect(classic.outcome(s)).toEqual({ winner: null, reason: "board_full" });
+  });
+
+  it("rejects moves out of turn, onto taken or missing cells and after the end", () => {
+    const s = play(classic, classic.initialState("a"), [["a", 4]]);
+    expect(rejection(classic, s, "a", 0)).toBe("not_your_turn");
+    expect(rejection(classic, s, "b", 4)).toBe("cell_occupied");
+    expect(rejection(classic, s, "b", 9)).toBe("cell_occupied");
+    expect(rejection(classic, s, "b", 1.5)).toBe("cell_occupied");
+    const won = play(classic, classic.initialState("a"), turns("a", [0, 3, 1, 4, 2]));
+    expect(rejection(classic, won, "b", 8)).toBe("game_already_ended");
+  });
+
+  it("gives the game to the other side when the clock runs out", () => {
+    const s = classic.timeout(play(classic, classic.initialState("a"), [["a", 4]]));
+    expect(s.outcome).toEqual({ winner: "a", reason: "turn_timeout" });
+  });
+});
+
+describe("tic-tac-toe Infinity", () => {
+  it("removes a side's oldest mark when it places a fourth", () => {
+    const s = play(ticTacToe, ticTacToe.initialState("a"), turns("a", [0, 3, 1, 4, 8, 6, 5]));
+    expect(s.board[0]).toBeNull();
+    expect(s.board[5]).toBe("X");
+    expect(s.moves.a).toEqual([1, 8, 5]);
+    expect(s.outcome).toBeNull();
+  });
+
+  it("counts a line completed by the fourth mark before the oldest one goes", () => {
+    const s = play(ticTacToe, ticTacToe.initialState("a"), turns("a", [0, 3, 1, 4, 8, 7, 2]));
+    expect(s.outcome).toEqual({ winner: "a", reason: "ttt_win" });
+    expect(s.board.slice(0, 3)).toEqual(["X", "X", "X"]);
+  });
+
+  it("never fills the board", () => {
+    let s = ticTacToe.initialState("a");
+    for (let i = 0; i < 30 && !s.outcome; i++) {
+      const side = s.turn;
+      const move = ticTacToe.legalMoves(s, side).find((cell) => {
+        const res = ticTacToe.applyMove(s, side, cell);
+        return res.ok && !res.state.outcome;
+      });
+      if (move === undefined) break;
+      s = play(ticTacToe, s, [[side, move]]);
+      expect(s.board.filter((v) => v !== null).length).toBeLessThanOrEqual(6);
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { type TriviaQuestion, TRIVIA_ANSWER_MS, createTrivia, triviaView } from "../src/rules/trivia.js";
+import { play, rejection } from "./play.js";
+
+const question = (id: string, answer: number): TriviaQuestion =>
+  ({ id, category: "General", difficulty: "easy", prompt: `Question ${id}?`, choices: ["w", "x", "y", "z"], answer });
+
+const trivia = createTrivia([question("q1", 2), question("q2", 0)]);
+
+describe("trivia", () => {
+  it("scores right answers with a speed bonus that shrinks over the clock", () => {
+    const s = play(trivia, trivia.initialState("a"), [["a", { choice: 2, ms: 0 }], ["b", { choice: 2, ms: TRIVIA_ANSWER_MS / 2 }]]);
+    expect(s.phase).toBe("reveal");
+    expect(s.lastReveal?.points).toEqual({ a: 200, b: 150 });
+    const wrong = play(trivia, trivia.initialState("a"), [["a", { choice: 1, ms: 0 }], ["b", { choice: 2, ms: TRIVIA_ANSWER_MS * 2 }]]);
+    expect(wrong.lastReveal?.points).toEqual({ a: 0, b: 100 });
+  });
+
+  it("rejects bad, repeated and late answers", () => {
+    const s = trivia.initialState("a");
+    expect(rejection(trivia, s, "a", { choice: 4, ms: 0 })).toBe("invalid_choice");
+    expect(rejection(trivia, s, "a", { choice: 0.5, ms: 0 })).toBe("invalid_choice");
+    expect(rejection(trivia, s, "a", { choice: 0, ms: -1 })).toBe("invalid_time");
+    const answered = play(trivia, s, [["a", { choice: 0, ms: 100 }]]);
+    expect(rejection(trivia, answered, "a", { choice: 1, ms: 200 })).toBe("already_answered");
+    expect(rejection(trivia, trivia.timeout(answered), "b", { choice: 2, ms: 300 })).toBe("question_closed");
+  });
+
+  it("closes the question on timeout and moves on after the reveal", () => {
+    const answered = play(trivia, trivia.initialState("a"), [["b", { choice: 2, ms: 1000 }]]);
+    const revealed = trivia.timeout(answered);
+    expect(revealed.lastReveal?.answers.a).toEqual({ choice: null, ms: TRIVIA_ANSWER_MS });
+    expect(revealed.scores.a).toBe(0);
+    expect(revealed.scores.b).toBeGreaterThan(100);
+    const next = trivia.timeout(revealed);
+    expect(next).toMatchObject({ index: 1, phase: "question", answers: { a: null, b: null } });
+  });
+
+  it("ends after the last question with the higher score winning, or a draw", () => {
+    const q2 = trivia.timeout(trivia.timeout(trivia.initialState("a")));
+    const won = play(trivia, q2, [["a", { choice: 0, ms: 0 }], ["b", { choice: 1, ms: 0 }]]);
+    expect(won.outcome).toEqual({ winner: "a", reason: "trivia_complete" });
+    const drawn = trivia.timeout(q2);
+    expect(drawn.outcome).toEqual({ winner: null, reason: "trivia_complete" });
+  });
+
+  it("never shows the answer of the open question", () => {
+    const s = play(trivia, trivia.initialState("a"), [["a", { choice: 1, ms: 0 }]]);
+    const view = triviaView(s, "b");
+    expect(view.question).not.toHaveProperty("answer");
+    expect(view).toMatchObject({ myChoice: null, answered: false, opponentAnswered: true, lastReveal: null });
+  });
+});